@@ -3,7 +3,13 @@ import { CommonModule } from '@angular/common'; // Directivas comunes como *ngIf
 import { Component, OnInit } from '@angular/core'; // Decorador Component e interfaz OnInit
 import { FormsModule } from '@angular/forms'; // Para formularios y two-way binding
 import { ApiService } from '../service/api.service'; // Servicio para comunicación con la API
+import { EntityStoreService } from '../service/entity-store.service'; // Caché compartida de categorías
+import { NotificationService } from '../service/notification.service';
+import { LOW_STOCK_THRESHOLD } from '../service/product-filter';
+import { Category } from '../models/category.model';
 import { ActivatedRoute, Router } from '@angular/router'; // Para navegación y parámetros de ruta
+import { I18nService } from '../service/i18n.service';
+import { TranslatePipe } from '../pipe/translate.pipe';
 
 /**
  * Componente AddEditProductComponent
@@ -29,7 +35,7 @@ import { ActivatedRoute, Router } from '@angular/router'; // Para navegación y
 @Component({
   selector: 'app-add-edit-product', // Selector para usar el componente en templates
   standalone: true, // Componente independiente, no requiere módulo padre
-  imports: [FormsModule, CommonModule], // Módulos necesarios para funcionalidad
+  imports: [FormsModule, CommonModule, TranslatePipe], // Módulos necesarios para funcionalidad
   templateUrl: './add-edit-product.component.html', // Template HTML del componente
   styleUrl: './add-edit-product.component.css', // Estilos CSS del componente
 })
@@ -40,13 +46,19 @@ export class AddEditProductComponent implements OnInit {
    * 
    * Inyecta las dependencias necesarias:
    * - ApiService: Para realizar operaciones CRUD de productos y categorías
+   * - EntityStoreService: Para obtener la lista de categorías compartida entre pantallas
    * - ActivatedRoute: Para acceder a parámetros de ruta (productId)
    * - Router: Para navegación programática post-operaciones
+   * - NotificationService: Para informar el resultado aunque se navegue a otra pantalla
+   * - I18nService: Para mostrar los mensajes en el idioma activo
    */
   constructor(
     private apiService: ApiService,
+    private entityStore: EntityStoreService,
     private route: ActivatedRoute,
-    private router: Router
+    private router: Router,
+    private notifications: NotificationService,
+    private i18n: I18nService
   ) { }
 
   // ID del producto a editar (null en modo creación)
@@ -57,6 +69,8 @@ export class AddEditProductComponent implements OnInit {
   sku: string = '' // Código SKU único del producto
   price: string = '' // Precio del producto (como string para validación)
   stockQuantity: string = '' // Cantidad en stock (como string para validación)
+  reorderPoint: string = '' // Punto de reposición (vacío = LOW_STOCK_THRESHOLD)
+  reorderQuantity: string = '' // Unidades a comprar al reponer (opcional)
   categoryId: string = '' // ID de la categoría a la que pertenece el producto
   description: string = '' // Descripción detallada del producto
 
@@ -67,11 +81,11 @@ export class AddEditProductComponent implements OnInit {
   // Control de estado del componente
   isEditing: boolean = false // true = modo edición, false = modo creación
 
-  // Datos relacionados
-  categories: any[] = [] // Lista de categorías disponibles para asignar al producto
+  // Punto de reposición de los productos que no tienen uno propio
+  lowStockThreshold = LOW_STOCK_THRESHOLD
 
-  // Variable para mostrar mensajes temporales al usuario
-  message: string = '' // Mensajes de éxito, error o información
+  // Datos relacionados
+  categories: Category[] = [] // Lista de categorías disponibles para asignar al producto
 
   /**
    * Método del ciclo de vida OnInit
@@ -112,20 +126,16 @@ export class AddEditProductComponent implements OnInit {
    * de productos en el sistema de inventario.
    */
   fetchCategories(): void {
-    // Llamada al servicio API para obtener todas las categorías
-    this.apiService.getAllCategory().subscribe({
-      // Manejo de respuesta exitosa
-      next: (res: any) => {
-        // Verificar que la respuesta del servidor sea exitosa
-        if (res.status === 200) {
-          // Asignar la lista de categorías al array local
-          this.categories = res.categories
-        }
+    // Categorías desde la caché compartida (se consultan al servidor solo si hace falta)
+    this.entityStore.getCategories().subscribe({
+      // Asignar la lista de categorías al array local
+      next: (categories) => {
+        this.categories = categories
       },
       // Manejo de errores al obtener categorías
       error: (error) => {
         // Mostrar mensaje de error detallado al usuario
-        this.showMessage(error?.error?.message || error?.message || "No se pudieron obtener las categorías" + error)
+        this.notifications.error(this.i18n.errorMessage(error, 'productForm.categoriesFailed'))
       }
     })
   }
@@ -146,7 +156,7 @@ export class AddEditProductComponent implements OnInit {
     // Llamada al servicio API para obtener datos del producto específico
     this.apiService.getProductById(productId).subscribe({
       // Manejo de respuesta exitosa
-      next: (res: any) => {
+      next: (res) => {
         // Verificar que la respuesta del servidor sea exitosa
         if (res.status === 200) {
           // Extraer datos del producto de la respuesta
@@ -155,20 +165,22 @@ export class AddEditProductComponent implements OnInit {
           // Asignar datos del producto a los campos del formulario
           this.name = product.name; // Nombre del producto
           this.sku = product.sku; // Código SKU
-          this.price = product.price; // Precio
-          this.stockQuantity = product.stockQuantity; // Cantidad en stock
-          this.categoryId = product.caetgoryId; // ID de categoría (nota: posible typo en API)
-          this.description = product.description; // Descripción
-          this.imageUrl = product.imageUrl; // URL de imagen existente
+          this.price = String(product.price); // Precio
+          this.stockQuantity = String(product.stockQuantity); // Cantidad en stock
+          this.reorderPoint = product.reorderPoint != null ? String(product.reorderPoint) : ''; // Punto de reposición
+          this.reorderQuantity = product.reorderQuantity != null ? String(product.reorderQuantity) : ''; // Cantidad a reponer
+          this.categoryId = product.categoryId; // ID de categoría
+          this.description = product.description ?? ''; // Descripción
+          this.imageUrl = product.imageUrl ?? ''; // URL de imagen existente
         } else {
           // Manejar respuesta con status diferente a 200
-          this.showMessage(res.message);
+          this.notifications.error(res.message);
         }
       },
       // Manejo de errores al obtener datos del producto
       error: (error) => {
         // Mostrar mensaje de error detallado al usuario
-        this.showMessage(error?.error?.message || error?.message || "No se pudo obtener el producto por ID" + error)
+        this.notifications.error(this.i18n.errorMessage(error, 'productForm.loadFailed'))
       }
     })
   }
@@ -241,6 +253,8 @@ export class AddEditProductComponent implements OnInit {
     formData.append("sku", this.sku); // Código SKU único
     formData.append("price", this.price); // Precio del producto
     formData.append("stockQuantity", this.stockQuantity); // Cantidad en inventario
+    formData.append("reorderPoint", this.reorderPoint ?? ''); // Punto de reposición (vacío = sin definir)
+    formData.append("reorderQuantity", this.reorderQuantity ?? ''); // Cantidad a reponer (vacío = sin definir)
     formData.append("categoryId", this.categoryId); // ID de categoría asignada
     formData.append("description", this.description); // Descripción detallada
 
@@ -259,17 +273,17 @@ export class AddEditProductComponent implements OnInit {
       // Llamada al servicio API para actualizar producto
       this.apiService.updateProduct(formData).subscribe({
         // Manejo de actualización exitosa
-        next: (res: any) => {
+        next: (res) => {
           if (res.status === 200) {
             // Mostrar mensaje de confirmación
-            this.showMessage("producto actualizado correctamente")
+            this.notifications.success(this.i18n.translate('productForm.updated'))
             // Redirigir a la lista de productos
             this.router.navigate(['/product'])
           }
         },
         // Manejo de errores durante la actualización
         error: (error) => {
-          this.showMessage(error?.error?.message || error?.message || "No se pudo actualizar el producto" + error)
+          this.notifications.error(this.i18n.errorMessage(error, 'productForm.updateFailed'))
         }
       })
     } else {
@@ -278,46 +292,19 @@ export class AddEditProductComponent implements OnInit {
       // Llamada al servicio API para crear nuevo producto
       this.apiService.addProduct(formData).subscribe({
         // Manejo de creación exitosa
-        next: (res: any) => {
+        next: (res) => {
           if (res.status === 200) {
             // Mostrar mensaje de confirmación
-            this.showMessage("Producto guardado correctamente")
+            this.notifications.success(this.i18n.translate('productForm.created'))
             // Redirigir a la lista de productos
             this.router.navigate(['/product'])
           }
         },
         // Manejo de errores durante la creación
         error: (error) => {
-          this.showMessage(error?.error?.message || error?.message || "No se pudo guardar el producto" + error)
+          this.notifications.error(this.i18n.errorMessage(error, 'productForm.createFailed'))
         }
       })
     }
   }
-
-  /**
-   * Muestra un mensaje temporal al usuario
-   * 
-   * Utilidad para mostrar mensajes informativos, de éxito o de error
-   * relacionados con las operaciones de productos. Los mensajes se ocultan
-   * automáticamente después de un período determinado.
-   * 
-   * @param message - El mensaje de texto a mostrar al usuario
-   * 
-   * Características:
-   * - Muestra el mensaje inmediatamente en la interfaz
-   * - Se oculta automáticamente después de 4 segundos
-   * - Útil para feedback de operaciones CRUD de productos
-   * - Proporciona retroalimentación visual sobre éxito/error
-   * - Especialmente importante para confirmar operaciones exitosas
-   *   con archivos y alertar sobre errores de validación o problemas del servidor
-   * - Maneja tanto mensajes simples como errores complejos de upload de archivos
-   */
-  showMessage(message: string) {
-    // Asigna el mensaje para mostrarlo en el template
-    this.message = message;
-    // Programa la limpieza del mensaje después de 4 segundos
-    setTimeout(() => {
-      this.message = ''
-    }, 4000)
-  }
 }
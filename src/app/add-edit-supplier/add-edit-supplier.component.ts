@@ -4,6 +4,10 @@ import { Component, OnInit } from '@angular/core'; // Decorador Component e inte
 import { FormsModule } from '@angular/forms'; // Para formularios y two-way binding
 import { Router, RouterLink } from '@angular/router'; // Para navegación programática y enlaces
 import { ApiService } from '../service/api.service'; // Servicio para comunicación con la API
+import { NotificationService } from '../service/notification.service';
+import { SupplierRequest } from '../models/supplier.model';
+import { I18nService } from '../service/i18n.service';
+import { TranslatePipe } from '../pipe/translate.pipe';
 
 /**
  * Componente AddEditSupplierComponent
@@ -25,7 +29,7 @@ import { ApiService } from '../service/api.service'; // Servicio para comunicaci
 @Component({
   selector: 'app-add-edit-supplier', // Selector para usar el componente en templates
   standalone: true, // Componente independiente, no requiere módulo padre
-  imports: [FormsModule, CommonModule], // Módulos necesarios para funcionalidad
+  imports: [FormsModule, CommonModule, TranslatePipe], // Módulos necesarios para funcionalidad
   templateUrl: './add-edit-supplier.component.html', // Template HTML del componente
   styleUrl: './add-edit-supplier.component.css', // Estilos CSS del componente
 })
@@ -37,11 +41,15 @@ export class AddEditSupplierComponent implements OnInit {
    * Inyecta las dependencias necesarias:
    * - ApiService: Para realizar operaciones CRUD de proveedores
    * - Router: Para navegación programática y obtención de parámetros de URL
+   * - NotificationService: Para informar el resultado aunque se navegue a otra pantalla
+   * - I18nService: Para mostrar los mensajes en el idioma activo
    */
-  constructor(private apiService: ApiService, private router: Router) { }
-
-  // Variable para mostrar mensajes temporales al usuario
-  message: string = ''; // Mensajes de éxito, error o información
+  constructor(
+    private apiService: ApiService,
+    private router: Router,
+    private notifications: NotificationService,
+    private i18n: I18nService
+  ) { }
 
   // Bandera para determinar el modo de operación del componente
   isEditing: boolean = false; // true = modo edición, false = modo creación
@@ -50,7 +58,7 @@ export class AddEditSupplierComponent implements OnInit {
   supplierId: string | null = null; // Extraído de la URL cuando está presente
 
   // Objeto que contiene los datos del formulario de proveedor
-  formData: any = {
+  formData: SupplierRequest = {
     name: '', // Nombre del proveedor
     address: '', // Dirección del proveedor
   };
@@ -91,7 +99,7 @@ export class AddEditSupplierComponent implements OnInit {
     // Llamada al servicio API para obtener datos del proveedor
     this.apiService.getSupplierById(this.supplierId!).subscribe({
       // Manejo de respuesta exitosa
-      next: (res: any) => {
+      next: (res) => {
         // Verificar que la respuesta del servidor sea exitosa
         if (res.status === 200) {
           // Asignar los datos del proveedor al formulario
@@ -104,11 +112,7 @@ export class AddEditSupplierComponent implements OnInit {
       // Manejo de errores al obtener datos del proveedor
       error: (error) => {
         // Mostrar mensaje de error detallado al usuario
-        this.showMessage(
-          error?.error?.message ||
-          error?.message ||
-          'Unable to get supplier by id' + error
-        );
+        this.notifications.error(this.i18n.errorMessage(error, 'supplierForm.loadFailed'));
       },
     });
   }
@@ -130,7 +134,7 @@ export class AddEditSupplierComponent implements OnInit {
   handleSubmit() {
     // Validación de campos requeridos
     if (!this.formData.name || !this.formData.address) {
-      this.showMessage('Todos los campos son necesarios');
+      this.notifications.warning(this.i18n.translate('common.requiredFields'));
       return;
     }
 
@@ -145,62 +149,36 @@ export class AddEditSupplierComponent implements OnInit {
       // *** MODO EDICIÓN: Actualizar proveedor existente ***
       this.apiService.updateSupplier(this.supplierId!, supplierData).subscribe({
         // Manejo de actualización exitosa
-        next: (res: any) => {
+        next: (res) => {
           if (res.status === 200) {
             // Mostrar mensaje de confirmación
-            this.showMessage("Supplier updated successfully");
+            this.notifications.success(this.i18n.translate('supplierForm.updated'));
             // Redirigir a la lista de proveedores
             this.router.navigate(['/supplier'])
           }
         },
         // Manejo de errores durante la actualización
         error: (error) => {
-          this.showMessage(error?.error?.message || error?.message || "No se pudo editar el proveedor" + error)
+          this.notifications.error(this.i18n.errorMessage(error, 'supplierForm.updateFailed'))
         }
       })
     } else {
       // *** MODO CREACIÓN: Agregar nuevo proveedor ***
       this.apiService.addSupplier(supplierData).subscribe({
         // Manejo de creación exitosa
-        next: (res: any) => {
+        next: (res) => {
           if (res.status === 200) {
             // Mostrar mensaje de confirmación
-            this.showMessage("Proveedor agregado correctamente");
+            this.notifications.success(this.i18n.translate('supplierForm.created'));
             // Redirigir a la lista de proveedores
             this.router.navigate(['/supplier'])
           }
         },
         // Manejo de errores durante la creación
         error: (error) => {
-          this.showMessage(error?.error?.message || error?.message || "No se pudo agregar el proveedor" + error)
+          this.notifications.error(this.i18n.errorMessage(error, 'supplierForm.createFailed'))
         }
       })
     }
   }
-
-  /**
-   * Muestra un mensaje temporal al usuario
-   * 
-   * Utilidad para mostrar mensajes informativos, de éxito o de error
-   * relacionados con las operaciones de proveedores. Los mensajes se ocultan
-   * automáticamente después de un período determinado.
-   * 
-   * @param message - El mensaje de texto a mostrar al usuario
-   * 
-   * Características:
-   * - Muestra el mensaje inmediatamente en la interfaz
-   * - Se oculta automáticamente después de 4 segundos
-   * - Útil para feedback de operaciones CRUD de proveedores
-   * - Proporciona retroalimentación visual sobre éxito/error
-   * - Especialmente importante para confirmar operaciones exitosas
-   *   y alertar sobre errores de validación o problemas del servidor
-   */
-  showMessage(message: string) {
-    // Asigna el mensaje para mostrarlo en el template
-    this.message = message;
-    // Programa la limpieza del mensaje después de 4 segundos
-    setTimeout(() => {
-      this.message = '';
-    }, 4000);
-  }
 }
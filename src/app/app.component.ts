@@ -1,8 +1,18 @@
 // Importaciones necesarias de Angular y servicios
 import { CommonModule } from '@angular/common';
-import { ChangeDetectorRef, Component } from '@angular/core';
+import { ChangeDetectorRef, Component, OnInit } from '@angular/core';
 import { Router, RouterLink, RouterOutlet } from '@angular/router';
 import { ApiService } from './service/api.service';
+import { SessionWarningComponent } from './session-warning/session-warning.component';
+import { HasPermissionDirective } from './directive/has-permission.directive';
+import { LockScreenComponent } from './lock-screen/lock-screen.component';
+import { IdleService } from './service/idle.service';
+import { OutboxService } from './service/outbox.service';
+import { LowStockService } from './service/low-stock.service';
+import { OutboxStatusComponent } from './outbox-status/outbox-status.component';
+import { ToastComponent } from './toast/toast.component';
+import { I18nService, Locale } from './service/i18n.service';
+import { TranslatePipe } from './pipe/translate.pipe';
 
 /**
  * Componente raíz de la aplicación - AppComponent
@@ -15,13 +25,13 @@ import { ApiService } from './service/api.service';
 @Component({
   selector: 'app-root', // Selector del componente raíz
   standalone: true, // Componente standalone (no requiere NgModule)
-  imports: [RouterOutlet, RouterLink, CommonModule], // Módulos importados necesarios
+  imports: [RouterOutlet, RouterLink, CommonModule, SessionWarningComponent, LockScreenComponent, OutboxStatusComponent, ToastComponent, HasPermissionDirective, TranslatePipe], // Módulos importados necesarios
   templateUrl: './app.component.html', // Template HTML del componente
   styleUrl: './app.component.css', // Estilos CSS del componente
 })
 
 
-export class AppComponent {
+export class AppComponent implements OnInit {
   // Título de la aplicación - identificador del Sistema de Gestión de Inventario
   title = 'ims';
 
@@ -32,17 +42,71 @@ export class AppComponent {
    * - ApiService: Para manejo de autenticación y comunicación con el backend
    * - Router: Para navegación programática entre rutas
    * - ChangeDetectorRef: Para control manual de detección de cambios
+   * - IdleService: Para bloquear la terminal tras un período de inactividad
+   * - OutboxService: Para reenviar las transacciones registradas sin conexión
+   * - LowStockService: Para el contador de productos a reponer de la barra lateral
+   * - I18nService: Para el selector de idioma de la barra lateral
    * 
    * @param apiService - Servicio para operaciones de API y autenticación
    * @param router - Servicio de enrutamiento de Angular
    * @param cdr - Referencia para detección manual de cambios
+   * @param idleService - Servicio de bloqueo por inactividad
+   * @param outboxService - Cola de transacciones pendientes de sincronizar
+   * @param lowStock - Productos en su punto de reposición
+   * @param i18n - Servicio de idioma y traducciones
    */
   constructor(
     private apiService: ApiService,
     private router: Router,
-    private cdr: ChangeDetectorRef
+    private cdr: ChangeDetectorRef,
+    private idleService: IdleService,
+    private outboxService: OutboxService,
+    private lowStock: LowStockService,
+    private i18n: I18nService
   ) { }
 
+  // Idiomas disponibles en el selector de la barra lateral
+  locales = I18nService.LOCALES;
+
+  /**
+   * Inicia el monitor de inactividad y la cola de transacciones sin conexión
+   * 
+   * Las pantallas de venta y compra se usan en mostradores compartidos:
+   * tras un período sin actividad se bloquea la terminal y, si nadie la
+   * desbloquea, se cierra la sesión. Las ventas y compras registradas sin
+   * conexión se reenvían al volver la conectividad. Los productos que
+   * llegan a su punto de reposición se cuentan en la barra lateral.
+   */
+  ngOnInit(): void {
+    this.idleService.watch();
+    this.outboxService.watch();
+    this.lowStock.watch();
+    // Idioma del documento, para lectores de pantalla y el corrector ortográfico
+    document.documentElement.lang = this.i18n.locale;
+  }
+
+  /**
+   * Cantidad de productos a reponer, para el contador de la barra lateral
+   */
+  get lowStockCount(): number {
+    return this.lowStock.count;
+  }
+
+  /**
+   * Idioma activo de la interfaz
+   */
+  get locale(): Locale {
+    return this.i18n.locale;
+  }
+
+  /**
+   * Cambia el idioma de la interfaz (recarga la aplicación)
+   * @param locale - Idioma elegido en el selector
+   */
+  changeLocale(locale: Locale): void {
+    this.i18n.setLocale(locale);
+  }
+
 
   /**
    * Verifica si el usuario está autenticado
@@ -58,31 +122,18 @@ export class AppComponent {
     return this.apiService.isAuthenticated();
   }
 
-  /**
-   * Verifica si el usuario autenticado tiene privilegios de administrador
-   * 
-   * Este método consulta al ApiService para determinar si el usuario
-   * actual tiene rol de administrador. Se utiliza para controlar el
-   * acceso a funcionalidades administrativas en la interfaz de usuario.
-   * 
-   * @returns {boolean} true si el usuario es administrador, false en caso contrario
-   */
-  isAdmin(): boolean {
-    return this.apiService.isAdmin();
-  }
-
   /**
    * Cierra la sesión del usuario actual
    * 
    * Este método realiza el proceso completo de logout:
-   * 1. Llama al ApiService para limpiar datos de sesión (token, usuario)
+   * 1. Llama al ApiService para limpiar datos de sesión (token, usuario) y borradores de formularios
    * 2. Navega al usuario de vuelta a la página de login
    * 3. Fuerza la detección de cambios para actualizar la UI inmediatamente
    * 
    * Se ejecuta cuando el usuario hace clic en el botón de cerrar sesión.
    */
   logOut(): void {
-    this.apiService.logout(); // Limpiar datos de autenticación
+    this.apiService.logout(); // Limpiar datos de autenticación y borradores
     this.router.navigate(["/login"]); // Navegar a la página de login
     this.cdr.detectChanges(); // Forzar actualización de la UI
   }
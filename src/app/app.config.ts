@@ -1,8 +1,36 @@
-import { ApplicationConfig, provideZoneChangeDetection } from '@angular/core';
+import { APP_INITIALIZER, ApplicationConfig, DEFAULT_CURRENCY_CODE, LOCALE_ID, provideZoneChangeDetection } from '@angular/core';
+import { registerLocaleData } from '@angular/common';
+import localeEsAr from '@angular/common/locales/es-AR';
 import { provideRouter } from '@angular/router';
 import { routes } from './app.routes';
-import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { authInterceptor } from './service/auth.interceptor';
+import { mockBackendInterceptor } from './mock/mock-backend.interceptor';
+import { ApiService } from './service/api.service';
+import { ConfigService } from './service/config.service';
+import { I18nService } from './service/i18n.service';
+
+// Datos de formato de los locales admitidos en config.json (en-US viene incluido en Angular)
+registerLocaleData(localeEsAr);
 
 export const appConfig: ApplicationConfig = {
-  providers: [provideZoneChangeDetection({ eventCoalescing: true }), provideRouter(routes), provideHttpClient()]
+  providers: [
+    provideZoneChangeDetection({ eventCoalescing: true }),
+    provideRouter(routes),
+    // El backend simulado va último: reemplaza al servidor solo si config.json lo habilita
+    provideHttpClient(withInterceptors([authInterceptor, mockBackendInterceptor])),
+    // Cargar config.json y luego restaurar (desencriptar y verificar) la sesión guardada antes de la primera navegación
+    {
+      provide: APP_INITIALIZER,
+      useFactory: (config: ConfigService, apiService: ApiService) => async () => {
+        await config.load();
+        await apiService.restoreSession();
+      },
+      deps: [ConfigService, ApiService],
+      multi: true,
+    },
+    // Locale de los pipes date, number y currency según el idioma elegido (o config.json) y moneda según config.json
+    { provide: LOCALE_ID, useFactory: (i18n: I18nService) => i18n.locale, deps: [I18nService] },
+    { provide: DEFAULT_CURRENCY_CODE, useFactory: (config: ConfigService) => config.currency, deps: [ConfigService] },
+  ]
 };
@@ -1,17 +1,20 @@
 // Importaciones de Angular Router y servicios de seguridad
 import { Routes } from '@angular/router';
 import { GuardService } from './service/guard.service';
+import { Permission } from './service/permissions';
 
 // Importaciones de componentes de autenticación
 import { LoginComponent } from './login/login.component';
 import { RegisterComponent } from './register/register.component';
+import { ForbiddenComponent } from './forbidden/forbidden.component';
 
-// Importaciones de componentes de gestión (solo administradores)
+// Importaciones de componentes de gestión (administradores y encargados)
 import { CategoryComponent } from './category/category.component';
 import { SupplierComponent } from './supplier/supplier.component';
 import { AddEditSupplierComponent } from './add-edit-supplier/add-edit-supplier.component';
 import { ProductComponent } from './product/product.component';
 import { AddEditProductComponent } from './add-edit-product/add-edit-product.component';
+import { ImportProductsComponent } from './import-products/import-products.component';
 
 // Importaciones de componentes de transacciones (usuarios autenticados)
 import { PurchaseComponent } from './purchase/purchase.component';
@@ -28,49 +31,52 @@ import { DashboardComponent } from './dashboard/dashboard.component';
  * 
  * Este archivo define todas las rutas de la aplicación organizadas por niveles de acceso:
  * - Rutas públicas: Login y registro (sin autenticación)
- * - Rutas de administrador: Gestión de categorías, proveedores y productos
+ * - Rutas de gestión: Categorías, proveedores y productos
  * - Rutas de usuario autenticado: Transacciones, perfil y dashboard
  * 
- * Utiliza GuardService para proteger rutas y controlar acceso basado en roles.
+ * Utiliza GuardService para proteger rutas: cada ruta declara en data.permissions
+ * los permisos que requiere (ver ROLE_PERMISSIONS en service/permissions.ts).
  */
 export const routes: Routes = [
 
   // ========== RUTAS PÚBLICAS (Sin autenticación requerida) ==========
   { path: 'login', component: LoginComponent }, // Página de inicio de sesión
   { path: 'register', component: RegisterComponent }, // Página de registro de nuevos usuarios
+  { path: 'forbidden', component: ForbiddenComponent }, // Acceso denegado (respuesta 403 del backend)
 
-  // ========== RUTAS DE ADMINISTRADOR (Requieren autenticación + rol admin) ==========
+  // ========== RUTAS DE GESTIÓN (Requieren autenticación + permisos de gestión) ==========
 
-  // Gestión de categorías - Solo administradores
-  { path: 'category', component: CategoryComponent, canActivate: [GuardService], data: { requiresAdmin: true } },
+  // Gestión de categorías - Administradores y encargados
+  { path: 'category', component: CategoryComponent, canActivate: [GuardService], data: { permissions: [Permission.MANAGE_CATEGORIES] } },
 
-  // Gestión de proveedores - Solo administradores
-  { path: 'supplier', component: SupplierComponent, canActivate: [GuardService], data: { requiresAdmin: true } },
-  { path: 'edit-supplier/:supplierId', component: AddEditSupplierComponent, canActivate: [GuardService], data: { requiresAdmin: true } },
-  { path: 'add-supplier', component: AddEditSupplierComponent, canActivate: [GuardService], data: { requiresAdmin: true } },
+  // Gestión de proveedores - Administradores y encargados
+  { path: 'supplier', component: SupplierComponent, canActivate: [GuardService], data: { permissions: [Permission.MANAGE_SUPPLIERS] } },
+  { path: 'edit-supplier/:supplierId', component: AddEditSupplierComponent, canActivate: [GuardService], data: { permissions: [Permission.MANAGE_SUPPLIERS] } },
+  { path: 'add-supplier', component: AddEditSupplierComponent, canActivate: [GuardService], data: { permissions: [Permission.MANAGE_SUPPLIERS] } },
 
-  // Gestión de productos - Solo administradores
-  { path: 'product', component: ProductComponent, canActivate: [GuardService], data: { requiresAdmin: true } },
-  { path: 'edit-product/:productId', component: AddEditProductComponent, canActivate: [GuardService], data: { requiresAdmin: true } },
-  { path: 'add-product', component: AddEditProductComponent, canActivate: [GuardService], data: { requiresAdmin: true } },
+  // Gestión de productos - Administradores y encargados
+  { path: 'product', component: ProductComponent, canActivate: [GuardService], data: { permissions: [Permission.MANAGE_PRODUCTS] } },
+  { path: 'edit-product/:productId', component: AddEditProductComponent, canActivate: [GuardService], data: { permissions: [Permission.MANAGE_PRODUCTS] } },
+  { path: 'add-product', component: AddEditProductComponent, canActivate: [GuardService], data: { permissions: [Permission.MANAGE_PRODUCTS] } },
+  { path: 'import-products', component: ImportProductsComponent, canActivate: [GuardService], data: { permissions: [Permission.MANAGE_PRODUCTS] } }, // Alta en lote desde CSV/XLSX
 
-  // ========== RUTAS DE USUARIOS AUTENTICADOS (Requieren solo autenticación) ==========
+  // ========== RUTAS DE USUARIOS AUTENTICADOS (Requieren el permiso de cada operación) ==========
 
-  // Operaciones de transacciones - Todos los usuarios autenticados
-  { path: 'purchase', component: PurchaseComponent, canActivate: [GuardService] }, // Registrar compras de inventario
-  { path: 'sell', component: SellComponent, canActivate: [GuardService] }, // Registrar ventas de productos
+  // Operaciones de transacciones - Según el permiso de compra o venta del rol
+  { path: 'purchase', component: PurchaseComponent, canActivate: [GuardService], data: { permissions: [Permission.PURCHASE] } }, // Registrar compras de inventario
+  { path: 'sell', component: SellComponent, canActivate: [GuardService], data: { permissions: [Permission.SELL] } }, // Registrar ventas de productos
 
-  // Historial y detalles de transacciones - Todos los usuarios autenticados
-  { path: 'transaction', component: TransactionComponent, canActivate: [GuardService] }, // Lista de todas las transacciones
-  { path: 'transaction/:transactionId', component: TransactionDetailsComponent, canActivate: [GuardService] }, // Detalles específicos de una transacción
+  // Historial y detalles de transacciones - Usuarios con permiso de consulta
+  { path: 'transaction', component: TransactionComponent, canActivate: [GuardService], data: { permissions: [Permission.VIEW_TRANSACTIONS] } }, // Lista de todas las transacciones
+  { path: 'transaction/:transactionId', component: TransactionDetailsComponent, canActivate: [GuardService], data: { permissions: [Permission.VIEW_TRANSACTIONS] } }, // Detalles específicos de una transacción
 
   // ========== RUTAS DE PERFIL Y ANÁLISIS ==========
 
   // Gestión de perfil personal - Todos los usuarios autenticados
-  { path: 'profile', component: ProfileComponent, canActivate: [GuardService] },
+  { path: 'profile', component: ProfileComponent, canActivate: [GuardService], data: { permissions: [Permission.VIEW_PROFILE] } },
 
-  // Dashboard con estadísticas y gráficos - Todos los usuarios autenticados
-  { path: 'dashboard', component: DashboardComponent, canActivate: [GuardService] },
+  // Dashboard con estadísticas y gráficos - Usuarios con permiso de consulta
+  { path: 'dashboard', component: DashboardComponent, canActivate: [GuardService], data: { permissions: [Permission.VIEW_DASHBOARD] } },
 
   // ========== RUTAS DE NAVEGACIÓN Y FALLBACK ==========
 
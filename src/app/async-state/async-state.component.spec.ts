@@ -0,0 +1,104 @@
+// Importaciones necesarias para las pruebas unitarias de Angular
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+
+// Importación del componente que vamos a probar
+import { AsyncStateComponent } from './async-state.component';
+import { AsyncState, LOADING } from '../service/async-state';
+
+/**
+ * Componente anfitrión para probar el contenido proyectado
+ */
+@Component({
+  standalone: true,
+  imports: [AsyncStateComponent],
+  template: `
+    <app-async-state [state]="state" emptyMessage="Sin productos" (retry)="retries = retries + 1">
+      <p class="content">Contenido</p>
+    </app-async-state>
+  `
+})
+class HostComponent {
+  state: AsyncState = LOADING;
+  retries = 0;
+}
+
+/**
+ * Suite de pruebas para el AsyncStateComponent
+ * Contiene las pruebas unitarias para verificar los estados de carga,
+ * vacío y error de las vistas de datos
+ */
+describe('AsyncStateComponent', () => {
+  // Variables para manejar la instancia del anfitrión y el fixture de prueba
+  let host: HostComponent;
+  let fixture: ComponentFixture<HostComponent>;
+
+  /**
+   * Configuración que se ejecuta antes de cada prueba
+   * Prepara el entorno de testing y crea una instancia del anfitrión
+   */
+  beforeEach(async () => {
+    // Configuración del módulo de testing
+    await TestBed.configureTestingModule({
+      imports: [HostComponent], // Importar el componente standalone
+      providers: [provideHttpClient()]
+    })
+      .compileComponents(); // Compilar los componentes
+
+    // Crear una instancia del anfitrión para testing
+    fixture = TestBed.createComponent(HostComponent);
+    host = fixture.componentInstance;
+    // Detectar cambios para inicializar el componente
+    fixture.detectChanges();
+  });
+
+  /**
+   * Mientras se carga por primera vez se muestran los marcadores de posición
+   */
+  it('should show skeletons while loading', () => {
+    expect(fixture.nativeElement.querySelector('.skeleton')).toBeTruthy();
+    expect(fixture.nativeElement.querySelector('.content')).toBeNull();
+  });
+
+  /**
+   * Sin datos se muestra el mensaje de vacío
+   */
+  it('should show the empty message', () => {
+    host.state = { status: 'empty' };
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.async-empty').textContent).toContain('Sin productos');
+    expect(fixture.nativeElement.querySelector('.content')).toBeNull();
+  });
+
+  /**
+   * Ante un error se muestra el mensaje y el botón para reintentar
+   */
+  it('should show the error and emit retry', () => {
+    host.state = { status: 'error', message: 'No se pudo conectar con el servidor' };
+    fixture.detectChanges();
+
+    const error: HTMLElement = fixture.nativeElement.querySelector('.async-error');
+    expect(error.textContent).toContain('No se pudo conectar con el servidor');
+
+    error.querySelector('button')!.click();
+    expect(host.retries).toBe(1);
+  });
+
+  /**
+   * Al recargar una vista con datos, el contenido sigue visible
+   */
+  it('should keep the content visible while reloading', () => {
+    host.state = { status: 'loaded' };
+    fixture.detectChanges();
+    expect(fixture.nativeElement.querySelector('.content')).toBeTruthy();
+
+    host.state = { status: 'loading' };
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.content')).toBeTruthy();
+    expect(fixture.nativeElement.querySelector('.refreshing')).toBeTruthy();
+    expect(fixture.nativeElement.querySelector('.skeleton')).toBeNull();
+  });
+});
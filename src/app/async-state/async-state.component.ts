@@ -0,0 +1,103 @@
+// Importaciones necesarias para el funcionamiento del componente
+import { CommonModule } from '@angular/common';
+import { Component, EventEmitter, Input, OnChanges, Output } from '@angular/core';
+import { AsyncState } from '../service/async-state';
+import { TranslatePipe } from '../pipe/translate.pipe';
+
+/**
+ * Forma de los marcadores de posición (skeletons) mientras se carga una vista
+ *
+ * - list: filas de texto (categorías, proveedores)
+ * - media: filas con imagen (productos)
+ * - table: filas con columnas (transacciones)
+ * - detail: tarjeta con título y líneas (detalles, perfil)
+ * - chart: barras de un gráfico (dashboard)
+ */
+export type SkeletonKind = 'list' | 'media' | 'table' | 'detail' | 'chart';
+
+/**
+ * Componente de Estado de Carga Reutilizable
+ * Muestra marcadores de posición mientras se cargan los datos, un mensaje
+ * cuando no hay nada que mostrar y el error con un botón para reintentar.
+ * El contenido proyectado se muestra cuando los datos ya llegaron; al recargar
+ * una vista que ya tenía datos (ej: tras eliminar un elemento) el contenido
+ * sigue visible en lugar de volver a los marcadores
+ */
+@Component({
+  selector: 'app-async-state',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe], // Módulos para directivas comunes y traducciones
+  templateUrl: './async-state.component.html',
+  styleUrl: './async-state.component.css'
+})
+export class AsyncStateComponent implements OnChanges {
+
+  /**
+   * Propiedad de entrada: estado de la carga de datos de la vista
+   */
+  @Input({ required: true }) state!: AsyncState;
+
+  /**
+   * Propiedad de entrada: forma de los marcadores de posición
+   */
+  @Input() skeleton: SkeletonKind = 'list';
+
+  /**
+   * Propiedad de entrada: cantidad de filas de los marcadores de posición
+   */
+  @Input() rows: number = 5;
+
+  /**
+   * Propiedad de entrada: mensaje a mostrar cuando no hay datos
+   * (si no se indica, un mensaje genérico en el idioma activo)
+   */
+  @Input() emptyMessage: string = '';
+
+  /**
+   * Evento de salida: el usuario pidió reintentar la carga fallida
+   */
+  @Output() retry = new EventEmitter<void>();
+
+  /**
+   * Indica si la vista ya mostró datos, para no ocultarlos al recargar
+   */
+  private hasContent = false;
+
+  /**
+   * Recuerda si la última carga finalizada trajo datos
+   * @returns void
+   */
+  ngOnChanges(): void {
+    if (this.state.status !== 'loading') {
+      this.hasContent = this.state.status === 'loaded';
+    }
+  }
+
+  /**
+   * Indica si se debe mostrar el contenido proyectado
+   */
+  get showContent(): boolean {
+    return this.state.status === 'loaded' || (this.state.status === 'loading' && this.hasContent);
+  }
+
+  /**
+   * Indica si se deben mostrar los marcadores de posición
+   */
+  get showSkeleton(): boolean {
+    return this.state.status === 'loading' && !this.hasContent;
+  }
+
+  /**
+   * Mensaje del error de la última carga (vacío si no falló)
+   */
+  get errorMessage(): string {
+    return this.state.status === 'error' ? this.state.message : '';
+  }
+
+  /**
+   * Arreglo con una posición por fila de los marcadores
+   */
+  get skeletonRows(): number[] {
+    return Array.from({ length: this.rows }, (_, i) => i);
+  }
+}
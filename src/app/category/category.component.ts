@@ -3,15 +3,14 @@ import { CommonModule } from '@angular/common';
 import { Component, OnInit } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { ApiService } from '../service/api.service';
-
-/**
- * Interfaz que define la estructura de una categoría
- * @interface Category
- */
-interface Category {
-  id: string,
-  name: string
-}
+import { EntityStoreService } from '../service/entity-store.service';
+import { NotificationService } from '../service/notification.service';
+import { AsyncState, LOADING, errorState, loadedState } from '../service/async-state';
+import { AsyncStateComponent } from '../async-state/async-state.component';
+import { Category } from '../models/category.model';
+import { sameId } from '../service/ids';
+import { I18nService } from '../service/i18n.service';
+import { TranslatePipe } from '../pipe/translate.pipe';
 
 /**
  * Componente de Gestión de Categorías
@@ -21,7 +20,7 @@ interface Category {
 @Component({
   selector: 'app-category',
   standalone: true,
-  imports: [CommonModule, FormsModule], // Módulos para directivas comunes y manejo de formularios
+  imports: [CommonModule, FormsModule, AsyncStateComponent, TranslatePipe], // Módulos para directivas comunes, manejo de formularios y estado de carga
   templateUrl: './category.component.html',
   styleUrl: './category.component.css'
 })
@@ -34,14 +33,14 @@ export class CategoryComponent implements OnInit {
   categories: Category[] = [];
 
   /**
-   * Nombre de la categoría para crear o editar
+   * Estado de la carga de la lista (cargando, vacía, con error)
    */
-  categoryName: string = '';
+  state: AsyncState = LOADING;
 
   /**
-   * Variable para mostrar mensajes de éxito o error al usuario
+   * Nombre de la categoría para crear o editar
    */
-  message: string = '';
+  categoryName: string = '';
 
   /**
    * Bandera que indica si se está en modo edición
@@ -56,8 +55,16 @@ export class CategoryComponent implements OnInit {
   /**
    * Constructor del componente
    * @param apiService - Servicio para realizar operaciones CRUD con la API
+   * @param entityStore - Caché compartida de la lista de categorías
+   * @param notifications - Servicio para informar el resultado de las operaciones
+   * @param i18n - Servicio de traducciones del idioma activo
    */
-  constructor(private apiService: ApiService) { }
+  constructor(
+    private apiService: ApiService,
+    private entityStore: EntityStoreService,
+    private notifications: NotificationService,
+    private i18n: I18nService
+  ) { }
 
   /**
    * Hook de ciclo de vida que se ejecuta después de la inicialización del componente
@@ -73,22 +80,20 @@ export class CategoryComponent implements OnInit {
    * @returns void
    */
   getCategories(): void {
-    this.apiService.getAllCategory().subscribe({
-      // Manejo de respuesta exitosa
-      next: (res: any) => {
-        if (res.status === 200) {
-          // Asignar las categorías obtenidas al array local
-          this.categories = res.categories;
-        }
+    this.state = LOADING;
+    this.entityStore.getCategories().subscribe({
+      // Asignar las categorías obtenidas al array local
+      next: (categories) => {
+        this.categories = categories;
+        this.state = loadedState(categories);
       },
-      // Manejo de errores en la obtención de categorías
+      // Manejo de errores en la obtención de categorías (se muestra con opción de reintentar)
       error: (error) => {
-        this.showMessage(error?.error?.message || error?.message || "No se pudo obtener todas las categorías" + error)
+        this.state = errorState(this.i18n.errorMessage(error, 'category.loadFailed'));
       }
     })
   }
 
-
   /**
    * Método para agregar una nueva categoría
    * Valida que el nombre no esté vacío y envía los datos a la API
@@ -97,16 +102,16 @@ export class CategoryComponent implements OnInit {
   addCategory(): void {
     // Validación: verificar que el nombre de la categoría no esté vacío
     if (!this.categoryName) {
-      this.showMessage("El nombre de la categoría es obligatorio");
+      this.notifications.warning(this.i18n.translate('category.nameRequired'));
       return;
     }
 
     // Enviar petición para crear nueva categoría
     this.apiService.createCategory({ name: this.categoryName }).subscribe({
       // Manejo de respuesta exitosa
-      next: (res: any) => {
+      next: (res) => {
         if (res.status === 200) {
-          this.showMessage("Categoria creada correctamente")
+          this.notifications.success(this.i18n.translate('category.created'))
           // Limpiar el campo de entrada
           this.categoryName = '';
           // Recargar la lista de categorías para mostrar la nueva
@@ -115,7 +120,7 @@ export class CategoryComponent implements OnInit {
       },
       // Manejo de errores en la creación
       error: (error) => {
-        this.showMessage(error?.error?.message || error?.message || "No se pudo guardar la categoría" + error)
+        this.notifications.error(this.i18n.errorMessage(error, 'category.saveFailed'))
       }
     })
   }
@@ -134,9 +139,9 @@ export class CategoryComponent implements OnInit {
     // Enviar petición para actualizar la categoría
     this.apiService.updateCategory(this.editingCategoryId, { name: this.categoryName }).subscribe({
       // Manejo de respuesta exitosa
-      next: (res: any) => {
+      next: (res) => {
         if (res.status === 200) {
-          this.showMessage("Category updated successfully")
+          this.notifications.success(this.i18n.translate('category.updated'))
           // Limpiar el formulario y salir del modo edición
           this.categoryName = '';
           this.isEditing = false;
@@ -146,7 +151,7 @@ export class CategoryComponent implements OnInit {
       },
       // Manejo de errores en la actualización
       error: (error) => {
-        this.showMessage(error?.error?.message || error?.message || "No se pudo editar la categoría" + error)
+        this.notifications.error(this.i18n.errorMessage(error, 'category.updateFailed'))
       }
     })
   }
@@ -174,36 +179,46 @@ export class CategoryComponent implements OnInit {
    */
   handleDeleteCategory(categoryId: string): void {
     // Mostrar diálogo de confirmación antes de eliminar
-    if (window.confirm("¿Estás seguro de que deseas eliminar esta categoría?")) {
+    if (window.confirm(this.i18n.translate('category.confirmDelete'))) {
+      // Conservar el nombre para poder deshacer la eliminación
+      const name = this.categories.find((category) => sameId(category.id, categoryId))?.name;
       // Proceder con la eliminación si el usuario confirma
       this.apiService.deleteCategory(categoryId).subscribe({
         // Manejo de respuesta exitosa
-        next: (res: any) => {
+        next: (res) => {
           if (res.status === 200) {
-            this.showMessage("Categoría eliminada correctamente")
+            this.notifications.success(this.i18n.translate('category.deleted'), {
+              actions: name ? [{ label: this.i18n.translate('common.undo'), run: () => this.restoreCategory(name) }] : []
+            })
             // Recargar la lista de categorías para reflejar los cambios
             this.getCategories(); //reload the category
           }
         },
         // Manejo de errores en la eliminación
         error: (error) => {
-          this.showMessage(error?.error?.message || error?.message || "No se pudo eliminar la categoría" + error)
+          this.notifications.error(this.i18n.errorMessage(error, 'category.deleteFailed'))
         }
       })
     }
   }
 
   /**
-   * Método utilitario para mostrar mensajes temporales al usuario
-   * Los mensajes se ocultan automáticamente después de 4 segundos
-   * @param message - El mensaje a mostrar al usuario
+   * Método para deshacer la eliminación de una categoría
+   * Vuelve a crearla con el mismo nombre (el backend le asigna un nuevo ID)
+   * @param name - Nombre de la categoría eliminada
+   * @returns void
    */
-  showMessage(message: string) {
-    // Asignar el mensaje a la variable para mostrarlo en el template
-    this.message = message;
-    // Configurar timeout para limpiar el mensaje después de 4 segundos
-    setTimeout(() => {
-      this.message = ''
-    }, 4000)
+  private restoreCategory(name: string): void {
+    this.apiService.createCategory({ name }).subscribe({
+      next: (res) => {
+        if (res.status === 200) {
+          this.notifications.success(this.i18n.translate('category.restored'))
+          this.getCategories();
+        }
+      },
+      error: (error) => {
+        this.notifications.error(this.i18n.errorMessage(error, 'category.restoreFailed'))
+      }
+    })
   }
 }
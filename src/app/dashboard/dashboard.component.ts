@@ -3,7 +3,20 @@ import { CommonModule } from '@angular/common';
 import { Component } from '@angular/core';
 import { NgxChartsModule } from '@swimlane/ngx-charts';  // Módulo para gráficos y visualizaciones
 import { ApiService } from '../service/api.service'; // Servicio para interactuar con la API
+import { AsyncState, LOADING, errorState, loadedState } from '../service/async-state'; // Estado de carga de los gráficos
+import { AsyncStateComponent } from '../async-state/async-state.component';
+import { I18nService } from '../service/i18n.service'; // Traducciones y nombres de meses según el idioma
+import { TranslatePipe } from '../pipe/translate.pipe';
+import { MoneyPipe } from '../pipe/money.pipe';
+import { ConfigService } from '../service/config.service'; // Moneda de los importes
+import { formatMoney, toDecimal, toMoney } from '../service/money';
+import { Transaction } from '../models/transaction.model';
 import { FormsModule } from '@angular/forms'; // Módulo de formularios para two-way binding
+import { RouterLink } from '@angular/router';
+import { HasPermissionDirective } from '../directive/has-permission.directive';
+import { LowStockService } from '../service/low-stock.service'; // Productos a reponer
+import { reorderPoint } from '../service/product-filter';
+import { Product } from '../models/product.model';
 
 /**
  * Componente Dashboard
@@ -16,36 +29,27 @@ import { FormsModule } from '@angular/forms'; // Módulo de formularios para two
 @Component({
   selector: 'app-dashboard', // Selector del componente
   standalone: true, // Marca este componente como standalone (no necesita NgModule)
-  imports: [CommonModule, NgxChartsModule, FormsModule], // Importa otros módulos requeridos
+  imports: [CommonModule, NgxChartsModule, FormsModule, RouterLink, HasPermissionDirective, AsyncStateComponent, TranslatePipe, MoneyPipe], // Importa otros módulos requeridos
   templateUrl: './dashboard.component.html', // Template HTML del componente
   styleUrl: './dashboard.component.css', // Estilos CSS del componente
 })
 
 export class DashboardComponent {
   // Propiedades para almacenar datos de transacciones y datos de gráficos
-  transactions: any[] = []; // Array que contiene todas las transacciones
+  transactions: Transaction[] = []; // Array que contiene todas las transacciones
   transactionTypeData: any[] = []; // Datos para gráfico que muestra conteo de transacciones por tipo
   transactionAmountData: any[] = []; // Datos para gráfico que muestra monto total por tipo de transacción
   monthlyTransactionData: any[] = []; // Datos para gráfico que muestra totales diarios del mes seleccionado
 
+  // Estado de la carga de transacciones (cargando, sin datos, con error)
+  state: AsyncState = LOADING;
+  monthlyView = false; // true si los gráficos muestran el mes seleccionado, para reintentar la misma carga
+
   /**
-   * Lista de meses del año
+   * Lista de meses del año en el idioma activo
    * Utilizada para el selector de mes en el filtro de datos mensuales
    */
-  months = [
-    { name: 'Enero', value: '01' },
-    { name: 'Febrero', value: '02' },
-    { name: 'Marzo', value: '03' },
-    { name: 'Abril', value: '04' },
-    { name: 'Mayo', value: '05' },
-    { name: 'Junio', value: '06' },
-    { name: 'Julio', value: '07' },
-    { name: 'Agosto', value: '08' },
-    { name: 'Septiembre', value: '09' },
-    { name: 'Octubre', value: '10' },
-    { name: 'Noviembre', value: '11' },
-    { name: 'Diciembre', value: '12' },
-  ];
+  months: { name: string; value: string }[] = [];
 
   // Array que almacena los años (últimos 10 años desde el año actual)
   years = Array.from({ length: 10 }, (_, i) => new Date().getFullYear() - i);
@@ -63,8 +67,44 @@ export class DashboardComponent {
   /**
    * Constructor del componente
    * @param apiService - Servicio inyectado para realizar llamadas a la API
+   * @param i18n - Servicio de traducciones del idioma activo
+   * @param config - Configuración de ejecución (moneda de los importes)
+   * @param lowStock - Productos en su punto de reposición, para el panel de stock bajo
+   */
+  constructor(
+    private apiService: ApiService,
+    private i18n: I18nService,
+    private config: ConfigService,
+    private lowStock: LowStockService
+  ) { }
+
+  // Cantidad máxima de productos en el panel de stock bajo
+  private static LOW_STOCK_ROWS = 5;
+
+  /**
+   * Productos a reponer con menos stock, para el panel de stock bajo
+   */
+  get lowStockProducts(): readonly Product[] {
+    return this.lowStock.list().slice(0, DashboardComponent.LOW_STOCK_ROWS);
+  }
+
+  /**
+   * Punto de reposición de un producto (el propio o el predeterminado)
+   */
+  reorderPoint = reorderPoint;
+
+  /**
+   * Formatea los importes de los ejes y tooltips de los gráficos con la moneda de la aplicación
+   * @param value - Importe decimal
+   */
+  formatAmount = (value: number): string => formatMoney(toMoney(value, this.config.currency), this.i18n.locale);
+
+  /**
+   * Tooltip del gráfico circular de montos, con el importe formateado
+   * @param entry - Porción del gráfico sobre la que está el cursor
    */
-  constructor(private apiService: ApiService) { }
+  amountTooltip = (entry: { data: { name: string; value: number } }): string =>
+    `<span class="tooltip-label">${entry.data.name}</span><span class="tooltip-val">${this.formatAmount(entry.data.value)}</span>`;
 
   /**
    * Hook del ciclo de vida ngOnInit
@@ -72,6 +112,7 @@ export class DashboardComponent {
    * Carga las transacciones iniciales para mostrar en el dashboard.
    */
   ngOnInit(): void {
+    this.months = this.i18n.monthNames(); // Meses según el locale activo
     this.loadTransactions(); // Cargar transacciones cuando el componente se inicializa
   }
 
@@ -81,9 +122,17 @@ export class DashboardComponent {
    * y procesa la información para generar los gráficos.
    */
   loadTransactions(): void {
-    this.apiService.getAllTransactions('').subscribe((data) => {
-      this.transactions = data.transactions; // Almacenar datos de transacciones
-      this.processChartData(); // Procesar datos para generar gráficos
+    this.state = LOADING;
+    this.monthlyView = false;
+    this.apiService.getAllTransactions('').subscribe({
+      next: (data) => {
+        this.transactions = data.transactions; // Almacenar datos de transacciones
+        this.processChartData(); // Procesar datos para generar gráficos
+        this.state = loadedState(data.transactions);
+      },
+      error: (error) => {
+        this.state = errorState(this.i18n.errorMessage(error, 'dashboard.loadFailed'));
+      },
     });
   }
 
@@ -100,26 +149,28 @@ export class DashboardComponent {
     // Objeto para contar el número de transacciones por tipo
     const typeCounts: { [key: string]: number } = {};
 
-    // Objeto para sumar los montos de transacciones por tipo
+    // Objeto para sumar los montos de transacciones por tipo, en la unidad mínima de la moneda (centavos)
+    // para que la suma sea exacta
+    const currency = this.config.currency;
     const amountByType: { [key: string]: number } = {};
 
     // Iterar a través de cada transacción para calcular totales por tipo
     this.transactions.forEach((transaction) => {
       const type = transaction.transactionType; // Obtener el tipo de transacción
       typeCounts[type] = (typeCounts[type] || 0) + 1; // Contar transacciones por tipo
-      amountByType[type] = (amountByType[type] || 0) + transaction.totalPrice; // Sumar montos por tipo
+      amountByType[type] = (amountByType[type] || 0) + toMoney(transaction.totalPrice, currency).amount; // Sumar montos por tipo
     });
 
     // Preparar datos para gráfico que muestra número de transacciones por tipo
     this.transactionTypeData = Object.keys(typeCounts).map((type) => ({
-      name: type,
+      name: this.i18n.valueLabel('transactionType', type),
       value: typeCounts[type],
     }));
 
     // Preparar datos para gráfico que muestra monto total de transacciones por tipo
     this.transactionAmountData = Object.keys(amountByType).map((type) => ({
-      name: type,
-      value: amountByType[type],
+      name: this.i18n.valueLabel('transactionType', type),
+      value: toDecimal({ amount: amountByType[type], currency }),
     }));
   }
 
@@ -136,19 +187,38 @@ export class DashboardComponent {
       return;
     }
 
+    this.state = LOADING;
+    this.monthlyView = true;
     // Llamar a la API para obtener transacciones del mes y año seleccionados
     this.apiService
       .getTransactionsByMonthAndYear(
         Number.parseInt(this.selectedMonth), // Convertir string de mes a número
         Number.parseInt(this.selectedYear) // Convertir string de año a número
       )
-      .subscribe((data) => {
-        this.transactions = data.transactions; // Almacenar transacciones del mes seleccionado
-        this.processChartData(); // Procesar datos generales para gráficos
-        this.processMonthlyData(data.transactions); // Procesar datos para gráfico diario
+      .subscribe({
+        next: (data) => {
+          this.transactions = data.transactions; // Almacenar transacciones del mes seleccionado
+          this.processChartData(); // Procesar datos generales para gráficos
+          this.processMonthlyData(data.transactions); // Procesar datos para gráfico diario
+          this.state = loadedState(data.transactions);
+        },
+        error: (error) => {
+          this.state = errorState(this.i18n.errorMessage(error, 'dashboard.monthFailed'));
+        },
       });
   }
 
+  /**
+   * Método para reintentar la última carga fallida (general o mensual)
+   */
+  retryLoad(): void {
+    if (this.monthlyView) {
+      this.loadMonthlyData();
+    } else {
+      this.loadTransactions();
+    }
+  }
+
   /**
    * Método para procesar datos de transacciones diarias del mes seleccionado
    * 
@@ -158,20 +228,21 @@ export class DashboardComponent {
    * 
    * @param transactions - Array de transacciones del mes seleccionado
    */
-  processMonthlyData(transactions: any[]): void {
-    // Objeto para almacenar totales diarios (clave = día, valor = monto total)
+  processMonthlyData(transactions: Transaction[]): void {
+    // Objeto para almacenar totales diarios (clave = día, valor = monto total en centavos)
+    const currency = this.config.currency;
     const dailyTotals: { [key: string]: number } = {};
 
     // Iterar a través de cada transacción y acumular totales para cada día
     transactions.forEach((transaction) => {
       const date = new Date(transaction.createdAt).getDate().toString(); // Obtener el día de la fecha de transacción
-      dailyTotals[date] = (dailyTotals[date] || 0) + transaction.totalPrice; // Sumar totales diarios
+      dailyTotals[date] = (dailyTotals[date] || 0) + toMoney(transaction.totalPrice, currency).amount; // Sumar totales diarios
     });
 
     // Preparar datos para gráfico que muestra totales diarios del mes seleccionado
     this.monthlyTransactionData = Object.keys(dailyTotals).map((day) => ({
-      name: `Día ${day}`,
-      value: dailyTotals[day],
+      name: this.i18n.translate('dashboard.day', { day }),
+      value: toDecimal({ amount: dailyTotals[day], currency }),
     }));
   }
-}
+}
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormsModule } from '@angular/forms';
+
+import { BarcodeScannerDirective } from './barcode-scanner.directive';
+
+@Component({
+  standalone: true,
+  imports: [FormsModule, BarcodeScannerDirective],
+  template: `
+    <form [appBarcodeScanner]="enabled" (scanned)="codes.push($event)" (ngSubmit)="submitted = true">
+      <input id="quantity" name="quantity" [(ngModel)]="quantity" />
+    </form>
+  `
+})
+class HostComponent {
+  enabled = true;
+  codes: string[] = [];
+  quantity = '1';
+  submitted = false;
+}
+
+describe('BarcodeScannerDirective', () => {
+  let fixture: ComponentFixture<HostComponent>;
+  let host: HostComponent;
+
+  /**
+   * Simula las teclas de un lector o de una persona, con la pausa indicada entre cada una
+   */
+  function type(keys: string[], interval: number, target: EventTarget = document.body): KeyboardEvent[] {
+    return keys.map((key) => {
+      jasmine.clock().tick(interval);
+      const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+      target.dispatchEvent(event);
+      return event;
+    });
+  }
+
+  beforeEach(async () => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2026, 0, 1));
+    await TestBed.configureTestingModule({ imports: [HostComponent] }).compileComponents();
+    fixture = TestBed.createComponent(HostComponent);
+    host = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  it('should emit codes typed in a fast burst ending with Enter', () => {
+    const events = type([...'7791234567890', 'Enter'], 10);
+
+    expect(host.codes).toEqual(['7791234567890']);
+    expect(events[events.length - 1].defaultPrevented).toBeTrue();
+  });
+
+  it('should ignore people typing at normal speed', () => {
+    const events = type([...'YER-1', 'Enter'], 150);
+
+    expect(host.codes).toEqual([]);
+    expect(events[events.length - 1].defaultPrevented).toBeFalse();
+  });
+
+  it('should ignore bursts shorter than a code', () => {
+    type(['1', '2', 'Enter'], 10);
+
+    expect(host.codes).toEqual([]);
+  });
+
+  it('should do nothing while disabled', () => {
+    host.enabled = false;
+    fixture.detectChanges();
+
+    type([...'7791234567890', 'Enter'], 10);
+
+    expect(host.codes).toEqual([]);
+  });
+
+  it('should restore the focused field the scanner typed into', async () => {
+    await fixture.whenStable();
+    const input = fixture.nativeElement.querySelector('#quantity') as HTMLInputElement;
+    input.value = '1';
+
+    // El lector escribe en el campo con foco: cada tecla agrega su carácter
+    [...'ABC-123'].forEach((key) => {
+      type([key], 5, input);
+      input.value += key;
+    });
+    type(['Enter'], 5, input);
+    fixture.detectChanges();
+
+    expect(host.codes).toEqual(['ABC-123']);
+    expect(input.value).toBe('1');
+    expect(host.quantity).toBe('1');
+  });
+});
@@ -0,0 +1,110 @@
+// Importaciones necesarias de Angular
+import { Directive, EventEmitter, HostListener, Input, Output } from '@angular/core';
+
+/**
+ * Directiva de lector de código de barras (appBarcodeScanner)
+ *
+ * Los lectores que funcionan como teclado ("keyboard wedge") escriben el
+ * código mucho más rápido que una persona y lo terminan con Enter (o Tab).
+ * La directiva escucha el teclado de toda la página y, cuando detecta una
+ * ráfaga así, emite el código y evita que el Enter envíe el formulario. Si
+ * el foco estaba en un campo de texto, le devuelve el valor que tenía antes
+ * de la ráfaga, para que el código no quede escrito en él.
+ *
+ * Ejemplo:
+ *   <form [appBarcodeScanner]="scanMode" (scanned)="onScan($event)">
+ */
+@Directive({
+  selector: '[appBarcodeScanner]',
+  standalone: true
+})
+export class BarcodeScannerDirective {
+
+  /**
+   * true para detectar los códigos escaneados
+   */
+  @Input() appBarcodeScanner: boolean = true;
+
+  /**
+   * Tiempo máximo entre dos teclas de un mismo código, en milisegundos
+   */
+  @Input() maxKeyInterval: number = 50;
+
+  /**
+   * Cantidad mínima de caracteres de un código
+   */
+  @Input() minLength: number = 4;
+
+  /**
+   * Evento de salida: emite cada código escaneado
+   */
+  @Output() scanned = new EventEmitter<string>();
+
+  // Caracteres de la ráfaga en curso
+  private buffer = '';
+
+  // Momento de la última tecla de la ráfaga
+  private lastKeyAt = 0;
+
+  // Campo que tenía el foco al empezar la ráfaga y su valor en ese momento
+  private field: HTMLInputElement | HTMLTextAreaElement | null = null;
+  private fieldValue = '';
+
+  /**
+   * Acumula las teclas rápidas y emite el código al recibir Enter o Tab
+   * @param event - Tecla presionada en cualquier parte de la página
+   */
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    if (!this.appBarcodeScanner || event.key === 'Shift') return;
+
+    const now = Date.now();
+    const fast = this.buffer !== '' && now - this.lastKeyAt <= this.maxKeyInterval;
+
+    if ((event.key === 'Enter' || event.key === 'Tab') && fast && this.buffer.length >= this.minLength) {
+      event.preventDefault();
+      const code = this.buffer;
+      this.restoreField();
+      this.reset();
+      this.scanned.emit(code);
+      return;
+    }
+
+    if (event.key.length !== 1 || event.ctrlKey || event.altKey || event.metaKey) {
+      this.reset();
+      return;
+    }
+
+    if (!fast) {
+      // Primera tecla de una posible ráfaga: se recuerda el campo antes de que reciba el carácter
+      this.reset();
+      const target = event.target;
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) {
+        this.field = target;
+        this.fieldValue = target.value;
+      }
+    }
+    this.buffer += event.key;
+    this.lastKeyAt = now;
+  }
+
+  /**
+   * Devuelve al campo con foco el valor que tenía antes del código
+   * (avisa con un evento input para que ngModel se actualice)
+   */
+  private restoreField(): void {
+    if (this.field && this.field.value !== this.fieldValue) {
+      this.field.value = this.fieldValue;
+      this.field.dispatchEvent(new Event('input', { bubbles: true }));
+    }
+  }
+
+  /**
+   * Descarta la ráfaga en curso
+   */
+  private reset(): void {
+    this.buffer = '';
+    this.field = null;
+    this.fieldValue = '';
+  }
+}
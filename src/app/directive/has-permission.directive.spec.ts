@@ -0,0 +1,76 @@
+import { Component } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+
+import { HasPermissionDirective } from './has-permission.directive';
+import { ApiService } from '../service/api.service';
+import { Permission } from '../service/permissions';
+import { fakeToken } from '../../testing/fake-token';
+
+@Component({
+  standalone: true,
+  imports: [HasPermissionDirective],
+  template: `
+    <button id="sell" *appHasPermission="'transactions:sell'">Vender</button>
+    <button id="delete" *appHasPermission="'products:delete'">Eliminar</button>
+    <button id="dynamic" *appHasPermission="permission">Acción</button>
+  `
+})
+class HostComponent {
+  permission: Permission = Permission.SELL;
+}
+
+describe('HasPermissionDirective', () => {
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({
+      imports: [HostComponent],
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])]
+    });
+  });
+
+  afterEach(() => {
+    TestBed.inject(ApiService).logout();
+  });
+
+  it('should only render the elements the role can use', () => {
+    const apiService = TestBed.inject(ApiService);
+    apiService.startSession(fakeToken({ role: 'CASHIER' }));
+
+    const fixture = TestBed.createComponent(HostComponent);
+    fixture.detectChanges();
+    const element = fixture.nativeElement as HTMLElement;
+
+    expect(element.querySelector('#sell')).not.toBeNull();
+    expect(element.querySelector('#delete')).toBeNull();
+  });
+
+  it('should update when the user logs out', () => {
+    const apiService = TestBed.inject(ApiService);
+    apiService.startSession(fakeToken({ role: 'ADMIN' }));
+
+    const fixture = TestBed.createComponent(HostComponent);
+    fixture.detectChanges();
+    expect(fixture.nativeElement.querySelector('#delete')).not.toBeNull();
+
+    apiService.logout();
+    fixture.detectChanges();
+    expect(fixture.nativeElement.querySelector('#delete')).toBeNull();
+  });
+
+  it('should update when the required permission changes', () => {
+    TestBed.inject(ApiService).startSession(fakeToken({ role: 'CASHIER' }));
+
+    const fixture = TestBed.createComponent(HostComponent);
+    fixture.detectChanges();
+    const element = fixture.nativeElement as HTMLElement;
+    expect(element.querySelector('#dynamic')).not.toBeNull();
+
+    fixture.componentInstance.permission = Permission.DELETE_PRODUCT;
+    fixture.detectChanges();
+    expect(element.querySelector('#dynamic')).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+// Importaciones necesarias de Angular y servicios
+import { Directive, Input, OnChanges, OnDestroy, OnInit, TemplateRef, ViewContainerRef } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { ApiService } from '../service/api.service';
+import { Permission } from '../service/permissions';
+
+/**
+ * Directiva estructural de permisos (*appHasPermission)
+ * 
+ * Renderiza el elemento solo si el usuario autenticado tiene todos los
+ * permisos indicados. Se re-evalúa cuando cambia el estado de autenticación
+ * o los permisos requeridos.
+ * 
+ * Ejemplo:
+ *   <button *appHasPermission="'products:delete'">Eliminar</button>
+ */
+@Directive({
+  selector: '[appHasPermission]',
+  standalone: true
+})
+export class HasPermissionDirective implements OnInit, OnChanges, OnDestroy {
+
+  /**
+   * Permiso o lista de permisos requeridos para mostrar el elemento
+   */
+  @Input() appHasPermission: Permission | Permission[] = [];
+
+  // Indica si la vista está actualmente renderizada
+  private hasView = false;
+
+  // Suscripción a los cambios de autenticación
+  private authSubscription?: Subscription;
+
+  /**
+   * Constructor de la directiva
+   * @param templateRef - Plantilla del elemento a mostrar u ocultar
+   * @param viewContainer - Contenedor donde se inserta la vista
+   * @param apiService - Servicio para verificar los permisos del usuario
+   */
+  constructor(
+    private templateRef: TemplateRef<unknown>,
+    private viewContainer: ViewContainerRef,
+    private apiService: ApiService
+  ) { }
+
+  /**
+   * Evalúa los permisos al iniciar y ante cada cambio de autenticación
+   */
+  ngOnInit(): void {
+    this.updateView();
+    this.authSubscription = this.apiService.authStatuschanged.subscribe(() => this.updateView());
+  }
+
+  /**
+   * Vuelve a evaluar los permisos cuando cambian los requeridos
+   */
+  ngOnChanges(): void {
+    this.updateView();
+  }
+
+  /**
+   * Libera la suscripción a los cambios de autenticación
+   */
+  ngOnDestroy(): void {
+    this.authSubscription?.unsubscribe();
+  }
+
+  /**
+   * Crea o destruye la vista según los permisos actuales
+   */
+  private updateView(): void {
+    const allowed = this.apiService.hasPermission(this.appHasPermission);
+
+    if (allowed && !this.hasView) {
+      this.viewContainer.createEmbeddedView(this.templateRef);
+      this.hasView = true;
+    } else if (!allowed && this.hasView) {
+      this.viewContainer.clear();
+      this.hasView = false;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+// Importaciones necesarias para las pruebas unitarias de Angular
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+
+// Importación del componente que vamos a probar
+import { ExportDialogComponent } from './export-dialog.component';
+import { ExportRequest } from '../service/export';
+
+/**
+ * Suite de pruebas para el ExportDialogComponent
+ * Verifica la elección de columnas, formato y alcance de la exportación
+ */
+describe('ExportDialogComponent', () => {
+  let component: ExportDialogComponent;
+  let fixture: ComponentFixture<ExportDialogComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ExportDialogComponent], // Importar el componente standalone
+      providers: [provideHttpClient()]
+    })
+      .compileComponents();
+
+    fixture = TestBed.createComponent(ExportDialogComponent);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('columns', [
+      { key: 'name', label: 'common.name' },
+      { key: 'price', label: 'productForm.price' },
+      { key: 'description', label: 'common.description' },
+    ]);
+    fixture.detectChanges();
+  });
+
+  it('should start with every column selected', () => {
+    expect(component.selectedCount).toBe(3);
+  });
+
+  it('should emit the chosen columns in list order', () => {
+    let request: ExportRequest | undefined;
+    component.exportRequest.subscribe((value) => request = value);
+
+    component.selectAll(false);
+    component.selected['description'] = true;
+    component.selected['name'] = true;
+    component.format = 'csv';
+    component.submit();
+
+    expect(request).toEqual({ format: 'csv', scope: 'all', columns: ['name', 'description'] });
+  });
+
+  it('should only offer the current view when the list is filtered', () => {
+    let request: ExportRequest | undefined;
+    component.exportRequest.subscribe((value) => request = value);
+    fixture.componentRef.setInput('filtered', true);
+
+    component.submit();
+
+    expect(request?.scope).toBe('view');
+  });
+
+  it('should not export without columns', () => {
+    const emit = spyOn(component.exportRequest, 'emit');
+
+    component.selectAll(false);
+    component.submit();
+
+    expect(emit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,106 @@
+import { CommonModule } from '@angular/common';
+import { Component, EventEmitter, HostListener, Input, OnChanges, Output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { ExportColumn, ExportFormat, ExportRequest, ExportScope } from '../service/export';
+import { TranslatePipe } from '../pipe/translate.pipe';
+
+/**
+ * Diálogo de Exportación Reutilizable
+ *
+ * Permite elegir el formato (CSV o Excel), las columnas y, si la lista
+ * tiene búsqueda o filtros activos, si se exporta la vista actual o todo.
+ * No genera el archivo: emite las opciones elegidas y el componente padre
+ * carga los elementos y llama a ExportService.
+ */
+@Component({
+  selector: 'app-export-dialog',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TranslatePipe],
+  templateUrl: './export-dialog.component.html',
+  styleUrl: './export-dialog.component.css'
+})
+export class ExportDialogComponent implements OnChanges {
+
+  /**
+   * Propiedad de entrada: columnas que se pueden exportar (todas elegidas al abrir)
+   */
+  @Input({ required: true }) columns: readonly Pick<ExportColumn<unknown>, 'key' | 'label'>[] = [];
+
+  /**
+   * Propiedad de entrada: true si la lista tiene búsqueda o filtros activos,
+   * para ofrecer exportar solo la vista actual
+   */
+  @Input() filtered: boolean = false;
+
+  /**
+   * Propiedad de entrada: true mientras se cargan los elementos a exportar
+   */
+  @Input() busy: boolean = false;
+
+  /**
+   * Evento de salida: emite las opciones elegidas
+   */
+  @Output() exportRequest = new EventEmitter<ExportRequest>();
+
+  /**
+   * Evento de salida: se cerró el diálogo sin exportar
+   */
+  @Output() closed = new EventEmitter<void>();
+
+  /**
+   * Formato elegido
+   */
+  format: ExportFormat = 'xlsx';
+
+  /**
+   * Elementos elegidos
+   */
+  scope: ExportScope = 'view';
+
+  /**
+   * Columnas elegidas por clave
+   */
+  selected: Record<string, boolean> = {};
+
+  /**
+   * Elige todas las columnas cuando cambia la lista de columnas
+   */
+  ngOnChanges(): void {
+    this.selected = Object.fromEntries(this.columns.map((column) => [column.key, this.selected[column.key] ?? true]));
+  }
+
+  /**
+   * Cantidad de columnas elegidas
+   */
+  get selectedCount(): number {
+    return this.columns.filter((column) => this.selected[column.key]).length;
+  }
+
+  /**
+   * Elige todas las columnas o ninguna
+   * @param value - true para elegir todas
+   */
+  selectAll(value: boolean): void {
+    this.columns.forEach((column) => this.selected[column.key] = value);
+  }
+
+  /**
+   * Emite las opciones elegidas
+   */
+  submit(): void {
+    if (!this.selectedCount || this.busy) return;
+    this.exportRequest.emit({
+      format: this.format,
+      scope: this.filtered ? this.scope : 'all',
+      columns: this.columns.filter((column) => this.selected[column.key]).map((column) => column.key),
+    });
+  }
+
+  /**
+   * Cierra el diálogo con la tecla Escape
+   */
+  @HostListener('document:keydown.escape')
+  close(): void {
+    if (!this.busy) this.closed.emit();
+  }
+}
@@ -0,0 +1,46 @@
+// Importaciones necesarias para las pruebas unitarias de Angular
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+
+// Importación del componente que vamos a probar
+import { ForbiddenComponent } from './forbidden.component';
+
+/**
+ * Suite de pruebas para el ForbiddenComponent
+ * Contiene las pruebas unitarias para verificar el correcto funcionamiento
+ * de la página de acceso denegado
+ */
+describe('ForbiddenComponent', () => {
+  // Variables para manejar la instancia del componente y el fixture de prueba
+  let component: ForbiddenComponent;
+  let fixture: ComponentFixture<ForbiddenComponent>;
+
+  /**
+   * Configuración que se ejecuta antes de cada prueba
+   * Prepara el entorno de testing y crea una instancia del componente
+   */
+  beforeEach(async () => {
+    // Configuración del módulo de testing
+    await TestBed.configureTestingModule({
+      imports: [ForbiddenComponent], // Importar el componente standalone
+      providers: [provideHttpClient(), provideRouter([])]
+    })
+      .compileComponents(); // Compilar los componentes
+
+    // Crear una instancia del componente para testing
+    fixture = TestBed.createComponent(ForbiddenComponent);
+    component = fixture.componentInstance;
+    // Detectar cambios para inicializar el componente
+    fixture.detectChanges();
+  });
+
+  /**
+   * Prueba básica: verificar que el componente se crea correctamente
+   * Esta es una prueba fundamental que asegura que el componente
+   * puede ser instanciado sin errores
+   */
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,18 @@
+// Importaciones necesarias para el funcionamiento del componente
+import { Component } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { TranslatePipe } from '../pipe/translate.pipe';
+
+/**
+ * Componente de Acceso Denegado
+ * Se muestra cuando el backend responde 403 (Forbidden) a una petición,
+ * es decir, el usuario está autenticado pero no tiene permisos suficientes
+ */
+@Component({
+  selector: 'app-forbidden',
+  standalone: true,
+  imports: [RouterLink, TranslatePipe], // Módulo necesario para los enlaces de navegación
+  templateUrl: './forbidden.component.html',
+  styleUrl: './forbidden.component.css'
+})
+export class ForbiddenComponent { }
@@ -0,0 +1,15 @@
+import { ES_AR } from './es-AR';
+
+/**
+ * Estructura de un catálogo de textos: la misma que el catálogo en español,
+ * de modo que falte o sobre una clave en otro idioma es un error de compilación
+ */
+export type Catalog = typeof ES_AR;
+
+/**
+ * Clave de un texto del catálogo, con sus grupos separados por puntos
+ * (ej: "product.title")
+ */
+export type TranslationKey = {
+  [Group in keyof Catalog]: `${Group & string}.${keyof Catalog[Group] & string}`
+}[keyof Catalog];
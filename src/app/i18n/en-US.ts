@@ -0,0 +1,376 @@
+import { Catalog } from './catalog';
+
+/**
+ * Catálogo de textos en inglés (Estados Unidos)
+ */
+export const EN_US: Catalog = {
+  common: {
+    add: 'Add',
+    edit: 'Edit',
+    delete: 'Delete',
+    dismiss: 'Dismiss',
+    retry: 'Retry',
+    close: 'Close',
+    undo: 'Undo',
+    loading: 'Loading',
+    email: 'Email ...',
+    password: 'Password ...',
+    name: 'Name',
+    description: 'Description',
+    quantity: 'Quantity',
+    requiredFields: 'All fields are required',
+    completeAllFields: 'Please fill in all fields',
+    noData: 'No data to display',
+  },
+  apiError: {
+    offline: 'Could not connect to the server',
+    invalidResponse: 'The server returned unexpected data. Please try again later.',
+    sessionExpired: 'Could not renew the session',
+  },
+  nav: {
+    dashboard: 'Dashboard',
+    transactions: 'Transactions',
+    categories: 'Categories',
+    products: 'Products',
+    suppliers: 'Suppliers',
+    purchases: 'Purchases',
+    sales: 'Sales',
+    profile: 'Profile',
+    login: 'Log In',
+    register: 'Sign Up',
+    logout: 'Log Out',
+    language: 'Language',
+  },
+  login: {
+    title: 'Log In',
+    submit: 'Log In',
+    noAccount: "Don't have an account?",
+    register: 'Sign Up',
+    failed: 'Could not log in',
+  },
+  register: {
+    title: 'Sign Up',
+    name: 'Name ...',
+    phoneNumber: 'Phone Number ...',
+    submit: 'Sign Up',
+    hasAccount: 'Already have an account?',
+    login: 'Log In',
+    failed: 'Could not register the user',
+  },
+  lockScreen: {
+    title: 'Terminal locked',
+    description: 'The session was locked due to inactivity. Enter your password to pick up where you left off.',
+    unlock: 'Unlock',
+    passwordRequired: 'Enter your password to continue',
+    failed: 'Could not unlock the session',
+  },
+  sessionWarning: {
+    userChanged: 'Another user{user} logged in from a different tab. Operations you record from now on will be attributed to them; review any open forms before saving.',
+    understood: 'Got it',
+    expires: 'Your session expires at {time}. Enter your credentials again to continue without losing your work.',
+    renew: 'Renew Session',
+    failed: 'Could not renew the session',
+  },
+  outbox: {
+    pendingOne: '{count} transaction waiting to sync',
+    pendingMany: '{count} transactions waiting to sync',
+    syncing: 'Syncing...',
+    conflicts: 'Could not be recorded:',
+    rejected: 'The server rejected the transaction',
+    dismissFailed: 'Could not dismiss the transaction',
+    sell: 'Sale of {quantity} units (product {productId})',
+    purchase: 'Purchase of {quantity} units (product {productId})',
+  },
+  pagination: {
+    previous: 'Previous',
+    next: 'Next',
+    perPage: 'Per page',
+  },
+  category: {
+    title: 'Category',
+    namePlaceholder: 'Category name',
+    add: 'Add Category',
+    edit: 'Edit Category',
+    empty: 'No categories yet',
+    nameRequired: 'The category name is required',
+    created: 'Category created',
+    updated: 'Category updated',
+    deleted: 'Category deleted',
+    restored: 'Category restored',
+    confirmDelete: 'Are you sure you want to delete this category?',
+    loadFailed: 'Could not load the categories',
+    saveFailed: 'Could not save the category',
+    updateFailed: 'Could not update the category',
+    deleteFailed: 'Could not delete the category',
+    restoreFailed: 'Could not restore the category',
+  },
+  product: {
+    title: 'Products',
+    add: 'Add Product',
+    edit: 'Edit Product',
+    sku: 'Sku: {sku}',
+    price: 'Price: {price}',
+    stock: 'Quantity in stock: {quantity}',
+    empty: 'No products yet',
+    deleted: 'Product deleted',
+    confirmDelete: 'Are you sure you want to delete this product?',
+    loadFailed: 'Could not load the products',
+    deleteFailed: 'Could not delete the product',
+    searchPlaceholder: 'Search by name, SKU or description ..',
+    search: 'Search',
+    allCategories: 'All categories',
+    minPrice: 'Price from',
+    maxPrice: 'Price to',
+    anyStock: 'Any stock',
+    stockOut: 'Out of stock',
+    stockLow: 'Low stock',
+    stockIn: 'In stock',
+    clearFilters: 'Clear filters',
+    sortBy: 'Sort by:',
+    sortName: 'Name',
+    sortSku: 'SKU',
+    sortPrice: 'Price',
+    sortStockQuantity: 'Stock',
+    noMatches: 'No products match the search or filters',
+    import: 'Import Products',
+  },
+  productForm: {
+    name: 'Product Name',
+    sku: 'Sku',
+    stockQuantity: 'Quantity in Stock',
+    price: 'Price',
+    reorderPoint: 'Reorder Point',
+    reorderQuantity: 'Reorder Quantity',
+    reorderHint: 'At this quantity or below the product is flagged as low stock. Leave empty to use {threshold}.',
+    category: 'Category',
+    selectCategory: 'Select a category',
+    image: 'Product Image',
+    created: 'Product saved',
+    updated: 'Product updated',
+    categoriesFailed: 'Could not load the categories',
+    loadFailed: 'Could not load the product',
+    createFailed: 'Could not save the product',
+    updateFailed: 'Could not update the product',
+  },
+  importProducts: {
+    title: 'Import Products',
+    backToProducts: 'Back to Products',
+    stepUpload: 'File',
+    stepMapping: 'Columns',
+    stepPreview: 'Preview',
+    stepImport: 'Import',
+    uploadHint: 'Choose a CSV or XLSX file with one product per row and the headers in the first row.',
+    chooseFile: 'Choose file',
+    downloadTemplate: 'Download sample template',
+    readFailed: 'The file could not be read. Check that it is a valid CSV or XLSX file.',
+    xlsxInvalid: 'The file is not a valid XLSX spreadsheet',
+    xlsxMissingSheet: 'The first sheet of the spreadsheet was not found',
+    xlsxUnsupportedCompression: 'The spreadsheet uses an unsupported compression format. Save it again from Excel or LibreOffice.',
+    noRows: 'The file has no product rows',
+    column: 'Column {number}',
+    mappingHint: '{file}: {count} rows. Choose the column for each field.',
+    notImported: '— Do not import —',
+    mapRequired: 'Map a column to every required field (*)',
+    chooseAnother: 'Choose another file',
+    next: 'Next',
+    back: 'Back',
+    summary: '{valid} rows ready to import, {invalid} with errors',
+    missingCategories: 'Categories that do not exist: {names}',
+    createCategories: 'Create the missing categories',
+    cannotCreateCategories: 'You are not allowed to create categories: rows with missing categories will not be imported.',
+    onlyIssues: 'Show only rows with errors',
+    status: 'Status',
+    ready: 'Ready',
+    newCategory: 'New',
+    downloadErrors: 'Download errors (CSV)',
+    import: 'Import {count} products',
+    nothingToImport: 'There are no valid rows to import',
+    categoryFailed: 'The category {name} could not be created',
+    progress: '{done} of {total} products processed',
+    stop: 'Stop',
+    result: '{imported} products imported, {failed} rows not imported',
+    failure: 'Line {line} ({sku}): {message}',
+    imported: '{count} products imported successfully',
+    importAnother: 'Import another file',
+    viewProducts: 'View products',
+    reportLine: 'Line',
+    reportError: 'Error',
+    errorName: 'The name is missing',
+    errorSku: 'The SKU is missing',
+    errorDuplicateSku: 'Duplicate SKU (already on line {line})',
+    errorExistingSku: 'A product with this SKU already exists',
+    errorPrice: 'Invalid price: "{value}"',
+    errorStock: 'Invalid stock quantity: "{value}"',
+    errorCategory: 'The category is missing',
+    errorMissingCategory: 'The category "{name}" does not exist',
+    errorReorderPoint: 'Invalid reorder point: "{value}"',
+    errorReorderQuantity: 'Invalid reorder quantity: "{value}"',
+    errorAmbiguousNumber: 'Ambiguous number: "{value}" could use a thousands or a decimal separator; write it without thousands separators',
+  },
+  supplier: {
+    title: 'Suppliers',
+    add: 'Add Supplier',
+    edit: 'Edit Supplier',
+    empty: 'No suppliers yet',
+    deleted: 'Supplier deleted',
+    confirmDelete: 'Are you sure you want to delete this supplier?',
+    loadFailed: 'Could not load the suppliers',
+    deleteFailed: 'Could not delete the supplier',
+  },
+  supplierForm: {
+    address: 'Address',
+    namePlaceholder: 'Enter the supplier name',
+    addressPlaceholder: 'Enter the supplier address',
+    created: 'Supplier added',
+    updated: 'Supplier updated',
+    loadFailed: 'Could not load the supplier',
+    createFailed: 'Could not add the supplier',
+    updateFailed: 'Could not update the supplier',
+  },
+  sell: {
+    title: 'Product Sales',
+    selectProduct: 'Select Product',
+    submit: 'Sell Product',
+    queued: 'No connection to the server: the sale will sync when it is back',
+    failed: 'Could not process the sale',
+    total: 'Sale total: {total}',
+  },
+  purchase: {
+    title: 'Product Purchases',
+    selectProduct: 'Select Product',
+    selectSupplier: 'Select Supplier',
+    submit: 'Purchase Product',
+    queued: 'No connection to the server: the purchase will sync when it is back',
+    failed: 'Could not process the purchase',
+    total: 'Purchase total: {total}',
+    suppliersFailed: 'Could not load the suppliers',
+  },
+  scanner: {
+    mode: 'Scanner mode',
+    hint: 'Scan the product barcode: it is added with quantity 1 and each repeated scan adds one unit. Press Enter to submit.',
+    unknown: 'There is no product with the code {code}',
+  },
+  transaction: {
+    title: 'Transactions',
+    searchPlaceholder: 'Search transactions ..',
+    search: 'Search',
+    type: 'Type',
+    status: 'Status',
+    totalPrice: 'Total price',
+    totalProducts: 'Total products',
+    date: 'Date',
+    actions: 'Actions',
+    viewDetails: 'View Details',
+    viewAll: 'View transactions',
+    empty: 'No transactions yet',
+    noMatches: 'No transactions match the search',
+    loadFailed: 'Could not load the transactions',
+  },
+  transactionDetails: {
+    transaction: 'Transaction Information',
+    type: 'Type: {value}',
+    status: 'Status: {value}',
+    description: 'Description: {value}',
+    totalProducts: 'Total Products: {value}',
+    totalPrice: 'Total Price: {value}',
+    createdAt: 'Created: {value}',
+    updatedAt: 'Updated: {value}',
+    product: 'Product Information',
+    name: 'Name: {value}',
+    sku: 'SKU: {value}',
+    price: 'Price: {value}',
+    stock: 'Quantity in Stock: {value}',
+    user: 'User Information',
+    email: 'Email: {value}',
+    phone: 'Phone: {value}',
+    role: 'Role: {value}',
+    supplier: 'Supplier Information',
+    address: 'Address: {value}',
+    statusLabel: 'Status:',
+    updateStatus: 'Update Status',
+    notFound: 'Transaction not found',
+    loadFailed: 'Could not load the transaction',
+    updateFailed: 'Could not update the transaction',
+  },
+  transactionType: {
+    SALE: 'Sale',
+    PURCHASE: 'Purchase',
+    RETURN_TO_SUPPLIER: 'Return to supplier',
+  },
+  transactionStatus: {
+    PENDING: 'Pending',
+    PROCESSING: 'Processing',
+    COMPLETED: 'Completed',
+    CANCELED: 'Canceled',
+  },
+  role: {
+    ADMIN: 'Administrator',
+    MANAGER: 'Manager',
+    CASHIER: 'Cashier',
+    VIEWER: 'Viewer',
+  },
+  profile: {
+    greeting: 'Hi, {name} ☺️☺️',
+    name: 'Name',
+    email: 'Email',
+    phoneNumber: 'Phone Number',
+    role: 'Role',
+    loadFailed: 'Could not load the profile',
+  },
+  export: {
+    button: 'Export',
+    title: 'Export',
+    format: 'Format',
+    xlsx: 'Excel (.xlsx)',
+    csv: 'CSV (.csv)',
+    scope: 'Records',
+    scopeView: 'Current view (with search and filters)',
+    scopeAll: 'All',
+    columns: 'Columns',
+    selectAll: 'All',
+    selectNone: 'None',
+    download: 'Download',
+    loading: 'Preparing ..',
+    done: '{count} records exported to {file}',
+    failed: 'The data to export could not be retrieved',
+    createdAt: 'Created',
+    product: 'Product',
+    supplier: 'Supplier',
+    user: 'User',
+  },
+  lowStock: {
+    title: 'Low stock',
+    product: 'Product',
+    stock: 'Stock',
+    reorderPoint: 'Reorder point',
+    reorderQuantity: 'Reorder',
+    empty: 'No products need reordering',
+    viewAll: 'View low-stock products',
+    count: '{count} products to reorder',
+    reached: 'Low stock: {name} ({quantity} left)',
+    reachedMany: '{count} products reached their reorder point',
+  },
+  dashboard: {
+    title: 'Dashboard',
+    month: 'Month:',
+    year: 'Year:',
+    showMonthly: 'Show Monthly Data',
+    countByType: 'Transaction Count by Type',
+    typeAxis: 'Transaction Type',
+    countAxis: 'Count',
+    amountByType: 'Transaction Totals by Type',
+    monthly: 'Monthly Transactions Chart',
+    dayAxis: 'Day of Month',
+    totalAxis: 'Total Price',
+    day: 'Day {day}',
+    empty: 'No transactions yet',
+    emptyMonth: 'No transactions in the selected month',
+    loadFailed: 'Could not load the transactions',
+    monthFailed: 'Could not load the transactions for the month',
+  },
+  forbidden: {
+    title: 'Access Denied',
+    description: 'You do not have permission to access this resource.',
+    back: 'Back to the Dashboard',
+  },
+};
@@ -0,0 +1,378 @@
+/**
+ * Catálogo de textos en español (Argentina)
+ *
+ * Es el catálogo de referencia: define las claves que deben existir en los
+ * demás idiomas (ver Catalog). Los valores pueden incluir parámetros entre
+ * llaves, como {count}, que se reemplazan al traducir.
+ */
+export const ES_AR = {
+  common: {
+    add: 'Agregar',
+    edit: 'Editar',
+    delete: 'Eliminar',
+    dismiss: 'Descartar',
+    retry: 'Reintentar',
+    close: 'Cerrar',
+    undo: 'Deshacer',
+    loading: 'Cargando',
+    email: 'Email ...',
+    password: 'Contraseña ...',
+    name: 'Nombre',
+    description: 'Descripción',
+    quantity: 'Cantidad',
+    requiredFields: 'Todos los campos son necesarios',
+    completeAllFields: 'Por favor, completa todos los campos',
+    noData: 'No hay datos para mostrar',
+  },
+  apiError: {
+    offline: 'No se pudo conectar con el servidor',
+    invalidResponse: 'El servidor devolvió datos inesperados. Intenta nuevamente más tarde.',
+    sessionExpired: 'No se pudo renovar la sesión',
+  },
+  nav: {
+    dashboard: 'Dashboard',
+    transactions: 'Transacciones',
+    categories: 'Categorías',
+    products: 'Productos',
+    suppliers: 'Proveedores',
+    purchases: 'Compras',
+    sales: 'Ventas',
+    profile: 'Perfil',
+    login: 'Iniciar Sesión',
+    register: 'Registrarse',
+    logout: 'Cerrar Sesión',
+    language: 'Idioma',
+  },
+  login: {
+    title: 'Inicio de Sesión',
+    submit: 'Iniciar Sesión',
+    noAccount: '¿No tienes una cuenta?',
+    register: 'Registrarse',
+    failed: 'No se pudo iniciar sesión',
+  },
+  register: {
+    title: 'Registro',
+    name: 'Nombre ...',
+    phoneNumber: 'Número de Teléfono ...',
+    submit: 'Registrarse',
+    hasAccount: '¿Ya tienes una cuenta?',
+    login: 'Iniciar Sesión',
+    failed: 'No se pudo registrar al usuario',
+  },
+  lockScreen: {
+    title: 'Terminal bloqueada',
+    description: 'La sesión se bloqueó por inactividad. Ingresa tu contraseña para continuar donde la dejaste.',
+    unlock: 'Desbloquear',
+    passwordRequired: 'Ingresa tu contraseña para continuar',
+    failed: 'No se pudo desbloquear la sesión',
+  },
+  sessionWarning: {
+    userChanged: 'Se inició sesión con otro usuario{user} en otra pestaña. Las operaciones que registres desde ahora quedarán a su nombre; revisa los formularios abiertos antes de guardarlos.',
+    understood: 'Entendido',
+    expires: 'Tu sesión expira a las {time}. Ingresa nuevamente tus credenciales para continuar sin perder tu trabajo.',
+    renew: 'Renovar Sesión',
+    failed: 'No se pudo renovar la sesión',
+  },
+  outbox: {
+    pendingOne: '{count} transacción pendiente de sincronizar',
+    pendingMany: '{count} transacciones pendientes de sincronizar',
+    syncing: 'Sincronizando...',
+    conflicts: 'No se pudieron registrar:',
+    rejected: 'El servidor rechazó la transacción',
+    dismissFailed: 'No se pudo descartar la transacción',
+    sell: 'Venta de {quantity} u. (producto {productId})',
+    purchase: 'Compra de {quantity} u. (producto {productId})',
+  },
+  pagination: {
+    previous: 'Anterior',
+    next: 'Siguiente',
+    perPage: 'Por página',
+  },
+  category: {
+    title: 'Categoría',
+    namePlaceholder: 'Nombre de la categoría',
+    add: 'Agregar Categoría',
+    edit: 'Editar Categoría',
+    empty: 'No hay categorías registradas',
+    nameRequired: 'El nombre de la categoría es obligatorio',
+    created: 'Categoría creada correctamente',
+    updated: 'Categoría actualizada correctamente',
+    deleted: 'Categoría eliminada correctamente',
+    restored: 'Categoría restaurada',
+    confirmDelete: '¿Estás seguro de que deseas eliminar esta categoría?',
+    loadFailed: 'No se pudo obtener todas las categorías',
+    saveFailed: 'No se pudo guardar la categoría',
+    updateFailed: 'No se pudo editar la categoría',
+    deleteFailed: 'No se pudo eliminar la categoría',
+    restoreFailed: 'No se pudo restaurar la categoría',
+  },
+  product: {
+    title: 'Productos',
+    add: 'Agregar Producto',
+    edit: 'Editar Producto',
+    sku: 'Sku: {sku}',
+    price: 'Precio: {price}',
+    stock: 'Cantidad en stock: {quantity}',
+    empty: 'No hay productos registrados',
+    deleted: 'Producto eliminado correctamente',
+    confirmDelete: '¿Estás seguro de que deseas eliminar este producto?',
+    loadFailed: 'No se pudo obtener la lista de productos',
+    deleteFailed: 'No se pudo eliminar el producto',
+    searchPlaceholder: 'Buscar por nombre, SKU o descripción ..',
+    search: 'Buscar',
+    allCategories: 'Todas las categorías',
+    minPrice: 'Precio desde',
+    maxPrice: 'Precio hasta',
+    anyStock: 'Cualquier stock',
+    stockOut: 'Sin stock',
+    stockLow: 'Stock bajo',
+    stockIn: 'Con stock',
+    clearFilters: 'Limpiar filtros',
+    sortBy: 'Ordenar por:',
+    sortName: 'Nombre',
+    sortSku: 'SKU',
+    sortPrice: 'Precio',
+    sortStockQuantity: 'Stock',
+    noMatches: 'Ningún producto coincide con la búsqueda o los filtros',
+    import: 'Importar Productos',
+  },
+  productForm: {
+    name: 'Nombre del Producto',
+    sku: 'Sku',
+    stockQuantity: 'Cantidad en Stock',
+    price: 'Precio',
+    reorderPoint: 'Punto de Reposición',
+    reorderQuantity: 'Cantidad a Reponer',
+    reorderHint: 'Con esta cantidad o menos el producto se marca con stock bajo. Si se deja vacío se usa {threshold}.',
+    category: 'Categoría',
+    selectCategory: 'Seleccionar una categoría',
+    image: 'Imagen del Producto',
+    created: 'Producto guardado correctamente',
+    updated: 'Producto actualizado correctamente',
+    categoriesFailed: 'No se pudieron obtener las categorías',
+    loadFailed: 'No se pudo obtener el producto por ID',
+    createFailed: 'No se pudo guardar el producto',
+    updateFailed: 'No se pudo actualizar el producto',
+  },
+  importProducts: {
+    title: 'Importar Productos',
+    backToProducts: 'Volver a Productos',
+    stepUpload: 'Archivo',
+    stepMapping: 'Columnas',
+    stepPreview: 'Vista previa',
+    stepImport: 'Importación',
+    uploadHint: 'Elegí un archivo CSV o XLSX con un producto por fila y los encabezados en la primera fila.',
+    chooseFile: 'Elegir archivo',
+    downloadTemplate: 'Descargar plantilla de ejemplo',
+    readFailed: 'No se pudo leer el archivo. Verificá que sea un CSV o XLSX válido.',
+    xlsxInvalid: 'El archivo no es una planilla XLSX válida',
+    xlsxMissingSheet: 'No se encontró la primera hoja de la planilla',
+    xlsxUnsupportedCompression: 'La planilla usa un formato de compresión no soportado. Guardala de nuevo desde Excel o LibreOffice.',
+    noRows: 'El archivo no tiene filas de productos',
+    column: 'Columna {number}',
+    mappingHint: '{file}: {count} filas. Elegí la columna de cada campo.',
+    notImported: '— No importar —',
+    mapRequired: 'Asociá una columna a cada campo obligatorio (*)',
+    chooseAnother: 'Elegir otro archivo',
+    next: 'Siguiente',
+    back: 'Volver',
+    summary: '{valid} filas listas para importar, {invalid} con errores',
+    missingCategories: 'Categorías que no existen: {names}',
+    createCategories: 'Crear las categorías que no existen',
+    cannotCreateCategories: 'No tenés permiso para crear categorías: las filas con categorías inexistentes no se importarán.',
+    onlyIssues: 'Mostrar solo las filas con errores',
+    status: 'Estado',
+    ready: 'Lista',
+    newCategory: 'Nueva',
+    downloadErrors: 'Descargar errores (CSV)',
+    import: 'Importar {count} productos',
+    nothingToImport: 'No hay filas válidas para importar',
+    categoryFailed: 'No se pudo crear la categoría {name}',
+    progress: '{done} de {total} productos procesados',
+    stop: 'Detener',
+    result: '{imported} productos importados, {failed} filas sin importar',
+    failure: 'Línea {line} ({sku}): {message}',
+    imported: '{count} productos importados correctamente',
+    importAnother: 'Importar otro archivo',
+    viewProducts: 'Ver productos',
+    reportLine: 'Línea',
+    reportError: 'Error',
+    errorName: 'Falta el nombre',
+    errorSku: 'Falta el SKU',
+    errorDuplicateSku: 'SKU repetido (ya está en la línea {line})',
+    errorExistingSku: 'Ya existe un producto con este SKU',
+    errorPrice: 'Precio inválido: "{value}"',
+    errorStock: 'Cantidad en stock inválida: "{value}"',
+    errorCategory: 'Falta la categoría',
+    errorMissingCategory: 'La categoría "{name}" no existe',
+    errorReorderPoint: 'Punto de reposición inválido: "{value}"',
+    errorReorderQuantity: 'Cantidad a reponer inválida: "{value}"',
+    errorAmbiguousNumber: 'Número ambiguo: "{value}" puede leerse con separador de miles o decimal; escribilo sin separador de miles',
+  },
+  supplier: {
+    title: 'Proveedores',
+    add: 'Agregar Proveedor',
+    edit: 'Editar Proveedor',
+    empty: 'No hay proveedores registrados',
+    deleted: 'Proveedor eliminado con éxito',
+    confirmDelete: '¿Estás seguro de que deseas eliminar este proveedor?',
+    loadFailed: 'No se pudo obtener la lista de proveedores',
+    deleteFailed: 'No se pudo eliminar el proveedor',
+  },
+  supplierForm: {
+    address: 'Dirección',
+    namePlaceholder: 'Ingrese el nombre del proveedor',
+    addressPlaceholder: 'Ingrese la dirección del proveedor',
+    created: 'Proveedor agregado correctamente',
+    updated: 'Proveedor actualizado correctamente',
+    loadFailed: 'No se pudo obtener el proveedor',
+    createFailed: 'No se pudo agregar el proveedor',
+    updateFailed: 'No se pudo editar el proveedor',
+  },
+  sell: {
+    title: 'Ventas de Productos',
+    selectProduct: 'Seleccionar Producto',
+    submit: 'Vender Producto',
+    queued: 'Sin conexión con el servidor: la venta quedó pendiente de sincronizar',
+    failed: 'No se pudo procesar la venta del producto',
+    total: 'Total de la venta: {total}',
+  },
+  purchase: {
+    title: 'Compras de Productos',
+    selectProduct: 'Seleccionar Producto',
+    selectSupplier: 'Seleccionar Proveedor',
+    submit: 'Comprar Producto',
+    queued: 'Sin conexión con el servidor: la compra quedó pendiente de sincronizar',
+    failed: 'No se pudo procesar la compra del producto',
+    total: 'Total de la compra: {total}',
+    suppliersFailed: 'No se pudo obtener la lista de proveedores',
+  },
+  scanner: {
+    mode: 'Modo escáner',
+    hint: 'Escaneá el código de barras del producto: se agrega con cantidad 1 y cada lectura repetida suma una unidad. Enter registra la operación.',
+    unknown: 'No hay ningún producto con el código {code}',
+  },
+  transaction: {
+    title: 'Transacciones',
+    searchPlaceholder: 'Buscar transacciones ..',
+    search: 'Buscar',
+    type: 'Tipo',
+    status: 'Estado',
+    totalPrice: 'Precio total',
+    totalProducts: 'Productos totales',
+    date: 'Fecha',
+    actions: 'Acciones',
+    viewDetails: 'Ver Detalles',
+    viewAll: 'Ver transacciones',
+    empty: 'No hay transacciones registradas',
+    noMatches: 'Ninguna transacción coincide con la búsqueda',
+    loadFailed: 'No se pudo obtener la lista de transacciones',
+  },
+  transactionDetails: {
+    transaction: 'Información de la Transacción',
+    type: 'Tipo: {value}',
+    status: 'Estado: {value}',
+    description: 'Descripción: {value}',
+    totalProducts: 'Total de Productos: {value}',
+    totalPrice: 'Precio Total: {value}',
+    createdAt: 'Creada: {value}',
+    updatedAt: 'Actualizada: {value}',
+    product: 'Información del Producto',
+    name: 'Nombre: {value}',
+    sku: 'SKU: {value}',
+    price: 'Precio: {value}',
+    stock: 'Cantidad en Stock: {value}',
+    user: 'Información del Usuario',
+    email: 'Email: {value}',
+    phone: 'Teléfono: {value}',
+    role: 'Rol: {value}',
+    supplier: 'Información del Proveedor',
+    address: 'Dirección: {value}',
+    statusLabel: 'Estado:',
+    updateStatus: 'Actualizar Estado',
+    notFound: 'Transacción no encontrada',
+    loadFailed: 'No se pudo obtener la transacción',
+    updateFailed: 'No se pudo actualizar la transacción',
+  },
+  transactionType: {
+    SALE: 'Venta',
+    PURCHASE: 'Compra',
+    RETURN_TO_SUPPLIER: 'Devolución a proveedor',
+  },
+  transactionStatus: {
+    PENDING: 'Pendiente',
+    PROCESSING: 'En proceso',
+    COMPLETED: 'Completada',
+    CANCELED: 'Cancelada',
+  },
+  role: {
+    ADMIN: 'Administrador',
+    MANAGER: 'Encargado',
+    CASHIER: 'Cajero',
+    VIEWER: 'Consulta',
+  },
+  profile: {
+    greeting: 'Hola, {name} ☺️☺️',
+    name: 'Nombre',
+    email: 'Email',
+    phoneNumber: 'Número de Teléfono',
+    role: 'Rol',
+    loadFailed: 'No se pudo obtener la información del perfil',
+  },
+  export: {
+    button: 'Exportar',
+    title: 'Exportar',
+    format: 'Formato',
+    xlsx: 'Excel (.xlsx)',
+    csv: 'CSV (.csv)',
+    scope: 'Registros',
+    scopeView: 'Vista actual (con la búsqueda y los filtros)',
+    scopeAll: 'Todos',
+    columns: 'Columnas',
+    selectAll: 'Todas',
+    selectNone: 'Ninguna',
+    download: 'Descargar',
+    loading: 'Preparando ..',
+    done: '{count} registros exportados a {file}',
+    failed: 'No se pudieron obtener los datos a exportar',
+    createdAt: 'Fecha de alta',
+    product: 'Producto',
+    supplier: 'Proveedor',
+    user: 'Usuario',
+  },
+  lowStock: {
+    title: 'Stock bajo',
+    product: 'Producto',
+    stock: 'Stock',
+    reorderPoint: 'Punto de reposición',
+    reorderQuantity: 'Reponer',
+    empty: 'No hay productos por reponer',
+    viewAll: 'Ver productos con stock bajo',
+    count: '{count} productos por reponer',
+    reached: 'Stock bajo: {name} (quedan {quantity})',
+    reachedMany: '{count} productos llegaron al punto de reposición',
+  },
+  dashboard: {
+    title: 'Panel de Control',
+    month: 'Selección de Mes:',
+    year: 'Selección de Año:',
+    showMonthly: 'Mostrar Datos Mensuales',
+    countByType: 'Conteo de Transacciones por Tipo',
+    typeAxis: 'Tipo de Transacción',
+    countAxis: 'Cantidad',
+    amountByType: 'Total Transacciones por Tipo',
+    monthly: 'Gráfico de Transacciones Mensuales',
+    dayAxis: 'Día del mes',
+    totalAxis: 'Precio total',
+    day: 'Día {day}',
+    empty: 'Todavía no hay transacciones registradas',
+    emptyMonth: 'No hay transacciones en el mes seleccionado',
+    loadFailed: 'No se pudieron obtener las transacciones',
+    monthFailed: 'No se pudieron obtener las transacciones del mes',
+  },
+  forbidden: {
+    title: 'Acceso Denegado',
+    description: 'No tienes permisos para acceder a este recurso.',
+    back: 'Volver al Panel de Control',
+  },
+};
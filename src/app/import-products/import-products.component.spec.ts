@@ -0,0 +1,66 @@
+// Importaciones necesarias para las pruebas unitarias de Angular
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+
+// Importación del componente que vamos a probar
+import { ImportProductsComponent } from './import-products.component';
+
+/**
+ * Suite de pruebas para el ImportProductsComponent
+ * Contiene las pruebas unitarias para verificar el correcto funcionamiento
+ * del asistente de importación de productos del sistema de inventario
+ */
+describe('ImportProductsComponent', () => {
+  // Variables para manejar la instancia del componente y el fixture de prueba
+  let component: ImportProductsComponent;
+  let fixture: ComponentFixture<ImportProductsComponent>;
+
+  /**
+   * Configuración que se ejecuta antes de cada prueba
+   * Prepara el entorno de testing y crea una instancia del componente
+   */
+  beforeEach(async () => {
+    // Configuración del módulo de testing
+    await TestBed.configureTestingModule({
+      imports: [ImportProductsComponent], // Importar el componente standalone
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])]
+    })
+      .compileComponents(); // Compilar los componentes
+
+    // Crear una instancia del componente para testing
+    fixture = TestBed.createComponent(ImportProductsComponent);
+    component = fixture.componentInstance;
+    // Detectar cambios para inicializar el componente
+    fixture.detectChanges();
+  });
+
+  /**
+   * Prueba básica: verificar que el componente se crea correctamente
+   * Esta es una prueba fundamental que asegura que el componente
+   * puede ser instanciado sin errores
+   */
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  /**
+   * No se puede elegir un archivo hasta conocer los productos existentes,
+   * para que la validación detecte los SKU repetidos
+   */
+  it('should only enable the file picker once the existing products are loaded', () => {
+    const httpMock = TestBed.inject(HttpTestingController);
+    const input = fixture.nativeElement.querySelector('input[type="file"]') as HTMLInputElement;
+    expect(input.disabled).toBeTrue();
+
+    httpMock.expectOne('http://localhost:5050/api/categories/all').flush({ status: 200, message: '', categories: [] });
+    fixture.detectChanges();
+    expect(input.disabled).toBeTrue();
+
+    httpMock.expectOne('http://localhost:5050/api/products/all').flush({ status: 200, message: '', products: [] });
+    fixture.detectChanges();
+    expect(component.ready).toBeTrue();
+    expect(input.disabled).toBeFalse();
+  });
+});
@@ -0,0 +1,454 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnInit } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+import { ApiService } from '../service/api.service';
+import { EntityStoreService } from '../service/entity-store.service';
+import { NotificationService } from '../service/notification.service';
+import { I18nService } from '../service/i18n.service';
+import { Permission } from '../service/permissions';
+import { parseCsv, toCsv } from '../service/csv';
+import { XlsxErrorCode, XlsxReadError, XlsxValue, readXlsx } from '../service/xlsx';
+import { downloadFile } from '../service/download';
+import { decimalSeparator } from '../service/export';
+import {
+  ColumnMapping, IMPORT_FIELDS, ImportField, ImportIssue, ImportRow, REQUIRED_IMPORT_FIELDS,
+  buildImportRows, guessColumnMapping, missingCategoryNames, productFormData, resolveCategoryId, rowIssues,
+} from '../service/product-import';
+import { Category } from '../models/category.model';
+import { TranslationKey } from '../i18n/catalog';
+import { TranslatePipe } from '../pipe/translate.pipe';
+import { MoneyPipe } from '../pipe/money.pipe';
+
+/**
+ * Paso del asistente de importación
+ */
+export type ImportStep = 'upload' | 'mapping' | 'preview' | 'importing' | 'done';
+
+/**
+ * Fila que el backend rechazó durante la importación
+ */
+interface ImportFailure {
+  line: number;
+  sku: string;
+  name: string;
+  message: string;
+}
+
+// Mensaje de cada motivo por el que no se pudo leer una planilla XLSX
+const XLSX_ERROR_KEYS: Record<XlsxErrorCode, TranslationKey> = {
+  invalid: 'importProducts.xlsxInvalid',
+  missingSheet: 'importProducts.xlsxMissingSheet',
+  unsupportedCompression: 'importProducts.xlsxUnsupportedCompression',
+};
+
+/**
+ * Componente de Importación de Productos
+ *
+ * Asistente para dar de alta productos en lote desde un archivo CSV o XLSX:
+ * 1. Se elige el archivo, que se lee en el navegador (ver service/csv.ts y service/xlsx.ts)
+ * 2. Se asocia cada campo del producto a una columna (se propone según los encabezados)
+ * 3. Se revisa la vista previa con los errores de cada fila; las categorías
+ *    que no existen se pueden crear al importar
+ * 4. Las filas válidas se envían de a una con addProduct, mostrando el progreso
+ *
+ * Las filas con errores y las que rechace el backend se pueden descargar
+ * como CSV para corregirlas y volver a importarlas.
+ */
+@Component({
+  selector: 'app-import-products',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TranslatePipe, MoneyPipe],
+  templateUrl: './import-products.component.html',
+  styleUrl: './import-products.component.css'
+})
+export class ImportProductsComponent implements OnInit {
+
+  /**
+   * Constructor del componente
+   * @param apiService - Servicio para crear categorías y productos
+   * @param router - Servicio de navegación entre rutas
+   * @param entityStore - Caché compartida de productos y categorías existentes
+   * @param notifications - Servicio para mostrar mensajes al usuario
+   * @param i18n - Servicio de traducciones del idioma activo
+   */
+  constructor(
+    private apiService: ApiService,
+    private router: Router,
+    private entityStore: EntityStoreService,
+    private notifications: NotificationService,
+    private i18n: I18nService
+  ) { }
+
+  /**
+   * Paso actual del asistente
+   */
+  step: ImportStep = 'upload';
+
+  /**
+   * Nombre del archivo elegido
+   */
+  fileName: string = '';
+
+  /**
+   * Encabezados (primera fila) del archivo
+   */
+  headers: string[] = [];
+
+  /**
+   * Filas de datos del archivo, sin el encabezado
+   */
+  dataRows: XlsxValue[][] = [];
+
+  /**
+   * Columna asociada a cada campo del producto
+   */
+  mapping: ColumnMapping = guessColumnMapping([]);
+
+  /**
+   * Campos del producto, en el orden del paso de asociación de columnas
+   */
+  fields: readonly ImportField[] = IMPORT_FIELDS;
+
+  /**
+   * Etiqueta de cada campo del producto (las mismas del formulario de producto)
+   */
+  fieldLabels: Record<ImportField, TranslationKey> = {
+    name: 'productForm.name',
+    sku: 'productForm.sku',
+    price: 'productForm.price',
+    stockQuantity: 'productForm.stockQuantity',
+    category: 'productForm.category',
+    description: 'common.description',
+    reorderPoint: 'productForm.reorderPoint',
+    reorderQuantity: 'productForm.reorderQuantity',
+  };
+
+  /**
+   * Filas interpretadas y validadas de la vista previa
+   */
+  rows: ImportRow[] = [];
+
+  /**
+   * true para crear al importar las categorías que no existen
+   */
+  createMissingCategories: boolean = true;
+
+  /**
+   * true para mostrar en la vista previa solo las filas con errores
+   */
+  onlyIssues: boolean = false;
+
+  /**
+   * Filas enviadas hasta el momento y total a enviar
+   */
+  progress: number = 0;
+  total: number = 0;
+
+  /**
+   * Productos creados
+   */
+  imported: number = 0;
+
+  /**
+   * Filas rechazadas por el backend
+   */
+  failures: ImportFailure[] = [];
+
+  // Datos existentes para validar categorías y SKU repetidos
+  private categories: Category[] = [];
+  private existingSkus: string[] = [];
+  private categoriesLoaded = false;
+  private productsLoaded = false;
+
+  // true si se pidió detener la importación (se detiene tras la fila en curso)
+  private stopRequested = false;
+
+  /**
+   * Hook de ciclo de vida que se ejecuta después de la inicialización del componente
+   * Carga las categorías y los productos existentes para validar las filas
+   */
+  ngOnInit(): void {
+    this.entityStore.getCategories().subscribe({
+      next: (categories) => {
+        this.categories = categories;
+        this.categoriesLoaded = true;
+      },
+      error: (error) => this.notifications.error(this.i18n.errorMessage(error, 'category.loadFailed')),
+    });
+    this.entityStore.getProducts().subscribe({
+      next: (products) => {
+        this.existingSkus = products.map((product) => product.sku);
+        this.productsLoaded = true;
+      },
+      error: (error) => this.notifications.error(this.i18n.errorMessage(error, 'product.loadFailed')),
+    });
+  }
+
+  /**
+   * Indica si ya se cargaron las categorías y los productos existentes;
+   * hasta entonces no se puede elegir un archivo, porque la validación
+   * no detectaría los SKU repetidos
+   */
+  get ready(): boolean {
+    return this.categoriesLoaded && this.productsLoaded;
+  }
+
+
+  /**
+   * Indica si un campo es obligatorio
+   */
+  isRequired(field: ImportField): boolean {
+    return REQUIRED_IMPORT_FIELDS.includes(field);
+  }
+
+  /**
+   * Campos obligatorios que no tienen una columna asociada
+   */
+  get missingFields(): ImportField[] {
+    return REQUIRED_IMPORT_FIELDS.filter((field) => this.mapping[field] === null);
+  }
+
+  /**
+   * Indica si el usuario puede crear categorías
+   */
+  get canCreateCategories(): boolean {
+    return this.apiService.hasPermission(Permission.MANAGE_CATEGORIES);
+  }
+
+  /**
+   * Indica si las categorías que no existen se crearán al importar
+   */
+  get createsCategories(): boolean {
+    return this.canCreateCategories && this.createMissingCategories;
+  }
+
+  /**
+   * Categorías usadas en el archivo que no existen
+   */
+  get missingCategories(): string[] {
+    return missingCategoryNames(this.rows);
+  }
+
+  /**
+   * Filas que se pueden importar
+   */
+  get validRows(): ImportRow[] {
+    return this.rows.filter((row) => this.issuesOf(row).length === 0);
+  }
+
+  /**
+   * Cantidad de filas con errores
+   */
+  get invalidCount(): number {
+    return this.rows.length - this.validRows.length;
+  }
+
+  /**
+   * Filas de la vista previa según el filtro "solo con errores"
+   */
+  get visibleRows(): ImportRow[] {
+    return this.onlyIssues ? this.rows.filter((row) => this.issuesOf(row).length > 0) : this.rows;
+  }
+
+  /**
+   * Problemas de una fila con la opción actual de crear categorías
+   */
+  issuesOf(row: ImportRow): ImportIssue[] {
+    return rowIssues(row, this.createsCategories);
+  }
+
+  /**
+   * Texto de un problema en el idioma activo
+   */
+  describe(issue: ImportIssue): string {
+    return this.i18n.translate(issue.key, issue.params);
+  }
+
+  /**
+   * Lee el archivo elegido y pasa a la asociación de columnas
+   * @param event - Evento change del input de archivo
+   */
+  async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Permite volver a elegir el mismo archivo después de corregirlo
+    if (!file || !this.ready) return;
+
+    try {
+      const cells = /\.xlsx$/i.test(file.name)
+        ? await readXlsx(await file.arrayBuffer())
+        : parseCsv(await file.text());
+      if (cells.length < 2) {
+        this.notifications.warning(this.i18n.translate('importProducts.noRows'));
+        return;
+      }
+      this.fileName = file.name;
+      this.headers = cells[0].map((header, index) => String(header).trim() || this.i18n.translate('importProducts.column', { number: index + 1 }));
+      this.dataRows = cells.slice(1);
+      this.mapping = guessColumnMapping(this.headers);
+      this.step = 'mapping';
+    } catch (error) {
+      this.notifications.error(this.i18n.translate(
+        error instanceof XlsxReadError ? XLSX_ERROR_KEYS[error.code] : 'importProducts.readFailed'
+      ));
+    }
+  }
+
+  /**
+   * Valida las filas con la asociación de columnas elegida y muestra la vista previa
+   */
+  showPreview(): void {
+    if (this.missingFields.length) {
+      this.notifications.warning(this.i18n.translate('importProducts.mapRequired'));
+      return;
+    }
+    this.rows = buildImportRows(this.dataRows, this.mapping, this.categories, this.existingSkus, decimalSeparator(this.i18n.locale));
+    this.onlyIssues = false;
+    this.step = 'preview';
+  }
+
+  /**
+   * Vuelve a la asociación de columnas
+   */
+  backToMapping(): void {
+    this.step = 'mapping';
+  }
+
+  /**
+   * Descarta el archivo y vuelve al primer paso
+   */
+  restart(): void {
+    this.step = 'upload';
+    this.fileName = '';
+    this.headers = [];
+    this.dataRows = [];
+    this.rows = [];
+    this.failures = [];
+    this.imported = 0;
+    this.progress = 0;
+    this.total = 0;
+  }
+
+  /**
+   * Crea las categorías faltantes (si corresponde) y da de alta las filas válidas de a una
+   *
+   * Las altas no avisan a EntityStoreService una por una: la lista de
+   * productos se invalida una sola vez al final.
+   */
+  async startImport(): Promise<void> {
+    const rows = this.validRows;
+    if (!rows.length) {
+      this.notifications.warning(this.i18n.translate('importProducts.nothingToImport'));
+      return;
+    }
+
+    this.step = 'importing';
+    this.stopRequested = false;
+    this.failures = [];
+    this.imported = 0;
+    this.progress = 0;
+    this.total = rows.length;
+
+    let categories = this.categories;
+    if (this.createsCategories && rows.some((row) => row.categoryId === null)) {
+      for (const name of missingCategoryNames(rows)) {
+        try {
+          await firstValueFrom(this.apiService.createCategory({ name }));
+        } catch (error) {
+          this.notifications.error(this.i18n.errorMessage(error, 'importProducts.categoryFailed', { name }));
+        }
+      }
+      try {
+        categories = await firstValueFrom(this.entityStore.getCategories(true));
+        this.categories = categories;
+      } catch (error) {
+        this.notifications.error(this.i18n.errorMessage(error, 'category.loadFailed'));
+      }
+    }
+
+    for (const row of rows) {
+      if (this.stopRequested) break;
+      const categoryId = row.categoryId ?? resolveCategoryId(row, categories);
+      if (categoryId === null) {
+        this.fail(row, this.i18n.translate('importProducts.errorMissingCategory', { name: row.categoryName }));
+      } else {
+        try {
+          const response = await firstValueFrom(this.apiService.addProduct(productFormData(row, categoryId), { notify: false }));
+          if (response.status === 200) {
+            this.imported++;
+            this.existingSkus.push(row.sku);
+          } else {
+            this.fail(row, response.message || this.i18n.translate('productForm.createFailed'));
+          }
+        } catch (error) {
+          this.fail(row, this.i18n.errorMessage(error, 'productForm.createFailed'));
+        }
+      }
+      this.progress++;
+    }
+
+    // Las altas no invalidaron la caché de a una: se recarga una sola vez
+    if (this.imported) this.entityStore.invalidate('products');
+    this.step = 'done';
+    if (this.imported) {
+      this.notifications.success(this.i18n.translate('importProducts.imported', { count: this.imported }));
+    }
+  }
+
+  /**
+   * Detiene la importación después de la fila en curso
+   */
+  stop(): void {
+    this.stopRequested = true;
+  }
+
+  /**
+   * Descarga un CSV con las filas que no se importaron y el motivo
+   *
+   * Incluye las filas con errores de validación y las que rechazó el
+   * backend, con la línea del archivo original para ubicarlas.
+   */
+  downloadErrorReport(): void {
+    const rejected = this.rows
+      .filter((row) => this.issuesOf(row).length > 0)
+      .map((row) => [row.line, row.sku, row.name, this.issuesOf(row).map((issue) => this.describe(issue)).join('; ')]);
+    const failed = this.failures.map((failure) => [failure.line, failure.sku, failure.name, failure.message]);
+    const header = [
+      this.i18n.translate('importProducts.reportLine'),
+      this.i18n.translate('productForm.sku'),
+      this.i18n.translate('productForm.name'),
+      this.i18n.translate('importProducts.reportError'),
+    ];
+
+    // La marca BOM hace que Excel abra el archivo como UTF-8
+    const csv = '\uFEFF' + toCsv([header, ...[...rejected, ...failed].sort((a, b) => Number(a[0]) - Number(b[0]))]);
+    downloadFile(`errores-${this.fileName.replace(/\.[^.]+$/, '')}.csv`, csv, 'text/csv;charset=utf-8');
+  }
+
+  /**
+   * Descarga un CSV de ejemplo con los encabezados reconocidos
+   */
+  downloadTemplate(): void {
+    const csv = toCsv([
+      [...IMPORT_FIELDS],
+      ['Yerba Mate 1kg', 'YER-001', '1850.50', '40', 'Almacén', 'Yerba mate con palo', '10', '24'],
+    ]);
+    downloadFile('plantilla-productos.csv', csv, 'text/csv;charset=utf-8');
+  }
+
+  /**
+   * Vuelve a la lista de productos
+   */
+  goToProducts(): void {
+    this.router.navigate(['/product']);
+  }
+
+  /**
+   * Registra una fila rechazada durante la importación
+   */
+  private fail(row: ImportRow, message: string): void {
+    this.failures.push({ line: row.line, sku: row.sku, name: row.name, message });
+  }
+}
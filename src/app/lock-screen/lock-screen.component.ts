@@ -0,0 +1,129 @@
+// Importaciones necesarias para el funcionamiento del componente
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Subscription, firstValueFrom } from 'rxjs';
+import { ApiService } from '../service/api.service';
+import { IdleService } from '../service/idle.service';
+import { LoginRequest } from '../models/user.model';
+import { I18nService } from '../service/i18n.service';
+import { TranslatePipe } from '../pipe/translate.pipe';
+
+/**
+ * Componente de Pantalla de Bloqueo
+ * Cubre la aplicación cuando IdleService bloquea la terminal por inactividad.
+ * Para continuar se debe ingresar la contraseña del usuario de la sesión;
+ * la pantalla de fondo no se destruye, por lo que los formularios en curso
+ * conservan sus datos
+ */
+@Component({
+  selector: 'app-lock-screen',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TranslatePipe], // Módulos para directivas comunes y manejo de formularios
+  templateUrl: './lock-screen.component.html',
+  styleUrl: './lock-screen.component.css'
+})
+export class LockScreenComponent implements OnInit, OnDestroy {
+
+  /**
+   * Constructor del componente
+   * @param apiService - Servicio para verificar las credenciales y renovar la sesión
+   * @param idleService - Servicio que bloquea y desbloquea la terminal
+   * @param i18n - Servicio de traducciones del idioma activo
+   */
+  constructor(private apiService: ApiService, private idleService: IdleService, private i18n: I18nService) { }
+
+  /**
+   * Email del usuario de la sesión bloqueada; solo ese usuario puede desbloquearla
+   */
+  sessionEmail: string = '';
+
+  /**
+   * Credenciales para desbloquear; el email solo se pide si no se conoce el de la sesión
+   */
+  formData: LoginRequest = {
+    email: '',
+    password: '',
+  };
+
+  /**
+   * Variable para mostrar mensajes de error al usuario
+   */
+  message: string = '';
+
+  // Suscripción a los cambios de bloqueo
+  private subscription?: Subscription;
+
+  /**
+   * Indica si la pantalla está bloqueada
+   */
+  get locked(): boolean {
+    return this.idleService.isLocked();
+  }
+
+  /**
+   * Hook de ciclo de vida: precarga el email del usuario al bloquearse la pantalla
+   */
+  ngOnInit(): void {
+    this.fillEmail();
+    this.subscription = this.idleService.lockChanged.subscribe((locked) => {
+      if (locked) this.fillEmail();
+      else this.reset();
+    });
+  }
+
+  /**
+   * Hook de ciclo de vida: libera la suscripción
+   */
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  /**
+   * Verifica la contraseña con el backend y desbloquea la terminal
+   * @returns Promise<void>
+   */
+  async handleSubmit() {
+    const email = this.sessionEmail || this.formData.email;
+    if (!email || !this.formData.password) {
+      this.message = this.i18n.translate('lockScreen.passwordRequired');
+      return;
+    }
+
+    try {
+      const response = await firstValueFrom(
+        this.apiService.loginUser({ email, password: this.formData.password })
+      );
+
+      if (response.status === 200) {
+        await this.apiService.startSession(response.token, response.refreshToken);
+        await firstValueFrom(this.apiService.loadCurrentUser(true));
+        this.idleService.unlock();
+      }
+    } catch (error: unknown) {
+      this.message = this.i18n.errorMessage(error, 'lockScreen.failed');
+    }
+  }
+
+  /**
+   * Cierra la sesión para que otro usuario pueda usar la terminal
+   */
+  logOut(): void {
+    this.idleService.logout();
+  }
+
+  /**
+   * Toma el email del usuario verificado de la sesión
+   */
+  private fillEmail(): void {
+    this.sessionEmail = this.apiService.getCurrentUser()?.email || '';
+  }
+
+  /**
+   * Limpia el formulario al desbloquear
+   */
+  private reset(): void {
+    this.message = '';
+    this.formData = { email: '', password: '' };
+  }
+}
@@ -1,5 +1,8 @@
 // Importaciones necesarias para las pruebas unitarias de Angular
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
 
 // Importación del componente que vamos a probar
 import { LoginComponent } from './login.component';
@@ -21,7 +24,8 @@ describe('LoginComponent', () => {
   beforeEach(async () => {
     // Configuración del módulo de testing
     await TestBed.configureTestingModule({
-      imports: [LoginComponent] // Importar el componente standalone
+      imports: [LoginComponent], // Importar el componente standalone
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])]
     })
       .compileComponents(); // Compilar los componentes
 
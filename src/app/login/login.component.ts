@@ -2,9 +2,14 @@
 import { CommonModule } from "@angular/common";
 import { Component } from "@angular/core";
 import { FormsModule } from "@angular/forms";
-import { Router, RouterLink } from "@angular/router";
+import { ActivatedRoute, Router, RouterLink } from "@angular/router";
 import { ApiService } from "../service/api.service";
+import { GuardService } from "../service/guard.service";
+import { NotificationService } from "../service/notification.service";
+import { LoginRequest } from "../models/user.model";
 import { firstValueFrom } from "rxjs";
+import { I18nService } from "../service/i18n.service";
+import { TranslatePipe } from "../pipe/translate.pipe";
 
 /**
  * Componente de Login
@@ -14,7 +19,7 @@ import { firstValueFrom } from "rxjs";
 @Component({
   selector: "app-login",
   standalone: true,
-  imports: [FormsModule, CommonModule, RouterLink], // Módulos necesarios para formularios, directivas comunes y navegación
+  imports: [FormsModule, CommonModule, RouterLink, TranslatePipe], // Módulos necesarios para formularios, directivas comunes y navegación
   templateUrl: "./login.component.html",
   styleUrl: "./login.component.css",
 })
@@ -23,75 +28,64 @@ export class LoginComponent {
    * Constructor del componente
    * @param apiService - Servicio para realizar llamadas a la API
    * @param router - Servicio de navegación entre rutas
+   * @param route - Ruta activa, para leer la URL de retorno (returnUrl)
+   * @param guardService - Servicio que valida a qué rutas puede acceder el usuario
+   * @param notifications - Servicio para mostrar mensajes al usuario
+   * @param i18n - Servicio de traducciones del idioma activo
    */
-  constructor(private apiService: ApiService, private router: Router) { }
+  constructor(
+    private apiService: ApiService,
+    private router: Router,
+    private route: ActivatedRoute,
+    private guardService: GuardService,
+    private notifications: NotificationService,
+    private i18n: I18nService
+  ) { }
 
   /**
    * Objeto que almacena los datos del formulario de login
    * Contiene las credenciales del usuario (email y contraseña)
    */
-  formData: any = {
+  formData: LoginRequest = {
     email: "",
     password: "",
   };
 
-  /**
-   * Variable para mostrar mensajes de error o éxito al usuario
-   * Se muestra temporalmente durante 4 segundos
-   */
-  message: string | null = null;
-
   /**
    * Método principal para manejar el envío del formulario de login
-   * Valida los datos, realiza la autenticación y redirige al dashboard
+   * Valida los datos, realiza la autenticación y redirige a la URL de retorno
+   * o a la página de inicio del rol
    * @returns Promise<void>
    */
   async handleSubmit() {
     // Validación: verificar que todos los campos requeridos estén completos
     if (!this.formData.email || !this.formData.password) {
-      this.showMessage("Todos los campos son necesarios");
+      this.notifications.warning(this.i18n.translate('common.requiredFields'));
       return;
     }
 
     try {
       // Realizar llamada a la API para autenticar al usuario
       // firstValueFrom convierte el Observable en Promise para usar async/await
-      const response: any = await firstValueFrom(
+      const response = await firstValueFrom(
         this.apiService.loginUser(this.formData)
       );
 
       // Si la autenticación es exitosa (status 200)
       if (response.status === 200) {
-        // Guardar el token de autenticación de forma segura (encriptado)
-        this.apiService.encryptAndSaveToStorage("token", response.token);
-        // Guardar el rol del usuario para gestión de permisos
-        this.apiService.encryptAndSaveToStorage("role", response.role);
-        // Redirigir al usuario al dashboard principal
-        this.router.navigate(["/dashboard"]);
+        // Guardar token y refresh token encriptados (WebCrypto) y programar la expiración de la sesión
+        await this.apiService.startSession(response.token, response.refreshToken);
+        // Obtener del servidor el usuario y su rol antes de navegar a rutas protegidas
+        await firstValueFrom(this.apiService.loadCurrentUser(true));
+        // Volver a la página solicitada si el rol puede acceder; si no, a la página de inicio del rol
+        const returnUrl = this.route.snapshot.queryParamMap.get("returnUrl");
+        this.router.navigateByUrl(this.guardService.getPostLoginUrl(returnUrl));
       }
     } catch (error: any) {
       // Manejo de errores: capturar y mostrar errores de autenticación
       console.log(error);
       // Mostrar mensaje de error específico o genérico
-      this.showMessage(
-        error?.error?.message ||
-        error?.message ||
-        "No se pudo iniciar sesión" + error
-      );
+      this.notifications.error(this.i18n.errorMessage(error, 'login.failed'));
     }
   }
-
-  /**
-   * Método utilitario para mostrar mensajes temporales al usuario
-   * Los mensajes se ocultan automáticamente después de 4 segundos
-   * @param message - El mensaje a mostrar al usuario
-   */
-  showMessage(message: string) {
-    // Asignar el mensaje a la variable para mostrarlo en el template
-    this.message = message;
-    // Configurar timeout para ocultar el mensaje después de 4 segundos
-    setTimeout(() => {
-      this.message = null;
-    }, 4000);
-  }
 }
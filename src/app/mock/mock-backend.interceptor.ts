@@ -0,0 +1,21 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { ApiService } from '../service/api.service';
+import { ConfigService } from '../service/config.service';
+import { MockBackend } from './mock-backend';
+
+/**
+ * Interceptor del backend simulado
+ * 
+ * Con la funcionalidad "mockBackend" habilitada en config.json, responde las
+ * peticiones a la API con MockBackend en lugar de enviarlas al servidor.
+ * Se registra después de authInterceptor, de modo que el token, la
+ * renovación de sesión y la normalización de errores funcionan igual que
+ * con el backend real.
+ */
+export const mockBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  if (!inject(ConfigService).isFeatureEnabled('mockBackend') || !inject(ApiService).isApiUrl(req.url)) {
+    return next(req);
+  }
+  return inject(MockBackend).handle(req);
+};
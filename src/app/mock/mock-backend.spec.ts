@@ -0,0 +1,109 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+
+import { MockBackend } from './mock-backend';
+import { mockBackendInterceptor } from './mock-backend.interceptor';
+import { authInterceptor } from '../service/auth.interceptor';
+import { ApiService } from '../service/api.service';
+import { ConfigService } from '../service/config.service';
+
+describe('MockBackend', () => {
+  let apiService: ApiService;
+
+  async function login(email: string): Promise<void> {
+    const res = await firstValueFrom(apiService.loginUser({ email, password: 'demo1234' }));
+    await apiService.startSession(res.token, res.refreshToken);
+  }
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(withInterceptors([authInterceptor, mockBackendInterceptor])), provideRouter([])]
+    });
+    spyOn(TestBed.inject(ConfigService), 'isFeatureEnabled').and.callFake((flag) => flag === 'mockBackend');
+    TestBed.inject(MockBackend).latencyMs = 0;
+    apiService = TestBed.inject(ApiService);
+  });
+
+  afterEach(() => {
+    apiService.logout();
+  });
+
+  it('should log in with the demo users and reject wrong passwords', async () => {
+    await login('gerente@ims.com');
+    const user = await firstValueFrom(apiService.loadCurrentUser(true));
+    expect(user?.role).toBe('MANAGER');
+    expect(apiService.getRole()).toBe('MANAGER');
+
+    await expectAsync(firstValueFrom(apiService.loginUser({ email: 'gerente@ims.com', password: 'otra' })))
+      .toBeRejectedWith(jasmine.objectContaining({ status: 401, message: 'Email o contraseña incorrectos' }));
+  });
+
+  it('should require a session', async () => {
+    await expectAsync(firstValueFrom(apiService.getAllCategory()))
+      .toBeRejectedWith(jasmine.objectContaining({ status: 401 }));
+  });
+
+  it('should answer every list endpoint with responses that match the models', async () => {
+    await login('admin@ims.com');
+    const now = new Date();
+
+    expect((await firstValueFrom(apiService.getAllCategory())).categories.length).toBeGreaterThan(0);
+    expect((await firstValueFrom(apiService.getAllSuppliers())).suppliers.length).toBeGreaterThan(0);
+    expect((await firstValueFrom(apiService.getAllProducts())).products.length).toBeGreaterThan(0);
+    expect((await firstValueFrom(apiService.getAllTransactions(''))).transactions.length).toBeGreaterThan(0);
+    await firstValueFrom(apiService.getTransactionsByMonthAndYear(now.getMonth() + 1, now.getFullYear()));
+
+    const page = await firstValueFrom(apiService.getProductsPage({ page: 2, size: 5, sort: 'price,desc' }));
+    expect(page.items.length).toBe(5);
+    expect(page.totalPages).toBe(3);
+    expect(page.items[0].price).toBeGreaterThanOrEqual(page.items[1].price);
+  });
+
+  it('should filter products by search, category, price and stock', async () => {
+    await login('gerente@ims.com');
+
+    const lowDrinks = await firstValueFrom(apiService.getProductsPage({ page: 1, size: 10 }, { categoryId: '2', stock: 'low' }));
+    expect(lowDrinks.items.map((product) => product.name)).toEqual(['Jugo de naranja 1 l']);
+
+    const byDescription = await firstValueFrom(apiService.getProductsPage({ page: 1, size: 10, filter: 'exprimido' }));
+    expect(byDescription.totalItems).toBe(1);
+
+    const cheap = await firstValueFrom(apiService.getProductsPage({ page: 1, size: 20 }, { minPrice: 1000, maxPrice: 1500 }));
+    expect(cheap.items.every((product) => product.price >= 1000 && product.price <= 1500)).toBeTrue();
+    expect(cheap.totalItems).toBe(2);
+  });
+
+  it('should keep track of stock and reject sales without enough stock', async () => {
+    await login('admin@ims.com');
+    const stock = async () => (await firstValueFrom(apiService.getProductById('1'))).product.stockQuantity;
+    const initial = await stock();
+
+    await firstValueFrom(apiService.sellProduct({ productId: '1', quantity: 3 }));
+    await firstValueFrom(apiService.purchaseProduct({ productId: '1', supplierId: '1', quantity: 10 }));
+    expect(await stock()).toBe(initial + 7);
+
+    await expectAsync(firstValueFrom(apiService.sellProduct({ productId: '1', quantity: initial + 100 })))
+      .toBeRejectedWith(jasmine.objectContaining({ status: 400 }));
+    expect(await stock()).toBe(initial + 7);
+  });
+
+  it('should register a retried transaction only once', async () => {
+    await login('caja@ims.com');
+    const stock = async () => (await firstValueFrom(apiService.getProductById('2'))).product.stockQuantity;
+    const initial = await stock();
+
+    await firstValueFrom(apiService.sellProduct({ productId: '2', quantity: 1 }, 'clave-1'));
+    await firstValueFrom(apiService.sellProduct({ productId: '2', quantity: 1 }, 'clave-1'));
+
+    expect(await stock()).toBe(initial - 1);
+  });
+
+  it('should enforce the permissions of each role', async () => {
+    await login('caja@ims.com');
+    await expectAsync(firstValueFrom(apiService.deleteProduct('1')))
+      .toBeRejectedWith(jasmine.objectContaining({ status: 403 }));
+  });
+});
@@ -0,0 +1,504 @@
+import { Injectable } from '@angular/core';
+import { HttpErrorResponse, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Observable, map, timer } from 'rxjs';
+import { ConfigService } from '../service/config.service';
+import { Permission, normalizeRole, roleHasPermissions } from '../service/permissions';
+import { multiplyMoney, toDecimal, toMoney } from '../service/money';
+import { matchesProductFilter, readProductFilter } from '../service/product-filter';
+import { MockData, MockUser, createMockData, placeholderImage } from './mock-data';
+import { Transaction, TransactionStatus } from '../models/transaction.model';
+import { User } from '../models/user.model';
+
+/**
+ * Ruta del backend simulado
+ */
+interface MockRoute {
+  method: string;
+  path: RegExp; // Ruta relativa a apiBaseUrl; los grupos son los parámetros
+  permission?: Permission; // Permiso requerido además de la sesión
+  public?: boolean; // No requiere sesión (login, registro, renovación)
+  handle: (request: MockRequest) => object;
+}
+
+/**
+ * Petición recibida por una ruta, con el usuario de la sesión y los parámetros de la URL
+ */
+interface MockRequest {
+  http: HttpRequest<unknown>;
+  user: MockUser | null;
+  params: string[];
+}
+
+/**
+ * Backend simulado en memoria (MockBackend)
+ *
+ * Implementa todos los endpoints que usa ApiService sobre datos de
+ * demostración en español, para desarrollar y presentar la aplicación sin
+ * el backend real. Lo utiliza mockBackendInterceptor cuando la
+ * funcionalidad "mockBackend" está habilitada en config.json.
+ *
+ * Reproduce el comportamiento del backend real:
+ * - Tokens JWT (sin firma válida) con sub, role y exp, y refresh tokens
+ * - 401 sin sesión o con el token vencido, 403 sin el permiso del rol
+ * - 400 y 404 con { status, message } ante datos inválidos o inexistentes
+ * - Stock actualizado por compras y ventas, y rechazo por stock insuficiente
+ * - Idempotency-Key: un reintento devuelve la respuesta original
+ * - Paginación (page, size, sort, searchText) en productos y transacciones
+ * - Filtros de productos por categoría, precio y stock (categoryId, minPrice, maxPrice, stock)
+ *
+ * Los datos viven en memoria: recargar la página restablece la demostración.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MockBackend {
+
+  /**
+   * Demora simulada de cada respuesta (ms)
+   */
+  latencyMs = 300;
+
+  // Duración de los tokens emitidos (ms)
+  private static TOKEN_LIFETIME_MS = 60 * 60 * 1000;
+
+  private data: MockData = createMockData();
+
+  // Refresh tokens emitidos, con el email de su usuario
+  private refreshTokens = new Map<string, string>();
+
+  // Respuestas ya enviadas por Idempotency-Key
+  private idempotentResponses = new Map<string, object>();
+
+  private routes: MockRoute[] = [
+    // Autenticación y usuarios
+    { method: 'POST', path: /^\/auth\/login$/, public: true, handle: (req) => this.login(req) },
+    { method: 'POST', path: /^\/auth\/register$/, public: true, handle: (req) => this.register(req) },
+    { method: 'POST', path: /^\/auth\/refresh$/, public: true, handle: (req) => this.refresh(req) },
+    { method: 'GET', path: /^\/users\/current$/, handle: (req) => this.withoutPassword(req.user!) },
+
+    // Categorías
+    { method: 'GET', path: /^\/categories\/all$/, handle: () => this.ok({ categories: this.data.categories }) },
+    { method: 'GET', path: /^\/categories\/([^/]+)$/, handle: (req) => this.ok({ category: this.find(this.data.categories, req.params[0], 'la categoría') }) },
+    { method: 'POST', path: /^\/categories\/add$/, permission: Permission.MANAGE_CATEGORIES, handle: (req) => this.saveCategory(req) },
+    { method: 'PUT', path: /^\/categories\/update\/([^/]+)$/, permission: Permission.MANAGE_CATEGORIES, handle: (req) => this.saveCategory(req, req.params[0]) },
+    { method: 'DELETE', path: /^\/categories\/delete\/([^/]+)$/, permission: Permission.MANAGE_CATEGORIES, handle: (req) => this.deleteCategory(req.params[0]) },
+
+    // Proveedores
+    { method: 'GET', path: /^\/suppliers\/all$/, handle: () => this.ok({ suppliers: this.data.suppliers }) },
+    { method: 'GET', path: /^\/suppliers\/([^/]+)$/, handle: (req) => this.ok({ supplier: this.find(this.data.suppliers, req.params[0], 'el proveedor') }) },
+    { method: 'POST', path: /^\/suppliers\/add$/, permission: Permission.MANAGE_SUPPLIERS, handle: (req) => this.saveSupplier(req) },
+    { method: 'PUT', path: /^\/suppliers\/update\/([^/]+)$/, permission: Permission.MANAGE_SUPPLIERS, handle: (req) => this.saveSupplier(req, req.params[0]) },
+    { method: 'DELETE', path: /^\/suppliers\/delete\/([^/]+)$/, permission: Permission.MANAGE_SUPPLIERS, handle: (req) => this.deleteSupplier(req.params[0]) },
+
+    // Productos
+    { method: 'GET', path: /^\/products\/all$/, handle: (req) => this.listProducts(req) },
+    { method: 'GET', path: /^\/products\/([^/]+)$/, handle: (req) => this.ok({ product: this.find(this.data.products, req.params[0], 'el producto') }) },
+    { method: 'POST', path: /^\/products\/add$/, permission: Permission.MANAGE_PRODUCTS, handle: (req) => this.saveProduct(req) },
+    { method: 'PUT', path: /^\/products\/update$/, permission: Permission.MANAGE_PRODUCTS, handle: (req) => this.saveProduct(req) },
+    { method: 'DELETE', path: /^\/products\/delete\/([^/]+)$/, permission: Permission.DELETE_PRODUCT, handle: (req) => this.deleteProduct(req.params[0]) },
+
+    // Transacciones
+    { method: 'POST', path: /^\/transactions\/purchase$/, permission: Permission.PURCHASE, handle: (req) => this.registerTransaction(req, 'PURCHASE') },
+    { method: 'POST', path: /^\/transactions\/sell$/, permission: Permission.SELL, handle: (req) => this.registerTransaction(req, 'SALE') },
+    { method: 'GET', path: /^\/transactions\/all$/, permission: Permission.VIEW_TRANSACTIONS, handle: (req) => this.listTransactions(req) },
+    { method: 'GET', path: /^\/transactions\/by-month-year$/, permission: Permission.VIEW_TRANSACTIONS, handle: (req) => this.transactionsByMonth(req) },
+    { method: 'PUT', path: /^\/transactions\/update\/([^/]+)$/, permission: Permission.UPDATE_TRANSACTION_STATUS, handle: (req) => this.updateTransactionStatus(req) },
+    { method: 'GET', path: /^\/transactions\/([^/]+)$/, permission: Permission.VIEW_TRANSACTIONS, handle: (req) => this.ok({ transaction: this.find(this.data.transactions, req.params[0], 'la transacción') }) },
+  ];
+
+  /**
+   * @param config - Configuración de ejecución, para conocer la URL base de la API y la moneda
+   */
+  constructor(private config: ConfigService) { }
+
+  /**
+   * Responde una petición dirigida a la API
+   * @param request - Petición HTTP
+   * @returns Observable con la respuesta, o HttpErrorResponse como error
+   */
+  handle(request: HttpRequest<unknown>): Observable<HttpResponse<object>> {
+    return timer(this.latencyMs).pipe(map(() => {
+      try {
+        return new HttpResponse<object>({ status: 200, url: request.url, body: this.dispatch(request) });
+      } catch (error) {
+        if (error instanceof MockError) {
+          throw new HttpErrorResponse({
+            status: error.status,
+            url: request.url,
+            error: { status: error.status, message: error.message },
+          });
+        }
+        throw error;
+      }
+    }));
+  }
+
+  /**
+   * Restablece los datos de demostración
+   */
+  reset(): void {
+    this.data = createMockData();
+    this.refreshTokens.clear();
+    this.idempotentResponses.clear();
+  }
+
+  private dispatch(request: HttpRequest<unknown>): object {
+    const path = request.url.slice(this.config.apiBaseUrl.length).split('?')[0];
+
+    for (const route of this.routes) {
+      const match = route.method === request.method ? route.path.exec(path) : null;
+      if (!match) continue;
+
+      const user = this.authenticate(request);
+      if (!route.public && !user) {
+        throw new MockError(401, 'La sesión expiró o no es válida');
+      }
+      if (route.permission && !roleHasPermissions(normalizeRole(user?.role), [route.permission])) {
+        throw new MockError(403, 'No tienes permiso para realizar esta operación');
+      }
+
+      const key = request.headers.get('Idempotency-Key');
+      const replayed = key ? this.idempotentResponses.get(key) : undefined;
+      if (replayed) return replayed;
+
+      const response = route.handle({ http: request, user, params: match.slice(1) });
+      if (key) this.idempotentResponses.set(key, response);
+      return response;
+    }
+    throw new MockError(404, `No existe el recurso ${request.method} ${path}`);
+  }
+
+  // ========== AUTENTICACIÓN ==========
+
+  private login(req: MockRequest): object {
+    const { email, password } = this.body<{ email?: string; password?: string }>(req);
+    const user = this.data.users.find((candidate) => candidate.email === email?.trim().toLowerCase());
+    if (!user || user.password !== password) {
+      throw new MockError(401, 'Email o contraseña incorrectos');
+    }
+    return this.ok({ message: 'Inicio de sesión exitoso', ...this.issueTokens(user) });
+  }
+
+  private register(req: MockRequest): object {
+    const body = this.body<{ name?: string; email?: string; password?: string; phoneNumber?: string }>(req);
+    const email = body.email?.trim().toLowerCase();
+    if (!body.name?.trim() || !email || !body.password) {
+      throw new MockError(400, 'Nombre, email y contraseña son obligatorios');
+    }
+    if (this.data.users.some((user) => user.email === email)) {
+      throw new MockError(400, `Ya existe un usuario con el email ${email}`);
+    }
+    this.data.users.push({
+      id: this.nextId(this.data.users),
+      name: body.name.trim(),
+      email,
+      password: body.password,
+      phoneNumber: body.phoneNumber ?? '',
+      role: 'MANAGER',
+      createdAt: new Date().toISOString(),
+    });
+    return this.ok({ message: 'Usuario registrado correctamente' });
+  }
+
+  private refresh(req: MockRequest): object {
+    const { refreshToken } = this.body<{ refreshToken?: string }>(req);
+    const email = refreshToken ? this.refreshTokens.get(refreshToken) : undefined;
+    const user = this.data.users.find((candidate) => candidate.email === email);
+    if (!user) {
+      throw new MockError(401, 'La sesión expiró, inicia sesión nuevamente');
+    }
+    this.refreshTokens.delete(refreshToken!);
+    return this.ok({ message: 'Sesión renovada', ...this.issueTokens(user) });
+  }
+
+  /**
+   * Emite un token de acceso y un refresh token para el usuario
+   */
+  private issueTokens(user: MockUser): { token: string; refreshToken: string; role: string } {
+    const encode = (value: object) => {
+      const bytes = new TextEncoder().encode(JSON.stringify(value));
+      return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    };
+    const now = Date.now();
+    const token = [
+      encode({ alg: 'none', typ: 'JWT' }),
+      encode({ sub: user.email, role: user.role, iat: Math.floor(now / 1000), exp: Math.floor((now + MockBackend.TOKEN_LIFETIME_MS) / 1000) }),
+      'mock',
+    ].join('.');
+    const refreshToken = crypto.randomUUID();
+    this.refreshTokens.set(refreshToken, user.email);
+    return { token, refreshToken, role: user.role };
+  }
+
+  /**
+   * Obtiene el usuario del token enviado en Authorization, si es válido y no venció
+   */
+  private authenticate(request: HttpRequest<unknown>): MockUser | null {
+    const token = request.headers.get('Authorization')?.replace(/^Bearer /, '');
+    if (!token) return null;
+    try {
+      const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+      const bytes = Uint8Array.from(atob(payload), (char) => char.charCodeAt(0));
+      const claims = JSON.parse(new TextDecoder().decode(bytes));
+      if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) return null;
+      return this.data.users.find((user) => user.email === claims.sub) ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  // ========== CATEGORÍAS Y PROVEEDORES ==========
+
+  private saveCategory(req: MockRequest, id?: string): object {
+    const name = this.body<{ name?: string }>(req).name?.trim();
+    if (!name) {
+      throw new MockError(400, 'El nombre de la categoría es obligatorio');
+    }
+    if (this.data.categories.some((category) => category.id !== id && category.name.toLowerCase() === name.toLowerCase())) {
+      throw new MockError(400, `Ya existe la categoría ${name}`);
+    }
+    if (id) {
+      this.find(this.data.categories, id, 'la categoría').name = name;
+      return this.ok({ message: 'Categoría actualizada correctamente' });
+    }
+    this.data.categories.push({ id: this.nextId(this.data.categories), name });
+    return this.ok({ message: 'Categoría creada correctamente' });
+  }
+
+  private deleteCategory(id: string): object {
+    const category = this.find(this.data.categories, id, 'la categoría');
+    if (this.data.products.some((product) => product.categoryId === category.id)) {
+      throw new MockError(400, `No se puede eliminar la categoría ${category.name} porque tiene productos asociados`);
+    }
+    this.data.categories = this.data.categories.filter((candidate) => candidate !== category);
+    return this.ok({ message: 'Categoría eliminada correctamente' });
+  }
+
+  private saveSupplier(req: MockRequest, id?: string): object {
+    const body = this.body<{ name?: string; address?: string }>(req);
+    const name = body.name?.trim();
+    if (!name) {
+      throw new MockError(400, 'El nombre del proveedor es obligatorio');
+    }
+    if (id) {
+      Object.assign(this.find(this.data.suppliers, id, 'el proveedor'), { name, address: body.address ?? '' });
+      return this.ok({ message: 'Proveedor actualizado correctamente' });
+    }
+    this.data.suppliers.push({ id: this.nextId(this.data.suppliers), name, address: body.address ?? '' });
+    return this.ok({ message: 'Proveedor creado correctamente' });
+  }
+
+  private deleteSupplier(id: string): object {
+    const supplier = this.find(this.data.suppliers, id, 'el proveedor');
+    this.data.suppliers = this.data.suppliers.filter((candidate) => candidate !== supplier);
+    return this.ok({ message: 'Proveedor eliminado correctamente' });
+  }
+
+  // ========== PRODUCTOS ==========
+
+  private listProducts(req: MockRequest): object {
+    const search = req.http.params.get('searchText') ?? '';
+    const criteria = readProductFilter(req.http.params);
+    const products = this.data.products.filter((product) => matchesProductFilter(product, search, criteria));
+    return this.ok(this.paged(req, 'products', products));
+  }
+
+  /**
+   * Alta y edición de productos (FormData con imagen opcional)
+   */
+  private saveProduct(req: MockRequest): object {
+    const form = req.http.body;
+    if (!(form instanceof FormData)) {
+      throw new MockError(400, 'Los datos del producto deben enviarse como formulario');
+    }
+    const field = (name: string) => String(form.get(name) ?? '').trim();
+    const id = field('productId');
+    const name = field('name');
+    const sku = field('sku');
+    const price = Number(field('price'));
+    const stockQuantity = Number(field('stockQuantity'));
+    const categoryId = field('categoryId');
+    // Punto y cantidad de reposición son opcionales: vacíos quedan sin definir
+    const optionalNumber = (name: string) => field(name) === '' ? null : Number(field(name));
+    const reorderPoint = optionalNumber('reorderPoint');
+    const reorderQuantity = optionalNumber('reorderQuantity');
+
+    if (!name || !sku) {
+      throw new MockError(400, 'El nombre y el SKU del producto son obligatorios');
+    }
+    if (!Number.isFinite(price) || price <= 0) {
+      throw new MockError(400, 'El precio debe ser un número mayor a cero');
+    }
+    if (!Number.isInteger(stockQuantity) || stockQuantity < 0) {
+      throw new MockError(400, 'La cantidad en stock debe ser un número entero no negativo');
+    }
+    if (reorderPoint !== null && (!Number.isInteger(reorderPoint) || reorderPoint < 0)) {
+      throw new MockError(400, 'El punto de reposición debe ser un número entero no negativo');
+    }
+    if (reorderQuantity !== null && (!Number.isInteger(reorderQuantity) || reorderQuantity <= 0)) {
+      throw new MockError(400, 'La cantidad a reponer debe ser un número entero mayor a cero');
+    }
+    this.find(this.data.categories, categoryId, 'la categoría');
+    if (this.data.products.some((product) => product.id !== id && product.sku.toLowerCase() === sku.toLowerCase())) {
+      throw new MockError(400, `Ya existe un producto con el SKU ${sku}`);
+    }
+
+    const image = form.get('imageFile');
+    const imageUrl = image instanceof Blob ? URL.createObjectURL(image) : undefined;
+    const values = { name, sku, price, stockQuantity, reorderPoint, reorderQuantity, categoryId, description: field('description') };
+
+    if (id) {
+      const product = this.find(this.data.products, id, 'el producto');
+      Object.assign(product, values, imageUrl ? { imageUrl } : {});
+      return this.ok({ message: 'Producto actualizado correctamente' });
+    }
+    this.data.products.push({
+      id: this.nextId(this.data.products),
+      ...values,
+      imageUrl: imageUrl ?? placeholderImage(name),
+      createdAt: new Date().toISOString(),
+    });
+    return this.ok({ message: 'Producto creado correctamente' });
+  }
+
+  private deleteProduct(id: string): object {
+    const product = this.find(this.data.products, id, 'el producto');
+    this.data.products = this.data.products.filter((candidate) => candidate !== product);
+    return this.ok({ message: 'Producto eliminado correctamente' });
+  }
+
+  // ========== TRANSACCIONES ==========
+
+  /**
+   * Registra una compra (suma stock) o una venta (descuenta stock)
+   */
+  private registerTransaction(req: MockRequest, type: 'PURCHASE' | 'SALE'): object {
+    const body = this.body<{ productId?: string; supplierId?: string; quantity?: number; description?: string }>(req);
+    const quantity = Number(body.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new MockError(400, 'La cantidad debe ser un número entero mayor a cero');
+    }
+    const product = this.find(this.data.products, String(body.productId ?? ''), 'el producto');
+    const supplier = type === 'PURCHASE' ? this.find(this.data.suppliers, String(body.supplierId ?? ''), 'el proveedor') : null;
+
+    if (type === 'SALE' && product.stockQuantity < quantity) {
+      throw new MockError(400, `Stock insuficiente de ${product.name}: disponible ${product.stockQuantity}, solicitado ${quantity}`);
+    }
+    product.stockQuantity += type === 'SALE' ? -quantity : quantity;
+
+    this.data.transactions.push({
+      id: this.nextId(this.data.transactions),
+      transactionType: type,
+      status: 'COMPLETED',
+      description: body.description ?? '',
+      totalProducts: quantity,
+      totalPrice: toDecimal(multiplyMoney(toMoney(product.price, this.config.currency), quantity)),
+      createdAt: new Date().toISOString(),
+      product: { ...product },
+      user: this.withoutPassword(req.user!),
+      supplier: supplier ? { ...supplier } : null,
+    });
+    return this.ok({ message: type === 'SALE' ? 'Venta registrada correctamente' : 'Compra registrada correctamente' });
+  }
+
+  private listTransactions(req: MockRequest): object {
+    const search = req.http.params.get('searchText')?.toLowerCase() ?? '';
+    const transactions = this.newestFirst(this.data.transactions).filter((transaction) =>
+      !search || [transaction.transactionType, transaction.status, transaction.description, transaction.product?.name]
+        .some((value) => value?.toLowerCase().includes(search)));
+    return this.ok(this.paged(req, 'transactions', transactions));
+  }
+
+  private transactionsByMonth(req: MockRequest): object {
+    const month = Number(req.http.params.get('month'));
+    const year = Number(req.http.params.get('year'));
+    if (!(month >= 1 && month <= 12) || !year) {
+      throw new MockError(400, 'Mes o año inválido');
+    }
+    const transactions = this.newestFirst(this.data.transactions).filter((transaction) => {
+      const date = new Date(transaction.createdAt);
+      return date.getMonth() + 1 === month && date.getFullYear() === year;
+    });
+    return this.ok({ transactions });
+  }
+
+  private updateTransactionStatus(req: MockRequest): object {
+    const transaction = this.find(this.data.transactions, req.params[0], 'la transacción');
+    const raw = req.http.body;
+    const status = (typeof raw === 'string' ? JSON.parse(raw) : raw) as TransactionStatus;
+    if (!['PENDING', 'PROCESSING', 'COMPLETED', 'CANCELED'].includes(status)) {
+      throw new MockError(400, `Estado de transacción inválido: ${status}`);
+    }
+    transaction.status = status;
+    transaction.updatedAt = new Date().toISOString();
+    return this.ok({ message: 'Estado de la transacción actualizado' });
+  }
+
+  // ========== UTILIDADES ==========
+
+  /**
+   * Aplica page, size y sort si la petición los incluye; sin ellos devuelve la lista completa
+   */
+  private paged<T>(req: MockRequest, field: string, items: T[]): object {
+    const page = req.http.params.get('page');
+    const size = Number(req.http.params.get('size'));
+    if (page === null || !size) {
+      return { [field]: items };
+    }
+    const sort = req.http.params.get('sort');
+    if (sort) {
+      const [key, direction] = sort.split(',');
+      const factor = direction === 'desc' ? -1 : 1;
+      items = [...items].sort((a, b) => {
+        const x = (a as Record<string, unknown>)[key];
+        const y = (b as Record<string, unknown>)[key];
+        return (typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y))) * factor;
+      });
+    }
+    const start = Number(page) * size;
+    return {
+      [field]: items.slice(start, start + size),
+      totalElements: items.length,
+      totalPages: Math.ceil(items.length / size),
+    };
+  }
+
+  private newestFirst(transactions: Transaction[]): Transaction[] {
+    return [...transactions].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private find<T extends { id: string }>(items: T[], id: string, entity: string): T {
+    const item = items.find((candidate) => candidate.id === id);
+    if (!item) {
+      throw new MockError(404, id ? `No se encontró ${entity} con ID ${id}` : `Falta indicar ${entity}`);
+    }
+    return item;
+  }
+
+  private nextId(items: { id: string }[]): string {
+    return String(items.reduce((max, item) => Math.max(max, Number(item.id) || 0), 0) + 1);
+  }
+
+  private body<T extends object>(req: MockRequest): T {
+    const body = req.http.body;
+    return (body && typeof body === 'object' ? body : {}) as T;
+  }
+
+  private withoutPassword(user: MockUser): User {
+    const { password, ...rest } = user;
+    return rest;
+  }
+
+  private ok(body: object): object {
+    return { status: 200, message: 'Operación exitosa', ...body };
+  }
+}
+
+/**
+ * Error de negocio del backend simulado, convertido en HttpErrorResponse
+ */
+class MockError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
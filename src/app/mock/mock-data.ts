@@ -0,0 +1,134 @@
+import { Category } from '../models/category.model';
+import { Product } from '../models/product.model';
+import { Supplier } from '../models/supplier.model';
+import { Transaction, TransactionStatus, TransactionType } from '../models/transaction.model';
+import { User } from '../models/user.model';
+
+/**
+ * Usuario del backend simulado, con su contraseña
+ */
+export interface MockUser extends User {
+  password: string;
+}
+
+/**
+ * Contenido de la base de datos en memoria del backend simulado
+ */
+export interface MockData {
+  users: MockUser[];
+  categories: Category[];
+  suppliers: Supplier[];
+  products: Product[];
+  transactions: Transaction[];
+}
+
+/**
+ * Imagen de relleno para los productos de demostración: la inicial del
+ * nombre sobre un fondo de color, como data URL SVG
+ * @param name - Nombre del producto
+ * @param color - Color de fondo
+ */
+export function placeholderImage(name: string, color: string = '#00a3c4'): string {
+  const initial = name.trim().charAt(0).toUpperCase() || '?';
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="160" height="160">`
+    + `<rect width="160" height="160" fill="${color}"/>`
+    + `<text x="80" y="105" font-size="72" font-family="sans-serif" fill="#ffffff" text-anchor="middle">${initial}</text>`
+    + `</svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * Genera números pseudoaleatorios reproducibles, para que los datos de
+ * demostración sean siempre los mismos
+ * @param seed - Semilla inicial
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Crea los datos de demostración
+ *
+ * Incluye un usuario por rol (contraseña "demo1234"), categorías,
+ * proveedores y productos de un comercio minorista, y transacciones de los
+ * últimos 90 días para que el dashboard muestre información.
+ *
+ * @param now - Fecha de referencia para las transacciones
+ */
+export function createMockData(now: Date = new Date()): MockData {
+  const createdAt = new Date(now.getFullYear(), 0, 1).toISOString();
+
+  const users: MockUser[] = [
+    { id: '1', name: 'Administración', email: 'admin@ims.com', phoneNumber: '+54 11 4000-0001', role: 'ADMIN', password: 'demo1234', createdAt },
+    { id: '2', name: 'Lucía Fernández', email: 'gerente@ims.com', phoneNumber: '+54 11 4000-0002', role: 'MANAGER', password: 'demo1234', createdAt },
+    { id: '3', name: 'Martín Gómez', email: 'caja@ims.com', phoneNumber: '+54 11 4000-0003', role: 'CASHIER', password: 'demo1234', createdAt },
+    { id: '4', name: 'Sofía Ríos', email: 'consulta@ims.com', phoneNumber: '+54 11 4000-0004', role: 'VIEWER', password: 'demo1234', createdAt },
+  ];
+
+  const categories: Category[] = [
+    { id: '1', name: 'Almacén' },
+    { id: '2', name: 'Bebidas' },
+    { id: '3', name: 'Limpieza' },
+    { id: '4', name: 'Ferretería' },
+    { id: '5', name: 'Librería' },
+  ];
+
+  const suppliers: Supplier[] = [
+    { id: '1', name: 'Distribuidora del Sur S.A.', address: 'Av. Belgrano 1234, Córdoba' },
+    { id: '2', name: 'Mayorista Río de la Plata', address: 'Calle Defensa 560, Buenos Aires' },
+    { id: '3', name: 'Química Andina S.R.L.', address: 'Ruta 40 km 12, Mendoza' },
+    { id: '4', name: 'Papelera Patagónica', address: 'San Martín 89, Neuquén' },
+  ];
+
+  const product = (id: string, name: string, sku: string, price: number, stockQuantity: number, categoryId: string, description: string,
+    reorderPoint: number | null = null, reorderQuantity: number | null = null): Product =>
+    ({ id, name, sku, price, stockQuantity, reorderPoint, reorderQuantity, categoryId, description, imageUrl: placeholderImage(name), createdAt });
+
+  const products: Product[] = [
+    product('1', 'Yerba mate 1 kg', 'ALM-0001', 4200, 80, '1', 'Yerba mate con palo, paquete de 1 kg', 20, 60),
+    product('2', 'Arroz largo fino 1 kg', 'ALM-0002', 1850, 120, '1', 'Arroz tipo 00000', 30, 100),
+    product('3', 'Aceite de girasol 1,5 l', 'ALM-0003', 3100, 45, '1', 'Botella PET de 1,5 litros'),
+    product('4', 'Agua mineral 2 l', 'BEB-0001', 950, 200, '2', 'Sin gas', 40, 150),
+    product('5', 'Gaseosa cola 2,25 l', 'BEB-0002', 2300, 90, '2', 'Botella retornable'),
+    product('6', 'Jugo de naranja 1 l', 'BEB-0003', 1600, 8, '2', 'Exprimido, sin azúcar agregada', 12, 36),
+    product('7', 'Lavandina 2 l', 'LIM-0001', 1200, 60, '3', 'Cloro activo 55 g/l'),
+    product('8', 'Detergente 750 ml', 'LIM-0002', 1450, 5, '3', 'Aroma limón', 10, 48),
+    product('9', 'Destornillador Phillips', 'FER-0001', 5200, 25, '4', 'Punta PH2, mango ergonómico'),
+    product('10', 'Caja de tornillos x100', 'FER-0002', 3800, 40, '4', 'Tornillos para madera 4 x 40 mm'),
+    product('11', 'Cuaderno rayado A4', 'LIB-0001', 2700, 70, '5', '84 hojas, tapa dura'),
+    product('12', 'Birome azul x10', 'LIB-0002', 2100, 3, '5', 'Trazo medio', 5, 20),
+  ];
+
+  // Transacciones de los últimos 90 días, una o dos por día
+  const random = seededRandom(2024);
+  const transactions: Transaction[] = [];
+  const statuses: TransactionStatus[] = ['COMPLETED', 'COMPLETED', 'COMPLETED', 'PENDING', 'PROCESSING'];
+  for (let daysAgo = 90; daysAgo >= 1; daysAgo--) {
+    const count = random() < 0.5 ? 1 : 2;
+    for (let n = 0; n < count; n++) {
+      const type: TransactionType = random() < 0.65 ? 'SALE' : 'PURCHASE';
+      const item = products[Math.floor(random() * products.length)];
+      const quantity = 1 + Math.floor(random() * (type === 'SALE' ? 5 : 20));
+      const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() - daysAgo, 9 + Math.floor(random() * 10), Math.floor(random() * 60));
+      const { password, ...user } = users[type === 'SALE' ? 2 : 1];
+      transactions.push({
+        id: String(transactions.length + 1),
+        transactionType: type,
+        status: statuses[Math.floor(random() * statuses.length)],
+        description: type === 'SALE' ? 'Venta en mostrador' : 'Reposición de stock',
+        totalProducts: quantity,
+        totalPrice: item.price * quantity,
+        createdAt: date.toISOString(),
+        product: { ...item },
+        user,
+        supplier: type === 'PURCHASE' ? { ...suppliers[Math.floor(random() * suppliers.length)] } : null,
+      });
+    }
+  }
+
+  return { users, categories, suppliers, products, transactions };
+}
@@ -0,0 +1,68 @@
+import { Category } from './category.model';
+import { Product } from './product.model';
+import { Supplier } from './supplier.model';
+import { Transaction } from './transaction.model';
+
+/**
+ * Sobre común de las respuestas del backend: código de estado y mensaje
+ * @interface ApiResponse
+ */
+export interface ApiResponse {
+  status: number;
+  message: string;
+}
+
+/**
+ * Respuesta del login y de la renovación del token
+ * @interface LoginResponse
+ */
+export interface LoginResponse extends ApiResponse {
+  token: string;
+  role: string;
+  refreshToken?: string;
+}
+
+/**
+ * Datos de paginación que el backend agrega a las listas cuando recibe
+ * los parámetros page y size; faltan si devolvió la lista completa
+ * @interface PageInfo
+ */
+export interface PageInfo {
+  totalElements?: number;
+  totalPages?: number;
+}
+
+/**
+ * Respuestas con listas y entidades individuales
+ */
+export interface CategoryListResponse extends ApiResponse {
+  categories: Category[];
+}
+
+export interface CategoryResponse extends ApiResponse {
+  category: Category;
+}
+
+export interface SupplierListResponse extends ApiResponse {
+  suppliers: Supplier[];
+}
+
+export interface SupplierResponse extends ApiResponse {
+  supplier: Supplier;
+}
+
+export interface ProductListResponse extends ApiResponse, PageInfo {
+  products: Product[];
+}
+
+export interface ProductResponse extends ApiResponse {
+  product: Product;
+}
+
+export interface TransactionListResponse extends ApiResponse, PageInfo {
+  transactions: Transaction[];
+}
+
+export interface TransactionResponse extends ApiResponse {
+  transaction: Transaction;
+}
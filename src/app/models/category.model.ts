@@ -0,0 +1,16 @@
+/**
+ * Interfaz que define la estructura de una categoría
+ * @interface Category
+ */
+export interface Category {
+  id: string;
+  name: string;
+}
+
+/**
+ * Datos enviados para crear o actualizar una categoría
+ * @interface CategoryRequest
+ */
+export interface CategoryRequest {
+  name: string;
+}
@@ -0,0 +1,14 @@
+/**
+ * Interfaz que define un importe de dinero
+ * 
+ * El importe se guarda en la unidad mínima de la moneda (centavos para
+ * ARS o USD, yenes para JPY) como número entero, para que las sumas no
+ * acumulen errores de punto flotante. El backend envía los precios como
+ * decimales; se convierten con toMoney() (ver service/money.ts).
+ * 
+ * @interface Money
+ */
+export interface Money {
+  amount: number; // Importe en la unidad mínima de la moneda (entero)
+  currency: string; // Código ISO 4217 de la moneda (ej: ARS, USD)
+}
@@ -0,0 +1,26 @@
+/**
+ * Interfaz que define los parámetros de una consulta paginada
+ * 
+ * Las páginas se numeran desde 1 en la aplicación; ApiService las
+ * convierte a la numeración desde 0 que espera el backend.
+ * 
+ * @interface PageRequest
+ */
+export interface PageRequest {
+  page: number; // Página solicitada (desde 1)
+  size: number; // Elementos por página
+  sort?: string; // Orden en formato "campo,asc" o "campo,desc"
+  filter?: string; // Texto de búsqueda
+}
+
+/**
+ * Interfaz que define la estructura de una página de resultados
+ * @interface Page
+ */
+export interface Page<T> {
+  items: T[]; // Elementos de la página
+  page: number; // Página devuelta (desde 1)
+  size: number; // Elementos por página
+  totalItems: number; // Total de elementos que cumplen el filtro
+  totalPages: number; // Total de páginas
+}
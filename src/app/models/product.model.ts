@@ -0,0 +1,21 @@
+/**
+ * Interfaz que define la estructura de un producto
+ * 
+ * El alta y la edición se envían como FormData (incluyen la imagen),
+ * por lo que no hay una interfaz de petición para productos.
+ * 
+ * @interface Product
+ */
+export interface Product {
+  id: string;
+  name: string;
+  sku: string;
+  price: number;
+  stockQuantity: number;
+  reorderPoint?: number | null; // Stock a partir del cual hay que reponer (si no se indica, LOW_STOCK_THRESHOLD)
+  reorderQuantity?: number | null; // Unidades a comprar al reponer
+  categoryId: string;
+  description?: string;
+  imageUrl?: string;
+  createdAt?: string;
+}
@@ -0,0 +1,18 @@
+/**
+ * Interfaz que define la estructura de un proveedor
+ * @interface Supplier
+ */
+export interface Supplier {
+  id: string;
+  name: string;
+  address: string;
+}
+
+/**
+ * Datos enviados para crear o actualizar un proveedor
+ * @interface SupplierRequest
+ */
+export interface SupplierRequest {
+  name: string;
+  address: string;
+}
@@ -0,0 +1,52 @@
+import { Product } from './product.model';
+import { Supplier } from './supplier.model';
+import { User } from './user.model';
+
+/**
+ * Tipos de transacción registrados por el backend
+ */
+export type TransactionType = 'PURCHASE' | 'SALE' | 'RETURN_TO_SUPPLIER';
+
+/**
+ * Estados por los que pasa una transacción
+ */
+export type TransactionStatus = 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'CANCELED';
+
+/**
+ * Interfaz que define la estructura de una transacción
+ * @interface Transaction
+ */
+export interface Transaction {
+  id: string;
+  transactionType: TransactionType;
+  status: TransactionStatus;
+  description?: string;
+  totalProducts: number;
+  totalPrice: number;
+  createdAt: string;
+  updatedAt?: string;
+  product?: Product | null;
+  user?: User | null;
+  supplier?: Supplier | null;
+}
+
+/**
+ * Datos enviados para registrar una compra a un proveedor
+ * @interface PurchaseRequest
+ */
+export interface PurchaseRequest {
+  productId: string;
+  supplierId: string;
+  quantity: number;
+  description?: string;
+}
+
+/**
+ * Datos enviados para registrar una venta
+ * @interface SellRequest
+ */
+export interface SellRequest {
+  productId: string;
+  quantity: number;
+  description?: string;
+}
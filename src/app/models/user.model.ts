@@ -0,0 +1,36 @@
+/**
+ * Interfaz que define la estructura de un usuario
+ * 
+ * El rol llega tal como lo informa el backend; para evaluar permisos se
+ * normaliza con normalizeRole (ver service/permissions.ts).
+ * 
+ * @interface User
+ */
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  phoneNumber: string;
+  role: string;
+  createdAt?: string;
+}
+
+/**
+ * Credenciales enviadas para iniciar sesión
+ * @interface LoginRequest
+ */
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+/**
+ * Datos enviados para registrar un usuario nuevo
+ * @interface RegisterRequest
+ */
+export interface RegisterRequest {
+  name: string;
+  email: string;
+  password: string;
+  phoneNumber: string;
+}
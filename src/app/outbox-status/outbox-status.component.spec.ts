@@ -0,0 +1,84 @@
+// Importaciones necesarias para las pruebas unitarias de Angular
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+
+// Importación del componente que vamos a probar
+import { OutboxStatusComponent } from './outbox-status.component';
+import { OutboxEntry, OutboxService } from '../service/outbox.service';
+import { NotificationService } from '../service/notification.service';
+
+/**
+ * Suite de pruebas para el OutboxStatusComponent
+ * Contiene las pruebas unitarias para verificar el indicador de
+ * transacciones pendientes de sincronizar
+ */
+describe('OutboxStatusComponent', () => {
+  // Variables para manejar la instancia del componente y el fixture de prueba
+  let component: OutboxStatusComponent;
+  let fixture: ComponentFixture<OutboxStatusComponent>;
+  let outboxService: OutboxService;
+
+  /**
+   * Configuración que se ejecuta antes de cada prueba
+   * Prepara el entorno de testing y crea una instancia del componente
+   */
+  beforeEach(async () => {
+    // Configuración del módulo de testing
+    await TestBed.configureTestingModule({
+      imports: [OutboxStatusComponent], // Importar el componente standalone
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])]
+    })
+      .compileComponents(); // Compilar los componentes
+
+    outboxService = TestBed.inject(OutboxService);
+
+    // Crear una instancia del componente para testing
+    fixture = TestBed.createComponent(OutboxStatusComponent);
+    component = fixture.componentInstance;
+    // Detectar cambios para inicializar el componente
+    fixture.detectChanges();
+  });
+
+  /**
+   * Prueba básica: verificar que el componente se crea correctamente
+   */
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  /**
+   * El indicador y los conflictos se actualizan cuando cambia la cola
+   */
+  it('should show pending transactions and conflicts', () => {
+    const conflict: OutboxEntry = {
+      id: 'abc', owner: 'caja@ims.com', createdAt: Date.now(), status: 'conflict',
+      error: 'Stock insuficiente', kind: 'sell', body: { productId: '1', quantity: 5 },
+    };
+    spyOn(outboxService, 'pending').and.returnValue([{ ...conflict, status: 'pending' }, { ...conflict, id: 'def', status: 'pending' }]);
+    spyOn(outboxService, 'conflicts').and.returnValue([conflict]);
+
+    outboxService.changed.emit();
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.outbox-pending').textContent).toContain('2 transacciones pendientes');
+    expect(fixture.nativeElement.querySelector('.outbox-conflicts').textContent).toContain('Stock insuficiente');
+  });
+
+  /**
+   * Si IndexedDB falla al descartar un conflicto se avisa al usuario
+   */
+  it('should notify when a conflict cannot be dismissed', async () => {
+    const notifications = TestBed.inject(NotificationService);
+    spyOn(outboxService, 'dismiss').and.rejectWith(new Error('IndexedDB no disponible'));
+    spyOn(notifications, 'error');
+
+    await component.dismiss({
+      id: 'abc', owner: 'caja@ims.com', createdAt: Date.now(), status: 'conflict',
+      error: 'Stock insuficiente', kind: 'sell', body: { productId: '1', quantity: 5 },
+    });
+
+    expect(notifications.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+// Importaciones necesarias para el funcionamiento del componente
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { OutboxEntry, OutboxService } from '../service/outbox.service';
+import { I18nService } from '../service/i18n.service';
+import { NotificationService } from '../service/notification.service';
+import { TranslatePipe } from '../pipe/translate.pipe';
+
+/**
+ * Componente de Estado de Sincronización
+ * Se muestra en la barra lateral con la cantidad de ventas y compras
+ * registradas sin conexión que esperan ser enviadas, y lista las que el
+ * servidor rechazó al reenviarlas (conflictos) para que el usuario las revise
+ */
+@Component({
+  selector: 'app-outbox-status',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe], // Módulo para directivas comunes
+  templateUrl: './outbox-status.component.html',
+  styleUrl: './outbox-status.component.css'
+})
+export class OutboxStatusComponent implements OnInit, OnDestroy {
+
+  /**
+   * Constructor del componente
+   * @param outboxService - Cola de transacciones pendientes de sincronizar
+   * @param i18n - Servicio de traducciones del idioma activo
+   * @param notifications - Servicio para avisar si no se pudo descartar un conflicto
+   */
+  constructor(
+    private outboxService: OutboxService,
+    private i18n: I18nService,
+    private notifications: NotificationService
+  ) { }
+
+  /**
+   * Cantidad de transacciones pendientes de enviar
+   */
+  pendingCount: number = 0;
+
+  /**
+   * Transacciones rechazadas por el servidor al reenviarlas
+   */
+  conflicts: OutboxEntry[] = [];
+
+  /**
+   * Indica si se está intentando sincronizar
+   */
+  syncing: boolean = false;
+
+  // Suscripción a los cambios de la cola
+  private changeSubscription?: Subscription;
+
+  /**
+   * Hook de ciclo de vida que se ejecuta después de la inicialización del componente
+   * Escucha los cambios de la cola para actualizar el indicador
+   */
+  ngOnInit(): void {
+    this.update();
+    this.changeSubscription = this.outboxService.changed.subscribe(() => this.update());
+  }
+
+  /**
+   * Libera la suscripción al destruir el componente
+   */
+  ngOnDestroy(): void {
+    this.changeSubscription?.unsubscribe();
+  }
+
+  /**
+   * Reintenta enviar las transacciones pendientes
+   * @returns void
+   */
+  async retry(): Promise<void> {
+    this.syncing = true;
+    try {
+      await this.outboxService.replay();
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  /**
+   * Descarta un conflicto ya revisado
+   * @param entry - Transacción rechazada
+   * @returns void
+   */
+  async dismiss(entry: OutboxEntry): Promise<void> {
+    try {
+      await this.outboxService.dismiss(entry.id);
+    } catch {
+      this.notifications.error(this.i18n.translate('outbox.dismissFailed'));
+    }
+  }
+
+  /**
+   * Descripción breve de una transacción para la lista de conflictos
+   * @param entry - Transacción de la cola
+   * @returns Texto a mostrar
+   */
+  describe(entry: OutboxEntry): string {
+    const params = { quantity: entry.body.quantity, productId: entry.body.productId };
+    return this.i18n.translate(entry.kind === 'sell' ? 'outbox.sell' : 'outbox.purchase', params);
+  }
+
+  private update(): void {
+    this.pendingCount = this.outboxService.pending().length;
+    this.conflicts = this.outboxService.conflicts();
+  }
+}
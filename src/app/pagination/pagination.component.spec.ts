@@ -1,5 +1,6 @@
 // Importaciones necesarias para las pruebas unitarias de Angular
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
 
 // Importación del componente que vamos a probar
 import { PaginationComponent } from './pagination.component';
@@ -21,7 +22,8 @@ describe('PaginationComponent', () => {
   beforeEach(async () => {
     // Configuración del módulo de testing
     await TestBed.configureTestingModule({
-      imports: [PaginationComponent] // Importar el componente standalone
+      imports: [PaginationComponent], // Importar el componente standalone
+      providers: [provideHttpClient()]
     })
       .compileComponents(); // Compilar los componentes
 
@@ -40,4 +42,21 @@ describe('PaginationComponent', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  /**
+   * El selector de tamaño solo se muestra si el componente padre lo escucha,
+   * y emite el tamaño elegido
+   */
+  it('should emit the selected page size', () => {
+    expect(fixture.nativeElement.querySelector('select')).toBeNull();
+
+    const sizes: number[] = [];
+    component.pageSizeChange.subscribe((size) => sizes.push(size));
+    component.onPageSizeChange(10);
+    component.onPageSizeChange(25);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('select')).not.toBeNull();
+    expect(sizes).toEqual([25]);
+  });
 });
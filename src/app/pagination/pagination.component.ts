@@ -1,6 +1,8 @@
 // Importaciones necesarias para el funcionamiento del componente
 import { CommonModule } from '@angular/common';
 import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { TranslatePipe } from '../pipe/translate.pipe';
 
 /**
  * Componente de Paginación Reutilizable
@@ -10,7 +12,7 @@ import { Component, EventEmitter, Input, Output } from '@angular/core';
 @Component({
   selector: 'app-pagination',
   standalone: true,
-  imports: [CommonModule], // Módulo necesario para directivas comunes de Angular
+  imports: [CommonModule, FormsModule, TranslatePipe], // Módulos para directivas comunes y el selector de tamaño de página
   templateUrl: './pagination.component.html',
   styleUrl: './pagination.component.css'
 })
@@ -28,6 +30,23 @@ export class PaginationComponent {
    */
   @Input() totalPages: number = 1;
 
+  /**
+   * Propiedad de entrada: cantidad de elementos por página
+   * Si el componente padre no escucha pageSizeChange, el selector no se muestra
+   */
+  @Input() pageSize: number = 10;
+
+  /**
+   * Propiedad de entrada: tamaños de página que el usuario puede elegir
+   */
+  @Input() pageSizeOptions: number[] = [10, 25, 50];
+
+  /**
+   * Evento de salida: emite el tamaño de página elegido
+   * El componente padre debe volver a la primera página al recibirlo
+   */
+  @Output() pageSizeChange = new EventEmitter<number>();
+
   /**
    * Evento de salida: emite el número de página seleccionada
    * Permite comunicación hacia el componente padre cuando cambia la página
@@ -59,4 +78,15 @@ export class PaginationComponent {
     }
   }
 
+  /**
+   * Método para manejar el cambio de tamaño de página
+   * @param size - Cantidad de elementos por página elegida
+   * @returns void
+   */
+  onPageSizeChange(size: number): void {
+    if (size !== this.pageSize) {
+      this.pageSizeChange.emit(size);
+    }
+  }
+
 }
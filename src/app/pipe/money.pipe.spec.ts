@@ -0,0 +1,35 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+
+import { MoneyPipe } from './money.pipe';
+import { ConfigService } from '../service/config.service';
+import { I18nService } from '../service/i18n.service';
+
+describe('MoneyPipe', () => {
+  let pipe: MoneyPipe;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient()]
+    });
+    const config = TestBed.inject(ConfigService);
+    const i18n = TestBed.inject(I18nService);
+    spyOnProperty(config, 'currency').and.returnValue('ARS');
+    spyOnProperty(i18n, 'locale').and.returnValue('en-US');
+    pipe = new MoneyPipe(config, i18n);
+  });
+
+  it('should format backend prices in the app currency and active locale', () => {
+    expect(pipe.transform(1850.5)).toBe(new Intl.NumberFormat('en-US', { style: 'currency', currency: 'ARS' }).format(1850.5));
+  });
+
+  it('should accept Money and an explicit currency', () => {
+    expect(pipe.transform({ amount: 1999, currency: 'USD' })).toBe('$19.99');
+    expect(pipe.transform(19.99, 'USD')).toBe('$19.99');
+  });
+
+  it('should render missing values as empty', () => {
+    expect(pipe.transform(null)).toBe('');
+    expect(pipe.transform(undefined)).toBe('');
+  });
+});
@@ -0,0 +1,44 @@
+// Importaciones necesarias de Angular y servicios
+import { Pipe, PipeTransform } from '@angular/core';
+import { ConfigService } from '../service/config.service';
+import { I18nService } from '../service/i18n.service';
+import { formatMoney, toMoney } from '../service/money';
+import { Money } from '../models/money.model';
+
+/**
+ * Pipe de importes (money)
+ *
+ * Muestra un importe con la moneda de la aplicación (currency de
+ * config.json) y el formato del idioma activo. Acepta los precios
+ * decimales que envía el backend o un Money ya calculado.
+ *
+ * Ejemplos:
+ *   <td>{{ transaction.totalPrice | money }}</td>
+ *   <p>{{ total | money }}</p>
+ *   <p>{{ product.price | money : 'USD' }}</p>
+ */
+@Pipe({
+  name: 'money',
+  standalone: true
+})
+export class MoneyPipe implements PipeTransform {
+
+  /**
+   * Constructor del pipe
+   * @param config - Configuración de ejecución (moneda de la aplicación)
+   * @param i18n - Servicio de idioma (locale del formato)
+   */
+  constructor(private config: ConfigService, private i18n: I18nService) { }
+
+  /**
+   * Formatea el importe
+   * @param value - Importe decimal o Money; null o undefined se muestran vacíos
+   * @param currency - Moneda de un importe decimal (opcional, por defecto la de la aplicación)
+   * @returns Importe formateado
+   */
+  transform(value: number | Money | null | undefined, currency?: string): string {
+    if (value === null || value === undefined) return '';
+    const money = typeof value === 'number' ? toMoney(value, currency ?? this.config.currency) : value;
+    return formatMoney(money, this.i18n.locale);
+  }
+}
@@ -0,0 +1,25 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+
+import { TranslatePipe } from './translate.pipe';
+import { I18nService } from '../service/i18n.service';
+
+describe('TranslatePipe', () => {
+  let pipe: TranslatePipe;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient()]
+    });
+    const i18n = TestBed.inject(I18nService);
+    spyOnProperty(i18n, 'locale').and.returnValue('es-AR');
+    pipe = new TranslatePipe(i18n);
+  });
+
+  it('should translate keys built in the template', () => {
+    const status = 'PENDING';
+
+    expect(pipe.transform('transactionStatus.' + status)).toBe('Pendiente');
+    expect(pipe.transform('product.stock', { quantity: 8 })).toBe('Cantidad en stock: 8');
+  });
+});
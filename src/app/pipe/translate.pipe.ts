@@ -0,0 +1,38 @@
+// Importaciones necesarias de Angular y servicios
+import { Pipe, PipeTransform } from '@angular/core';
+import { I18nService, TranslationParams } from '../service/i18n.service';
+import { TranslationKey } from '../i18n/catalog';
+
+/**
+ * Pipe de traducción (translate)
+ *
+ * Muestra el texto del catálogo del idioma activo. Puede ser puro porque
+ * el idioma solo cambia recargando la aplicación.
+ *
+ * Ejemplos:
+ *   <h1>{{ 'product.title' | translate }}</h1>
+ *   <p>{{ 'outbox.pendingMany' | translate : { count: pendingCount } }}</p>
+ *   <td>{{ 'transactionStatus.' + transaction.status | translate }}</td>
+ */
+@Pipe({
+  name: 'translate',
+  standalone: true
+})
+export class TranslatePipe implements PipeTransform {
+
+  /**
+   * Constructor del pipe
+   * @param i18n - Servicio con los catálogos de textos
+   */
+  constructor(private i18n: I18nService) { }
+
+  /**
+   * Traduce la clave indicada
+   * @param key - Clave del texto; las claves armadas en la plantilla se aceptan como string
+   * @param params - Valores para los parámetros del texto (opcional)
+   * @returns Texto traducido
+   */
+  transform(key: string, params?: TranslationParams): string {
+    return this.i18n.translate(key as TranslationKey, params);
+  }
+}
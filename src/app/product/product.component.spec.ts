@@ -1,5 +1,8 @@
 // Importaciones necesarias para las pruebas unitarias de Angular
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
 
 // Importación del componente que vamos a probar
 import { ProductComponent } from './product.component';
@@ -21,7 +24,8 @@ describe('ProductComponent', () => {
   beforeEach(async () => {
     // Configuración del módulo de testing
     await TestBed.configureTestingModule({
-      imports: [ProductComponent] // Importar el componente standalone
+      imports: [ProductComponent], // Importar el componente standalone
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])]
     })
       .compileComponents(); // Compilar los componentes
 
@@ -40,4 +44,21 @@ describe('ProductComponent', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  /**
+   * Al pedir otra página se cancela la petición anterior, para que su
+   * respuesta (si llega tarde) no reemplace los resultados nuevos
+   */
+  it('should cancel the previous page request when a new one starts', () => {
+    const httpMock = TestBed.inject(HttpTestingController);
+    const isProductsPage = (request: { url: string }) => request.url.endsWith('/products/all');
+    const [first] = httpMock.match(isProductsPage);
+
+    component.onPageChange(2);
+    const [second] = httpMock.match(isProductsPage);
+
+    expect(first.cancelled).toBeTrue();
+    expect(second.request.params.get('page')).not.toBe(first.request.params.get('page'));
+    expect(second.cancelled).toBeFalse();
+  });
 });
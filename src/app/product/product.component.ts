@@ -1,39 +1,79 @@
 // Importaciones necesarias para el funcionamiento del componente
 import { CommonModule } from '@angular/common';
-import { Component, OnInit } from '@angular/core';
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { FormsModule } from '@angular/forms';
 import { PaginationComponent } from '../pagination/pagination.component';
+import { AsyncStateComponent } from '../async-state/async-state.component';
 import { ApiService } from '../service/api.service';
-import { Router } from '@angular/router';
+import { EntityStoreService } from '../service/entity-store.service';
+import { NotificationService } from '../service/notification.service';
+import { AsyncState, LOADING, errorState, loadedState } from '../service/async-state';
+import {
+  EMPTY_PRODUCT_FILTER, ProductFilter, ProductSortField, hasProductFilter, productFilterParams, readProductFilter, stockLevel
+} from '../service/product-filter';
+import { Product } from '../models/product.model';
+import { Category } from '../models/category.model';
+import { ActivatedRoute, Router } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { HasPermissionDirective } from '../directive/has-permission.directive';
+import { I18nService } from '../service/i18n.service';
+import { TranslationKey } from '../i18n/catalog';
+import { TranslatePipe } from '../pipe/translate.pipe';
+import { MoneyPipe } from '../pipe/money.pipe';
+import { ExportDialogComponent } from '../export-dialog/export-dialog.component';
+import { ExportService } from '../service/export.service';
+import { ExportColumn, ExportRequest, exportDate } from '../service/export';
+import { loadAllPages } from '../service/pagination';
+import { sameId } from '../service/ids';
 
 /**
  * Componente de Gestión de Productos
  * Maneja la visualización, paginación y operaciones CRUD de productos
  * Incluye navegación a páginas de creación y edición de productos
+ *
+ * La búsqueda, los filtros y el orden se guardan en los parámetros de
+ * consulta de la URL (ej: /product?search=yerba&stock=low&sort=price,asc):
+ * la barra de herramientas navega con los nuevos parámetros y la lista se
+ * recarga al cambiar la URL, de modo que una vista filtrada se puede
+ * guardar en favoritos, compartir o recorrer con los botones del navegador.
  */
 @Component({
   selector: 'app-product',
   standalone: true,
-  imports: [CommonModule, PaginationComponent], // Módulos para directivas comunes y componente de paginación
+  imports: [CommonModule, FormsModule, PaginationComponent, AsyncStateComponent, ExportDialogComponent, HasPermissionDirective, TranslatePipe, MoneyPipe], // Módulos para directivas comunes, formularios, paginación, estado de carga, exportación y permisos
   templateUrl: './product.component.html',
   styleUrl: './product.component.css',
 })
-export class ProductComponent implements OnInit {
+export class ProductComponent implements OnInit, OnDestroy {
 
   /**
    * Constructor del componente
    * @param apiService - Servicio para realizar operaciones con la API
    * @param router - Servicio de navegación entre rutas
+   * @param route - Ruta activa, con la búsqueda y los filtros en sus parámetros de consulta
+   * @param entityStore - Caché compartida de categorías para el filtro por categoría
+   * @param notifications - Servicio para mostrar mensajes al usuario
+   * @param i18n - Servicio de traducciones del idioma activo
+   * @param exportService - Servicio para descargar la lista en CSV o Excel
    */
-  constructor(private apiService: ApiService, private router: Router) { }
+  constructor(
+    private apiService: ApiService,
+    private router: Router,
+    private route: ActivatedRoute,
+    private entityStore: EntityStoreService,
+    private notifications: NotificationService,
+    private i18n: I18nService,
+    private exportService: ExportService
+  ) { }
   /**
    * Array que almacena todos los productos para la página actual
    */
-  products: any[] = [];
+  products: Product[] = [];
 
   /**
-   * Variable para mostrar mensajes de éxito o error al usuario
+   * Estado de la carga de la lista (cargando, vacía, con error)
    */
-  message: string = '';
+  state: AsyncState = LOADING;
 
   /**
    * Número de página actual para la paginación
@@ -50,44 +90,171 @@ export class ProductComponent implements OnInit {
    */
   itemsPerPage: number = 10;
 
+  /**
+   * Búsqueda, filtros y orden de la barra de herramientas
+   */
+  filter: ProductFilter = { ...EMPTY_PRODUCT_FILTER };
+
+  /**
+   * Categorías para el filtro por categoría
+   */
+  categories: Category[] = [];
+
+  /**
+   * Columnas por las que se puede ordenar la lista
+   */
+  sortOptions: { field: ProductSortField; label: TranslationKey }[] = [
+    { field: 'name', label: 'product.sortName' },
+    { field: 'sku', label: 'product.sortSku' },
+    { field: 'price', label: 'product.sortPrice' },
+    { field: 'stockQuantity', label: 'product.sortStockQuantity' },
+  ];
+
+  /**
+   * Columnas que se pueden exportar
+   */
+  exportColumns: ExportColumn<Product>[] = [
+    { key: 'name', label: 'productForm.name', value: (product) => product.name },
+    { key: 'sku', label: 'productForm.sku', value: (product) => product.sku },
+    { key: 'category', label: 'productForm.category', value: (product) => this.categoryName(product) },
+    { key: 'price', label: 'productForm.price', value: (product) => product.price },
+    { key: 'stockQuantity', label: 'productForm.stockQuantity', value: (product) => product.stockQuantity },
+    { key: 'reorderPoint', label: 'productForm.reorderPoint', value: (product) => product.reorderPoint },
+    { key: 'reorderQuantity', label: 'productForm.reorderQuantity', value: (product) => product.reorderQuantity },
+    { key: 'description', label: 'common.description', value: (product) => product.description },
+    { key: 'createdAt', label: 'export.createdAt', value: (product) => exportDate(product.createdAt) },
+  ];
+
+  /**
+   * true mientras el diálogo de exportación está abierto
+   */
+  exportOpen: boolean = false;
+
+  /**
+   * true mientras se cargan los productos a exportar
+   */
+  exporting: boolean = false;
+
+  // Suscripción a los parámetros de consulta de la URL
+  private queryParamsSubscription?: Subscription;
+
+  // Petición de la página en curso; se cancela al pedir otra para que una respuesta vieja no pise a la nueva
+  private productsSubscription?: Subscription;
+
   /**
    * Hook de ciclo de vida que se ejecuta después de la inicialización del componente
-   * Carga automáticamente la lista de productos
+   * Carga las categorías del filtro y la lista de productos según los
+   * parámetros de consulta de la URL (y cada vez que cambian)
    */
   ngOnInit(): void {
-    this.fetchProducts();
+    this.entityStore.getCategories().subscribe({
+      next: (categories) => this.categories = categories,
+      error: (error) => this.notifications.error(this.i18n.errorMessage(error, 'category.loadFailed')),
+    });
+    this.queryParamsSubscription = this.route.queryParamMap.subscribe((params) => {
+      this.filter = readProductFilter(params);
+      this.currentPage = 1;
+      this.fetchProducts();
+    });
+  }
+
+  /**
+   * Hook de ciclo de vida que se ejecuta al destruir el componente
+   */
+  ngOnDestroy(): void {
+    this.queryParamsSubscription?.unsubscribe();
+    this.productsSubscription?.unsubscribe();
   }
 
   /**
-   * Método para obtener y paginar los productos desde la API
-   * Calcula el total de páginas y aplica paginación del lado del cliente
+   * Indica si la lista está filtrada, para distinguir "sin resultados" de "sin productos"
+   */
+  get isFiltered(): boolean {
+    return hasProductFilter(this.filter);
+  }
+
+  /**
+   * Etiqueta del nivel de stock de un producto que hay que reponer
+   * @param product - Producto de la tarjeta
+   * @returns Clave del texto "Sin stock" o "Stock bajo", o null si el stock es suficiente
+   */
+  stockBadge(product: Product): TranslationKey | null {
+    switch (stockLevel(product)) {
+      case 'out': return 'product.stockOut';
+      case 'low': return 'product.stockLow';
+      default: return null;
+    }
+  }
+
+  /**
+   * Aplica la búsqueda, los filtros y el orden actuales navegando con sus
+   * parámetros de consulta; la lista se recarga al cambiar la URL
    * @returns void
    */
-  fetchProducts(): void {
-    this.apiService.getAllProducts().subscribe({
-      // Manejo de respuesta exitosa
-      next: (res: any) => {
-        // Obtener array de productos o array vacío si no existen
-        const products = res.products || [];
-        console.log(products[0].imageUrl)
+  applyFilter(): void {
+    this.router.navigate([], { relativeTo: this.route, queryParams: productFilterParams(this.filter) });
+  }
+
+  /**
+   * Quita la búsqueda y los filtros, conservando el orden
+   * @returns void
+   */
+  clearFilters(): void {
+    this.filter = { ...EMPTY_PRODUCT_FILTER, sort: this.filter.sort };
+    this.applyFilter();
+  }
 
-        // Calcular total de páginas basado en productos totales e items por página
-        this.totalPages = Math.ceil(products.length / this.itemsPerPage);
+  /**
+   * Ordena por una columna; si ya estaba ordenada por ella, invierte la dirección
+   * @param field - Columna por la que ordenar
+   * @returns void
+   */
+  toggleSort(field: ProductSortField): void {
+    this.filter.sort = `${field},${this.sortDirection(field) === 'asc' ? 'desc' : 'asc'}`;
+    this.applyFilter();
+  }
 
-        // Aplicar paginación: obtener productos para la página actual
-        this.products = products.slice(
-          (this.currentPage - 1) * this.itemsPerPage,
-          this.currentPage * this.itemsPerPage
-        );
+  /**
+   * Dirección del orden de una columna
+   * @param field - Columna a consultar
+   * @returns 'asc' o 'desc', o null si la lista no está ordenada por ella
+   */
+  sortDirection(field: ProductSortField): 'asc' | 'desc' | null {
+    const [sortField, direction] = this.filter.sort.split(',');
+    return sortField === field ? direction as 'asc' | 'desc' : null;
+  }
 
+  /**
+   * Método para obtener la página actual de productos desde la API
+   * El backend pagina y filtra la lista; si devuelve la lista completa,
+   * ApiService la filtra y recorta del lado del cliente
+   * @returns void
+   */
+  fetchProducts(): void {
+    this.state = LOADING;
+    const request = {
+      page: this.currentPage,
+      size: this.itemsPerPage,
+      sort: this.filter.sort || undefined,
+      filter: this.filter.search || undefined,
+    };
+    this.productsSubscription?.unsubscribe();
+    this.productsSubscription = this.apiService.getProductsPage(request, this.filter).subscribe({
+      // Manejo de respuesta exitosa
+      next: (page) => {
+        // Si la página quedó vacía (ej: tras eliminar su último producto), volver a la anterior
+        if (page.items.length === 0 && this.currentPage > 1 && this.currentPage > page.totalPages) {
+          this.currentPage = Math.max(page.totalPages, 1);
+          this.fetchProducts();
+          return;
+        }
+        this.products = page.items;
+        this.totalPages = page.totalPages;
+        this.state = loadedState(page.items);
       },
-      // Manejo de errores en la obtención de productos
+      // Manejo de errores en la obtención de productos (se muestra con opción de reintentar)
       error: (error) => {
-        this.showMessage(
-          error?.error?.message ||
-          error?.message ||
-          'No se pudo obtener la lista de productos' + error
-        );
+        this.state = errorState(this.i18n.errorMessage(error, 'product.loadFailed'));
       },
     });
   }
@@ -100,29 +267,64 @@ export class ProductComponent implements OnInit {
    */
   handleProductDelete(productId: string): void {
     // Mostrar diálogo de confirmación antes de eliminar
-    if (window.confirm('¿Estás seguro de que deseas eliminar este producto?')) {
+    if (window.confirm(this.i18n.translate('product.confirmDelete'))) {
       // Proceder con la eliminación si el usuario confirma
       this.apiService.deleteProduct(productId).subscribe({
         // Manejo de respuesta exitosa
-        next: (res: any) => {
+        next: (res) => {
           if (res.status === 200) {
-            this.showMessage('Producto eliminado correctamente');
+            this.notifications.success(this.i18n.translate('product.deleted'));
             // Recargar la lista de productos para reflejar los cambios
             this.fetchProducts(); //reload the products
           }
         },
         // Manejo de errores en la eliminación
         error: (error) => {
-          this.showMessage(
-            error?.error?.message ||
-            error?.message ||
-            'No se pudo eliminar el producto' + error
-          );
+          this.notifications.error(this.i18n.errorMessage(error, 'product.deleteFailed'));
         },
       });
     }
   }
 
+  /**
+   * Descarga los productos con las opciones del diálogo de exportación
+   *
+   * La vista actual conserva la búsqueda, los filtros y el orden de la
+   * lista (todas sus páginas); "todos" conserva solo el orden.
+   *
+   * @param request - Formato, alcance y columnas elegidos
+   * @returns void
+   */
+  handleExport(request: ExportRequest): void {
+    const criteria = request.scope === 'view' ? this.filter : {};
+    const pageRequest = {
+      sort: this.filter.sort || undefined,
+      filter: request.scope === 'view' ? this.filter.search || undefined : undefined,
+    };
+    this.exporting = true;
+    loadAllPages((page) => this.apiService.getProductsPage(page, criteria), pageRequest).subscribe({
+      next: (products) => {
+        this.exporting = false;
+        this.exportOpen = false;
+        const title = this.i18n.translate('product.title');
+        this.exportService.download(title.toLowerCase(), title, products, this.exportColumns, request);
+      },
+      error: (error) => {
+        this.exporting = false;
+        this.notifications.error(this.i18n.errorMessage(error, 'export.failed'));
+      },
+    });
+  }
+
+  /**
+   * Nombre de la categoría de un producto
+   * @param product - Producto a consultar
+   * @returns Nombre de la categoría, o su ID si no está en la lista de categorías
+   */
+  private categoryName(product: Product): string {
+    return this.categories.find((category) => sameId(category.id, product.categoryId))?.name ?? product.categoryId;
+  }
+
   /**
    * Método para manejar el cambio de página en la paginación
    * Actualiza la página actual y recarga los productos correspondientes
@@ -134,6 +336,18 @@ export class ProductComponent implements OnInit {
     this.fetchProducts();
   }
 
+  /**
+   * Método para manejar el cambio de cantidad de productos por página
+   * Vuelve a la primera página con el nuevo tamaño
+   * @param size - Cantidad de productos por página
+   * @returns void
+   */
+  onPageSizeChange(size: number): void {
+    this.itemsPerPage = size;
+    this.currentPage = 1;
+    this.fetchProducts();
+  }
+
   /**
    * Método para navegar a la página de agregar nuevo producto
    * Utiliza el router para redireccionar a la ruta de creación
@@ -143,6 +357,14 @@ export class ProductComponent implements OnInit {
     this.router.navigate(['/add-product']);
   }
 
+  /**
+   * Método para navegar al asistente de importación de productos (CSV/XLSX)
+   * @returns void
+   */
+  navigateToImportPage(): void {
+    this.router.navigate(['/import-products']);
+  }
+
   /**
    * Método para navegar a la página de edición de producto
    * Utiliza el router para redireccionar a la ruta de edición con el ID del producto
@@ -152,18 +374,4 @@ export class ProductComponent implements OnInit {
   navigateToEditProductPage(productId: string): void {
     this.router.navigate([`/edit-product/${productId}`]);
   }
-
-  /**
-   * Método utilitario para mostrar mensajes temporales al usuario
-   * Los mensajes se ocultan automáticamente después de 4 segundos
-   * @param message - El mensaje a mostrar al usuario
-   */
-  showMessage(message: string) {
-    // Asignar el mensaje a la variable para mostrarlo en el template
-    this.message = message;
-    // Configurar timeout para limpiar el mensaje después de 4 segundos
-    setTimeout(() => {
-      this.message = '';
-    }, 4000);
-  }
-}
\ No newline at end of file
+}
@@ -2,6 +2,11 @@
 import { CommonModule } from '@angular/common';
 import { Component, OnInit } from '@angular/core';
 import { ApiService } from '../service/api.service';
+import { AsyncState, LOADING, errorState, loadedState } from '../service/async-state';
+import { AsyncStateComponent } from '../async-state/async-state.component';
+import { User } from '../models/user.model';
+import { I18nService } from '../service/i18n.service';
+import { TranslatePipe } from '../pipe/translate.pipe';
 
 /**
  * Componente de Perfil
@@ -11,7 +16,7 @@ import { ApiService } from '../service/api.service';
 @Component({
   selector: 'app-profile',
   standalone: true,
-  imports: [CommonModule], // Módulo necesario para directivas comunes de Angular
+  imports: [CommonModule, AsyncStateComponent, TranslatePipe], // Módulos para directivas comunes y estado de carga
   templateUrl: './profile.component.html',
   styleUrl: './profile.component.css'
 })
@@ -20,19 +25,19 @@ export class ProfileComponent implements OnInit {
   /**
    * Constructor del componente
    * @param apiService - Servicio para realizar llamadas a la API
+   * @param i18n - Servicio de traducciones del idioma activo
    */
-  constructor(private apiService: ApiService) { }
+  constructor(private apiService: ApiService, private i18n: I18nService) { }
   /**
    * Objeto que almacena la información del usuario autenticado
    * Se inicializa como null hasta que se carguen los datos desde la API
    */
-  user: any = null
+  user: User | null = null
 
   /**
-   * Variable para mostrar mensajes de error al usuario
-   * Se muestra temporalmente durante 4 segundos
+   * Estado de la carga del perfil (cargando o con error)
    */
-  message: string = "";
+  state: AsyncState = LOADING;
 
   /**
    * Hook de ciclo de vida que se ejecuta después de la inicialización del componente
@@ -48,38 +53,29 @@ export class ProfileComponent implements OnInit {
    * @returns void
    */
   fetchUserInfo(): void {
-    // Suscribirse al observable del servicio API para obtener info del usuario
-    this.apiService.getLoggedInUserInfo().subscribe({
+    this.state = LOADING;
+    // Suscribirse al usuario verificado (cacheado por ApiService tras el login)
+    this.apiService.loadCurrentUser().subscribe({
       // Manejo de respuesta exitosa
       next: (res) => {
         // Asignar los datos del usuario a la variable local
         this.user = res;
+        this.state = loadedState(res);
       },
       // Manejo de errores en la llamada a la API
       error: (error) => {
-        // Mostrar mensaje de error específico o genérico
-        this.showMessage(
-          error?.error?.message ||
-          error?.message ||
-          'No se pudo obtener la información del perfil' + error
-        );
+        // Mostrar mensaje de error específico o genérico, con opción de reintentar
+        this.state = errorState(this.i18n.errorMessage(error, 'profile.loadFailed'));
       }
     })
   }
 
-
   /**
-   * Método utilitario para mostrar mensajes de error temporales al usuario
-   * Los mensajes se ocultan automáticamente después de 4 segundos
-   * @param message - El mensaje de error a mostrar al usuario
+   * Nombre del rol en el idioma activo
+   * @param role - Rol tal como lo envía el backend
+   * @returns Nombre del rol a mostrar
    */
-  //SHOW ERROR
-  showMessage(message: string) {
-    // Asignar el mensaje a la variable para mostrarlo en el template
-    this.message = message;
-    // Configurar timeout para limpiar el mensaje después de 4 segundos
-    setTimeout(() => {
-      this.message = '';
-    }, 4000);
+  roleLabel(role: string): string {
+    return this.i18n.roleLabel(role);
   }
-}
+}
\ No newline at end of file
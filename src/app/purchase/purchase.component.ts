@@ -1,8 +1,27 @@
 // Importaciones de Angular Core y módulos necesarios
 import { CommonModule } from '@angular/common'; // Directivas comunes como *ngIf, *ngFor
-import { Component, OnInit } from '@angular/core'; // Decorador Component e interfaz OnInit
+import { Component, ElementRef, OnDestroy, OnInit, ViewChild } from '@angular/core'; // Decorador Component, referencias a elementos e interfaces de ciclo de vida
 import { FormsModule } from '@angular/forms'; // Para formularios y two-way binding
 import { ApiService } from '../service/api.service'; // Servicio para comunicación con la API
+import { EntityStoreService } from '../service/entity-store.service'; // Caché compartida de productos y proveedores
+import { NotificationAction, NotificationService } from '../service/notification.service';
+import { Product } from '../models/product.model';
+import { Supplier } from '../models/supplier.model';
+import { FormDraftService } from '../service/form-draft.service';
+import { IdleService } from '../service/idle.service';
+import { OutboxService } from '../service/outbox.service';
+import { Router } from '@angular/router';
+import { Permission } from '../service/permissions';
+import { Subscription } from 'rxjs';
+import { I18nService } from '../service/i18n.service';
+import { ConfigService } from '../service/config.service';
+import { multiplyMoney, toMoney } from '../service/money';
+import { sameId } from '../service/ids';
+import { Money } from '../models/money.model';
+import { TranslatePipe } from '../pipe/translate.pipe';
+import { MoneyPipe } from '../pipe/money.pipe';
+import { BarcodeScannerDirective } from '../directive/barcode-scanner.directive';
+import { BarcodeScannerService } from '../service/barcode-scanner.service';
 
 /**
  * Componente PurchaseComponent
@@ -22,11 +41,11 @@ import { ApiService } from '../service/api.service'; // Servicio para comunicaci
 @Component({
   selector: 'app-purchase', // Selector para usar el componente en templates
   standalone: true, // Componente independiente, no requiere módulo padre
-  imports: [CommonModule, FormsModule], // Módulos necesarios para funcionalidad
+  imports: [CommonModule, FormsModule, BarcodeScannerDirective, TranslatePipe, MoneyPipe], // Módulos necesarios para funcionalidad
   templateUrl: './purchase.component.html', // Template HTML del componente
   styleUrl: './purchase.component.css' // Estilos CSS del componente
 })
-export class PurchaseComponent implements OnInit {
+export class PurchaseComponent implements OnInit, OnDestroy {
 
   /**
    * Constructor del componente
@@ -34,12 +53,47 @@ export class PurchaseComponent implements OnInit {
    * Inyecta las dependencias necesarias:
    * - ApiService: Para realizar operaciones CRUD relacionadas con compras,
    *   productos y proveedores a través de llamadas HTTP al backend
+   * - EntityStoreService: Para obtener las listas de productos y proveedores compartidas entre pantallas
+   * - FormDraftService: Para conservar el formulario en curso si la terminal se bloquea
+   * - IdleService: Para saber cuándo se bloquea la pantalla por inactividad
+   * - OutboxService: Para conservar la compra si no hay conexión con el servidor
+   * - NotificationService: Para informar el resultado de la compra
+   * - Router: Para abrir el historial de transacciones desde la notificación
+   * - I18nService: Para mostrar los mensajes en el idioma activo
+   * - ConfigService: Para calcular el total en la moneda de la aplicación
+   * - BarcodeScannerService: Para el modo escáner (búsqueda por SKU y aviso sonoro)
    */
-  constructor(private apiService: ApiService) { }
+  constructor(
+    private apiService: ApiService,
+    private entityStore: EntityStoreService,
+    private formDrafts: FormDraftService,
+    private idleService: IdleService,
+    private outboxService: OutboxService,
+    private notifications: NotificationService,
+    private router: Router,
+    private i18n: I18nService,
+    private config: ConfigService,
+    private scanner: BarcodeScannerService
+  ) { }
+
+  // Identificador del borrador de este formulario en FormDraftService
+  private static DRAFT_KEY = 'purchase';
+
+  // Suscripción al bloqueo por inactividad
+  private lockSubscription?: Subscription;
+
+  // Campo de cantidad, que recibe el foco después de cada lectura del escáner
+  @ViewChild('quantityInput') quantityInput?: ElementRef<HTMLInputElement>;
+
+  // Temporizador del aviso visual de código desconocido
+  private scanErrorTimer?: ReturnType<typeof setTimeout>;
+
+  // true mientras se muestra el aviso visual de código desconocido
+  scanError: boolean = false;
 
   // Arrays para almacenar datos obtenidos del servidor
-  products: any[] = [] // Lista de todos los productos disponibles para compra
-  suppliers: any[] = [] // Lista de todos los proveedores registrados en el sistema
+  products: Product[] = [] // Lista de todos los productos disponibles para compra
+  suppliers: Supplier[] = [] // Lista de todos los proveedores registrados en el sistema
 
   // Campos del formulario de compra
   productId: string = '' // ID del producto seleccionado para la compra
@@ -47,9 +101,16 @@ export class PurchaseComponent implements OnInit {
   description: string = '' // Descripción opcional adicional para la compra
   quantity: string = '' // Cantidad de productos a comprar (como string para validación)
 
-  // Variable para mostrar mensajes al usuario
-  message: string = '' // Mensajes de éxito, error o información general
-
+  /**
+   * Total estimado de la compra: precio del producto seleccionado por la cantidad
+   * @returns Importe en la moneda de la aplicación, o null si falta el producto o la cantidad
+   */
+  get total(): Money | null {
+    const product = this.products.find((item) => sameId(item.id, this.productId));
+    const quantity = parseInt(this.quantity, 10);
+    if (!product || !(quantity > 0)) return null;
+    return multiplyMoney(toMoney(product.price, this.config.currency), quantity);
+  }
 
   /**
    * Método del ciclo de vida OnInit
@@ -60,6 +121,46 @@ export class PurchaseComponent implements OnInit {
   ngOnInit(): void {
     // Carga las listas de productos y proveedores al inicializar el componente
     this.fetchProductsAndSuppliers();
+    // Recuperar la compra en curso si la sesión se interrumpió con la pantalla bloqueada
+    this.restoreDraft();
+    // Guardar el formulario al bloquearse la terminal por inactividad
+    this.lockSubscription = this.idleService.lockChanged.subscribe((locked) => {
+      if (locked) this.saveDraft();
+    });
+  }
+
+  /**
+   * Método del ciclo de vida OnDestroy
+   * 
+   * Descarta el borrador al salir normalmente de la pantalla; si la salida
+   * se debe a que la sesión venció, se conserva para recuperarlo al volver.
+   */
+  ngOnDestroy(): void {
+    this.lockSubscription?.unsubscribe();
+    clearTimeout(this.scanErrorTimer);
+    if (this.apiService.isAuthenticated()) {
+      this.formDrafts.clear(PurchaseComponent.DRAFT_KEY);
+    }
+  }
+
+  /**
+   * Guarda los campos del formulario de compra como borrador
+   */
+  saveDraft(): void {
+    const { productId, supplierId, description, quantity } = this;
+    this.formDrafts.save(PurchaseComponent.DRAFT_KEY, { productId, supplierId, description, quantity });
+  }
+
+  /**
+   * Restaura los campos del formulario de compra desde el borrador, si existe
+   */
+  restoreDraft(): void {
+    const draft = this.formDrafts.load<Partial<Pick<PurchaseComponent, 'productId' | 'supplierId' | 'description' | 'quantity'>>>(PurchaseComponent.DRAFT_KEY);
+    if (!draft) return;
+    this.productId = draft.productId ?? '';
+    this.supplierId = draft.supplierId ?? '';
+    this.description = draft.description ?? '';
+    this.quantity = draft.quantity ?? '';
   }
 
   /**
@@ -73,45 +174,29 @@ export class PurchaseComponent implements OnInit {
    * y permitir al usuario elegir productos y proveedores para la compra.
    */
   fetchProductsAndSuppliers(): void {
-    // Obtener lista de productos disponibles
-    this.apiService.getAllProducts().subscribe({
-      // Manejo de respuesta exitosa para productos
-      next: (res: any) => {
-        // Verificar que la respuesta del servidor sea exitosa
-        if (res.status === 200) {
-          // Asignar la lista de productos al array local
-          this.products = res.products;
-        }
+    // Obtener lista de productos disponibles (desde la caché compartida)
+    this.entityStore.getProducts().subscribe({
+      // Asignar la lista de productos al array local
+      next: (products) => {
+        this.products = products;
       },
       // Manejo de errores al obtener productos
       error: (error) => {
         // Mostrar mensaje de error detallado al usuario
-        this.showMessage(
-          error?.error?.message ||
-          error?.message ||
-          'No se pudo obtener la lista de productos' + error
-        );
+        this.notifications.error(this.i18n.errorMessage(error, 'product.loadFailed'));
       },
     });
 
-    // Obtener lista de proveedores disponibles
-    this.apiService.getAllSuppliers().subscribe({
-      // Manejo de respuesta exitosa para proveedores
-      next: (res: any) => {
-        // Verificar que la respuesta del servidor sea exitosa
-        if (res.status === 200) {
-          // Asignar la lista de proveedores al array local
-          this.suppliers = res.suppliers;
-        }
+    // Obtener lista de proveedores disponibles (desde la caché compartida)
+    this.entityStore.getSuppliers().subscribe({
+      // Asignar la lista de proveedores al array local
+      next: (suppliers) => {
+        this.suppliers = suppliers;
       },
       // Manejo de errores al obtener proveedores
       error: (error) => {
         // Mostrar mensaje de error detallado al usuario
-        this.showMessage(
-          error?.error?.message ||
-          error?.message ||
-          'No se pudo obtener la lista de proveedores' + error
-        );
+        this.notifications.error(this.i18n.errorMessage(error, 'purchase.suppliersFailed'));
       },
     })
   }
@@ -132,7 +217,7 @@ export class PurchaseComponent implements OnInit {
   handleSubmit(): void {
     // Validación de campos requeridos
     if (!this.productId || !this.supplierId || !this.quantity) {
-      this.showMessage("Por favor, completa todos los campos");
+      this.notifications.warning(this.i18n.translate('common.completeAllFields'));
       return;
     }
 
@@ -144,31 +229,78 @@ export class PurchaseComponent implements OnInit {
       description: this.description // Descripción opcional (puede estar vacía)
     }
 
-    // Realizar llamada HTTP para procesar la compra
-    this.apiService.purchaseProduct(body).subscribe({
-      // Manejo de respuesta exitosa
-      next: (res: any) => {
-        // Verificar que la compra se procesó correctamente
-        if (res.status === 200) {
-          // Mostrar mensaje de éxito al usuario
-          this.showMessage(res.message)
-          // Limpiar formulario después de compra exitosa
+    // Registrar la compra; sin conexión queda en la cola y se envía al volver la conectividad
+    this.outboxService.purchase(body).subscribe({
+      // Manejo de respuesta exitosa (o compra encolada)
+      next: (result) => {
+        if (result.queued) {
+          this.notifications.warning(this.i18n.translate('purchase.queued'));
+          this.resetForm();
+        } else if (result.response.status === 200) {
+          // Mostrar mensaje de confirmación
+          this.notifications.success(result.response.message, { actions: this.transactionActions() })
+          // Limpiar formulario después de la operación exitosa
           this.resetForm();
         }
       },
-      // Manejo de errores durante el proceso de compra
+      // Manejo de errores (stock insuficiente, producto no disponible, etc.)
       error: (error) => {
-        // Mostrar mensaje de error detallado al usuario
-        this.showMessage(
-          error?.error?.message ||
-          error?.message ||
-          'No se pudo procesar la compra del producto' + error
-        );
+        this.notifications.error(this.i18n.errorMessage(error, 'purchase.failed'));
       },
     })
 
   }
 
+  /**
+   * Acciones de la notificación de una compra registrada
+   *
+   * Ofrece abrir el historial de transacciones solo si el usuario tiene
+   * permiso para verlo.
+   */
+  private transactionActions(): NotificationAction[] {
+    if (!this.apiService.hasPermission(Permission.VIEW_TRANSACTIONS)) return [];
+    return [{ label: this.i18n.translate('transaction.viewAll'), run: () => this.router.navigate(['/transaction']) }];
+  }
+
+  /**
+   * Indica si el modo escáner está activado en esta terminal
+   */
+  get scanMode(): boolean {
+    return this.scanner.enabled;
+  }
+
+  /**
+   * Activa o desactiva el modo escáner
+   */
+  toggleScanMode(): void {
+    this.scanner.setEnabled(!this.scanMode);
+  }
+
+  /**
+   * Agrega a la compra el producto de un código escaneado
+   *
+   * El primer escaneo de un producto lo elige con cantidad 1 y cada lectura
+   * repetida suma una unidad; escanear otro producto lo reemplaza. El foco
+   * pasa a la cantidad, de modo que con Enter se registra la compra sin usar
+   * el mouse. Un código desconocido se avisa con un sonido y un destello.
+   *
+   * @param code - Código leído por el escáner
+   */
+  onScan(code: string): void {
+    const product = this.scanner.findProduct(this.products, code);
+    if (!product) {
+      this.scanner.beep();
+      this.scanError = true;
+      clearTimeout(this.scanErrorTimer);
+      this.scanErrorTimer = setTimeout(() => this.scanError = false, 600);
+      this.notifications.warning(this.i18n.translate('scanner.unknown', { code }));
+      return;
+    }
+    this.quantity = sameId(product.id, this.productId) ? String((parseInt(this.quantity, 10) || 0) + 1) : '1';
+    this.productId = product.id;
+    this.quantityInput?.nativeElement.focus();
+  }
+
   /**
    * Limpia todos los campos del formulario de compra
    * 
@@ -190,28 +322,7 @@ export class PurchaseComponent implements OnInit {
     this.description = '';
     // Limpiar cantidad ingresada
     this.quantity = '';
-  }
-
-  /**
-   * Muestra un mensaje temporal al usuario
-   * 
-   * Utilidad para mostrar mensajes informativos, de éxito o de error
-   * que se ocultan automáticamente después de un período determinado.
-   * 
-   * @param message - El mensaje de texto a mostrar al usuario
-   * 
-   * Características:
-   * - Muestra el mensaje inmediatamente en la interfaz
-   * - Se oculta automáticamente después de 4 segundos
-   * - Útil para feedback de operaciones de compra
-   * - Proporciona retroalimentación visual al usuario
-   */
-  showMessage(message: string) {
-    // Asigna el mensaje para mostrarlo en el template
-    this.message = message;
-    // Programa la limpieza del mensaje después de 4 segundos
-    setTimeout(() => {
-      this.message = '';
-    }, 4000);
+    // Descartar el borrador de la transacción ya registrada
+    this.formDrafts.clear(PurchaseComponent.DRAFT_KEY);
   }
 }
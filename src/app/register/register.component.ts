@@ -4,7 +4,11 @@ import { Component } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { Router, RouterLink } from '@angular/router';
 import { ApiService } from '../service/api.service';
+import { NotificationService } from '../service/notification.service';
+import { RegisterRequest } from '../models/user.model';
 import { firstValueFrom } from 'rxjs';
+import { I18nService } from '../service/i18n.service';
+import { TranslatePipe } from '../pipe/translate.pipe';
 
 /**
  * Componente de Registro
@@ -14,7 +18,7 @@ import { firstValueFrom } from 'rxjs';
 @Component({
   selector: 'app-register',
   standalone: true,
-  imports: [FormsModule, CommonModule, RouterLink], // Módulos necesarios para formularios, directivas comunes y navegación
+  imports: [FormsModule, CommonModule, RouterLink, TranslatePipe], // Módulos necesarios para formularios, directivas comunes y navegación
   templateUrl: './register.component.html',
   styleUrl: './register.component.css'
 })
@@ -25,26 +29,27 @@ export class RegisterComponent {
    * Constructor del componente
    * @param apiService - Servicio para realizar llamadas a la API
    * @param router - Servicio de navegación entre rutas
+   * @param notifications - Servicio para mostrar mensajes al usuario
+   * @param i18n - Servicio de traducciones del idioma activo
    */
-  constructor(private apiService: ApiService, private router: Router) { }
+  constructor(
+    private apiService: ApiService,
+    private router: Router,
+    private notifications: NotificationService,
+    private i18n: I18nService
+  ) { }
 
   /**
    * Objeto que almacena los datos del formulario de registro
    * Contiene toda la información necesaria para crear una nueva cuenta de usuario
    */
-  formData: any = {
+  formData: RegisterRequest = {
     email: '',
     name: '',
     phoneNumber: '',
     password: ''
   };
 
-  /**
-   * Variable para mostrar mensajes de error o éxito al usuario
-   * Se muestra temporalmente durante 4 segundos
-   */
-  message: string | null = null;
-
   /**
    * Método principal para manejar el envío del formulario de registro
    * Valida los datos, registra el nuevo usuario y redirige al login
@@ -58,21 +63,21 @@ export class RegisterComponent {
       !this.formData.phoneNumber ||
       !this.formData.password
     ) {
-      this.showMessage("Todos los campos son necesarios");
+      this.notifications.warning(this.i18n.translate('common.requiredFields'));
       return;
     }
 
     try {
       // Realizar llamada a la API para registrar al nuevo usuario
       // firstValueFrom convierte el Observable en Promise para usar async/await
-      const response: any = await firstValueFrom(
+      const response = await firstValueFrom(
         this.apiService.registerUser(this.formData)
       );
 
       // Si el registro es exitoso (status 200)
       if (response.status === 200) {
         // Mostrar mensaje de éxito al usuario
-        this.showMessage(response.message)
+        this.notifications.success(response.message)
         // Redirigir al usuario a la página de login para iniciar sesión
         this.router.navigate(["/login"]);
       }
@@ -80,23 +85,8 @@ export class RegisterComponent {
       // Manejo de errores: capturar y mostrar errores de registro
       console.log(error)
       // Mostrar mensaje de error específico o genérico
-      this.showMessage(error?.error?.message || error?.message || "No se pudo registrar al usuario" + error)
+      this.notifications.error(this.i18n.errorMessage(error, 'register.failed'))
 
     }
   }
-
-  /**
-   * Método utilitario para mostrar mensajes temporales al usuario
-   * Los mensajes se ocultan automáticamente después de 4 segundos
-   * @param message - El mensaje a mostrar al usuario
-   */
-  showMessage(message: string) {
-    // Asignar el mensaje a la variable para mostrarlo en el template
-    this.message = message;
-    // Configurar timeout para ocultar el mensaje después de 4 segundos
-    setTimeout(() => {
-      this.message = null
-    }, 4000)
-  }
-
 }
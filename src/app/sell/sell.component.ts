@@ -1,8 +1,26 @@
 // Importaciones de Angular Core y módulos necesarios
 import { CommonModule } from '@angular/common'; // Directivas comunes como *ngIf, *ngFor
-import { Component, OnInit } from '@angular/core'; // Decorador Component e interfaz OnInit
+import { Component, ElementRef, OnDestroy, OnInit, ViewChild } from '@angular/core'; // Decorador Component, referencias a elementos e interfaces de ciclo de vida
 import { FormsModule } from '@angular/forms'; // Para formularios y two-way binding
 import { ApiService } from '../service/api.service'; // Servicio para comunicación con la API
+import { EntityStoreService } from '../service/entity-store.service'; // Caché compartida de productos
+import { NotificationAction, NotificationService } from '../service/notification.service';
+import { Product } from '../models/product.model';
+import { FormDraftService } from '../service/form-draft.service';
+import { IdleService } from '../service/idle.service';
+import { OutboxService } from '../service/outbox.service';
+import { Router } from '@angular/router';
+import { Permission } from '../service/permissions';
+import { Subscription } from 'rxjs';
+import { I18nService } from '../service/i18n.service';
+import { ConfigService } from '../service/config.service';
+import { multiplyMoney, toMoney } from '../service/money';
+import { sameId } from '../service/ids';
+import { Money } from '../models/money.model';
+import { TranslatePipe } from '../pipe/translate.pipe';
+import { MoneyPipe } from '../pipe/money.pipe';
+import { BarcodeScannerDirective } from '../directive/barcode-scanner.directive';
+import { BarcodeScannerService } from '../service/barcode-scanner.service';
 
 /**
  * Componente SellComponent
@@ -24,11 +42,11 @@ import { ApiService } from '../service/api.service'; // Servicio para comunicaci
 @Component({
   selector: 'app-sell', // Selector para usar el componente en templates
   standalone: true, // Componente independiente, no requiere módulo padre
-  imports: [CommonModule, FormsModule], // Módulos necesarios para funcionalidad
+  imports: [CommonModule, FormsModule, BarcodeScannerDirective, TranslatePipe, MoneyPipe], // Módulos necesarios para funcionalidad
   templateUrl: './sell.component.html', // Template HTML del componente
   styleUrl: './sell.component.css' // Estilos CSS del componente
 })
-export class SellComponent implements OnInit {
+export class SellComponent implements OnInit, OnDestroy {
 
   /**
    * Constructor del componente
@@ -36,19 +54,62 @@ export class SellComponent implements OnInit {
    * Inyecta las dependencias necesarias:
    * - ApiService: Para realizar operaciones CRUD relacionadas con ventas
    *   y gestión de productos a través de llamadas HTTP al backend
+   * - EntityStoreService: Para obtener la lista de productos compartida entre pantallas
+   * - FormDraftService: Para conservar el formulario en curso si la terminal se bloquea
+   * - IdleService: Para saber cuándo se bloquea la pantalla por inactividad
+   * - OutboxService: Para conservar la venta si no hay conexión con el servidor
+   * - NotificationService: Para informar el resultado de la venta
+   * - Router: Para abrir el historial de transacciones desde la notificación
+   * - I18nService: Para mostrar los mensajes en el idioma activo
+   * - ConfigService: Para calcular el total en la moneda de la aplicación
+   * - BarcodeScannerService: Para el modo escáner (búsqueda por SKU y aviso sonoro)
    */
-  constructor(private apiService: ApiService) { }
+  constructor(
+    private apiService: ApiService,
+    private entityStore: EntityStoreService,
+    private formDrafts: FormDraftService,
+    private idleService: IdleService,
+    private outboxService: OutboxService,
+    private notifications: NotificationService,
+    private router: Router,
+    private i18n: I18nService,
+    private config: ConfigService,
+    private scanner: BarcodeScannerService
+  ) { }
+
+  // Identificador del borrador de este formulario en FormDraftService
+  private static DRAFT_KEY = 'sell';
+
+  // Suscripción al bloqueo por inactividad
+  private lockSubscription?: Subscription;
+
+  // Campo de cantidad, que recibe el foco después de cada lectura del escáner
+  @ViewChild('quantityInput') quantityInput?: ElementRef<HTMLInputElement>;
+
+  // Temporizador del aviso visual de código desconocido
+  private scanErrorTimer?: ReturnType<typeof setTimeout>;
+
+  // true mientras se muestra el aviso visual de código desconocido
+  scanError: boolean = false;
 
   // Array para almacenar la lista de productos disponibles para venta
-  products: any[] = [] // Lista de productos obtenidos del servidor con stock disponible
+  products: Product[] = [] // Lista de productos obtenidos del servidor con stock disponible
 
   // Campos del formulario de venta
   productId: string = '' // ID del producto seleccionado para la venta
   description: string = '' // Descripción opcional adicional para la transacción de venta
   quantity: string = '' // Cantidad de productos a vender (como string para validación)
 
-  // Variable para mostrar mensajes al usuario
-  message: string = '' // Mensajes de éxito, error o información sobre la venta
+  /**
+   * Total estimado de la venta: precio del producto seleccionado por la cantidad
+   * @returns Importe en la moneda de la aplicación, o null si falta el producto o la cantidad
+   */
+  get total(): Money | null {
+    const product = this.products.find((item) => sameId(item.id, this.productId));
+    const quantity = parseInt(this.quantity, 10);
+    if (!product || !(quantity > 0)) return null;
+    return multiplyMoney(toMoney(product.price, this.config.currency), quantity);
+  }
 
   /**
    * Método del ciclo de vida OnInit
@@ -59,6 +120,45 @@ export class SellComponent implements OnInit {
   ngOnInit(): void {
     // Carga la lista de productos al inicializar el componente
     this.fetchProducts();
+    // Recuperar la venta en curso si la sesión se interrumpió con la pantalla bloqueada
+    this.restoreDraft();
+    // Guardar el formulario al bloquearse la terminal por inactividad
+    this.lockSubscription = this.idleService.lockChanged.subscribe((locked) => {
+      if (locked) this.saveDraft();
+    });
+  }
+
+  /**
+   * Método del ciclo de vida OnDestroy
+   * 
+   * Descarta el borrador al salir normalmente de la pantalla; si la salida
+   * se debe a que la sesión venció, se conserva para recuperarlo al volver.
+   */
+  ngOnDestroy(): void {
+    this.lockSubscription?.unsubscribe();
+    clearTimeout(this.scanErrorTimer);
+    if (this.apiService.isAuthenticated()) {
+      this.formDrafts.clear(SellComponent.DRAFT_KEY);
+    }
+  }
+
+  /**
+   * Guarda los campos del formulario de venta como borrador
+   */
+  saveDraft(): void {
+    const { productId, description, quantity } = this;
+    this.formDrafts.save(SellComponent.DRAFT_KEY, { productId, description, quantity });
+  }
+
+  /**
+   * Restaura los campos del formulario de venta desde el borrador, si existe
+   */
+  restoreDraft(): void {
+    const draft = this.formDrafts.load<Partial<Pick<SellComponent, 'productId' | 'description' | 'quantity'>>>(SellComponent.DRAFT_KEY);
+    if (!draft) return;
+    this.productId = draft.productId ?? '';
+    this.description = draft.description ?? '';
+    this.quantity = draft.quantity ?? '';
   }
 
   /**
@@ -74,24 +174,16 @@ export class SellComponent implements OnInit {
    * - Maneja errores de comunicación con el servidor
    */
   fetchProducts(): void {
-    // Llamada al servicio API para obtener lista de productos
-    this.apiService.getAllProducts().subscribe({
-      // Manejo de respuesta exitosa
-      next: (res: any) => {
-        // Verificar que la respuesta del servidor sea exitosa
-        if (res.status === 200) {
-          // Asignar la lista de productos al array local
-          this.products = res.products;
-        }
+    // Lista de productos desde la caché compartida (se consulta al servidor solo si hace falta)
+    this.entityStore.getProducts().subscribe({
+      // Asignar la lista de productos al array local
+      next: (products) => {
+        this.products = products;
       },
       // Manejo de errores en la comunicación con el servidor
       error: (error) => {
         // Mostrar mensaje de error detallado al usuario
-        this.showMessage(
-          error?.error?.message ||
-          error?.message ||
-          'No se pudo obtener la lista de productos' + error
-        );
+        this.notifications.error(this.i18n.errorMessage(error, 'product.loadFailed'));
       },
     });
 
@@ -116,7 +208,7 @@ export class SellComponent implements OnInit {
   handleSubmit(): void {
     // Validación de campos requeridos (producto y cantidad son obligatorios)
     if (!this.productId || !this.quantity) {
-      this.showMessage("Por favor, completa todos los campos");
+      this.notifications.warning(this.i18n.translate('common.completeAllFields'));
       return;
     }
 
@@ -127,32 +219,78 @@ export class SellComponent implements OnInit {
       description: this.description // Descripción opcional de la venta
     }
 
-    // Realizar llamada HTTP para procesar la venta
-    this.apiService.sellProduct(body).subscribe({
-      // Manejo de respuesta exitosa (venta procesada correctamente)
-      next: (res: any) => {
-        // Verificar que la venta se procesó correctamente
-        if (res.status === 200) {
-          // Mostrar mensaje de confirmación de venta exitosa
-          this.showMessage(res.message)
-          // Limpiar formulario después de venta exitosa
+    // Registrar la venta; sin conexión queda en la cola y se envía al volver la conectividad
+    this.outboxService.sell(body).subscribe({
+      // Manejo de respuesta exitosa (o venta encolada)
+      next: (result) => {
+        if (result.queued) {
+          this.notifications.warning(this.i18n.translate('sell.queued'));
+          this.resetForm();
+        } else if (result.response.status === 200) {
+          // Mostrar mensaje de confirmación
+          this.notifications.success(result.response.message, { actions: this.transactionActions() })
+          // Limpiar formulario después de la operación exitosa
           this.resetForm();
         }
       },
-      // Manejo de errores durante el proceso de venta
+      // Manejo de errores (stock insuficiente, producto no disponible, etc.)
       error: (error) => {
-        // Posibles errores: stock insuficiente, producto no encontrado,
-        // problemas de red, errores del servidor, etc.
-        this.showMessage(
-          error?.error?.message ||
-          error?.message ||
-          'No se pudo procesar la venta del producto' + error
-        );
+        this.notifications.error(this.i18n.errorMessage(error, 'sell.failed'));
       },
     })
 
   }
 
+  /**
+   * Acciones de la notificación de una venta registrada
+   *
+   * Ofrece abrir el historial de transacciones solo si el usuario tiene
+   * permiso para verlo.
+   */
+  private transactionActions(): NotificationAction[] {
+    if (!this.apiService.hasPermission(Permission.VIEW_TRANSACTIONS)) return [];
+    return [{ label: this.i18n.translate('transaction.viewAll'), run: () => this.router.navigate(['/transaction']) }];
+  }
+
+  /**
+   * Indica si el modo escáner está activado en esta terminal
+   */
+  get scanMode(): boolean {
+    return this.scanner.enabled;
+  }
+
+  /**
+   * Activa o desactiva el modo escáner
+   */
+  toggleScanMode(): void {
+    this.scanner.setEnabled(!this.scanMode);
+  }
+
+  /**
+   * Agrega a la venta el producto de un código escaneado
+   *
+   * El primer escaneo de un producto lo elige con cantidad 1 y cada lectura
+   * repetida suma una unidad; escanear otro producto lo reemplaza. El foco
+   * pasa a la cantidad, de modo que con Enter se registra la venta sin usar
+   * el mouse. Un código desconocido se avisa con un sonido y un destello.
+   *
+   * @param code - Código leído por el escáner
+   */
+  onScan(code: string): void {
+    const product = this.scanner.findProduct(this.products, code);
+    if (!product) {
+      this.scanner.beep();
+      this.scanError = true;
+      clearTimeout(this.scanErrorTimer);
+      this.scanErrorTimer = setTimeout(() => this.scanError = false, 600);
+      this.notifications.warning(this.i18n.translate('scanner.unknown', { code }));
+      return;
+    }
+    this.quantity = sameId(product.id, this.productId) ? String((parseInt(this.quantity, 10) || 0) + 1) : '1';
+    this.productId = product.id;
+    this.quantityInput?.nativeElement.focus();
+  }
+
   /**
    * Limpia todos los campos del formulario de venta
    * 
@@ -174,32 +312,8 @@ export class SellComponent implements OnInit {
     this.description = '';
     // Limpiar cantidad ingresada
     this.quantity = '';
-  }
-
-  /**
-   * Muestra un mensaje temporal al usuario
-   * 
-   * Utilidad para mostrar mensajes informativos, de éxito o de error
-   * relacionados con las operaciones de venta. Los mensajes se ocultan
-   * automáticamente después de un período determinado.
-   * 
-   * @param message - El mensaje de texto a mostrar al usuario
-   * 
-   * Características:
-   * - Muestra el mensaje inmediatamente en la interfaz
-   * - Se oculta automáticamente después de 4 segundos
-   * - Útil para feedback de operaciones de venta
-   * - Proporciona retroalimentación visual sobre éxito/error de ventas
-   * - Especialmente importante para confirmar ventas exitosas
-   *   y alertar sobre problemas de stock o errores de validación
-   */
-  showMessage(message: string) {
-    // Asigna el mensaje para mostrarlo en el template
-    this.message = message;
-    // Programa la limpieza del mensaje después de 4 segundos
-    setTimeout(() => {
-      this.message = '';
-    }, 4000);
+    // Descartar el borrador de la transacción ya registrada
+    this.formDrafts.clear(SellComponent.DRAFT_KEY);
   }
 }
 
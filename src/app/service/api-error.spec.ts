@@ -0,0 +1,30 @@
+import { HttpErrorResponse } from '@angular/common/http';
+
+import { getErrorMessage, isApiError, toApiError } from './api-error';
+
+describe('ApiError', () => {
+
+  it('should take the message sent by the backend', () => {
+    const error = toApiError(new HttpErrorResponse({
+      status: 400,
+      error: { status: 400, message: 'Stock insuficiente' },
+      url: 'http://localhost:5050/api/transactions/sell',
+    }));
+
+    expect(error.status).toBe(400);
+    expect(error.message).toBe('Stock insuficiente');
+    expect(isApiError(error)).toBeTrue();
+  });
+
+  it('should report a connection error when the server is unreachable', () => {
+    const error = toApiError(new HttpErrorResponse({ status: 0, error: new ProgressEvent('error') }));
+    expect(error.code).toBe('offline');
+    expect(error.message).toBe('');
+  });
+
+  it('should fall back to the given message', () => {
+    const error = toApiError(new HttpErrorResponse({ status: 500, error: null }));
+    expect(getErrorMessage(error, 'No se pudo guardar')).toBe('No se pudo guardar');
+    expect(getErrorMessage(new Error('boom'), 'No se pudo guardar')).toBe('No se pudo guardar');
+  });
+});
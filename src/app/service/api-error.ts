@@ -0,0 +1,99 @@
+import { HttpErrorResponse } from '@angular/common/http';
+
+/**
+ * Motivo de un error detectado en el cliente, sin mensaje del backend
+ *
+ * - offline: no hubo conexión con el servidor
+ * - invalidResponse: la respuesta no tiene la forma esperada
+ * - sessionExpired: no se pudo renovar el token de acceso
+ *
+ * El texto se traduce al mostrarlo (ver I18nService.errorMessage).
+ */
+export type ApiErrorCode = 'offline' | 'invalidResponse' | 'sessionExpired';
+
+/**
+ * Error normalizado de la API
+ * 
+ * El interceptor HTTP convierte todas las respuestas de error del backend
+ * a esta forma única, de modo que los componentes no necesitan conocer la
+ * estructura de HttpErrorResponse ni del cuerpo devuelto por el servidor.
+ */
+export interface ApiError {
+  // Código HTTP de la respuesta (0 cuando no hubo conexión con el servidor)
+  status: number;
+
+  // Mensaje legible para el usuario; vacío si el backend no envió ninguno
+  message: string;
+
+  // Motivo del error cuando lo detecta el cliente (el mensaje queda vacío)
+  code?: ApiErrorCode;
+
+  // URL de la petición que falló
+  url: string | null;
+
+  // Cuerpo original de la respuesta de error, para diagnóstico
+  details?: unknown;
+
+  // Diferencias con el modelo esperado cuando la respuesta no pudo validarse
+  issues?: string[];
+}
+
+/**
+ * Convierte una respuesta de error HTTP al formato ApiError
+ * 
+ * Toma el mensaje enviado por el backend ({ status, message }) cuando existe
+ * y, si no hubo respuesta del servidor, lo indica con el código "offline".
+ * 
+ * @param response - Respuesta de error recibida por HttpClient
+ * @returns Error normalizado
+ */
+export function toApiError(response: HttpErrorResponse): ApiError {
+  const body = response.error;
+  let message = '';
+
+  if (body && typeof body === 'object' && typeof body.message === 'string') {
+    message = body.message;
+  } else if (typeof body === 'string' && body.trim() && !body.trim().startsWith('<')) {
+    message = body;
+  }
+
+  const error: ApiError = {
+    status: response.status,
+    message,
+    url: response.url,
+    details: body,
+  };
+  if (!message && response.status === 0) {
+    error.code = 'offline';
+  }
+  return error;
+}
+
+/**
+ * Verifica si un valor tiene la forma de ApiError
+ * @param error - Valor capturado en un bloque de error
+ * @returns true si es un ApiError
+ */
+export function isApiError(error: unknown): error is ApiError {
+  return !!error &&
+    typeof error === 'object' &&
+    typeof (error as ApiError).status === 'number' &&
+    typeof (error as ApiError).message === 'string';
+}
+
+/**
+ * Obtiene el mensaje del backend de un error
+ * 
+ * Los errores detectados en el cliente no traen mensaje sino un código;
+ * para mostrarlos traducidos se usa I18nService.errorMessage.
+ * 
+ * @param error - Error recibido (normalmente un ApiError emitido por el interceptor)
+ * @param fallback - Mensaje a usar cuando el error no trae uno propio
+ * @returns Mensaje del backend o el mensaje por defecto
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (isApiError(error) && error.message) {
+    return error.message;
+  }
+  return fallback;
+}
@@ -1,16 +1,195 @@
 import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { HttpClient } from '@angular/common/http';
+import { Router, provideRouter } from '@angular/router';
 
 import { ApiService } from './api.service';
+import { SecureStorageService } from './secure-storage.service';
+import { ConfigService } from './config.service';
+import { FormDraftService } from './form-draft.service';
+import { ApiError } from './api-error';
+import { User } from '../models/user.model';
+import { fakeToken } from '../../testing/fake-token';
 
 describe('ApiService', () => {
   let service: ApiService;
 
   beforeEach(() => {
-    TestBed.configureTestingModule({});
+    localStorage.clear();
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])]
+    });
     service = TestBed.inject(ApiService);
   });
 
+  afterEach(() => {
+    service.logout();
+  });
+
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  it('should read the expiration from the token exp claim', async () => {
+    const exp = Math.floor(Date.now() / 1000) + 3600;
+    await service.startSession(fakeToken({ exp, role: 'ROLE_ADMIN' }));
+    expect(service.getTokenExpiration()).toBe(exp * 1000);
+    expect(service.isAuthenticated()).toBeTrue();
+  });
+
+  it('should treat an expired token as logged out', async () => {
+    const exp = Math.floor(Date.now() / 1000) - 60;
+    await service.startSession(fakeToken({ exp, role: 'ROLE_ADMIN' }));
+    expect(service.isAuthenticated()).toBeFalse();
+    expect(service.isAdmin()).toBeFalse();
+  });
+
+  it('should restore a stored session', async () => {
+    const token = fakeToken({ role: 'MANAGER' });
+    await service.startSession(token);
+
+    const restored = TestBed.runInInjectionContext(() => new ApiService(
+      TestBed.inject(HttpClient), TestBed.inject(Router), TestBed.inject(SecureStorageService),
+      TestBed.inject(ConfigService), TestBed.inject(FormDraftService)
+    ));
+    await restored.restoreSession();
+
+    expect(restored.getToken()).toBe(token);
+    expect(restored.getRole()).toBe('MANAGER');
+  });
+
+  it('should discard form drafts on logout but keep them when the session is only cleared', async () => {
+    const drafts = TestBed.inject(FormDraftService);
+    drafts.save('sell', { productId: '1', quantity: '2' });
+    await service.startSession(fakeToken({ role: 'CASHIER' }));
+    service.clearAuth();
+    expect(drafts.load('sell')).not.toBeNull();
+
+    service.logout();
+    expect(drafts.load('sell')).toBeNull();
+  });
+
+  it('should not persist the role in the browser', async () => {
+    await service.startSession(fakeToken({ role: 'CASHIER' }));
+    expect(localStorage.getItem('role')).toBeNull();
+  });
+
+  it('should prefer the role verified by /users/current over the token claims', () => {
+    const httpMock = TestBed.inject(HttpTestingController);
+    service.startSession(fakeToken({ role: 'ADMIN' }));
+    expect(service.getRole()).toBe('ADMIN');
+
+    const users: (User | null)[] = [];
+    service.loadCurrentUser().subscribe((value) => users.push(value));
+    service.loadCurrentUser().subscribe();
+    httpMock.expectOne('http://localhost:5050/api/users/current').flush({ name: 'Caja', email: 'test@ims.com', role: 'CASHIER' });
+
+    expect(users[0]?.email).toBe('test@ims.com');
+    expect(service.getCurrentUser()).toBe(users[0]);
+    expect(service.getRole()).toBe('CASHIER');
+    expect(service.isAdmin()).toBeFalse();
+    httpMock.verify();
+  });
+
+  it('should reject responses that do not match the model', () => {
+    const httpMock = TestBed.inject(HttpTestingController);
+    spyOn(console, 'group');
+    spyOn(console, 'groupEnd');
+    spyOn(console, 'warn');
+    spyOn(console, 'log');
+
+    let received: ApiError | undefined;
+    service.getAllProducts().subscribe({ error: (error) => received = error });
+    httpMock.expectOne('http://localhost:5050/api/products/all').flush({ status: 200, products: [{ id: 1 }] });
+
+    expect(received?.issues).toContain('$.products[0].name: se esperaba string y se recibió undefined');
+    expect(received?.code).toBe('invalidResponse');
+  });
+
+  it('should only announce product changes when notify is not disabled', () => {
+    const httpMock = TestBed.inject(HttpTestingController);
+    const changed = jasmine.createSpy('entitiesChanged');
+    service.entitiesChanged.subscribe(changed);
+
+    service.addProduct(new FormData(), { notify: false }).subscribe();
+    httpMock.expectOne('http://localhost:5050/api/products/add').flush({ status: 200, message: 'ok' });
+    expect(changed).not.toHaveBeenCalled();
+
+    service.addProduct(new FormData()).subscribe();
+    httpMock.expectOne('http://localhost:5050/api/products/add').flush({ status: 200, message: 'ok' });
+    expect(changed).toHaveBeenCalledOnceWith('products');
+    httpMock.verify();
+  });
+
+  it('should treat a tampered token as logged out', async () => {
+    await service.startSession(fakeToken({ role: 'CASHIER' }));
+    localStorage.setItem('token', localStorage.getItem('token')!.replace(/.$/, (c) => c === 'A' ? 'B' : 'A'));
+
+    await service.restoreSession();
+
+    expect(service.isAuthenticated()).toBeFalse();
+    expect(service.getRole()).toBeNull();
+  });
+
+  it('should warn before the token expires', () => {
+    jasmine.clock().install();
+    try {
+      const spy = jasmine.createSpy('sessionExpiring');
+      service.sessionExpiring.subscribe(spy);
+      const exp = Math.floor(Date.now() / 1000) + 10 * 60;
+      service.startSession(fakeToken({ exp }));
+
+      jasmine.clock().tick(5 * 60 * 1000 + 1000);
+      expect(spy).toHaveBeenCalledWith(exp * 1000);
+    } finally {
+      jasmine.clock().uninstall();
+    }
+  });
+
+  describe('cross-tab synchronization', () => {
+    const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+    // Simula otra pestaña: una segunda instancia que comparte el almacenamiento
+    const otherTab = () => TestBed.runInInjectionContext(() => new ApiService(
+      TestBed.inject(HttpClient), TestBed.inject(Router), TestBed.inject(SecureStorageService),
+      TestBed.inject(ConfigService), TestBed.inject(FormDraftService)
+    ));
+    const nextAuthChange = () => new Promise<void>((resolve) => {
+      const subscription = service.authStatuschanged.subscribe(() => {
+        subscription.unsubscribe();
+        resolve();
+      });
+    });
+
+    it('should log out when another tab logs out', async () => {
+      await service.startSession(fakeToken({ exp: inOneHour() }));
+      const tab = otherTab();
+      const changed = nextAuthChange();
+
+      await tab.restoreSession();
+      tab.logout();
+      await changed;
+
+      expect(service.isAuthenticated()).toBeFalse();
+      tab.ngOnDestroy();
+    });
+
+    it('should adopt a login from another tab and warn when the user changed', async () => {
+      await service.startSession(fakeToken({ exp: inOneHour(), role: 'ADMIN' }), 'refresh');
+      const tab = otherTab();
+      const userChanged = jasmine.createSpy('userChanged');
+      service.userChanged.subscribe(userChanged);
+      const changed = nextAuthChange();
+
+      const otherUserToken = fakeToken({ exp: inOneHour(), role: 'CASHIER', sub: 'cajero@ims.com' });
+      await tab.startSession(otherUserToken);
+      await changed;
+
+      expect(service.getToken()).toBe(otherUserToken);
+      expect(service.getRefreshToken()).toBeNull();
+      expect(userChanged).toHaveBeenCalled();
+      tab.ngOnDestroy();
+    });
+  });
 });
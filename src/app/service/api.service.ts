@@ -1,101 +1,487 @@
 // Importaciones necesarias de Angular y librerías externas
-import { EventEmitter, Injectable } from '@angular/core';
+import { EventEmitter, Injectable, OnDestroy } from '@angular/core';
 import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { Observable } from 'rxjs';
-import CryptoJS from "crypto-js"; // Librería para encriptación AES
+import { Router } from '@angular/router';
+import { MonoTypeOperatorFunction, Observable, finalize, map, of, shareReplay, tap, throwError } from 'rxjs';
+import { Permission, Role, normalizeRole, roleHasPermissions } from './permissions';
+import { SecureStorageService, StorageArea } from './secure-storage.service';
+import { ConfigService } from './config.service';
+import { FormDraftService } from './form-draft.service';
+import { validateResponse } from './response-validation';
+import { ApiError } from './api-error';
+import { pageParams, toPage } from './pagination';
+import { ProductCriteria, matchesProductFilter, productCriteriaParams } from './product-filter';
+import {
+  apiResponseSchema,
+  categoryListResponseSchema,
+  categoryResponseSchema,
+  loginResponseSchema,
+  productListResponseSchema,
+  productResponseSchema,
+  supplierListResponseSchema,
+  supplierResponseSchema,
+  transactionListResponseSchema,
+  transactionResponseSchema,
+  userSchema,
+} from './response-schemas';
+import { Category, CategoryRequest } from '../models/category.model';
+import { Supplier, SupplierRequest } from '../models/supplier.model';
+import { Product } from '../models/product.model';
+import { PurchaseRequest, SellRequest, Transaction, TransactionStatus } from '../models/transaction.model';
+import { Page, PageRequest } from '../models/page.model';
+import { LoginRequest, RegisterRequest, User } from '../models/user.model';
+import {
+  ApiResponse,
+  CategoryListResponse,
+  CategoryResponse,
+  LoginResponse,
+  ProductListResponse,
+  ProductResponse,
+  SupplierListResponse,
+  SupplierResponse,
+  TransactionListResponse,
+  TransactionResponse,
+} from '../models/api-response.model';
+
+/**
+ * Colecciones de entidades cuyas modificaciones se anuncian a EntityStoreService
+ * (las transacciones no se cachean, pero un cambio de estado puede modificar el stock)
+ */
+export type EntityCollection = 'products' | 'categories' | 'suppliers' | 'transactions';
+
+/**
+ * Mensajes intercambiados entre pestañas por el canal de autenticación
+ */
+type AuthMessage = { type: 'session' } | { type: 'logout' };
 
 /**
  * Servicio API del Sistema de Gestión de Inventario (IMS)
  * 
  * Este servicio centraliza todas las comunicaciones con el backend,
  * incluyendo autenticación, gestión de datos (categorías, proveedores, productos),
- * transacciones y funcionalidades de seguridad como encriptación de datos
- * sensibles en localStorage.
+ * transacciones y funcionalidades de seguridad como la encriptación autenticada
+ * de los datos de sesión (ver SecureStorageService).
  */
 @Injectable({
   providedIn: 'root', // Singleton a nivel de aplicación
 })
 
 
-export class ApiService {
+export class ApiService implements OnDestroy {
 
   // EventEmitter para notificar cambios en el estado de autenticación
   authStatuschanged = new EventEmitter<void>();
 
-  // URL base del backend API (servidor local en puerto 5050)
-  private static BASE_URL = 'http://localhost:5050/api';
+  // EventEmitter que avisa que la sesión está por expirar (emite la fecha de expiración en ms)
+  sessionExpiring = new EventEmitter<number>();
+
+  // Valores de sesión que se guardan encriptados y el área donde se persiste cada uno
+  private static SESSION_VALUES: Record<string, StorageArea> = {
+    token: 'local',
+    refreshToken: 'session', // El refresh token no sobrevive al cierre del navegador
+  };
+
+  // Anticipación con la que se avisa al usuario antes de que expire el token (5 minutos)
+  private static SESSION_WARNING_MS = 5 * 60 * 1000;
+
+  // Demora máxima admitida por setTimeout (~24,8 días); plazos mayores se reprograman
+  private static MAX_TIMEOUT_MS = 2147483647;
+
+  // Temporizadores del aviso de expiración y del cierre automático de sesión
+  private expiryWarningTimer: ReturnType<typeof setTimeout> | null = null;
+  private expiryLogoutTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Renovación del token en curso, compartida por todas las peticiones que la esperan
+  private refreshRequest$: Observable<string> | null = null;
+
+  // Copia en memoria de los valores de sesión desencriptados, para lecturas síncronas
+  private sessionValues = new Map<string, string>();
+
+  /**
+   * Emite cuando otra pestaña inicia sesión con un usuario distinto al de esta
+   */
+  userChanged = new EventEmitter<void>();
+
+  /**
+   * Emite la colección modificada después de un alta, edición, baja o
+   * transacción exitosa, para que EntityStoreService invalide su caché
+   */
+  entitiesChanged = new EventEmitter<EntityCollection>();
+
+  // Canal para avisar a las demás pestañas de inicios y cierres de sesión
+  private static AUTH_CHANNEL = 'ims-auth';
+  private authChannel: BroadcastChannel | null =
+    typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(ApiService.AUTH_CHANNEL) : null;
 
-  // Clave de encriptación para datos sensibles en localStorage
-  private static ENCRYPTION_KEY = "luka-dev-inventory";
+  // Usuario autenticado según /users/current: fuente autoritativa del rol
+  private currentUser: User | null = null;
+
+  // Consulta de /users/current en curso, compartida por quienes la esperan
+  private currentUserRequest$: Observable<User> | null = null;
 
   /**
    * Constructor del servicio API
    * @param http - Cliente HTTP de Angular para realizar peticiones
+   * @param router - Servicio de enrutamiento para redirigir al login al expirar la sesión
+   * @param secureStorage - Almacenamiento encriptado y autenticado de los datos de sesión
+   * @param config - Configuración de ejecución (URL base de la API)
+   * @param formDrafts - Borradores de formularios, descartados al cerrar sesión
    */
-  constructor(private http: HttpClient) { }
+  constructor(
+    private http: HttpClient,
+    private router: Router,
+    private secureStorage: SecureStorageService,
+    private config: ConfigService,
+    private formDrafts: FormDraftService
+  ) {
+    this.authChannel?.addEventListener('message', (event: MessageEvent<AuthMessage>) => {
+      this.handleAuthMessage(event.data);
+    });
+  }
+
+  /**
+   * URL base del backend API, definida en config.json (ver ConfigService)
+   */
+  private get baseUrl(): string {
+    return this.config.apiBaseUrl;
+  }
+
+  /**
+   * Cierra el canal entre pestañas y cancela los temporizadores al destruir el servicio
+   */
+  ngOnDestroy(): void {
+    this.authChannel?.close();
+    this.clearSessionTimers();
+  }
 
   // ========== MÉTODOS DE SEGURIDAD Y ENCRIPTACIÓN ==========
 
   /**
-   * Encripta y guarda datos en localStorage
+   * Restaura la sesión guardada al iniciar la aplicación
    * 
-   * Utiliza AES de CryptoJS para encriptar datos sensibles como tokens
-   * antes de almacenarlos en localStorage, proporcionando una capa
-   * adicional de seguridad.
+   * Desencripta los valores de sesión almacenados y los deja disponibles
+   * en memoria. Si alguno fue alterado (o no puede verificarse con la
+   * clave de sesión) se considera que no hay sesión y se limpia todo.
+   * Finalmente programa la expiración, de modo que un token ya vencido se
+   * descarta antes de que la UI o GuardService lo consideren válido.
    * 
-   * @param key - Clave para identificar el dato en localStorage
-   * @param value - Valor a encriptar y almacenar
+   * Se ejecuta desde APP_INITIALIZER (ver app.config.ts).
    */
-  encryptAndSaveToStorage(key: string, value: string): void {
-    const encryptedValue = CryptoJS.AES.encrypt(value, ApiService.ENCRYPTION_KEY).toString();
-    localStorage.setItem(key, encryptedValue);
+  async restoreSession(): Promise<void> {
+    this.sessionValues.clear();
+    try {
+      for (const key of Object.keys(ApiService.SESSION_VALUES)) {
+        const value = await this.secureStorage.getItem(key);
+        if (value !== null) this.sessionValues.set(key, value);
+      }
+    } catch (error) {
+      // Valor alterado o ilegible: se trata como cierre de sesión
+      this.clearAuth();
+      return;
+    }
+    this.scheduleSessionExpiry();
+
+    // Verificar el usuario con el backend sin demorar el arranque; GuardService espera esta consulta
+    this.loadCurrentUser().subscribe({ error: () => { } });
   }
 
   /**
-   * Recupera y desencripta datos de localStorage
+   * Encripta y guarda un dato de sesión
    * 
-   * Obtiene datos encriptados del localStorage y los desencripta
-   * utilizando la clave de encriptación del servicio.
+   * El valor queda disponible en memoria de inmediato y se persiste
+   * encriptado con la clave WebCrypto de la sesión en el área indicada.
+   * 
+   * @param key - Clave para identificar el dato
+   * @param value - Valor a encriptar y almacenar
+   * @param area - localStorage o sessionStorage (por defecto, el definido en SESSION_VALUES)
+   * @returns Promesa que se resuelve cuando el valor quedó persistido
+   */
+  encryptAndSaveToStorage(
+    key: string,
+    value: string,
+    area: StorageArea = ApiService.SESSION_VALUES[key] ?? 'local'
+  ): Promise<void> {
+    this.sessionValues.set(key, value);
+    return this.secureStorage.setItem(key, value, area);
+  }
+
+  /**
+   * Obtiene un dato de sesión ya desencriptado
    * 
    * @param key - Clave del dato a recuperar
-   * @returns Datos desencriptados o null si no existen o hay error
+   * @returns Valor del dato o null si no existe
+   */
+  private getSessionValue(key: string): string | null {
+    return this.sessionValues.get(key) ?? null;
+  }
+
+  /**
+   * Limpia datos de autenticación del almacenamiento
+   * 
+   * Elimina tokens y el usuario verificado al cerrar sesión, cuando la
+   * autenticación expire o cuando el backend responda 401, descarta la
+   * clave de encriptación de la sesión y cancela los temporizadores de
+   * expiración pendientes. Las demás pestañas reciben el aviso y cierran
+   * también su sesión.
+   */
+  clearAuth() {
+    const hadSession = this.sessionValues.has("token");
+    this.clearMemorySession();
+    this.secureStorage.clear(Object.keys(ApiService.SESSION_VALUES));
+    if (hadSession) this.postAuthMessage({ type: 'logout' });
+  }
+
+  /**
+   * Descarta los datos de sesión en memoria de esta pestaña
    */
-  private getFromStorageAndDecrypt(key: string): any {
+  private clearMemorySession(): void {
+    this.clearSessionTimers();
+    this.sessionValues.clear();
+    this.currentUser = null;
+    this.currentUserRequest$ = null;
+  }
+
+  /**
+   * Obtiene el token JWT almacenado
+   * 
+   * Utilizado por el interceptor HTTP para adjuntar el header Authorization
+   * en cada petición al backend.
+   * 
+   * @returns Token desencriptado o null si no hay sesión
+   */
+  getToken(): string | null {
+    return this.getSessionValue("token") || null;
+  }
+
+  /**
+   * Obtiene el refresh token almacenado
+   * @returns Refresh token desencriptado o null si el login no devolvió uno
+   */
+  getRefreshToken(): string | null {
+    return this.getSessionValue("refreshToken") || null;
+  }
+
+  /**
+   * Indica si una URL pertenece al backend del IMS
+   * @param url - URL de la petición
+   * @returns true si la petición se dirige a la API
+   */
+  isApiUrl(url: string): boolean {
+    return url.startsWith(this.baseUrl);
+  }
+
+  /**
+   * Indica si una URL corresponde a los endpoints de autenticación
+   * 
+   * En estos endpoints un 401 significa credenciales inválidas y no
+   * una sesión vencida, por lo que el interceptor no redirige al login.
+   * 
+   * @param url - URL de la petición
+   * @returns true si la petición se dirige a /auth
+   */
+  isAuthUrl(url: string): boolean {
+    return url.startsWith(`${this.baseUrl}/auth/`);
+  }
+
+  /**
+   * Decodifica el payload (claims) de un token JWT
+   * 
+   * El payload es la segunda sección del token, codificada en base64url.
+   * No se valida la firma: eso corresponde al backend; aquí solo se leen
+   * los claims para conocer datos como la fecha de expiración.
+   * 
+   * @param token - Token JWT completo
+   * @returns Objeto con los claims o null si el token no tiene formato válido
+   */
+  private decodeTokenPayload(token: string): any {
     try {
-      const encryptedValue = localStorage.getItem(key);
-      if (!encryptedValue) return null;
-      return CryptoJS.AES.decrypt(encryptedValue, ApiService.ENCRYPTION_KEY).toString(CryptoJS.enc.Utf8);
+      const payload = token.split('.')[1];
+      if (!payload) return null;
+      const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+      const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+      const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+      return JSON.parse(new TextDecoder().decode(bytes));
     } catch (error) {
       return null;
     }
   }
 
   /**
-   * Limpia datos de autenticación del localStorage
+   * Obtiene la fecha de expiración del token almacenado
    * 
-   * Elimina tokens y información de rol del usuario al cerrar sesión
-   * o cuando la autenticación expire.
+   * Lee el claim "exp" (segundos desde epoch) del JWT guardado.
+   * 
+   * @returns Fecha de expiración en milisegundos o null si no hay token o no declara "exp"
    */
-  private clearAuth() {
-    localStorage.removeItem("token");
-    localStorage.removeItem("role");
+  getTokenExpiration(): number | null {
+    const token = this.getSessionValue("token");
+    if (!token) return null;
+    const exp = this.decodeTokenPayload(token)?.exp;
+    return typeof exp === 'number' ? exp * 1000 : null;
   }
 
   /**
-   * Genera headers HTTP con token de autorización
+   * Obtiene el usuario (claim "sub") del token almacenado
    * 
-   * Crea los headers necesarios para peticiones autenticadas,
-   * incluyendo el token JWT en el header Authorization.
+   * @returns Identificador del usuario o null si no hay token o no declara "sub"
+   */
+  getTokenSubject(): string | null {
+    const token = this.getSessionValue("token");
+    if (!token) return null;
+    const sub = this.decodeTokenPayload(token)?.sub;
+    return typeof sub === 'string' ? sub : null;
+  }
+
+  /**
+   * Programa el aviso previo y el cierre automático de la sesión
    * 
-   * @returns HttpHeaders con token de autorización
+   * Debe llamarse cada vez que se guarda un token nuevo (login o
+   * re-autenticación). Si el token ya está vencido, la sesión se cierra
+   * inmediatamente.
    */
-  private getHeader(): HttpHeaders {
-    const token = this.getFromStorageAndDecrypt("token");
-    return new HttpHeaders({
-      Authorization: `Bearer ${token}`,
+  scheduleSessionExpiry(): void {
+    this.clearSessionTimers();
+
+    const expiresAt = this.getTokenExpiration();
+    if (expiresAt === null) return;
+
+    const remaining = expiresAt - Date.now();
+    if (remaining <= 0) {
+      this.expireSession();
+      return;
+    }
+
+    // Aviso unos minutos antes del vencimiento (o inmediato si ya estamos dentro del margen)
+    const warnIn = Math.max(remaining - ApiService.SESSION_WARNING_MS, 0);
+    if (warnIn <= ApiService.MAX_TIMEOUT_MS) {
+      this.expiryWarningTimer = setTimeout(() => this.handleExpiryWarning(expiresAt), warnIn);
+    }
+
+    // Al vencer el plazo se vuelve a evaluar, por si el token fue renovado o el plazo excedía el máximo
+    this.expiryLogoutTimer = setTimeout(
+      () => this.scheduleSessionExpiry(),
+      Math.min(remaining, ApiService.MAX_TIMEOUT_MS)
+    );
+  }
+
+  /**
+   * Reacciona a la proximidad del vencimiento del token
+   * 
+   * Si hay refresh token se intenta renovar la sesión de forma transparente;
+   * solo cuando no es posible se avisa al usuario para que vuelva a autenticarse.
+   * 
+   * @param expiresAt - Fecha de expiración (ms) del token actual
+   */
+  private handleExpiryWarning(expiresAt: number): void {
+    if (!this.getRefreshToken()) {
+      this.sessionExpiring.emit(expiresAt);
+      return;
+    }
+    this.refreshAccessToken().subscribe({
+      error: () => this.sessionExpiring.emit(expiresAt),
     });
   }
 
+  /**
+   * Cancela los temporizadores de expiración de sesión pendientes
+   */
+  private clearSessionTimers(): void {
+    if (this.expiryWarningTimer) clearTimeout(this.expiryWarningTimer);
+    if (this.expiryLogoutTimer) clearTimeout(this.expiryLogoutTimer);
+    this.expiryWarningTimer = null;
+    this.expiryLogoutTimer = null;
+  }
+
+  /**
+   * Cierra la sesión por expiración del token
+   * 
+   * Limpia los datos de autenticación, notifica el cambio de estado y,
+   * si la aplicación ya está navegando, redirige al login conservando
+   * la URL actual como returnUrl.
+   */
+  private expireSession(): void {
+    this.clearAuth();
+    this.authStatuschanged.emit();
+    this.redirectToLogin();
+  }
+
+  /**
+   * Redirige al login conservando la URL actual como returnUrl
+   * Durante el arranque GuardService se encarga de la redirección
+   */
+  private redirectToLogin(): void {
+    if (this.router.navigated && !this.router.url.startsWith('/login')) {
+      this.router.navigate(['/login'], {
+        queryParams: { returnUrl: this.router.url }
+      });
+    }
+  }
+
+  // ========== SINCRONIZACIÓN ENTRE PESTAÑAS ==========
+
+  /**
+   * Avisa a las demás pestañas abiertas de un cambio de sesión
+   * @param message - Tipo de cambio (inicio/renovación o cierre de sesión)
+   */
+  private postAuthMessage(message: AuthMessage): void {
+    this.authChannel?.postMessage(message);
+  }
+
+  /**
+   * Aplica en esta pestaña un cambio de sesión hecho en otra
+   * 
+   * - logout: descarta la sesión local y redirige al login
+   * - session: otra pestaña inició sesión o renovó el token; se adopta el
+   *   token compartido y, si pertenece a otro usuario, se descartan el
+   *   refresh token y el usuario cacheado de esta pestaña y se emite userChanged
+   * 
+   * @param message - Mensaje recibido por el canal de autenticación
+   */
+  private async handleAuthMessage(message: AuthMessage): Promise<void> {
+    if (message?.type === 'logout') {
+      if (!this.sessionValues.has("token")) return;
+      this.clearMemorySession();
+      // La clave de sesión fue eliminada por la otra pestaña
+      this.secureStorage.reloadKey();
+      this.authStatuschanged.emit();
+      this.redirectToLogin();
+      return;
+    }
+
+    if (message?.type !== 'session') return;
+
+    // La otra pestaña pudo haber generado una clave de sesión nueva
+    this.secureStorage.reloadKey();
+    let token: string | null;
+    try {
+      token = await this.secureStorage.getItem("token");
+    } catch (error) {
+      return; // Sin un token legible no hay nada que adoptar
+    }
+    if (!token || token === this.getSessionValue("token")) return;
+
+    const previousToken = this.getSessionValue("token");
+    const previousSubject = previousToken ? this.decodeTokenPayload(previousToken)?.sub : null;
+    const userChanged = previousSubject !== this.decodeTokenPayload(token)?.sub;
+
+    this.sessionValues.set("token", token);
+    if (userChanged) {
+      // El refresh token y el usuario de esta pestaña pertenecen a la sesión anterior
+      this.sessionValues.delete("refreshToken");
+      this.secureStorage.removeItem("refreshToken");
+      this.currentUser = null;
+      this.currentUserRequest$ = null;
+    }
+    this.scheduleSessionExpiry();
+    this.authStatuschanged.emit();
+
+    if (userChanged) {
+      this.loadCurrentUser().subscribe({ error: () => { } });
+      // Solo se advierte si esta pestaña tenía otra sesión abierta
+      if (previousToken) this.userChanged.emit();
+    }
+  }
+
 
 
 
@@ -113,8 +499,9 @@ export class ApiService {
    * @param body - Datos del usuario (nombre, email, password, etc.)
    * @returns Observable con la respuesta del servidor
    */
-  registerUser(body: any): Observable<any> {
-    return this.http.post(`${ApiService.BASE_URL}/auth/register`, body);
+  registerUser(body: RegisterRequest): Observable<ApiResponse> {
+    const url = `${this.baseUrl}/auth/register`;
+    return this.http.post(url, body).pipe(validateResponse<ApiResponse>(apiResponseSchema, url));
   }
 
   /**
@@ -126,8 +513,65 @@ export class ApiService {
    * @param body - Credenciales del usuario (email y password)
    * @returns Observable con token y datos del usuario
    */
-  loginUser(body: any): Observable<any> {
-    return this.http.post(`${ApiService.BASE_URL}/auth/login`, body);
+  loginUser(body: LoginRequest): Observable<LoginResponse> {
+    const url = `${this.baseUrl}/auth/login`;
+    return this.http.post(url, body).pipe(validateResponse<LoginResponse>(loginResponseSchema, url));
+  }
+
+  /**
+   * Renueva el token de acceso usando el refresh token
+   * 
+   * Se realiza una única llamada al endpoint de renovación aunque varias
+   * peticiones la soliciten a la vez: todas reciben el mismo Observable y
+   * quedan en espera hasta obtener el token nuevo. La sesión se actualiza
+   * (token, refresh token rotado y expiración) antes de emitir el token.
+   * 
+   * @returns Observable con el nuevo token de acceso
+   */
+  refreshAccessToken(): Observable<string> {
+    if (this.refreshRequest$) {
+      return this.refreshRequest$;
+    }
+
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken) {
+      const error: ApiError = { status: 401, message: '', code: 'sessionExpired', url: null };
+      return throwError(() => error);
+    }
+
+    const url = `${this.baseUrl}/auth/refresh`;
+    this.refreshRequest$ = this.http
+      .post(url, { refreshToken })
+      .pipe(
+        validateResponse<LoginResponse>(loginResponseSchema, url),
+        map((response) => {
+          if (response?.status !== 200 || !response.token) {
+            const error: ApiError = { status: response?.status ?? 401, message: response?.message || '', code: 'sessionExpired', url };
+            throw error;
+          }
+          this.startSession(
+            response.token,
+            response.refreshToken || refreshToken
+          ).catch(() => { }); // Si falla la persistencia, la sesión sigue vigente en memoria
+          return response.token;
+        }),
+        finalize(() => this.refreshRequest$ = null),
+        shareReplay(1)
+      );
+
+    return this.refreshRequest$;
+  }
+
+  /**
+   * Obtiene la renovación del token en curso, si la hay
+   * 
+   * Utilizado por el interceptor para retener las peticiones nuevas
+   * mientras se obtiene el token renovado.
+   * 
+   * @returns Observable de la renovación en curso o null
+   */
+  pendingTokenRefresh(): Observable<string> | null {
+    return this.refreshRequest$;
   }
 
   /**
@@ -138,12 +582,57 @@ export class ApiService {
    * 
    * @returns Observable con información del usuario actual
    */
-  getLoggedInUserInfo(): Observable<any> {
-    return this.http.get(`${ApiService.BASE_URL}/users/current`, {
-      headers: this.getHeader(),
-    });
+  getLoggedInUserInfo(): Observable<User> {
+    const url = `${this.baseUrl}/users/current`;
+    return this.http.get(url).pipe(validateResponse<User>(userSchema, url));
   }
 
+  /**
+   * Obtiene el usuario autenticado verificado por el servidor
+   * 
+   * Consulta /users/current una sola vez por sesión y cachea el resultado;
+   * las llamadas concurrentes comparten la misma petición. El rol y los
+   * permisos del usuario se derivan de este dato y no de valores guardados
+   * en el navegador.
+   * 
+   * @param forceReload - true para ignorar la caché (ej: después de un nuevo login)
+   * @returns Observable con el usuario actual o null si no hay sesión
+   */
+  loadCurrentUser(forceReload: boolean = false): Observable<User | null> {
+    if (!this.isAuthenticated()) {
+      return of(null);
+    }
+    if (this.currentUser && !forceReload) {
+      return of(this.currentUser);
+    }
+    if (this.currentUserRequest$ && !forceReload) {
+      return this.currentUserRequest$;
+    }
+
+    const request$ = this.getLoggedInUserInfo().pipe(
+      tap((user) => {
+        // Ignorar la respuesta si la sesión cambió mientras se consultaba
+        if (this.currentUserRequest$ === request$) {
+          this.currentUser = user;
+          this.authStatuschanged.emit();
+        }
+      }),
+      finalize(() => {
+        if (this.currentUserRequest$ === request$) this.currentUserRequest$ = null;
+      }),
+      shareReplay(1)
+    );
+    this.currentUserRequest$ = request$;
+    return request$;
+  }
+
+  /**
+   * Devuelve el usuario verificado ya cargado, sin consultar al servidor
+   * @returns Usuario actual o null si todavía no se cargó
+   */
+  getCurrentUser(): User | null {
+    return this.currentUser;
+  }
 
 
 
@@ -152,6 +641,21 @@ export class ApiService {
 
 
 
+
+  /**
+   * Operador que avisa a EntityStoreService que una colección cambió
+   * 
+   * Solo notifica cuando el backend confirma la operación (status 200).
+   * 
+   * @param collection - Colección afectada por la operación
+   * @returns Operador que deja pasar la respuesta sin modificarla
+   */
+  private notifyEntitiesChanged<T extends ApiResponse>(collection: EntityCollection): MonoTypeOperatorFunction<T> {
+    return tap((response) => {
+      if (response.status === 200) this.entitiesChanged.emit(collection);
+    });
+  }
+
   // ========== MÉTODOS DE GESTIÓN DE CATEGORÍAS ==========
 
   /**
@@ -163,10 +667,9 @@ export class ApiService {
    * @param body - Datos de la categoría (nombre, descripción, etc.)
    * @returns Observable con la respuesta del servidor
    */
-  createCategory(body: any): Observable<any> {
-    return this.http.post(`${ApiService.BASE_URL}/categories/add`, body, {
-      headers: this.getHeader(),
-    });
+  createCategory(body: CategoryRequest): Observable<ApiResponse> {
+    const url = `${this.baseUrl}/categories/add`;
+    return this.http.post(url, body).pipe(validateResponse<ApiResponse>(apiResponseSchema, url), this.notifyEntitiesChanged('categories'));
   }
 
   /**
@@ -177,10 +680,9 @@ export class ApiService {
    * 
    * @returns Observable con array de todas las categorías
    */
-  getAllCategory(): Observable<any> {
-    return this.http.get(`${ApiService.BASE_URL}/categories/all`, {
-      headers: this.getHeader(),
-    });
+  getAllCategory(): Observable<CategoryListResponse> {
+    const url = `${this.baseUrl}/categories/all`;
+    return this.http.get(url).pipe(validateResponse<CategoryListResponse>(categoryListResponseSchema, url));
   }
 
   /**
@@ -192,10 +694,9 @@ export class ApiService {
    * @param id - ID único de la categoría
    * @returns Observable con datos de la categoría
    */
-  getCategoryById(id: string): Observable<any> {
-    return this.http.get(`${ApiService.BASE_URL}/categories/${id}`, {
-      headers: this.getHeader(),
-    });
+  getCategoryById(id: string): Observable<CategoryResponse> {
+    const url = `${this.baseUrl}/categories/${id}`;
+    return this.http.get(url).pipe(validateResponse<CategoryResponse>(categoryResponseSchema, url));
   }
 
   /**
@@ -207,14 +708,9 @@ export class ApiService {
    * @param body - Nuevos datos de la categoría
    * @returns Observable con la respuesta del servidor
    */
-  updateCategory(id: string, body: any): Observable<any> {
-    return this.http.put(
-      `${ApiService.BASE_URL}/categories/update/${id}`,
-      body,
-      {
-        headers: this.getHeader(),
-      }
-    );
+  updateCategory(id: string, body: CategoryRequest): Observable<ApiResponse> {
+    const url = `${this.baseUrl}/categories/update/${id}`;
+    return this.http.put(url, body).pipe(validateResponse<ApiResponse>(apiResponseSchema, url), this.notifyEntitiesChanged('categories'));
   }
 
   /**
@@ -226,10 +722,9 @@ export class ApiService {
    * @param id - ID de la categoría a eliminar
    * @returns Observable con la respuesta del servidor
    */
-  deleteCategory(id: string): Observable<any> {
-    return this.http.delete(`${ApiService.BASE_URL}/categories/delete/${id}`, {
-      headers: this.getHeader(),
-    });
+  deleteCategory(id: string): Observable<ApiResponse> {
+    const url = `${this.baseUrl}/categories/delete/${id}`;
+    return this.http.delete(url).pipe(validateResponse<ApiResponse>(apiResponseSchema, url), this.notifyEntitiesChanged('categories'));
   }
 
 
@@ -248,10 +743,9 @@ export class ApiService {
    * @param body - Datos del proveedor (nombre, contacto, dirección, etc.)
    * @returns Observable con la respuesta del servidor
    */
-  addSupplier(body: any): Observable<any> {
-    return this.http.post(`${ApiService.BASE_URL}/suppliers/add`, body, {
-      headers: this.getHeader(),
-    });
+  addSupplier(body: SupplierRequest): Observable<ApiResponse> {
+    const url = `${this.baseUrl}/suppliers/add`;
+    return this.http.post(url, body).pipe(validateResponse<ApiResponse>(apiResponseSchema, url), this.notifyEntitiesChanged('suppliers'));
   }
 
   /**
@@ -262,10 +756,9 @@ export class ApiService {
    * 
    * @returns Observable con array de todos los proveedores
    */
-  getAllSuppliers(): Observable<any> {
-    return this.http.get(`${ApiService.BASE_URL}/suppliers/all`, {
-      headers: this.getHeader(),
-    });
+  getAllSuppliers(): Observable<SupplierListResponse> {
+    const url = `${this.baseUrl}/suppliers/all`;
+    return this.http.get(url).pipe(validateResponse<SupplierListResponse>(supplierListResponseSchema, url));
   }
 
   /**
@@ -277,10 +770,9 @@ export class ApiService {
    * @param id - ID único del proveedor
    * @returns Observable con datos del proveedor
    */
-  getSupplierById(id: string): Observable<any> {
-    return this.http.get(`${ApiService.BASE_URL}/suppliers/${id}`, {
-      headers: this.getHeader(),
-    });
+  getSupplierById(id: string): Observable<SupplierResponse> {
+    const url = `${this.baseUrl}/suppliers/${id}`;
+    return this.http.get(url).pipe(validateResponse<SupplierResponse>(supplierResponseSchema, url));
   }
 
   /**
@@ -293,14 +785,9 @@ export class ApiService {
    * @param body - Nuevos datos del proveedor
    * @returns Observable con la respuesta del servidor
    */
-  updateSupplier(id: string, body: any): Observable<any> {
-    return this.http.put(
-      `${ApiService.BASE_URL}/suppliers/update/${id}`,
-      body,
-      {
-        headers: this.getHeader(),
-      }
-    );
+  updateSupplier(id: string, body: SupplierRequest): Observable<ApiResponse> {
+    const url = `${this.baseUrl}/suppliers/update/${id}`;
+    return this.http.put(url, body).pipe(validateResponse<ApiResponse>(apiResponseSchema, url), this.notifyEntitiesChanged('suppliers'));
   }
 
   /**
@@ -312,10 +799,9 @@ export class ApiService {
    * @param id - ID del proveedor a eliminar
    * @returns Observable con la respuesta del servidor
    */
-  deleteSupplier(id: string): Observable<any> {
-    return this.http.delete(`${ApiService.BASE_URL}/suppliers/delete/${id}`, {
-      headers: this.getHeader(),
-    });
+  deleteSupplier(id: string): Observable<ApiResponse> {
+    const url = `${this.baseUrl}/suppliers/delete/${id}`;
+    return this.http.delete(url).pipe(validateResponse<ApiResponse>(apiResponseSchema, url), this.notifyEntitiesChanged('suppliers'));
   }
 
 
@@ -333,12 +819,14 @@ export class ApiService {
    * y toda la información necesaria para el inventario.
    * 
    * @param formData - FormData con datos del producto e imágenes
+   * @param options - notify: false para no invalidar la caché de productos
+   *                  (ej: importación masiva, que la invalida una sola vez al terminar)
    * @returns Observable con la respuesta del servidor
    */
-  addProduct(formData: any): Observable<any> {
-    return this.http.post(`${ApiService.BASE_URL}/products/add`, formData, {
-      headers: this.getHeader(),
-    });
+  addProduct(formData: FormData, options: { notify?: boolean } = {}): Observable<ApiResponse> {
+    const url = `${this.baseUrl}/products/add`;
+    const request$ = this.http.post(url, formData).pipe(validateResponse<ApiResponse>(apiResponseSchema, url));
+    return options.notify === false ? request$ : request$.pipe(this.notifyEntitiesChanged('products'));
   }
 
   /**
@@ -350,10 +838,9 @@ export class ApiService {
    * @param formData - FormData con datos actualizados del producto
    * @returns Observable con la respuesta del servidor
    */
-  updateProduct(formData: any): Observable<any> {
-    return this.http.put(`${ApiService.BASE_URL}/products/update`, formData, {
-      headers: this.getHeader(),
-    });
+  updateProduct(formData: FormData): Observable<ApiResponse> {
+    const url = `${this.baseUrl}/products/update`;
+    return this.http.put(url, formData).pipe(validateResponse<ApiResponse>(apiResponseSchema, url), this.notifyEntitiesChanged('products'));
   }
 
   /**
@@ -364,10 +851,28 @@ export class ApiService {
    * 
    * @returns Observable con array de todos los productos
    */
-  getAllProducts(): Observable<any> {
-    return this.http.get(`${ApiService.BASE_URL}/products/all`, {
-      headers: this.getHeader(),
-    });
+  getAllProducts(): Observable<ProductListResponse> {
+    const url = `${this.baseUrl}/products/all`;
+    return this.http.get(url).pipe(validateResponse<ProductListResponse>(productListResponseSchema, url));
+  }
+
+  /**
+   * Obtiene una página de productos
+   * 
+   * El backend recibe página, tamaño, orden, búsqueda y filtros; si devuelve
+   * la lista completa, el filtrado y la paginación se resuelven del lado del
+   * cliente (la búsqueda compara el nombre, el SKU y la descripción).
+   * 
+   * @param request - Página, tamaño, orden y texto de búsqueda
+   * @param criteria - Filtros por categoría, rango de precio y nivel de stock (opcional)
+   * @returns Observable con la página de productos
+   */
+  getProductsPage(request: PageRequest, criteria: ProductCriteria = {}): Observable<Page<Product>> {
+    const url = `${this.baseUrl}/products/all`;
+    return this.http.get(url, { params: { ...pageParams(request), ...productCriteriaParams(criteria) } }).pipe(
+      validateResponse<ProductListResponse>(productListResponseSchema, url),
+      map((res) => toPage(res, res.products, request, (product, filter) => matchesProductFilter(product, filter, criteria)))
+    );
   }
 
   /**
@@ -379,10 +884,9 @@ export class ApiService {
    * @param id - ID único del producto
    * @returns Observable con datos completos del producto
    */
-  getProductById(id: string): Observable<any> {
-    return this.http.get(`${ApiService.BASE_URL}/products/${id}`, {
-      headers: this.getHeader(),
-    });
+  getProductById(id: string): Observable<ProductResponse> {
+    const url = `${this.baseUrl}/products/${id}`;
+    return this.http.get(url).pipe(validateResponse<ProductResponse>(productResponseSchema, url));
   }
 
   /**
@@ -394,10 +898,9 @@ export class ApiService {
    * @param id - ID del producto a eliminar
    * @returns Observable con la respuesta del servidor
    */
-  deleteProduct(id: string): Observable<any> {
-    return this.http.delete(`${ApiService.BASE_URL}/products/delete/${id}`, {
-      headers: this.getHeader(),
-    });
+  deleteProduct(id: string): Observable<ApiResponse> {
+    const url = `${this.baseUrl}/products/delete/${id}`;
+    return this.http.delete(url).pipe(validateResponse<ApiResponse>(apiResponseSchema, url), this.notifyEntitiesChanged('products'));
   }
 
 
@@ -416,16 +919,12 @@ export class ApiService {
    * el inventario y registrando la transacción en el historial.
    * 
    * @param body - Datos de la compra (productos, cantidades, proveedor, etc.)
+   * @param idempotencyKey - Clave generada por el cliente para que un reintento no registre la compra dos veces
    * @returns Observable con la respuesta del servidor
    */
-  purchaseProduct(body: any): Observable<any> {
-    return this.http.post(
-      `${ApiService.BASE_URL}/transactions/purchase`,
-      body,
-      {
-        headers: this.getHeader(),
-      }
-    );
+  purchaseProduct(body: PurchaseRequest, idempotencyKey?: string): Observable<ApiResponse> {
+    const url = `${this.baseUrl}/transactions/purchase`;
+    return this.http.post(url, body, { headers: this.idempotencyHeaders(idempotencyKey) }).pipe(validateResponse<ApiResponse>(apiResponseSchema, url), this.notifyEntitiesChanged('products'));
   }
 
   /**
@@ -435,12 +934,20 @@ export class ApiService {
    * disponible y registrando la transacción en el historial.
    * 
    * @param body - Datos de la venta (productos, cantidades, cliente, etc.)
+   * @param idempotencyKey - Clave generada por el cliente para que un reintento no registre la venta dos veces
    * @returns Observable con la respuesta del servidor
    */
-  sellProduct(body: any): Observable<any> {
-    return this.http.post(`${ApiService.BASE_URL}/transactions/sell`, body, {
-      headers: this.getHeader(),
-    });
+  sellProduct(body: SellRequest, idempotencyKey?: string): Observable<ApiResponse> {
+    const url = `${this.baseUrl}/transactions/sell`;
+    return this.http.post(url, body, { headers: this.idempotencyHeaders(idempotencyKey) }).pipe(validateResponse<ApiResponse>(apiResponseSchema, url), this.notifyEntitiesChanged('products'));
+  }
+
+  /**
+   * Encabezado Idempotency-Key para las transacciones que pueden reintentarse
+   * @param idempotencyKey - Clave de la operación (opcional)
+   */
+  private idempotencyHeaders(idempotencyKey?: string): HttpHeaders {
+    return idempotencyKey ? new HttpHeaders({ 'Idempotency-Key': idempotencyKey }) : new HttpHeaders();
   }
 
   /**
@@ -452,11 +959,28 @@ export class ApiService {
    * @param searchText - Texto para filtrar transacciones
    * @returns Observable con array de transacciones filtradas
    */
-  getAllTransactions(searchText: string): Observable<any> {
-    return this.http.get(`${ApiService.BASE_URL}/transactions/all`, {
+  getAllTransactions(searchText: string): Observable<TransactionListResponse> {
+    const url = `${this.baseUrl}/transactions/all`;
+    return this.http.get(url, {
       params: { searchText: searchText },
-      headers: this.getHeader(),
-    });
+    }).pipe(validateResponse<TransactionListResponse>(transactionListResponseSchema, url));
+  }
+
+  /**
+   * Obtiene una página de transacciones
+   * 
+   * La búsqueda siempre la resuelve el backend (searchText); si devuelve la
+   * lista completa, la página se recorta del lado del cliente.
+   * 
+   * @param request - Página, tamaño, orden y texto de búsqueda
+   * @returns Observable con la página de transacciones
+   */
+  getTransactionsPage(request: PageRequest): Observable<Page<Transaction>> {
+    const url = `${this.baseUrl}/transactions/all`;
+    return this.http.get(url, { params: { searchText: '', ...pageParams(request) } }).pipe(
+      validateResponse<TransactionListResponse>(transactionListResponseSchema, url),
+      map((res) => toPage(res, res.transactions, request))
+    );
   }
 
   /**
@@ -468,10 +992,9 @@ export class ApiService {
    * @param id - ID único de la transacción
    * @returns Observable con detalles completos de la transacción
    */
-  getTransactionById(id: string): Observable<any> {
-    return this.http.get(`${ApiService.BASE_URL}/transactions/${id}`, {
-      headers: this.getHeader(),
-    });
+  getTransactionById(id: string): Observable<TransactionResponse> {
+    const url = `${this.baseUrl}/transactions/${id}`;
+    return this.http.get(url).pipe(validateResponse<TransactionResponse>(transactionResponseSchema, url));
   }
 
   /**
@@ -484,10 +1007,11 @@ export class ApiService {
    * @param status - Nuevo estado de la transacción
    * @returns Observable con la respuesta del servidor
    */
-  updateTransactionStatus(id: string, status: string): Observable<any> {
-    return this.http.put(`${ApiService.BASE_URL}/transactions/update/${id}`, JSON.stringify(status), {
-      headers: this.getHeader().set("Content-Type", "application/json")
-    });
+  updateTransactionStatus(id: string, status: TransactionStatus): Observable<ApiResponse> {
+    const url = `${this.baseUrl}/transactions/update/${id}`;
+    return this.http.put(url, JSON.stringify(status), {
+      headers: new HttpHeaders({ "Content-Type": "application/json" })
+    }).pipe(validateResponse<ApiResponse>(apiResponseSchema, url), this.notifyEntitiesChanged('transactions'));
   }
 
   /**
@@ -500,14 +1024,14 @@ export class ApiService {
    * @param year - Año (formato completo, ej: 2024)
    * @returns Observable con transacciones del período especificado
    */
-  getTransactionsByMonthAndYear(month: number, year: number): Observable<any> {
-    return this.http.get(`${ApiService.BASE_URL}/transactions/by-month-year`, {
-      headers: this.getHeader(),
+  getTransactionsByMonthAndYear(month: number, year: number): Observable<TransactionListResponse> {
+    const url = `${this.baseUrl}/transactions/by-month-year`;
+    return this.http.get(url, {
       params: {
         month: month,
         year: year,
       },
-    });
+    }).pipe(validateResponse<TransactionListResponse>(transactionListResponseSchema, url));
   }
 
 
@@ -523,39 +1047,118 @@ export class ApiService {
 
   // ========== MÉTODOS DE VERIFICACIÓN DE AUTENTICACIÓN ==========
 
+  /**
+   * Inicia (o renueva) la sesión del usuario
+   * 
+   * Guarda encriptados el token y el refresh token (si el backend lo envía)
+   * recibidos del login, programa la expiración de la sesión y notifica el
+   * cambio de autenticación. El rol no se guarda: se obtiene del servidor
+   * mediante loadCurrentUser(). Los datos quedan disponibles de inmediato;
+   * la Promesa indica cuándo terminaron de persistirse.
+   * 
+   * @param token - Token JWT devuelto por el backend
+   * @param refreshToken - Refresh token para renovar la sesión sin volver a loguearse
+   * @returns Promesa que se resuelve cuando la sesión quedó guardada
+   */
+  startSession(token: string, refreshToken?: string): Promise<void> {
+    const writes = [this.encryptAndSaveToStorage("token", token)];
+    if (refreshToken) {
+      writes.push(this.encryptAndSaveToStorage("refreshToken", refreshToken));
+    }
+    this.scheduleSessionExpiry();
+    this.authStatuschanged.emit();
+    // Las demás pestañas leen el token recién persistido
+    return Promise.all(writes).then(() => this.postAuthMessage({ type: 'session' }));
+  }
+
   /**
    * Cierra la sesión del usuario actual
    * 
-   * Elimina todos los datos de autenticación del localStorage,
-   * efectivamente desconectando al usuario del sistema.
+   * Elimina todos los datos de autenticación almacenados y la clave
+   * de sesión, efectivamente desconectando al usuario del sistema.
+   * También descarta los borradores de formularios, que solo se conservan
+   * cuando la sesión vence (ver FormDraftService).
    */
   logout(): void {
-    this.clearAuth()
+    this.formDrafts.clearAll();
+    this.clearAuth();
+    this.authStatuschanged.emit();
   }
 
   /**
    * Verifica si el usuario está autenticado
    * 
-   * Comprueba la existencia de un token válido en el almacenamiento
-   * local para determinar si el usuario tiene una sesión activa.
+   * Comprueba la existencia de un token en la sesión restaurada y que
+   * su claim "exp" no haya vencido. Un token expirado se considera sesión
+   * cerrada aunque todavía no se haya ejecutado el cierre automático.
    * 
    * @returns true si el usuario está autenticado, false en caso contrario
    */
   isAuthenticated(): boolean {
-    const token = this.getFromStorageAndDecrypt("token");
-    return !!token; // Convierte a boolean: true si existe token, false si es null/undefined
+    const token = this.getSessionValue("token");
+    if (!token) return false;
+    const expiresAt = this.getTokenExpiration();
+    return expiresAt === null || expiresAt > Date.now();
+  }
+
+  /**
+   * Obtiene el rol del usuario autenticado
+   * 
+   * La fuente principal es el usuario verificado por /users/current; mientras
+   * no se haya cargado, se usan los claims del JWT (firmado por el backend).
+   * 
+   * @returns Rol normalizado o null si no hay sesión activa o rol conocido
+   */
+  getRole(): Role | null {
+    if (!this.isAuthenticated()) return null;
+    if (this.currentUser) {
+      return normalizeRole(this.currentUser.role);
+    }
+    return normalizeRole(this.getRoleFromTokenClaims());
+  }
+
+  /**
+   * Lee el rol declarado en los claims del token JWT
+   * 
+   * Admite los formatos habituales: "role", "roles" o "authorities"
+   * (con o sin prefijo ROLE_ de Spring Security).
+   * 
+   * @returns Rol declarado en el token o null
+   */
+  private getRoleFromTokenClaims(): string | null {
+    const token = this.getSessionValue("token");
+    const claims = token ? this.decodeTokenPayload(token) : null;
+    if (!claims) return null;
+
+    const candidates = [claims.role, claims.roles, claims.authorities].flat();
+    const role = candidates.find((value) => typeof value === 'string' || typeof value?.authority === 'string');
+    const name: string | undefined = typeof role === 'string' ? role : role?.authority;
+    return name ? name.replace(/^ROLE_/, '') : null;
+  }
+
+  /**
+   * Verifica si el usuario autenticado cuenta con los permisos indicados
+   * 
+   * Los permisos se derivan del rol según ROLE_PERMISSIONS; se requieren
+   * todos los permisos recibidos.
+   * 
+   * @param permissions - Permiso o lista de permisos requeridos
+   * @returns true si el usuario los tiene todos, false en caso contrario
+   */
+  hasPermission(permissions: Permission | readonly Permission[]): boolean {
+    const required = Array.isArray(permissions) ? permissions : [permissions as Permission];
+    return roleHasPermissions(this.getRole(), required);
   }
 
   /**
    * Verifica si el usuario autenticado tiene privilegios de administrador
    * 
-   * Comprueba el rol del usuario almacenado en localStorage para
+   * Comprueba el rol del usuario verificado por el servidor para
    * determinar si tiene permisos administrativos en el sistema.
    * 
    * @returns true si el usuario es administrador, false en caso contrario
    */
   isAdmin(): boolean {
-    const role = this.getFromStorageAndDecrypt("role");
-    return role === "ADMIN";
+    return this.getRole() === "ADMIN";
   }
 }
@@ -0,0 +1,14 @@
+import { errorState, loadedState } from './async-state';
+
+describe('async-state', () => {
+  it('should treat empty arrays and missing data as empty', () => {
+    expect(loadedState([])).toEqual({ status: 'empty' });
+    expect(loadedState(null)).toEqual({ status: 'empty' });
+    expect(loadedState([{ id: '1' }])).toEqual({ status: 'loaded' });
+    expect(loadedState({ id: '1' })).toEqual({ status: 'loaded' });
+  });
+
+  it('should keep the error message', () => {
+    expect(errorState('Transacción no encontrada')).toEqual({ status: 'error', message: 'Transacción no encontrada' });
+  });
+});
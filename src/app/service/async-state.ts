@@ -0,0 +1,40 @@
+/**
+ * Estado de una carga de datos de una vista
+ *
+ * - loading: la petición está en curso
+ * - loaded: llegaron datos para mostrar
+ * - empty: la petición terminó pero no hay nada que mostrar
+ * - error: la petición falló; message explica el motivo
+ *
+ * Los componentes guardan los datos en sus propios campos y usan este
+ * estado solo para decidir qué mostrar (ver AsyncStateComponent).
+ */
+export type AsyncState =
+  | { status: 'loading' }
+  | { status: 'loaded' }
+  | { status: 'empty' }
+  | { status: 'error'; message: string };
+
+/**
+ * Estado de una carga en curso
+ */
+export const LOADING: AsyncState = { status: 'loading' };
+
+/**
+ * Estado de una carga finalizada con éxito
+ * @param data - Datos recibidos; un arreglo vacío, null o undefined se consideran vacíos
+ * @returns Estado "loaded" o "empty"
+ */
+export function loadedState(data: unknown): AsyncState {
+  const isEmpty = data === null || data === undefined || (Array.isArray(data) && data.length === 0);
+  return isEmpty ? { status: 'empty' } : { status: 'loaded' };
+}
+
+/**
+ * Estado de una carga fallida
+ * @param message - Motivo legible del error (ver I18nService.errorMessage)
+ * @returns Estado "error" con el mensaje
+ */
+export function errorState(message: string): AsyncState {
+  return { status: 'error', message };
+}
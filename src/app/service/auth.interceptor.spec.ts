@@ -0,0 +1,139 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Router, provideRouter } from '@angular/router';
+
+import { authInterceptor } from './auth.interceptor';
+import { ApiService } from './api.service';
+import { ApiError } from './api-error';
+
+describe('authInterceptor', () => {
+  let apiService: ApiService;
+  let httpTesting: HttpTestingController;
+  let router: Router;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([authInterceptor])),
+        provideHttpClientTesting(),
+        provideRouter([]),
+      ]
+    });
+    apiService = TestBed.inject(ApiService);
+    httpTesting = TestBed.inject(HttpTestingController);
+    router = TestBed.inject(Router);
+    spyOn(router, 'navigate').and.resolveTo(true);
+  });
+
+  afterEach(() => {
+    httpTesting.verify();
+    apiService.logout();
+  });
+
+  it('should attach the bearer token to API requests', () => {
+    apiService.encryptAndSaveToStorage('token', 'abc.def.ghi');
+    apiService.getAllCategory().subscribe();
+
+    const req = httpTesting.expectOne((r) => r.url.endsWith('/categories/all'));
+    expect(req.request.headers.get('Authorization')).toBe('Bearer abc.def.ghi');
+    req.flush({ status: 200, categories: [] });
+  });
+
+  it('should not attach the token to other origins', () => {
+    apiService.encryptAndSaveToStorage('token', 'abc.def.ghi');
+    TestBed.inject(HttpClient).get('https://example.com/data').subscribe();
+
+    const req = httpTesting.expectOne('https://example.com/data');
+    expect(req.request.headers.has('Authorization')).toBeFalse();
+    req.flush({});
+  });
+
+  it('should clear the session and redirect to login on 401', () => {
+    apiService.encryptAndSaveToStorage('token', 'abc.def.ghi');
+    let received: ApiError | undefined;
+    apiService.getAllProducts().subscribe({ error: (error) => received = error });
+
+    httpTesting.expectOne((r) => r.url.endsWith('/products/all'))
+      .flush({ status: 401, message: 'Token inválido' }, { status: 401, statusText: 'Unauthorized' });
+
+    expect(apiService.getToken()).toBeNull();
+    expect(router.navigate).toHaveBeenCalledWith(['/login'], jasmine.anything());
+    expect(received?.status).toBe(401);
+    expect(received?.message).toBe('Token inválido');
+  });
+
+  it('should not redirect when the login credentials are rejected', () => {
+    apiService.loginUser({ email: 'a@b.com', password: 'x' }).subscribe({ error: () => { } });
+
+    httpTesting.expectOne((r) => r.url.endsWith('/auth/login'))
+      .flush({ status: 401, message: 'Credenciales inválidas' }, { status: 401, statusText: 'Unauthorized' });
+
+    expect(router.navigate).not.toHaveBeenCalled();
+  });
+
+  it('should show the forbidden page on 403', () => {
+    apiService.deleteProduct('1').subscribe({ error: () => { } });
+
+    httpTesting.expectOne((r) => r.url.endsWith('/products/delete/1'))
+      .flush({ status: 403, message: 'Prohibido' }, { status: 403, statusText: 'Forbidden' });
+
+    expect(router.navigate).toHaveBeenCalledWith(['/forbidden']);
+  });
+
+  describe('refresh token', () => {
+
+    beforeEach(() => {
+      apiService.encryptAndSaveToStorage('token', 'old.access.token');
+      apiService.encryptAndSaveToStorage('refreshToken', 'refresh-1');
+    });
+
+    /**
+     * Responde la llamada al endpoint de renovación (mock local del backend)
+     */
+    function flushRefresh(body: object, status = 200) {
+      const req = httpTesting.expectOne((r) => r.url.endsWith('/auth/refresh'));
+      expect(req.request.body).toEqual({ refreshToken: 'refresh-1' });
+      req.flush(body, { status, statusText: status === 200 ? 'OK' : 'Unauthorized' });
+    }
+
+    it('should refresh the token once and replay concurrent requests', () => {
+      const results: unknown[] = [];
+      apiService.getAllProducts().subscribe((res) => results.push(res));
+      apiService.getAllSuppliers().subscribe((res) => results.push(res));
+
+      httpTesting.expectOne((r) => r.url.endsWith('/products/all'))
+        .flush(null, { status: 401, statusText: 'Unauthorized' });
+      httpTesting.expectOne((r) => r.url.endsWith('/suppliers/all'))
+        .flush(null, { status: 401, statusText: 'Unauthorized' });
+
+      flushRefresh({ status: 200, token: 'new.access.token', refreshToken: 'refresh-2' });
+
+      const replayed = httpTesting.match((r) => r.url.endsWith('/products/all') || r.url.endsWith('/suppliers/all'));
+      expect(replayed.length).toBe(2);
+      replayed.forEach((req) => {
+        expect(req.request.headers.get('Authorization')).toBe('Bearer new.access.token');
+        req.flush({ status: 200, products: [], suppliers: [] });
+      });
+
+      expect(results.length).toBe(2);
+      expect(apiService.getRefreshToken()).toBe('refresh-2');
+      expect(router.navigate).not.toHaveBeenCalled();
+    });
+
+    it('should log out when the refresh fails', () => {
+      let received: ApiError | undefined;
+      apiService.getAllProducts().subscribe({ error: (error) => received = error });
+
+      httpTesting.expectOne((r) => r.url.endsWith('/products/all'))
+        .flush(null, { status: 401, statusText: 'Unauthorized' });
+      flushRefresh({ status: 401, message: 'Refresh token vencido' }, 401);
+
+      expect(received?.status).toBe(401);
+      expect(apiService.getToken()).toBeNull();
+      expect(apiService.getRefreshToken()).toBeNull();
+      expect(router.navigate).toHaveBeenCalledWith(['/login'], jasmine.anything());
+    });
+  });
+});
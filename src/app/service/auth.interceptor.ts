@@ -0,0 +1,105 @@
+// Importaciones necesarias de Angular y servicios
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { catchError, switchMap, throwError } from 'rxjs';
+import { ApiService } from './api.service';
+import { toApiError } from './api-error';
+
+/**
+ * Interceptor HTTP de autenticación y manejo de errores
+ * 
+ * Se registra en app.config.ts y se aplica a todas las peticiones dirigidas
+ * al backend del IMS:
+ * 1. Adjunta el token JWT en el header Authorization
+ * 2. Ante un 401 renueva el token con el refresh token (una sola vez para
+ *    todas las peticiones concurrentes) y repite la petición original
+ * 3. Si no es posible renovar, limpia la sesión y redirige al login con URL
+ *    de retorno (excepto en los endpoints de autenticación, donde un 401
+ *    indica credenciales inválidas)
+ * 4. Ante un 403 muestra la página de acceso denegado
+ * 5. Convierte cualquier error del backend al formato único ApiError
+ */
+export const authInterceptor: HttpInterceptorFn = (req, next) => {
+  const apiService = inject(ApiService);
+  const router = inject(Router);
+
+  // Las peticiones a otros orígenes no reciben el token ni se normalizan
+  if (!apiService.isApiUrl(req.url)) {
+    return next(req);
+  }
+
+  const isAuthRequest = apiService.isAuthUrl(req.url);
+
+  // Token con el que efectivamente se envió la petición
+  let sentToken = apiService.getToken();
+
+  // Mientras se renueva el token, las peticiones nuevas esperan al token renovado
+  const pendingRefresh = isAuthRequest ? null : apiService.pendingTokenRefresh();
+  const request$ = pendingRefresh
+    ? pendingRefresh.pipe(switchMap((token) => next(withToken(req, sentToken = token))))
+    : next(withToken(req, sentToken));
+
+  return request$.pipe(
+    catchError((error) => {
+      if (
+        error instanceof HttpErrorResponse &&
+        error.status === 401 &&
+        !isAuthRequest &&
+        apiService.getRefreshToken()
+      ) {
+        // Si otra petición ya renovó el token, basta con repetir la petición
+        const currentToken = apiService.getToken();
+        if (currentToken && currentToken !== sentToken) {
+          return next(withToken(req, currentToken));
+        }
+
+        // Renovar el token y repetir la petición; si la renovación falla se propaga el 401 original
+        return apiService.refreshAccessToken().pipe(
+          catchError(() => throwError(() => error)),
+          switchMap((token) => next(withToken(req, token)))
+        );
+      }
+      return throwError(() => error);
+    }),
+    catchError((error) => handleError(error, isAuthRequest, apiService, router))
+  );
+};
+
+/**
+ * Clona la petición agregando el header Authorization si hay token
+ * @param req - Petición original
+ * @param token - Token JWT a adjuntar
+ * @returns Petición con el header de autorización
+ */
+function withToken(req: HttpRequest<unknown>, token: string | null): HttpRequest<unknown> {
+  return token
+    ? req.clone({ setHeaders: { Authorization: `Bearer ${token}` } })
+    : req;
+}
+
+/**
+ * Maneja los errores definitivos de una petición al backend
+ * 
+ * Cierra la sesión ante un 401 no recuperable, redirige ante un 403 y
+ * normaliza el error a ApiError antes de propagarlo a los componentes.
+ */
+function handleError(error: unknown, isAuthRequest: boolean, apiService: ApiService, router: Router) {
+  if (!(error instanceof HttpErrorResponse)) {
+    return throwError(() => error);
+  }
+
+  if (error.status === 401 && !isAuthRequest) {
+    // Sesión inválida o revocada en el servidor: cerrar sesión localmente
+    apiService.clearAuth();
+    apiService.authStatuschanged.emit();
+    router.navigate(['/login'], {
+      queryParams: { returnUrl: router.url }
+    });
+  } else if (error.status === 403) {
+    // Usuario autenticado sin permisos para el recurso solicitado
+    router.navigate(['/forbidden']);
+  }
+
+  return throwError(() => toApiError(error));
+}
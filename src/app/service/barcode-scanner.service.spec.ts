@@ -0,0 +1,35 @@
+import { TestBed } from '@angular/core/testing';
+
+import { BarcodeScannerService } from './barcode-scanner.service';
+import { Product } from '../models/product.model';
+
+const PRODUCTS: Product[] = [
+  { id: '1', name: 'Yerba Mate 1kg', sku: 'YER-001', price: 4200, stockQuantity: 40, categoryId: '1' },
+  { id: '2', name: 'Azúcar 1kg', sku: '7791234567890', price: 1850.5, stockQuantity: 8, categoryId: '1' },
+];
+
+describe('BarcodeScannerService', () => {
+  let service: BarcodeScannerService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(BarcodeScannerService);
+  });
+
+  it('should remember the scan mode on this terminal', () => {
+    expect(service.enabled).toBeFalse();
+
+    service.setEnabled(true);
+    expect(TestBed.inject(BarcodeScannerService).enabled).toBeTrue();
+
+    service.setEnabled(false);
+    expect(service.enabled).toBeFalse();
+  });
+
+  it('should find products by SKU ignoring case and whitespace', () => {
+    expect(service.findProduct(PRODUCTS, 'yer-001')?.id).toBe('1');
+    expect(service.findProduct(PRODUCTS, ' 7791234567890 ')?.id).toBe('2');
+    expect(service.findProduct(PRODUCTS, '0000')).toBeUndefined();
+  });
+});
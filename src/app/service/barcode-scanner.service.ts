@@ -0,0 +1,70 @@
+import { Injectable } from '@angular/core';
+import { Product } from '../models/product.model';
+
+/**
+ * Lector de Código de Barras (BarcodeScannerService)
+ *
+ * Acompaña a BarcodeScannerDirective en las pantallas de venta y compra:
+ * recuerda si el modo escáner está activado en esta terminal, busca el
+ * producto de un código por su SKU y emite un sonido cuando el código no
+ * corresponde a ningún producto.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BarcodeScannerService {
+
+  private static STORAGE_KEY = 'ims-scan-mode';
+
+  // Contexto de audio del aviso sonoro, creado al primer uso
+  private audio?: AudioContext;
+
+  /**
+   * Indica si el modo escáner está activado (se recuerda por terminal)
+   */
+  get enabled(): boolean {
+    return localStorage.getItem(BarcodeScannerService.STORAGE_KEY) === 'on';
+  }
+
+  /**
+   * Activa o desactiva el modo escáner
+   * @param enabled - true para detectar los códigos escaneados
+   */
+  setEnabled(enabled: boolean): void {
+    if (enabled) {
+      localStorage.setItem(BarcodeScannerService.STORAGE_KEY, 'on');
+    } else {
+      localStorage.removeItem(BarcodeScannerService.STORAGE_KEY);
+    }
+  }
+
+  /**
+   * Busca el producto de un código escaneado
+   * @param products - Productos disponibles
+   * @param code - Código leído (se compara con el SKU sin distinguir mayúsculas)
+   * @returns Producto, o undefined si ninguno tiene ese SKU
+   */
+  findProduct(products: readonly Product[], code: string): Product | undefined {
+    const sku = code.trim().toLowerCase();
+    return products.find((product) => product.sku.trim().toLowerCase() === sku);
+  }
+
+  /**
+   * Emite un sonido breve para avisar que el código no se reconoció
+   */
+  beep(): void {
+    try {
+      this.audio ??= new AudioContext();
+      const oscillator = this.audio.createOscillator();
+      const gain = this.audio.createGain();
+      oscillator.type = 'square';
+      oscillator.frequency.value = 440;
+      gain.gain.value = 0.1;
+      oscillator.connect(gain).connect(this.audio.destination);
+      oscillator.start();
+      oscillator.stop(this.audio.currentTime + 0.2);
+    } catch {
+      // Sin audio disponible: queda el aviso visual
+    }
+  }
+}
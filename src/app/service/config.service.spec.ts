@@ -0,0 +1,54 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+
+import { ConfigService, DEFAULT_CONFIG } from './config.service';
+
+describe('ConfigService', () => {
+  let service: ConfigService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(ConfigService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should use the defaults before loading', () => {
+    expect(service.apiBaseUrl).toBe(DEFAULT_CONFIG.apiBaseUrl);
+    expect(service.isFeatureEnabled('mockBackend')).toBeFalse();
+  });
+
+  it('should merge config.json over the defaults', async () => {
+    const loading = service.load();
+    httpMock.expectOne('config.json').flush({
+      apiBaseUrl: 'https://ims.example.com/api/',
+      currency: 'USD',
+      features: { barcodeScanner: true },
+      idle: { lockAfterMinutes: 2 }
+    });
+    await loading;
+
+    expect(service.apiBaseUrl).toBe('https://ims.example.com/api');
+    expect(service.currency).toBe('USD');
+    expect(service.locale).toBe(DEFAULT_CONFIG.locale);
+    expect(service.isFeatureEnabled('barcodeScanner')).toBeTrue();
+    expect(service.idle).toEqual({ lockAfterMinutes: 2, logoutAfterMinutes: 10 });
+  });
+
+  it('should fall back to the defaults when config.json is missing', async () => {
+    spyOn(console, 'warn');
+    const loading = service.load();
+    httpMock.expectOne('config.json').flush('Not found', { status: 404, statusText: 'Not Found' });
+    await loading;
+
+    expect(service.currency).toBe(DEFAULT_CONFIG.currency);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,119 @@
+import { Injectable } from '@angular/core';
+import { HttpBackend, HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+
+/**
+ * Configuración de la aplicación que se lee en tiempo de ejecución desde
+ * public/config.json, de modo que cada despliegue puede ajustarla sin recompilar
+ */
+export interface AppConfig {
+  apiBaseUrl: string; // URL base de la API del backend
+  currency: string; // Código ISO 4217 de la moneda (ej: USD, ARS)
+  locale: string; // Locale para formatear fechas y números (ej: es-AR)
+  features: { [flag: string]: boolean }; // Funcionalidades opcionales habilitadas por despliegue
+  idle: {
+    lockAfterMinutes: number; // Inactividad hasta bloquear la terminal
+    logoutAfterMinutes: number; // Tiempo bloqueada hasta cerrar la sesión
+  };
+}
+
+/**
+ * Valores usados cuando config.json no existe o no define alguna opción
+ */
+export const DEFAULT_CONFIG: AppConfig = {
+  apiBaseUrl: 'http://localhost:5050/api',
+  currency: 'ARS',
+  locale: 'es-AR',
+  features: {},
+  idle: {
+    lockAfterMinutes: 5,
+    logoutAfterMinutes: 10,
+  },
+};
+
+/**
+ * Servicio de Configuración (ConfigService)
+ * 
+ * Carga config.json al iniciar la aplicación (APP_INITIALIZER, ver
+ * app.config.ts) y expone sus valores a ApiService y a los componentes.
+ * La petición se hace con HttpBackend para no pasar por los interceptores,
+ * que dependen de la URL de la API todavía desconocida.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConfigService {
+
+  // Ubicación del archivo de configuración, relativa al base href
+  private static CONFIG_URL = 'config.json';
+
+  private config: AppConfig = DEFAULT_CONFIG;
+
+  /**
+   * Constructor del servicio
+   * @param httpBackend - Backend HTTP sin interceptores
+   */
+  constructor(private httpBackend: HttpBackend) { }
+
+  /**
+   * Lee config.json y lo combina con los valores por defecto
+   * 
+   * Si el archivo no está disponible la aplicación arranca igualmente
+   * con DEFAULT_CONFIG.
+   * 
+   * @returns Promesa que se resuelve cuando la configuración está lista
+   */
+  async load(): Promise<void> {
+    try {
+      const loaded = await firstValueFrom(
+        new HttpClient(this.httpBackend).get<Partial<AppConfig>>(ConfigService.CONFIG_URL)
+      );
+      this.config = {
+        ...DEFAULT_CONFIG,
+        ...loaded,
+        features: { ...DEFAULT_CONFIG.features, ...loaded?.features },
+        idle: { ...DEFAULT_CONFIG.idle, ...loaded?.idle },
+      };
+    } catch (error) {
+      console.warn('No se pudo cargar config.json; se usa la configuración por defecto', error);
+      this.config = DEFAULT_CONFIG;
+    }
+  }
+
+  /**
+   * URL base de la API, sin barra final
+   */
+  get apiBaseUrl(): string {
+    return this.config.apiBaseUrl.replace(/\/+$/, '');
+  }
+
+  /**
+   * Código de la moneda con la que se muestran los precios
+   */
+  get currency(): string {
+    return this.config.currency;
+  }
+
+  /**
+   * Locale para formatear fechas y números
+   */
+  get locale(): string {
+    return this.config.locale;
+  }
+
+  /**
+   * Tiempos de bloqueo por inactividad de la terminal
+   */
+  get idle(): AppConfig['idle'] {
+    return this.config.idle;
+  }
+
+  /**
+   * Indica si una funcionalidad opcional está habilitada en este despliegue
+   * @param flag - Nombre de la funcionalidad en config.json (features)
+   * @returns true si está habilitada
+   */
+  isFeatureEnabled(flag: string): boolean {
+    return this.config.features[flag] === true;
+  }
+}
@@ -0,0 +1,30 @@
+import { detectDelimiter, parseCsv, toCsv } from './csv';
+
+describe('csv', () => {
+  it('should detect the delimiter from the first line', () => {
+    expect(detectDelimiter('name,sku,price\n"a;b",1,2')).toBe(',');
+    expect(detectDelimiter('nombre;sku;precio\r\nYerba;Y-1;1850,50')).toBe(';');
+    expect(detectDelimiter('name\tsku\nYerba\tY-1')).toBe('\t');
+  });
+
+  it('should parse quoted fields with delimiters, quotes and line breaks', () => {
+    const text = '\uFEFFname,description\r\n"Yerba, 1kg","Dice ""suave""\nsin palo"\r\n\r\nAzúcar,\n';
+
+    expect(parseCsv(text)).toEqual([
+      ['name', 'description'],
+      ['Yerba, 1kg', 'Dice "suave"\nsin palo'],
+      ['Azúcar', ''],
+    ]);
+  });
+
+  it('should write cells that round-trip through the parser', () => {
+    const rows = [['name', 'note'], ['Yerba, 1kg', 'Dice "suave"'], ['Azúcar', 'línea 1\nlínea 2']];
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+    expect(toCsv([['a', 1, null]], ';')).toBe('a;1;');
+  });
+
+  it('should neutralize cells that a spreadsheet would run as formulas', () => {
+    expect(toCsv([['=SUM(A1:A2)', '@cmd', '-10', '-1,5']])).toBe(`'=SUM(A1:A2),'@cmd,-10,"-1,5"`);
+  });
+});
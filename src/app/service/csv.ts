@@ -0,0 +1,88 @@
+/**
+ * Lectura y escritura de CSV
+ *
+ * Sigue RFC 4180: los campos pueden ir entre comillas dobles y, dentro de
+ * ellas, contener separadores, saltos de línea y comillas duplicadas ("").
+ */
+
+/**
+ * Separador de campos más probable de un CSV
+ *
+ * Excel en español guarda los CSV con punto y coma, porque la coma es el
+ * separador decimal; se elige el que más aparece en la primera línea.
+ *
+ * @param text - Contenido del archivo
+ * @returns ',' o ';' (o tabulador para archivos copiados de una planilla)
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map((delimiter) => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+  return counts.reduce((best, current) => current.count > best.count ? current : best).delimiter;
+}
+
+/**
+ * Convierte el contenido de un CSV en filas de celdas
+ * @param text - Contenido del archivo (se descarta la marca BOM de UTF-8)
+ * @param delimiter - Separador de campos (opcional, se detecta si no se indica)
+ * @returns Filas con sus celdas como texto; las líneas vacías se omiten
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((cell) => cell.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length) endRow();
+  return rows;
+}
+
+/**
+ * Convierte filas de celdas en el contenido de un CSV
+ *
+ * Las celdas con separador, comillas o saltos de línea se encierran entre
+ * comillas. Las que empiezan con =, +, - o @ se anteponen con un apóstrofo
+ * para que una planilla no las interprete como fórmulas.
+ *
+ * @param rows - Filas a escribir
+ * @param delimiter - Separador de campos (por defecto, coma)
+ * @returns Contenido del CSV, con saltos de línea CRLF
+ */
+export function toCsv(rows: readonly (readonly unknown[])[], delimiter: string = ','): string {
+  const escape = (value: unknown): string => {
+    let text = value === null || value === undefined ? '' : String(value);
+    if (/^[=+\-@]/.test(text) && !/^-?\d+([.,]\d+)?$/.test(text)) text = `'${text}`;
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map((row) => row.map(escape).join(delimiter)).join('\r\n');
+}
@@ -0,0 +1,15 @@
+/**
+ * Descarga un archivo generado en el navegador
+ * @param fileName - Nombre con el que se guarda el archivo
+ * @param content - Contenido del archivo
+ * @param type - Tipo MIME del contenido (ej: "text/csv;charset=utf-8")
+ */
+export function downloadFile(fileName: string, content: BlobPart, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Se libera en la siguiente vuelta, cuando el navegador ya inició la descarga
+  setTimeout(() => URL.revokeObjectURL(url));
+}
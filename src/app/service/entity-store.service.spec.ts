@@ -0,0 +1,134 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+
+import { EntityStoreService } from './entity-store.service';
+import { ApiService } from './api.service';
+import { Product } from '../models/product.model';
+
+const PRODUCTS_URL = 'http://localhost:5050/api/products/all';
+
+// Producto válido según el esquema de respuesta
+function product(id: number, categoryId: number, stockQuantity: number = 10): Product {
+  return { id: String(id), name: `Producto ${id}`, sku: `SKU-${id}`, price: 100, stockQuantity, categoryId: String(categoryId) };
+}
+
+describe('EntityStoreService', () => {
+  let store: EntityStoreService;
+  let apiService: ApiService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])]
+    });
+    store = TestBed.inject(EntityStoreService);
+    apiService = TestBed.inject(ApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should share one request between concurrent callers', () => {
+    const first = jasmine.createSpy('first');
+    const second = jasmine.createSpy('second');
+
+    store.getProducts().subscribe(first);
+    store.getProducts().subscribe(second);
+    httpMock.expectOne(PRODUCTS_URL).flush({ status: 200, products: [product(1, 1)] });
+
+    expect(first).toHaveBeenCalledWith([product(1, 1)]);
+    expect(second).toHaveBeenCalledWith([product(1, 1)]);
+  });
+
+  it('should serve later calls from the cache', () => {
+    store.getProducts().subscribe();
+    httpMock.expectOne(PRODUCTS_URL).flush({ status: 200, products: [product(1, 1)] });
+
+    let products: Product[] = [];
+    store.getProducts().subscribe((list) => products = list);
+
+    httpMock.expectNone(PRODUCTS_URL);
+    expect(products.length).toBe(1);
+  });
+
+  it('should reload the products after a successful sale', () => {
+    const received: Product[][] = [];
+    store.products$.subscribe((list) => received.push(list));
+    httpMock.expectOne(PRODUCTS_URL).flush({ status: 200, products: [product(1, 1, 10)] });
+
+    apiService.sellProduct({ productId: '1', quantity: 2 }).subscribe();
+    httpMock.expectOne('http://localhost:5050/api/transactions/sell').flush({ status: 200, message: 'ok' });
+    httpMock.expectOne(PRODUCTS_URL).flush({ status: 200, products: [product(1, 1, 8)] });
+
+    expect(received.map((list) => list[0].stockQuantity)).toEqual([10, 8]);
+  });
+
+  it('should reload the products after a transaction status change', () => {
+    const received: Product[][] = [];
+    store.products$.subscribe((list) => received.push(list));
+    httpMock.expectOne(PRODUCTS_URL).flush({ status: 200, products: [product(1, 1, 8)] });
+
+    apiService.updateTransactionStatus('7', 'CANCELED').subscribe();
+    httpMock.expectOne('http://localhost:5050/api/transactions/update/7').flush({ status: 200, message: 'ok' });
+    httpMock.expectOne(PRODUCTS_URL).flush({ status: 200, products: [product(1, 1, 10)] });
+
+    expect(received.map((list) => list[0].stockQuantity)).toEqual([8, 10]);
+  });
+
+  it('should keep the cache when a sale fails', () => {
+    store.getProducts().subscribe();
+    httpMock.expectOne(PRODUCTS_URL).flush({ status: 200, products: [product(1, 1)] });
+
+    apiService.sellProduct({ productId: '1', quantity: 99 }).subscribe({ error: () => { } });
+    httpMock.expectOne('http://localhost:5050/api/transactions/sell').flush({ status: 400, message: 'Stock insuficiente' });
+
+    store.getProducts().subscribe();
+    httpMock.expectNone(PRODUCTS_URL);
+  });
+
+  it('should load again after a failed request', () => {
+    const products$ = store.products$;
+    const first = jasmine.createSpy('first');
+    products$.subscribe(first);
+    httpMock.expectOne(PRODUCTS_URL).flush({ status: 500, message: 'Error interno' });
+    expect(first).not.toHaveBeenCalled();
+
+    const second = jasmine.createSpy('second');
+    products$.subscribe(second);
+    httpMock.expectOne(PRODUCTS_URL).flush({ status: 200, products: [product(1, 1)] });
+
+    expect(first).toHaveBeenCalledWith([product(1, 1)]);
+    expect(second).toHaveBeenCalledWith([product(1, 1)]);
+
+    let error: unknown;
+    store.getCategories().subscribe({ error: (caught) => error = caught });
+    httpMock.expectOne('http://localhost:5050/api/categories/all').flush(null, { status: 503, statusText: 'Service Unavailable' });
+    expect(error).toBeDefined();
+    store.getCategories().subscribe();
+    httpMock.expectOne('http://localhost:5050/api/categories/all').flush({ status: 200, categories: [] });
+  });
+
+  it('should report an unsuccessful envelope as an error', () => {
+    let message = '';
+    store.getProducts().subscribe({ error: (error) => message = error.message });
+    httpMock.expectOne(PRODUCTS_URL).flush({ status: 500, message: 'Error interno' });
+
+    expect(message).toBe('Error interno');
+  });
+
+  it('should select products by id and by category', () => {
+    let byId: Product | undefined;
+    let byCategory: Product[] = [];
+    store.selectProductById('2').subscribe((found) => byId = found);
+    store.selectProductsByCategory('1').subscribe((list) => byCategory = list);
+
+    httpMock.expectOne(PRODUCTS_URL).flush({ status: 200, products: [product(1, 1), product(2, 2), product(3, 1)] });
+
+    expect(byId?.name).toBe('Producto 2');
+    expect(byCategory.map((found) => found.id)).toEqual(['1', '3']);
+  });
+});
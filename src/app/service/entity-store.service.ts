@@ -0,0 +1,275 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, Subscription, defer, filter, finalize, map, of, shareReplay, tap } from 'rxjs';
+import { ApiService, EntityCollection } from './api.service';
+import { ApiError } from './api-error';
+import { sameId } from './ids';
+import { ApiResponse } from '../models/api-response.model';
+import { Category } from '../models/category.model';
+import { Product } from '../models/product.model';
+import { Supplier } from '../models/supplier.model';
+
+/**
+ * Caché de una colección de entidades
+ *
+ * Guarda la última lista obtenida, comparte la petición en curso entre
+ * quienes la solicitan a la vez y vuelve a consultar al backend cuando la
+ * lista se invalida.
+ */
+class CollectionCache<T> {
+
+  // Última lista obtenida; null mientras no se haya cargado o tras invalidarla
+  private readonly items$ = new BehaviorSubject<T[] | null>(null);
+
+  // Petición en curso, compartida por quienes la esperan
+  private request$: Observable<T[]> | null = null;
+
+  /**
+   * @param fetch - Consulta al backend que obtiene la lista completa
+   */
+  constructor(private fetch: () => Observable<T[]>) { }
+
+  /**
+   * Obtiene la lista, desde la caché si ya se cargó
+   * @param forceReload - true para ignorar la caché
+   * @returns Observable que emite la lista una vez y se completa
+   */
+  load(forceReload: boolean = false): Observable<T[]> {
+    const cached = this.items$.value;
+    if (cached && !forceReload) {
+      return of(cached);
+    }
+    if (this.request$ && !forceReload) {
+      return this.request$;
+    }
+
+    const request$ = this.fetch().pipe(
+      tap({
+        next: (items) => {
+          // Una invalidación posterior deja obsoleta esta respuesta
+          if (this.request$ === request$) this.items$.next(items);
+        },
+        // Una petición fallida no queda compartida: el próximo pedido vuelve a consultar
+        error: () => {
+          if (this.request$ === request$) this.request$ = null;
+        },
+      }),
+      finalize(() => {
+        if (this.request$ === request$) this.request$ = null;
+      }),
+      shareReplay(1)
+    );
+    this.request$ = request$;
+    return request$;
+  }
+
+  /**
+   * Lista siempre actualizada: se carga al suscribirse (también si una
+   * carga anterior falló) y vuelve a emitir cada vez que la colección se recarga
+   */
+  watch(): Observable<T[]> {
+    return defer(() => {
+      if (!this.items$.value) {
+        this.load().subscribe({ error: () => { } });
+      }
+      return this.items$.pipe(filter((items): items is T[] => items !== null));
+    });
+  }
+
+  /**
+   * Descarta la lista; si hay vistas observándola se recarga de inmediato
+   */
+  invalidate(): void {
+    this.request$ = null;
+    const watched = this.items$.observed;
+    this.items$.next(null);
+    if (watched) {
+      this.load().subscribe({ error: () => { } });
+    }
+  }
+
+  /**
+   * Descarta la lista sin volver a consultarla (ej: al cerrar sesión)
+   */
+  clear(): void {
+    this.request$ = null;
+    this.items$.next(null);
+  }
+}
+
+/**
+ * Almacén de Entidades (EntityStoreService)
+ *
+ * Mantiene en memoria las listas de productos, categorías y proveedores que
+ * comparten ventas, compras y las pantallas de gestión, para no consultarlas
+ * al backend en cada visita. Las listas se invalidan cuando ApiService
+ * informa una operación exitosa que las modifica (entitiesChanged) y se
+ * descartan al cerrar sesión o cambiar de usuario.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class EntityStoreService implements OnDestroy {
+
+  private products = new CollectionCache<Product>(() =>
+    this.apiService.getAllProducts().pipe(map((res) => this.unwrap(res, res.products)))
+  );
+
+  private categories = new CollectionCache<Category>(() =>
+    this.apiService.getAllCategory().pipe(map((res) => this.unwrap(res, res.categories)))
+  );
+
+  private suppliers = new CollectionCache<Supplier>(() =>
+    this.apiService.getAllSuppliers().pipe(map((res) => this.unwrap(res, res.suppliers)))
+  );
+
+  private subscriptions: Subscription[] = [];
+
+  /**
+   * Constructor del servicio
+   * @param apiService - Servicio que consulta al backend y anuncia los cambios de datos y de sesión
+   */
+  constructor(private apiService: ApiService) {
+    this.subscriptions.push(
+      this.apiService.entitiesChanged.subscribe((collection) => this.invalidate(collection)),
+      // Los datos pertenecen a la sesión: se descartan al salir o al cambiar de usuario
+      this.apiService.authStatuschanged.subscribe(() => {
+        if (!this.apiService.isAuthenticated()) this.clear();
+      }),
+      this.apiService.userChanged.subscribe(() => this.invalidateAll())
+    );
+  }
+
+  /**
+   * Libera las suscripciones a ApiService al destruir el servicio
+   */
+  ngOnDestroy(): void {
+    this.subscriptions.forEach((subscription) => subscription.unsubscribe());
+  }
+
+  // ========== LISTAS ==========
+
+  /**
+   * Obtiene los productos (una sola vez, desde la caché si está cargada)
+   * @param forceReload - true para volver a consultar al backend
+   */
+  getProducts(forceReload: boolean = false): Observable<Product[]> {
+    return this.products.load(forceReload);
+  }
+
+  /**
+   * Obtiene las categorías (una sola vez, desde la caché si está cargada)
+   * @param forceReload - true para volver a consultar al backend
+   */
+  getCategories(forceReload: boolean = false): Observable<Category[]> {
+    return this.categories.load(forceReload);
+  }
+
+  /**
+   * Obtiene los proveedores (una sola vez, desde la caché si está cargada)
+   * @param forceReload - true para volver a consultar al backend
+   */
+  getSuppliers(forceReload: boolean = false): Observable<Supplier[]> {
+    return this.suppliers.load(forceReload);
+  }
+
+  /**
+   * Productos, actualizados cada vez que la lista se recarga
+   */
+  get products$(): Observable<Product[]> {
+    return this.products.watch();
+  }
+
+  /**
+   * Categorías, actualizadas cada vez que la lista se recarga
+   */
+  get categories$(): Observable<Category[]> {
+    return this.categories.watch();
+  }
+
+  /**
+   * Proveedores, actualizados cada vez que la lista se recarga
+   */
+  get suppliers$(): Observable<Supplier[]> {
+    return this.suppliers.watch();
+  }
+
+  // ========== SELECTORES ==========
+
+  /**
+   * Producto con el ID indicado
+   * @param id - ID del producto (el backend puede enviarlo como número)
+   */
+  selectProductById(id: string): Observable<Product | undefined> {
+    return this.products$.pipe(map((products) => products.find((product) => sameId(product.id, id))));
+  }
+
+  /**
+   * Productos que pertenecen a una categoría
+   * @param categoryId - ID de la categoría
+   */
+  selectProductsByCategory(categoryId: string): Observable<Product[]> {
+    return this.products$.pipe(map((products) => products.filter((product) => sameId(product.categoryId, categoryId))));
+  }
+
+  /**
+   * Categoría con el ID indicado
+   * @param id - ID de la categoría
+   */
+  selectCategoryById(id: string): Observable<Category | undefined> {
+    return this.categories$.pipe(map((categories) => categories.find((category) => sameId(category.id, id))));
+  }
+
+  /**
+   * Proveedor con el ID indicado
+   * @param id - ID del proveedor
+   */
+  selectSupplierById(id: string): Observable<Supplier | undefined> {
+    return this.suppliers$.pipe(map((suppliers) => suppliers.find((supplier) => sameId(supplier.id, id))));
+  }
+
+  // ========== INVALIDACIÓN ==========
+
+  /**
+   * Descarta una colección para que se vuelva a consultar al backend
+   *
+   * Las transacciones no se cachean: un cambio en ellas (ej: una venta
+   * cancelada) puede modificar el stock, así que se recargan los productos.
+   *
+   * @param collection - Colección a invalidar
+   */
+  invalidate(collection: EntityCollection): void {
+    this[collection === 'transactions' ? 'products' : collection].invalidate();
+  }
+
+  /**
+   * Descarta todas las colecciones y recarga las que están en pantalla
+   */
+  invalidateAll(): void {
+    this.products.invalidate();
+    this.categories.invalidate();
+    this.suppliers.invalidate();
+  }
+
+  /**
+   * Descarta todas las colecciones sin recargarlas (la sesión terminó)
+   */
+  clear(): void {
+    this.products.clear();
+    this.categories.clear();
+    this.suppliers.clear();
+  }
+
+  /**
+   * Extrae la lista del sobre de la respuesta
+   *
+   * Un sobre sin éxito (status distinto de 200) se convierte en ApiError
+   * con el mensaje del backend, igual que un error HTTP.
+   */
+  private unwrap<T>(response: ApiResponse, items: T[]): T[] {
+    if (response.status !== 200) {
+      const error: ApiError = { status: response.status, message: response.message || '', url: null };
+      throw error;
+    }
+    return items;
+  }
+}
@@ -0,0 +1,46 @@
+import { Injectable } from '@angular/core';
+import { I18nService } from './i18n.service';
+import { NotificationService } from './notification.service';
+import { downloadFile } from './download';
+import { ExportColumn, ExportRequest, exportCsv, exportXlsx } from './export';
+
+/**
+ * Exportación de Listas (ExportService)
+ *
+ * Genera y descarga un CSV o una planilla XLSX con las columnas elegidas
+ * en el diálogo de exportación (ver ExportDialogComponent). Los
+ * encabezados, los números y las fechas salen en el idioma activo.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ExportService {
+
+  /**
+   * Constructor del servicio
+   * @param i18n - Servicio de traducciones del idioma activo
+   * @param notifications - Servicio para confirmar la descarga
+   */
+  constructor(private i18n: I18nService, private notifications: NotificationService) { }
+
+  /**
+   * Descarga los elementos con las columnas y el formato elegidos
+   * @param fileName - Nombre base del archivo (se le agrega la fecha y la extensión)
+   * @param sheetName - Nombre de la hoja de la planilla
+   * @param items - Elementos a exportar
+   * @param columns - Columnas disponibles de la lista
+   * @param request - Formato y columnas elegidos
+   */
+  download<T>(fileName: string, sheetName: string, items: readonly T[], columns: readonly ExportColumn<T>[], request: ExportRequest): void {
+    const selected = columns.filter((column) => request.columns.includes(column.key));
+    const headers = selected.map((column) => this.i18n.translate(column.label));
+    const name = `${fileName}-${new Date().toISOString().slice(0, 10)}.${request.format}`;
+
+    if (request.format === 'xlsx') {
+      downloadFile(name, exportXlsx(items, selected, headers, sheetName), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    } else {
+      downloadFile(name, exportCsv(items, selected, headers, this.i18n.locale), 'text/csv;charset=utf-8');
+    }
+    this.notifications.success(this.i18n.translate('export.done', { count: items.length, file: name }));
+  }
+}
@@ -0,0 +1,57 @@
+import { ExportColumn, csvDelimiter, exportCsv, exportDate, exportXlsx, formatExportValue } from './export';
+import { parseCsv } from './csv';
+import { readXlsx } from './xlsx';
+
+interface Row {
+  name: string;
+  price: number;
+  createdAt: string;
+}
+
+const COLUMNS: ExportColumn<Row>[] = [
+  { key: 'name', label: 'common.name', value: (row) => row.name },
+  { key: 'price', label: 'productForm.price', value: (row) => row.price },
+  { key: 'createdAt', label: 'export.createdAt', value: (row) => exportDate(row.createdAt) },
+];
+
+const ROWS: Row[] = [
+  { name: 'Azúcar; 1kg', price: 1850.5, createdAt: '2026-03-05T14:30:00' },
+  { name: 'Yerba', price: 4200, createdAt: '' },
+];
+
+describe('export', () => {
+  it('should use a semicolon where the comma is the decimal separator', () => {
+    expect(csvDelimiter('es-AR')).toBe(';');
+    expect(csvDelimiter('en-US')).toBe(',');
+  });
+
+  it('should format numbers and dates for the locale without thousands separators', () => {
+    expect(formatExportValue(1850.5, 'es-AR')).toBe('1850,5');
+    expect(formatExportValue(1850.5, 'en-US')).toBe('1850.5');
+    expect(formatExportValue(new Date(2026, 2, 5, 14, 30), 'es-AR')).toBe('05/03/2026 14:30');
+    expect(formatExportValue(new Date(2026, 2, 5, 14, 30), 'en-US')).toBe('03/05/2026 14:30');
+    expect(formatExportValue(null, 'es-AR')).toBe('');
+  });
+
+  it('should write a CSV with a UTF-8 BOM that opens with the locale delimiter', () => {
+    const csv = exportCsv(ROWS, COLUMNS, ['Nombre', 'Precio', 'Fecha'], 'es-AR');
+
+    expect(csv.startsWith('\uFEFF')).toBeTrue();
+    const rows = parseCsv(csv, ';');
+    expect(rows[0]).toEqual(['Nombre', 'Precio', 'Fecha']);
+    expect(rows[1].slice(0, 2)).toEqual(['Azúcar; 1kg', '1850,5']);
+    expect(rows[2]).toEqual(['Yerba', '4200', '']);
+  });
+
+  it('should write a spreadsheet with numbers and dates as values', async () => {
+    const xlsx = exportXlsx(ROWS, COLUMNS, ['Nombre', 'Precio', 'Fecha'], 'Productos');
+    const rows = await readXlsx(xlsx.slice().buffer);
+
+    expect(rows[0]).toEqual(['Nombre', 'Precio', 'Fecha']);
+    expect(rows[1][0]).toBe('Azúcar; 1kg');
+    expect(rows[1][1]).toBe(1850.5);
+    // 05/03/2026 14:30 como número de serie de Excel
+    expect(Number(rows[1][2])).toBeCloseTo(46086.604, 3);
+    expect(rows[2]).toEqual(['Yerba', 4200]);
+  });
+});
@@ -0,0 +1,118 @@
+import { TranslationKey } from '../i18n/catalog';
+import { toCsv } from './csv';
+import { XlsxCell, writeXlsx } from './xlsx';
+
+/**
+ * Formato del archivo exportado
+ */
+export type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Elementos a exportar: los de la vista actual (con su búsqueda y filtros) o todos
+ */
+export type ExportScope = 'view' | 'all';
+
+/**
+ * Valor de una celda exportada
+ */
+export type ExportValue = XlsxCell;
+
+/**
+ * Columna que se puede exportar de una lista
+ */
+export interface ExportColumn<T> {
+  key: string; // Identificador de la columna
+  label: TranslationKey; // Encabezado
+  value: (item: T) => ExportValue; // Valor de la columna para un elemento
+}
+
+/**
+ * Opciones elegidas en el diálogo de exportación
+ */
+export interface ExportRequest {
+  format: ExportFormat;
+  scope: ExportScope;
+  columns: string[]; // Claves de las columnas elegidas, en el orden de la lista
+}
+
+/**
+ * Separador decimal de un idioma (ej: "," para es-AR, "." para en-US)
+ * @param locale - Idioma activo
+ */
+export function decimalSeparator(locale: string): string {
+  return new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === 'decimal')?.value ?? '.';
+}
+
+/**
+ * Separador de campos de los CSV para un idioma
+ *
+ * Donde la coma es el separador decimal (ej: es-AR), Excel espera punto y
+ * coma entre campos.
+ *
+ * @param locale - Idioma activo
+ */
+export function csvDelimiter(locale: string): string {
+  return decimalSeparator(locale) === ',' ? ';' : ',';
+}
+
+/**
+ * Texto de un valor para un CSV, con los números y fechas en el formato del idioma
+ *
+ * Los números no llevan separador de miles, para que la planilla los
+ * reconozca como números al abrir el archivo.
+ *
+ * @param value - Valor de la celda
+ * @param locale - Idioma activo
+ */
+export function formatExportValue(value: ExportValue, locale: string): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') {
+    return new Intl.NumberFormat(locale, { useGrouping: false, maximumFractionDigits: 10 }).format(value);
+  }
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return '';
+    // Fecha y hora de 24 horas separadas por un espacio, para que la planilla las reconozca como fecha
+    const date = new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit' }).format(value);
+    const time = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(value);
+    return `${date} ${time}`;
+  }
+  return value;
+}
+
+/**
+ * Contenido de un CSV con los elementos y columnas indicados
+ *
+ * Empieza con la marca BOM de UTF-8 para que Excel muestre bien los
+ * acentos y la ñ.
+ *
+ * @param items - Elementos a exportar
+ * @param columns - Columnas elegidas
+ * @param headers - Encabezado de cada columna, ya traducido
+ * @param locale - Idioma activo (formato de números, fechas y separador)
+ */
+export function exportCsv<T>(items: readonly T[], columns: readonly ExportColumn<T>[], headers: string[], locale: string): string {
+  const rows = items.map((item) => columns.map((column) => formatExportValue(column.value(item), locale)));
+  return '\uFEFF' + toCsv([headers, ...rows], csvDelimiter(locale));
+}
+
+/**
+ * Contenido de una planilla XLSX con los elementos y columnas indicados
+ * @param items - Elementos a exportar
+ * @param columns - Columnas elegidas
+ * @param headers - Encabezado de cada columna, ya traducido
+ * @param sheetName - Nombre de la hoja
+ */
+export function exportXlsx<T>(items: readonly T[], columns: readonly ExportColumn<T>[], headers: string[], sheetName: string): Uint8Array {
+  const rows = items.map((item) => columns.map((column) => column.value(item)));
+  return writeXlsx([headers, ...rows], sheetName);
+}
+
+/**
+ * Convierte una fecha del backend en Date para exportarla como fecha
+ * @param value - Fecha en formato ISO (opcional)
+ * @returns Fecha, o null si no hay o no es válida
+ */
+export function exportDate(value: string | null | undefined): Date | null {
+  const date = value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date : null;
+}
@@ -0,0 +1,36 @@
+import { TestBed } from '@angular/core/testing';
+
+import { FormDraftService } from './form-draft.service';
+
+describe('FormDraftService', () => {
+  let service: FormDraftService;
+
+  beforeEach(() => {
+    sessionStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(FormDraftService);
+  });
+
+  it('should save and load a draft', () => {
+    service.save('sell', { productId: '7', quantity: '3' });
+    expect(service.load<any>('sell')).toEqual({ productId: '7', quantity: '3' });
+  });
+
+  it('should return null when there is no draft or it is unreadable', () => {
+    expect(service.load('sell')).toBeNull();
+    sessionStorage.setItem('ims-draft:sell', '{');
+    expect(service.load('sell')).toBeNull();
+  });
+
+  it('should clear every draft without touching other values', () => {
+    sessionStorage.setItem('refreshToken', 'value');
+    service.save('sell', { quantity: '1' });
+    service.save('purchase', { quantity: '2' });
+
+    service.clearAll();
+
+    expect(service.load('sell')).toBeNull();
+    expect(service.load('purchase')).toBeNull();
+    expect(sessionStorage.getItem('refreshToken')).toBe('value');
+  });
+});
@@ -0,0 +1,59 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * Servicio de borradores de formularios
+ *
+ * Conserva en sessionStorage el estado de formularios en curso (ventas,
+ * compras) para recuperarlo si la pantalla se bloquea por inactividad y
+ * la sesión vence o la página se recarga antes de desbloquearla.
+ * Los borradores no sobreviven al cierre de la pestaña.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FormDraftService {
+
+  // Prefijo de las claves de borradores en sessionStorage
+  private static PREFIX = 'ims-draft:';
+
+  /**
+   * Guarda el borrador de un formulario
+   * @param form - Identificador del formulario (ej: 'sell')
+   * @param value - Valores del formulario
+   */
+  save(form: string, value: object): void {
+    sessionStorage.setItem(FormDraftService.PREFIX + form, JSON.stringify(value));
+  }
+
+  /**
+   * Recupera el borrador de un formulario
+   * @param form - Identificador del formulario
+   * @returns Valores guardados o null si no hay borrador
+   */
+  load<T>(form: string): T | null {
+    const stored = sessionStorage.getItem(FormDraftService.PREFIX + form);
+    if (!stored) return null;
+    try {
+      return JSON.parse(stored) as T;
+    } catch {
+      return null; // Borrador ilegible: se descarta
+    }
+  }
+
+  /**
+   * Descarta el borrador de un formulario
+   * @param form - Identificador del formulario
+   */
+  clear(form: string): void {
+    sessionStorage.removeItem(FormDraftService.PREFIX + form);
+  }
+
+  /**
+   * Descarta todos los borradores (ej: al cerrar sesión en una terminal compartida)
+   */
+  clearAll(): void {
+    Object.keys(sessionStorage)
+      .filter((key) => key.startsWith(FormDraftService.PREFIX))
+      .forEach((key) => sessionStorage.removeItem(key));
+  }
+}
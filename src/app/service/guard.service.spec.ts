@@ -1,16 +1,102 @@
 import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { ActivatedRouteSnapshot, Router, RouterStateSnapshot, UrlTree, provideRouter } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
 
 import { GuardService } from './guard.service';
+import { ApiService } from './api.service';
+import { Permission } from './permissions';
+import { fakeToken } from '../../testing/fake-token';
 
 describe('GuardService', () => {
   let service: GuardService;
+  let apiService: ApiService;
+  let router: Router;
+  let httpMock: HttpTestingController;
+
+  const state = { url: '/purchase' } as RouterStateSnapshot;
+  const routeRequiring = (permissions: Permission[]) =>
+    ({ data: { permissions } }) as unknown as ActivatedRouteSnapshot;
 
   beforeEach(() => {
-    TestBed.configureTestingModule({});
+    localStorage.clear();
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])]
+    });
     service = TestBed.inject(GuardService);
+    apiService = TestBed.inject(ApiService);
+    router = TestBed.inject(Router);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    apiService.logout();
+    httpMock.verify();
   });
 
+  const urlOf = (result: boolean | UrlTree) => result instanceof UrlTree ? router.serializeUrl(result) : result;
+
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  it('should redirect anonymous users to login with the return url', async () => {
+    const result = await firstValueFrom(service.canActivate(routeRequiring([]), state));
+    expect(urlOf(result)).toBe('/login?returnUrl=%2Fpurchase');
+  });
+
+  it('should deny routes whose permissions the verified role lacks', async () => {
+    // El token declara ADMIN, pero el servidor confirma que es CASHIER
+    apiService.startSession(fakeToken({ role: 'ADMIN' }));
+    const result = firstValueFrom(service.canActivate(routeRequiring([Permission.PURCHASE]), state));
+    httpMock.expectOne('http://localhost:5050/api/users/current').flush({ name: 'Caja', email: 'test@ims.com', role: 'CASHIER' });
+    expect(urlOf(await result)).toBe('/forbidden');
+  });
+
+  it('should allow routes whose permissions the verified role grants', async () => {
+    apiService.startSession(fakeToken({ role: 'CASHIER' }));
+    const result = firstValueFrom(service.canActivate(routeRequiring([Permission.SELL]), state));
+    httpMock.expectOne('http://localhost:5050/api/users/current').flush({ name: 'Caja', email: 'test@ims.com', role: 'CASHIER' });
+    expect(await result).toBeTrue();
+  });
+
+  it('should fall back to the token claims when the server is unreachable', async () => {
+    apiService.startSession(fakeToken({ role: 'CASHIER' }));
+    const result = firstValueFrom(service.canActivate(routeRequiring([Permission.SELL]), state));
+    httpMock.expectOne('http://localhost:5050/api/users/current').error(new ProgressEvent('error'), { status: 0 });
+    expect(await result).toBeTrue();
+  });
+
+  describe('getPostLoginUrl', () => {
+    beforeEach(() => {
+      router.resetConfig([
+        { path: 'login', children: [] },
+        { path: 'dashboard', children: [], canActivate: [GuardService], data: { permissions: [Permission.VIEW_DASHBOARD] } },
+        { path: 'sell', children: [], canActivate: [GuardService], data: { permissions: [Permission.SELL] } },
+        { path: 'transaction/:transactionId', children: [], canActivate: [GuardService], data: { permissions: [Permission.VIEW_TRANSACTIONS] } }
+      ]);
+    });
+
+    it('should honor internal routes the role can access', () => {
+      apiService.startSession(fakeToken({ role: 'CASHIER' }));
+      expect(service.getPostLoginUrl('/transaction/42?tab=items')).toBe('/transaction/42?tab=items');
+    });
+
+    it('should fall back to the role landing page', () => {
+      apiService.startSession(fakeToken({ role: 'CASHIER' }));
+      expect(service.getPostLoginUrl('/dashboard')).toBe('/sell');
+      expect(service.getPostLoginUrl(null)).toBe('/sell');
+
+      apiService.startSession(fakeToken({ role: 'ADMIN' }));
+      expect(service.getPostLoginUrl('/unknown')).toBe('/dashboard');
+    });
+
+    it('should reject external and unguarded urls', () => {
+      apiService.startSession(fakeToken({ role: 'ADMIN' }));
+      expect(service.getPostLoginUrl('https://evil.example/sell')).toBe('/dashboard');
+      expect(service.getPostLoginUrl('//evil.example/sell')).toBe('/dashboard');
+      expect(service.getPostLoginUrl('/login')).toBe('/dashboard');
+    });
+  });
 });
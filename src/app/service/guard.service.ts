@@ -1,7 +1,10 @@
 // Importaciones necesarias de Angular Router y servicios
 import { Injectable } from '@angular/core';
 import { ApiService } from './api.service';
-import { ActivatedRouteSnapshot, CanActivate, GuardResult, MaybeAsync, Router, RouterStateSnapshot } from '@angular/router';
+import { ActivatedRouteSnapshot, CanActivate, Route, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
+import { Observable, catchError, map, of } from 'rxjs';
+import { Permission } from './permissions';
+import { isApiError } from './api-error';
 
 /**
  * Servicio de Guardia de Rutas (GuardService)
@@ -9,10 +12,14 @@ import { ActivatedRouteSnapshot, CanActivate, GuardResult, MaybeAsync, Router, R
  * Este servicio implementa la interfaz CanActivate para proteger rutas específicas
  * del Sistema de Gestión de Inventario. Controla el acceso basado en dos niveles:
  * 1. Autenticación básica: Usuario debe estar logueado
- * 2. Autorización por roles: Ciertas rutas requieren privilegios de administrador
+ * 2. Autorización por permisos: Las rutas declaran en data.permissions los
+ *    permisos que requieren, y el rol del usuario debe concederlos todos
  * 
- * Si el acceso es denegado, redirige al login preservando la URL de destino
- * para poder navegar automáticamente después de autenticarse.
+ * Si el usuario no está autenticado, redirige al login preservando la URL de
+ * destino para poder navegar automáticamente después de autenticarse. Si está
+ * autenticado pero no tiene permisos, redirige a la página de acceso denegado.
+ * Los permisos se evalúan con el usuario verificado por el servidor
+ * (/users/current), por lo que la verificación es asíncrona.
  */
 @Injectable({
   providedIn: 'root' // Singleton a nivel de aplicación
@@ -26,7 +33,7 @@ export class GuardService implements CanActivate {
    * Inyecta las dependencias necesarias para verificar autenticación,
    * autorización y realizar navegación programática.
    * 
-   * @param apiService - Servicio para verificar estado de autenticación y roles
+   * @param apiService - Servicio para verificar estado de autenticación y permisos
    * @param router - Servicio de enrutamiento para redirecciones
    */
   constructor(private apiService: ApiService, private router: Router) { }
@@ -36,44 +43,129 @@ export class GuardService implements CanActivate {
    * 
    * Este método implementa la lógica de protección de rutas del sistema:
    * 
-   * 1. Verifica si la ruta requiere privilegios de administrador
-   * 2. Si requiere admin: valida que el usuario sea administrador
-   * 3. Si no requiere admin: valida que el usuario esté autenticado
-   * 4. En caso de acceso denegado: redirige al login con URL de retorno
+   * 1. Valida que el usuario esté autenticado; si no, redirige al login con URL de retorno
+   * 2. Espera a que el servidor confirme el usuario actual (/users/current)
+   * 3. Valida que el rol verificado conceda todos los permisos de data.permissions
+   * 4. En caso de permisos insuficientes: redirige a la página de acceso denegado
+   * 
+   * Si el servidor no responde (sin conexión) se evalúa con el rol de los claims
+   * del token; si la sesión fue rechazada redirige al login y ante cualquier
+   * otro error deniega el acceso.
    * 
    * @param route - Snapshot de la ruta que se intenta activar
    * @param state - Estado actual del router con información de la URL
-   * @returns true si se permite el acceso, false si se debe denegar
+   * @returns Observable con true si se permite el acceso o el UrlTree de redirección
    */
   canActivate(
     route: ActivatedRouteSnapshot,
-    state: RouterStateSnapshot): boolean {
+    state: RouterStateSnapshot): Observable<boolean | UrlTree> {
 
-    // Obtener configuración de la ruta: ¿requiere privilegios de administrador?
-    const requiresAdmin = route.data['requiresAdmin'] || false;
+    const loginUrl = this.router.createUrlTree(['/login'], {
+      queryParams: { returnUrl: state.url }
+    });
 
-    // VERIFICACIÓN PARA RUTAS QUE REQUIEREN PRIVILEGIOS DE ADMINISTRADOR
-    if (requiresAdmin) {
-      if (this.apiService.isAdmin()) {
-        return true; // Usuario es admin: acceso permitido
-      } else {
-        // Usuario no es admin: redirigir al login con URL de retorno
-        this.router.navigate(['/login'], {
-          queryParams: { returnUrl: state.url }
-        });
-        return false; // Acceso denegado
-      }
-    } else {
-      // VERIFICACIÓN PARA RUTAS QUE SOLO REQUIEREN AUTENTICACIÓN
-      if (this.apiService.isAuthenticated()) {
-        return true; // Usuario autenticado: acceso permitido
-      } else {
-        // Usuario no autenticado: redirigir al login con URL de retorno
-        this.router.navigate(['/login'], {
-          queryParams: { returnUrl: state.url }
-        });
-        return false; // Acceso denegado
+    // VERIFICACIÓN DE AUTENTICACIÓN
+    if (!this.apiService.isAuthenticated()) {
+      // Usuario no autenticado: redirigir al login con URL de retorno
+      return of(loginUrl);
+    }
+
+    // Obtener configuración de la ruta: ¿qué permisos requiere?
+    const permissions: Permission[] = route.data['permissions'] || [];
+
+    return this.apiService.loadCurrentUser().pipe(
+      // VERIFICACIÓN DE PERMISOS con el usuario confirmado por el servidor
+      map(() => this.checkPermissions(permissions)),
+      catchError((error) => {
+        // Sin conexión: se confía en los claims firmados del token
+        if (isApiError(error) && error.status === 0) {
+          return of(this.checkPermissions(permissions));
+        }
+        // Ante un 401 el interceptor ya cerró la sesión; otro error no permite verificar el rol
+        return of(this.apiService.isAuthenticated() ? this.router.createUrlTree(['/forbidden']) : loginUrl);
+      })
+    );
+  }
+
+  /**
+   * Evalúa los permisos requeridos contra el rol del usuario actual
+   * @param permissions - Permisos que exige la ruta
+   * @returns true si se concede el acceso o el UrlTree de la página de acceso denegado
+   */
+  private checkPermissions(permissions: Permission[]): boolean | UrlTree {
+    if (this.apiService.hasPermission(permissions)) {
+      return true; // Usuario con permisos suficientes: acceso permitido
+    }
+
+    // Usuario autenticado sin permisos: mostrar acceso denegado
+    return this.router.createUrlTree(['/forbidden']);
+  }
+
+  /**
+   * Determina a dónde navegar después de iniciar sesión
+   * 
+   * Usa la URL de retorno (returnUrl) solo si es una ruta interna de la
+   * aplicación, protegida por este guard y accesible para el rol del usuario;
+   * en cualquier otro caso devuelve la página de inicio del rol.
+   * 
+   * @param returnUrl - URL de retorno recibida en los query params del login
+   * @returns URL interna a la que se debe navegar
+   */
+  getPostLoginUrl(returnUrl: string | null | undefined): string {
+    const tree = this.parseInternalUrl(returnUrl);
+    if (tree) {
+      const route = this.findGuardedRoute(tree);
+      if (route && this.apiService.hasPermission(route.data?.['permissions'] || [])) {
+        return this.router.serializeUrl(tree);
       }
     }
+    return this.getLandingUrl();
+  }
+
+  /**
+   * Página de inicio según el rol: el dashboard para quienes pueden verlo
+   * (administradores, encargados), la venta para cajeros y el perfil en otro caso
+   * @returns URL de la página de inicio del usuario actual
+   */
+  getLandingUrl(): string {
+    if (this.apiService.hasPermission(Permission.VIEW_DASHBOARD)) return '/dashboard';
+    if (this.apiService.hasPermission(Permission.SELL)) return '/sell';
+    return '/profile';
+  }
+
+  /**
+   * Valida que la URL sea una ruta relativa a la aplicación y la interpreta
+   * 
+   * Se rechazan URLs absolutas, con esquema (javascript:, http:) o
+   * relativas al protocolo (//dominio) para evitar redirecciones abiertas.
+   * 
+   * @param url - URL a validar
+   * @returns UrlTree de la ruta o null si no es una URL interna válida
+   */
+  private parseInternalUrl(url: string | null | undefined): UrlTree | null {
+    if (!url || !url.startsWith('/') || url.startsWith('//') || url.startsWith('/\\')) {
+      return null;
+    }
+    try {
+      return this.router.parseUrl(url);
+    } catch {
+      return null; // URL mal formada
+    }
+  }
+
+  /**
+   * Busca en la configuración del router la ruta protegida que corresponde a la URL
+   * @param tree - URL ya interpretada
+   * @returns Ruta protegida por GuardService o undefined si no existe
+   */
+  private findGuardedRoute(tree: UrlTree): Route | undefined {
+    const segments = (tree.root.children['primary']?.segments || []).map((segment) => segment.path);
+
+    return this.router.config.find((route) => {
+      if (!route.canActivate?.includes(GuardService) || route.path === undefined) return false;
+      const parts = route.path.split('/').filter(Boolean);
+      return parts.length === segments.length &&
+        parts.every((part, index) => part.startsWith(':') || part === segments[index]);
+    });
   }
 }
@@ -0,0 +1,75 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+
+import { I18nService } from './i18n.service';
+import { ConfigService } from './config.service';
+import { ApiError } from './api-error';
+
+describe('I18nService', () => {
+  let config: ConfigService;
+
+  /**
+   * Crea el servicio con el locale de config.json indicado
+   */
+  function createService(configLocale: string): I18nService {
+    spyOnProperty(config, 'locale').and.returnValue(configLocale);
+    return TestBed.inject(I18nService);
+  }
+
+  beforeEach(() => {
+    localStorage.removeItem('ims-locale');
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient()]
+    });
+    config = TestBed.inject(ConfigService);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('ims-locale');
+  });
+
+  it('should prefer the stored choice over config.json', () => {
+    localStorage.setItem('ims-locale', 'en-US');
+
+    expect(createService('es-AR').locale).toBe('en-US');
+  });
+
+  it('should fall back to Spanish for unsupported locales', () => {
+    expect(createService('fr-FR').locale).toBe('es-AR');
+  });
+
+  it('should translate with parameters and return unknown keys as is', () => {
+    const service = createService('en-US');
+
+    expect(service.translate('product.title')).toBe('Products');
+    expect(service.translate('outbox.pendingMany', { count: 3 })).toBe('3 transactions waiting to sync');
+    expect(service.translate('transactionStatus.UNKNOWN' as 'transactionStatus.PENDING')).toBe('transactionStatus.UNKNOWN');
+  });
+
+  it('should label backend values and keep unknown ones', () => {
+    const service = createService('es-AR');
+
+    expect(service.valueLabel('transactionStatus', 'CANCELED')).toBe('Cancelada');
+    expect(service.valueLabel('transactionType', 'TRANSFER')).toBe('TRANSFER');
+    expect(service.roleLabel('manager')).toBe('Encargado');
+    expect(service.roleLabel('auditor')).toBe('auditor');
+  });
+
+  it('should prefer the backend message and translate client-side errors', () => {
+    const service = createService('en-US');
+    const rejected: ApiError = { status: 404, message: 'Transacción no encontrada', url: null };
+    const offline: ApiError = { status: 0, message: '', code: 'offline', url: null };
+
+    expect(service.errorMessage(rejected, 'transactionDetails.loadFailed')).toBe('Transacción no encontrada');
+    expect(service.errorMessage(offline, 'transactionDetails.loadFailed')).toBe('Could not connect to the server');
+    expect(service.errorMessage(new Error('boom'), 'product.loadFailed')).toBe(service.translate('product.loadFailed'));
+  });
+
+  it('should name the months according to the locale', () => {
+    const months = createService('en-US').monthNames();
+
+    expect(months.length).toBe(12);
+    expect(months[0]).toEqual({ name: 'January', value: '01' });
+    expect(months[11]).toEqual({ name: 'December', value: '12' });
+  });
+});
@@ -0,0 +1,154 @@
+import { Injectable } from '@angular/core';
+import { ConfigService } from './config.service';
+import { getErrorMessage, isApiError } from './api-error';
+import { Catalog, TranslationKey } from '../i18n/catalog';
+import { ES_AR } from '../i18n/es-AR';
+import { EN_US } from '../i18n/en-US';
+
+/**
+ * Idiomas disponibles en la aplicación
+ */
+export type Locale = 'es-AR' | 'en-US';
+
+/**
+ * Parámetros de un texto traducido (ej: { count: 3 } para "{count} transacciones")
+ */
+export type TranslationParams = Record<string, string | number>;
+
+/**
+ * Servicio de Internacionalización (I18nService)
+ *
+ * Traduce los textos de la interfaz según el idioma elegido por el usuario
+ * en el selector de la barra lateral (guardado en localStorage) o, si no
+ * eligió ninguno, según el locale de config.json. El mismo locale se usa
+ * como LOCALE_ID (ver app.config.ts) para que fechas, números y monedas se
+ * formateen de acuerdo con el idioma.
+ *
+ * Como LOCALE_ID se fija al iniciar la aplicación, cambiar de idioma
+ * recarga la página; la sesión y los borradores de formularios se
+ * restauran al volver.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class I18nService {
+
+  // Idiomas admitidos, con su nombre en el propio idioma para el selector
+  static LOCALES: { value: Locale; label: string }[] = [
+    { value: 'es-AR', label: 'Español (AR)' },
+    { value: 'en-US', label: 'English (US)' },
+  ];
+
+  private static STORAGE_KEY = 'ims-locale';
+
+  private static CATALOGS: Record<Locale, Catalog> = {
+    'es-AR': ES_AR,
+    'en-US': EN_US,
+  };
+
+  private current?: Locale;
+
+  /**
+   * Constructor del servicio
+   * @param config - Configuración de ejecución (locale por defecto del despliegue)
+   */
+  constructor(private config: ConfigService) { }
+
+  /**
+   * Idioma activo: el elegido por el usuario, el de config.json o español
+   */
+  get locale(): Locale {
+    if (!this.current) {
+      const stored = localStorage.getItem(I18nService.STORAGE_KEY);
+      this.current = [stored, this.config.locale].find(I18nService.isLocale) ?? 'es-AR';
+    }
+    return this.current;
+  }
+
+  /**
+   * Cambia el idioma y recarga la aplicación para aplicarlo
+   * @param locale - Idioma elegido
+   */
+  setLocale(locale: Locale): void {
+    if (locale === this.locale) return;
+    localStorage.setItem(I18nService.STORAGE_KEY, locale);
+    window.location.reload();
+  }
+
+  /**
+   * Traduce un texto del catálogo del idioma activo
+   * @param key - Clave del texto (ej: "product.title")
+   * @param params - Valores para los parámetros entre llaves (opcional)
+   * @returns Texto traducido, o la clave si no existe en el catálogo
+   */
+  translate(key: TranslationKey, params?: TranslationParams): string {
+    const [group, name] = key.split('.');
+    const texts = I18nService.CATALOGS[this.locale][group as keyof Catalog] as Record<string, string> | undefined;
+    const text = texts?.[name];
+    if (text === undefined) return key;
+    return params
+      ? text.replace(/\{(\w+)\}/g, (match, param: string) => param in params ? String(params[param]) : match)
+      : text;
+  }
+
+  /**
+   * Mensaje a mostrar al usuario para un error
+   *
+   * Usa el mensaje enviado por el backend; si no hay, el del código del
+   * error detectado en el cliente (ej: sin conexión) y, si tampoco, el
+   * texto indicado.
+   *
+   * @param error - Error capturado (normalmente un ApiError)
+   * @param fallbackKey - Clave del texto por defecto (ej: "product.loadFailed")
+   * @param params - Valores para los parámetros del texto por defecto (opcional)
+   * @returns Mensaje en el idioma activo, salvo el que envía el backend
+   */
+  errorMessage(error: unknown, fallbackKey: TranslationKey, params?: TranslationParams): string {
+    const fallback = isApiError(error) && error.code
+      ? this.translate(`apiError.${error.code}`)
+      : this.translate(fallbackKey, params);
+    return getErrorMessage(error, fallback);
+  }
+
+  /**
+   * Nombre en el idioma activo de un valor enumerado del backend
+   * (ej: tipo o estado de una transacción)
+   * @param group - Grupo del catálogo con los nombres de los valores
+   * @param value - Valor tal como lo envía el backend
+   * @returns Nombre traducido, o el valor original si no es uno conocido
+   */
+  valueLabel(group: 'transactionType' | 'transactionStatus' | 'role', value: string): string {
+    const key = `${group}.${value}` as TranslationKey;
+    const label = this.translate(key);
+    return label === key ? value : label;
+  }
+
+  /**
+   * Nombre de un rol en el idioma activo
+   * @param role - Rol tal como lo envía el backend (sin distinguir mayúsculas)
+   * @returns Nombre traducido, o el rol original si no es uno conocido
+   */
+  roleLabel(role: string): string {
+    const label = this.valueLabel('role', role.toUpperCase());
+    return label === role.toUpperCase() ? role : label;
+  }
+
+  /**
+   * Nombres de los meses en el idioma activo, de enero a diciembre
+   * @returns Nombre y número de mes ("01" a "12") para los selectores
+   */
+  monthNames(): { name: string; value: string }[] {
+    const format = new Intl.DateTimeFormat(this.locale, { month: 'long' });
+    return Array.from({ length: 12 }, (_, month) => {
+      const name = format.format(new Date(2000, month, 1));
+      return {
+        name: name.charAt(0).toLocaleUpperCase(this.locale) + name.slice(1),
+        value: String(month + 1).padStart(2, '0'),
+      };
+    });
+  }
+
+  private static isLocale(value: string | null): value is Locale {
+    return I18nService.LOCALES.some((locale) => locale.value === value);
+  }
+}
@@ -0,0 +1,69 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { Router, provideRouter } from '@angular/router';
+
+import { IdleService } from './idle.service';
+import { ApiService } from './api.service';
+import { FormDraftService } from './form-draft.service';
+import { fakeToken } from '../../testing/fake-token';
+
+describe('IdleService', () => {
+  let service: IdleService;
+  let apiService: ApiService;
+  let router: Router;
+
+  beforeEach(() => {
+    localStorage.clear();
+    sessionStorage.clear();
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date());
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])]
+    });
+    service = TestBed.inject(IdleService);
+    apiService = TestBed.inject(ApiService);
+    router = TestBed.inject(Router);
+    spyOn(router, 'navigate').and.resolveTo(true);
+    service.configure({ lockAfterMs: 60000, logoutAfterMs: 120000 });
+  });
+
+  afterEach(() => {
+    apiService.logout();
+    jasmine.clock().uninstall();
+  });
+
+  it('should lock after the idle period and postpone it on activity', () => {
+    apiService.startSession(fakeToken({ role: 'CASHIER' }));
+    service.watch();
+
+    jasmine.clock().tick(50000);
+    document.dispatchEvent(new KeyboardEvent('keydown'));
+    jasmine.clock().tick(50000);
+    expect(service.isLocked()).toBeFalse();
+
+    jasmine.clock().tick(10001);
+    expect(service.isLocked()).toBeTrue();
+  });
+
+  it('should log out and discard drafts after the second timeout', () => {
+    const drafts = TestBed.inject(FormDraftService);
+    apiService.startSession(fakeToken({ role: 'CASHIER' }));
+    service.watch();
+    service.lock();
+    drafts.save('sell', { quantity: '2' });
+
+    jasmine.clock().tick(120001);
+
+    expect(apiService.isAuthenticated()).toBeFalse();
+    expect(service.isLocked()).toBeFalse();
+    expect(drafts.load('sell')).toBeNull();
+    expect(router.navigate).toHaveBeenCalledWith(['/login']);
+  });
+
+  it('should not lock without an active session', () => {
+    service.watch();
+    jasmine.clock().tick(60001);
+    expect(service.isLocked()).toBeFalse();
+  });
+});
@@ -0,0 +1,192 @@
+import { EventEmitter, Injectable, NgZone, OnDestroy } from '@angular/core';
+import { Router } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { ApiService } from './api.service';
+import { ConfigService } from './config.service';
+
+/**
+ * Tiempos de inactividad configurables
+ */
+export interface IdleSettings {
+  lockAfterMs: number; // Inactividad hasta bloquear la pantalla
+  logoutAfterMs: number; // Tiempo bloqueada hasta cerrar la sesión
+}
+
+/**
+ * Servicio de Inactividad (IdleService)
+ *
+ * Pensado para las terminales compartidas de venta y compra: vigila la
+ * actividad del usuario (teclado, mouse, toques) y, tras un período sin
+ * actividad, bloquea la pantalla hasta que se ingrese la contraseña. Si la
+ * pantalla sigue bloqueada durante un segundo período, cierra la sesión y
+ * descarta los borradores de formularios.
+ *
+ * El bloqueo se recuerda en sessionStorage para que recargar la página no
+ * permita saltearlo.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class IdleService implements OnDestroy {
+
+  /**
+   * Emite true al bloquear la pantalla y false al desbloquearla
+   */
+  lockChanged = new EventEmitter<boolean>();
+
+  // Eventos considerados como actividad del usuario
+  private static ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+
+  // Clave de sessionStorage con el momento (ms) en que se bloqueó la pantalla
+  private static LOCKED_AT_KEY = 'ims-locked-at';
+
+  // Tiempos de bloqueo y cierre de sesión (tomados de config.json)
+  private settings: IdleSettings;
+
+  private lockTimer: ReturnType<typeof setTimeout> | null = null;
+  private logoutTimer: ReturnType<typeof setTimeout> | null = null;
+  private watching = false;
+  private authSubscription?: Subscription;
+  private locked = false;
+
+  // Momento de la última reprogramación del bloqueo, para no hacerlo en cada mousemove
+  private lastActivity = 0;
+
+  /**
+   * Constructor del servicio
+   * @param apiService - Servicio de autenticación, para saber si hay sesión y cerrarla
+   * @param router - Servicio de enrutamiento, para volver al login
+   * @param zone - Zona de Angular; la actividad se escucha fuera de ella para no disparar detección de cambios
+   * @param config - Configuración de ejecución con los tiempos de inactividad
+   */
+  constructor(
+    private apiService: ApiService,
+    private router: Router,
+    private zone: NgZone,
+    config: ConfigService
+  ) {
+    this.settings = {
+      lockAfterMs: config.idle.lockAfterMinutes * 60 * 1000,
+      logoutAfterMs: config.idle.logoutAfterMinutes * 60 * 1000,
+    };
+  }
+
+  /**
+   * Ajusta los tiempos de inactividad
+   * @param settings - Tiempos a reemplazar
+   */
+  configure(settings: Partial<IdleSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    if (this.watching) this.sync();
+  }
+
+  /**
+   * Comienza a vigilar la actividad del usuario (una única vez, desde AppComponent)
+   */
+  watch(): void {
+    if (this.watching) return;
+    this.watching = true;
+
+    this.zone.runOutsideAngular(() => {
+      IdleService.ACTIVITY_EVENTS.forEach((event) =>
+        document.addEventListener(event, this.onActivity, { capture: true, passive: true })
+      );
+    });
+    this.authSubscription = this.apiService.authStatuschanged.subscribe(() => this.sync());
+
+    this.locked = this.apiService.isAuthenticated() && sessionStorage.getItem(IdleService.LOCKED_AT_KEY) !== null;
+    this.sync();
+  }
+
+  /**
+   * Deja de escuchar la actividad y cancela los temporizadores al destruir el servicio
+   */
+  ngOnDestroy(): void {
+    IdleService.ACTIVITY_EVENTS.forEach((event) =>
+      document.removeEventListener(event, this.onActivity, { capture: true })
+    );
+    this.authSubscription?.unsubscribe();
+    this.clearTimers();
+  }
+
+  /**
+   * Indica si la pantalla está bloqueada
+   */
+  isLocked(): boolean {
+    return this.locked;
+  }
+
+  /**
+   * Bloquea la pantalla y programa el cierre de sesión
+   */
+  lock(): void {
+    if (this.locked || !this.apiService.isAuthenticated()) return;
+    this.locked = true;
+    sessionStorage.setItem(IdleService.LOCKED_AT_KEY, String(Date.now()));
+    this.sync();
+    this.lockChanged.emit(true);
+  }
+
+  /**
+   * Desbloquea la pantalla (después de verificar la contraseña) y reinicia el conteo
+   */
+  unlock(): void {
+    if (!this.locked) return;
+    this.locked = false;
+    sessionStorage.removeItem(IdleService.LOCKED_AT_KEY);
+    this.sync();
+    this.lockChanged.emit(false);
+  }
+
+  /**
+   * Cierra la sesión de la terminal bloqueada y vuelve al login
+   */
+  logout(): void {
+    this.unlock();
+    this.apiService.logout();
+    this.router.navigate(['/login']);
+  }
+
+  /**
+   * Reprograma los temporizadores según el estado de sesión y de bloqueo
+   */
+  private sync(): void {
+    this.clearTimers();
+
+    if (!this.apiService.isAuthenticated()) {
+      // Sin sesión no hay nada que bloquear
+      if (this.locked) {
+        this.locked = false;
+        sessionStorage.removeItem(IdleService.LOCKED_AT_KEY);
+        this.lockChanged.emit(false);
+      }
+      return;
+    }
+
+    this.zone.runOutsideAngular(() => {
+      if (this.locked) {
+        const lockedAt = Number(sessionStorage.getItem(IdleService.LOCKED_AT_KEY)) || Date.now();
+        const remaining = Math.max(0, lockedAt + this.settings.logoutAfterMs - Date.now());
+        this.logoutTimer = setTimeout(() => this.zone.run(() => this.logout()), remaining);
+      } else {
+        this.lastActivity = Date.now();
+        this.lockTimer = setTimeout(() => this.zone.run(() => this.lock()), this.settings.lockAfterMs);
+      }
+    });
+  }
+
+  /**
+   * Registra actividad del usuario: posterga el bloqueo mientras la pantalla está desbloqueada
+   */
+  private onActivity = (): void => {
+    if (this.locked || !this.lockTimer || Date.now() - this.lastActivity < 1000) return;
+    this.sync();
+  };
+
+  private clearTimers(): void {
+    if (this.lockTimer) clearTimeout(this.lockTimer);
+    if (this.logoutTimer) clearTimeout(this.logoutTimer);
+    this.lockTimer = null;
+    this.logoutTimer = null;
+  }
+}
@@ -0,0 +1,15 @@
+import { sameId } from './ids';
+
+describe('sameId', () => {
+  it('should treat numeric and text IDs as the same ID', () => {
+    expect(sameId(5, '5')).toBeTrue();
+    expect(sameId('5', 5)).toBeTrue();
+    expect(sameId('5', '6')).toBeFalse();
+  });
+
+  it('should never match a missing ID', () => {
+    expect(sameId(undefined, '')).toBeFalse();
+    expect(sameId(null, 'undefined')).toBeFalse();
+    expect(sameId('5', undefined)).toBeFalse();
+  });
+});
@@ -0,0 +1,12 @@
+/**
+ * Compara dos IDs que pueden llegar como número o como texto
+ *
+ * El backend envía los identificadores en cualquiera de las dos formas y
+ * los formularios los guardan como texto, por lo que 5 y "5" son el mismo ID.
+ *
+ * @param a - ID a comparar (undefined si la entidad no lo tiene)
+ * @param b - ID de referencia
+ */
+export function sameId(a: string | number | null | undefined, b: string | number | null | undefined): boolean {
+  return a !== undefined && a !== null && b !== undefined && b !== null && String(a) === String(b);
+}
@@ -0,0 +1,59 @@
+/**
+ * Utilidades mínimas para trabajar con IndexedDB mediante Promesas
+ * 
+ * IndexedDB expone una API basada en eventos; estas funciones la envuelven
+ * para poder usarla con async/await desde los servicios de la aplicación.
+ */
+
+/**
+ * Abre (o crea) una base de datos IndexedDB
+ * 
+ * @param name - Nombre de la base de datos
+ * @param version - Versión del esquema
+ * @param upgrade - Callback que crea los object stores cuando cambia la versión
+ * @returns Promesa con la conexión abierta
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade(request.result);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Convierte una petición IndexedDB en una Promesa
+ * 
+ * @param request - Petición sobre un object store
+ * @returns Promesa con el resultado de la petición
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Ejecuta una operación sobre un object store dentro de una transacción
+ * 
+ * @param db - Conexión a la base de datos
+ * @param storeName - Nombre del object store
+ * @param mode - Modo de la transacción (lectura o lectura/escritura)
+ * @param operation - Operación a ejecutar sobre el store
+ * @returns Promesa con el resultado de la operación
+ */
+export function withStore<T>(
+  db: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const transaction = db.transaction(storeName, mode);
+  return promisifyRequest(operation(transaction.objectStore(storeName)));
+}
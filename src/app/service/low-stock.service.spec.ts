@@ -0,0 +1,113 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+
+import { LowStockService } from './low-stock.service';
+import { ApiService } from './api.service';
+import { NotificationService } from './notification.service';
+import { authInterceptor } from './auth.interceptor';
+import { Product } from '../models/product.model';
+import { fakeToken } from '../../testing/fake-token';
+
+const PRODUCTS_URL = 'http://localhost:5050/api/products/all';
+const SELL_URL = 'http://localhost:5050/api/transactions/sell';
+
+const product = (id: string, stockQuantity: number, reorderPoint: number | null = null): Product =>
+  ({ id, name: `Producto ${id}`, sku: `SKU-${id}`, price: 100, stockQuantity, reorderPoint, categoryId: '1' });
+
+describe('LowStockService', () => {
+  let service: LowStockService;
+  let apiService: ApiService;
+  let notifications: NotificationService;
+  let httpMock: HttpTestingController;
+
+  function flushProducts(products: Product[]): void {
+    httpMock.expectOne(PRODUCTS_URL).flush({ status: 200, message: '', products });
+  }
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(withInterceptors([authInterceptor])), provideHttpClientTesting(), provideRouter([])]
+    });
+    service = TestBed.inject(LowStockService);
+    apiService = TestBed.inject(ApiService);
+    notifications = TestBed.inject(NotificationService);
+    httpMock = TestBed.inject(HttpTestingController);
+    await apiService.startSession(fakeToken({ sub: 'gerente@ims.com', role: 'MANAGER' }));
+  });
+
+  afterEach(() => {
+    apiService.logout();
+    notifications.clear();
+  });
+
+  it('should list products at or below their reorder point, lowest stock first', () => {
+    service.watch();
+    flushProducts([product('1', 50), product('2', 10), product('3', 0), product('4', 15, 20), product('5', 15, 5)]);
+
+    expect(service.list().map((item) => item.id)).toEqual(['3', '2', '4']);
+    expect(service.count).toBe(3);
+  });
+
+  it('should update the count and warn after a sale leaves a product below its threshold', () => {
+    service.watch();
+    flushProducts([product('1', 12, 10), product('2', 3)]);
+    expect(service.count).toBe(1);
+    expect(notifications.list().length).toBe(0);
+
+    apiService.sellProduct({ productId: '1', quantity: 5 }).subscribe();
+    httpMock.expectOne(SELL_URL).flush({ status: 200, message: 'Venta registrada' });
+    flushProducts([product('1', 7, 10), product('2', 3)]);
+
+    expect(service.count).toBe(2);
+    expect(notifications.list().map((notification) => notification.level)).toEqual(['warning']);
+    expect(notifications.list()[0].message).toContain('Producto 1');
+  });
+
+  it('should not warn about new products that arrive already below their threshold', () => {
+    service.watch();
+    flushProducts([product('1', 50)]);
+
+    apiService.addProduct(new FormData()).subscribe();
+    httpMock.expectOne('http://localhost:5050/api/products/add').flush({ status: 200, message: 'Producto creado' });
+    flushProducts([product('1', 50), product('2', 0), product('3', 2)]);
+
+    expect(service.count).toBe(2);
+    expect(notifications.list().length).toBe(0);
+  });
+
+  it('should summarize several products crossing their threshold in one warning', () => {
+    service.watch();
+    flushProducts([product('1', 50), product('2', 40), product('3', 30)]);
+
+    apiService.sellProduct({ productId: '1', quantity: 45 }).subscribe();
+    httpMock.expectOne(SELL_URL).flush({ status: 200, message: 'Venta registrada' });
+    flushProducts([product('1', 5), product('2', 4), product('3', 3)]);
+
+    expect(service.count).toBe(3);
+    expect(notifications.list().length).toBe(1);
+    expect(notifications.list()[0].message).toContain('3');
+  });
+
+  it('should keep warning about threshold crossings after the token is renewed', async () => {
+    service.watch();
+    flushProducts([product('1', 12, 10)]);
+
+    await apiService.startSession(fakeToken({ sub: 'gerente@ims.com', role: 'MANAGER' }));
+    apiService.sellProduct({ productId: '1', quantity: 5 }).subscribe();
+    httpMock.expectOne(SELL_URL).flush({ status: 200, message: 'Venta registrada' });
+    flushProducts([product('1', 7, 10)]);
+
+    expect(notifications.list().length).toBe(1);
+  });
+
+  it('should forget the products when the session ends', () => {
+    service.watch();
+    flushProducts([product('1', 0)]);
+
+    apiService.logout();
+
+    expect(service.count).toBe(0);
+  });
+});
@@ -0,0 +1,146 @@
+import { EventEmitter, Injectable, OnDestroy } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { ApiService } from './api.service';
+import { EntityStoreService } from './entity-store.service';
+import { I18nService } from './i18n.service';
+import { NotificationService } from './notification.service';
+import { needsReorder } from './product-filter';
+import { Permission } from './permissions';
+import { Product } from '../models/product.model';
+
+/**
+ * Alertas de Reposición (LowStockService)
+ *
+ * Sigue la lista compartida de productos de EntityStoreService y mantiene
+ * los que están en su punto de reposición o por debajo (stock bajo o sin
+ * stock). Como cada venta o compra invalida la lista de productos, el
+ * contador de la barra lateral y el panel de stock bajo del dashboard se
+ * actualizan solos después de cada transacción.
+ *
+ * Cuando una recarga deja por debajo de su punto de reposición a un producto
+ * que antes estaba por encima (ej: tras una venta) se avisa con una
+ * notificación a quienes gestionan las compras. Los productos nuevos (ej:
+ * tras una importación) no generan avisos, y si varios cruzan el umbral a
+ * la vez se avisa con un único resumen.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LowStockService implements OnDestroy {
+
+  /**
+   * Emite cada vez que cambia la lista de productos a reponer
+   */
+  changed = new EventEmitter<void>();
+
+  // Productos a reponer, con el menor stock primero
+  private products: Product[] = [];
+
+  // Productos de la lista anterior por ID, para avisar solo de los que cruzaron el umbral
+  private known: Map<string, Product> | null = null;
+
+  private watching = false;
+  private subscriptions: Subscription[] = [];
+  private productsSubscription?: Subscription;
+
+  /**
+   * Constructor del servicio
+   * @param apiService - Servicio de sesión y permisos
+   * @param entityStore - Caché compartida de productos
+   * @param notifications - Servicio para avisar de los productos que llegan al punto de reposición
+   * @param i18n - Servicio de traducciones del idioma activo
+   */
+  constructor(
+    private apiService: ApiService,
+    private entityStore: EntityStoreService,
+    private notifications: NotificationService,
+    private i18n: I18nService
+  ) { }
+
+  /**
+   * Comienza a seguir la lista de productos mientras haya una sesión
+   * (una única vez, desde AppComponent)
+   */
+  watch(): void {
+    if (this.watching) return;
+    this.watching = true;
+    this.subscriptions.push(
+      // Una renovación del token o la verificación del usuario mantienen la lista de referencia
+      this.apiService.authStatuschanged.subscribe(() => this.follow()),
+      // Con otro usuario (sesión iniciada en otra pestaña) la lista anterior deja de servir de referencia
+      this.apiService.userChanged.subscribe(() => this.known = null)
+    );
+    this.follow();
+  }
+
+  /**
+   * Deja de seguir la lista de productos al destruir el servicio
+   */
+  ngOnDestroy(): void {
+    this.subscriptions.forEach((subscription) => subscription.unsubscribe());
+    this.productsSubscription?.unsubscribe();
+  }
+
+  /**
+   * Productos sin stock o con stock bajo, con el menor stock primero
+   */
+  list(): readonly Product[] {
+    return this.products;
+  }
+
+  /**
+   * Cantidad de productos a reponer
+   */
+  get count(): number {
+    return this.products.length;
+  }
+
+  /**
+   * Se suscribe a la lista de productos al iniciar la sesión, o la descarta al cerrarla
+   */
+  private follow(): void {
+    if (this.apiService.isAuthenticated()) {
+      if (!this.productsSubscription) {
+        this.productsSubscription = this.entityStore.products$.subscribe((products) => this.update(products));
+      }
+      return;
+    }
+    this.productsSubscription?.unsubscribe();
+    this.productsSubscription = undefined;
+    this.known = null;
+    this.update([]);
+  }
+
+  /**
+   * Recalcula los productos a reponer y avisa de los que acaban de llegar al punto de reposición
+   */
+  private update(products: Product[]): void {
+    this.products = products
+      .filter(needsReorder)
+      .sort((a, b) => a.stockQuantity - b.stockQuantity);
+
+    if (this.known && this.apiService.hasPermission(Permission.PURCHASE)) {
+      this.notifyReached(this.products.filter((product) => {
+        const previous = this.known!.get(String(product.id));
+        return previous !== undefined && !needsReorder(previous);
+      }));
+    }
+    // La primera lista de la sesión solo sirve de referencia
+    if (products.length) this.known = new Map(products.map((product) => [String(product.id), product]));
+
+    this.changed.emit();
+  }
+
+  /**
+   * Avisa de los productos que cruzaron su punto de reposición: uno por uno
+   * si es uno solo, o con un resumen si son varios
+   */
+  private notifyReached(reached: Product[]): void {
+    if (reached.length === 1) {
+      const [product] = reached;
+      this.notifications.warning(this.i18n.translate('lowStock.reached', { name: product.name, quantity: product.stockQuantity }));
+    } else if (reached.length > 1) {
+      this.notifications.warning(this.i18n.translate('lowStock.reachedMany', { count: reached.length }));
+    }
+  }
+}
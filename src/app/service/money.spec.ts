@@ -0,0 +1,38 @@
+import { currencyDigits, formatMoney, multiplyMoney, sumMoney, toDecimal, toMoney } from './money';
+
+describe('money', () => {
+  it('should know how many decimals each currency has', () => {
+    expect(currencyDigits('ARS')).toBe(2);
+    expect(currencyDigits('JPY')).toBe(0);
+  });
+
+  it('should convert decimal prices to minor units without floating point errors', () => {
+    expect(toMoney(1.005, 'ARS')).toEqual({ amount: 101, currency: 'ARS' });
+    expect(toMoney(4200, 'ARS')).toEqual({ amount: 420000, currency: 'ARS' });
+    expect(toMoney(1500.4, 'JPY')).toEqual({ amount: 1500, currency: 'JPY' });
+    expect(toDecimal({ amount: 185050, currency: 'ARS' })).toBe(1850.5);
+  });
+
+  it('should add amounts exactly', () => {
+    const total = sumMoney('ARS', [0.1, 0.2, 0.7].map((value) => toMoney(value, 'ARS')));
+
+    expect(total).toEqual({ amount: 100, currency: 'ARS' });
+    expect(toDecimal(total)).toBe(1);
+    expect(sumMoney('ARS', [])).toEqual({ amount: 0, currency: 'ARS' });
+  });
+
+  it('should not add amounts in different currencies', () => {
+    expect(() => sumMoney('ARS', [toMoney(1, 'USD')])).toThrowError();
+  });
+
+  it('should multiply by a quantity', () => {
+    expect(multiplyMoney(toMoney(19.99, 'ARS'), 3)).toEqual({ amount: 5997, currency: 'ARS' });
+  });
+
+  it('should format with the locale separators', () => {
+    const formatted = formatMoney(toMoney(1850.5, 'ARS'), 'es-AR');
+
+    expect(formatted).toContain('$');
+    expect(formatted).toContain('1.850,50');
+  });
+});
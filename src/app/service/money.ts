@@ -0,0 +1,66 @@
+import { Money } from '../models/money.model';
+
+/**
+ * Cantidad de decimales de una moneda según ISO 4217 (2 para ARS, 0 para JPY)
+ * @param currency - Código de la moneda
+ */
+export function currencyDigits(currency: string): number {
+  return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Convierte un importe decimal (como lo envía el backend) en Money
+ *
+ * Redondea a la unidad mínima de la moneda; el paso por toPrecision evita
+ * que 1.005 * 100 = 100.49999... se redondee hacia abajo.
+ *
+ * @param value - Importe decimal (ej: 1850.5)
+ * @param currency - Código de la moneda
+ * @returns Importe en la unidad mínima de la moneda
+ */
+export function toMoney(value: number, currency: string): Money {
+  const scaled = value * 10 ** currencyDigits(currency);
+  return { amount: Math.round(Number(scaled.toPrecision(15))), currency };
+}
+
+/**
+ * Convierte Money en un importe decimal (para gráficos o para el backend)
+ * @param money - Importe a convertir
+ */
+export function toDecimal(money: Money): number {
+  return money.amount / 10 ** currencyDigits(money.currency);
+}
+
+/**
+ * Suma importes de la misma moneda
+ * @param currency - Moneda del resultado (y de los importes)
+ * @param values - Importes a sumar
+ * @returns Total; cero si no hay importes
+ * @throws Error si algún importe está en otra moneda
+ */
+export function sumMoney(currency: string, values: Money[]): Money {
+  return values.reduce((total, value) => {
+    if (value.currency !== currency) {
+      throw new Error(`No se pueden sumar importes en ${value.currency} y ${currency}`);
+    }
+    return { amount: total.amount + value.amount, currency };
+  }, { amount: 0, currency });
+}
+
+/**
+ * Multiplica un importe por una cantidad de unidades (ej: precio por cantidad)
+ * @param money - Importe unitario
+ * @param quantity - Cantidad de unidades
+ */
+export function multiplyMoney(money: Money, quantity: number): Money {
+  return { amount: Math.round(money.amount * quantity), currency: money.currency };
+}
+
+/**
+ * Formatea un importe con el símbolo y los separadores del locale
+ * @param money - Importe a formatear
+ * @param locale - Locale del formato (ej: es-AR muestra "$ 1.850,50")
+ */
+export function formatMoney(money: Money, locale: string): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency: money.currency }).format(toDecimal(money));
+}
@@ -0,0 +1,63 @@
+import { TestBed } from '@angular/core/testing';
+
+import { NotificationService } from './notification.service';
+
+describe('NotificationService', () => {
+  let service: NotificationService;
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(NotificationService);
+  });
+
+  afterEach(() => {
+    service.clear();
+    jasmine.clock().uninstall();
+  });
+
+  it('should stack notifications and drop the oldest beyond the limit', () => {
+    for (let n = 1; n <= 6; n++) {
+      service.info(`Mensaje ${n}`);
+    }
+
+    expect(service.list().map((notification) => notification.message))
+      .toEqual(['Mensaje 2', 'Mensaje 3', 'Mensaje 4', 'Mensaje 5', 'Mensaje 6']);
+  });
+
+  it('should dismiss automatically according to the level', () => {
+    service.success('Guardado');
+    service.error('Falló');
+
+    jasmine.clock().tick(4000);
+    expect(service.list().map((notification) => notification.level)).toEqual(['error']);
+
+    jasmine.clock().tick(4000);
+    expect(service.list()).toEqual([]);
+  });
+
+  it('should keep notifications without duration until dismissed', () => {
+    const id = service.warning('Revisar', { duration: null });
+
+    jasmine.clock().tick(60000);
+    expect(service.list().length).toBe(1);
+
+    service.dismiss(id);
+    expect(service.list()).toEqual([]);
+  });
+
+  it('should run an action and close its notification', () => {
+    const run = jasmine.createSpy('run');
+    const id = service.success('Categoría eliminada', { actions: [{ label: 'Deshacer', run }] });
+    const [notification] = service.list();
+
+    // Las notificaciones con acciones permanecen más tiempo visibles
+    jasmine.clock().tick(4000);
+    expect(service.list().length).toBe(1);
+
+    service.runAction(id, notification.actions[0]);
+
+    expect(run).toHaveBeenCalled();
+    expect(service.list()).toEqual([]);
+  });
+});
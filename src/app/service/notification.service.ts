@@ -0,0 +1,176 @@
+import { Injectable, OnDestroy } from '@angular/core';
+
+/**
+ * Nivel de una notificación; define su color y cuánto permanece visible
+ */
+export type NotificationLevel = 'success' | 'error' | 'warning' | 'info';
+
+/**
+ * Botón de acción de una notificación (ej: "Deshacer")
+ */
+export interface NotificationAction {
+  label: string;
+  run: () => void;
+}
+
+/**
+ * Opciones de una notificación
+ */
+export interface NotificationOptions {
+  actions?: NotificationAction[];
+  duration?: number | null; // Milisegundos visible; null para que solo se cierre manualmente
+}
+
+/**
+ * Notificación visible en pantalla
+ */
+export interface Notification {
+  id: number;
+  level: NotificationLevel;
+  message: string;
+  actions: NotificationAction[];
+}
+
+/**
+ * Servicio de Notificaciones (NotificationService)
+ *
+ * Muestra mensajes breves (toasts) de éxito, error, advertencia o
+ * información en la esquina de la pantalla. Como el servicio es único en
+ * la aplicación y ToastComponent está en AppComponent, las notificaciones
+ * siguen visibles al cambiar de ruta: un componente puede informar el
+ * resultado de una operación y navegar inmediatamente.
+ *
+ * Las notificaciones se apilan (las más antiguas se descartan al superar el
+ * máximo), se cierran solas después de un tiempo según su nivel y pueden
+ * cerrarse manualmente o incluir botones de acción.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService implements OnDestroy {
+
+  // Tiempo visible por nivel (ms); los errores y advertencias se muestran más tiempo
+  private static DURATIONS: Record<NotificationLevel, number> = {
+    success: 4000,
+    info: 4000,
+    warning: 6000,
+    error: 8000,
+  };
+
+  // Tiempo mínimo visible de una notificación con acciones, para dar tiempo a usarlas
+  private static ACTION_DURATION = 8000;
+
+  // Cantidad máxima de notificaciones apiladas
+  private static MAX_VISIBLE = 5;
+
+  private notifications: Notification[] = [];
+  private timers = new Map<number, ReturnType<typeof setTimeout>>();
+  private nextId = 1;
+
+  /**
+   * Cancela los temporizadores pendientes al destruir el servicio
+   */
+  ngOnDestroy(): void {
+    this.clear();
+  }
+
+  /**
+   * Notificaciones visibles, de la más antigua a la más reciente
+   */
+  list(): readonly Notification[] {
+    return this.notifications;
+  }
+
+  /**
+   * Informa una operación exitosa
+   * @param message - Mensaje a mostrar
+   * @param options - Acciones y duración (opcional)
+   * @returns ID de la notificación
+   */
+  success(message: string, options?: NotificationOptions): number {
+    return this.show('success', message, options);
+  }
+
+  /**
+   * Informa un error
+   * @param message - Mensaje a mostrar
+   * @param options - Acciones y duración (opcional)
+   * @returns ID de la notificación
+   */
+  error(message: string, options?: NotificationOptions): number {
+    return this.show('error', message, options);
+  }
+
+  /**
+   * Advierte sobre datos incompletos o una situación que requiere atención
+   * @param message - Mensaje a mostrar
+   * @param options - Acciones y duración (opcional)
+   * @returns ID de la notificación
+   */
+  warning(message: string, options?: NotificationOptions): number {
+    return this.show('warning', message, options);
+  }
+
+  /**
+   * Muestra un mensaje informativo
+   * @param message - Mensaje a mostrar
+   * @param options - Acciones y duración (opcional)
+   * @returns ID de la notificación
+   */
+  info(message: string, options?: NotificationOptions): number {
+    return this.show('info', message, options);
+  }
+
+  /**
+   * Muestra una notificación
+   * @param level - Nivel de la notificación
+   * @param message - Mensaje a mostrar
+   * @param options - Acciones y duración (opcional)
+   * @returns ID de la notificación
+   */
+  show(level: NotificationLevel, message: string, options: NotificationOptions = {}): number {
+    const id = this.nextId++;
+    const actions = options.actions ?? [];
+    this.notifications = [...this.notifications, { id, level, message, actions }];
+
+    // Al superar el máximo se descartan las más antiguas
+    this.notifications.slice(0, -NotificationService.MAX_VISIBLE).forEach((old) => this.dismiss(old.id));
+
+    const duration = options.duration !== undefined
+      ? options.duration
+      : Math.max(NotificationService.DURATIONS[level], actions.length ? NotificationService.ACTION_DURATION : 0);
+    if (duration !== null) {
+      this.timers.set(id, setTimeout(() => this.dismiss(id), duration));
+    }
+    return id;
+  }
+
+  /**
+   * Ejecuta una acción de la notificación y la cierra
+   * @param id - ID de la notificación
+   * @param action - Acción elegida
+   */
+  runAction(id: number, action: NotificationAction): void {
+    this.dismiss(id);
+    action.run();
+  }
+
+  /**
+   * Cierra una notificación
+   * @param id - ID de la notificación
+   */
+  dismiss(id: number): void {
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    this.notifications = this.notifications.filter((notification) => notification.id !== id);
+  }
+
+  /**
+   * Cierra todas las notificaciones
+   */
+  clear(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.notifications = [];
+  }
+}
@@ -0,0 +1,182 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, TestRequest, provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+
+import { OutboxService } from './outbox.service';
+import { ApiService } from './api.service';
+import { ConfigService } from './config.service';
+import { authInterceptor } from './auth.interceptor';
+import { fakeToken } from '../../testing/fake-token';
+
+const SELL_URL = 'http://localhost:5050/api/transactions/sell';
+const USER_URL = 'http://localhost:5050/api/users/current';
+
+/**
+ * Elimina la base de datos de la cola entre pruebas
+ */
+function deleteOutboxDatabase(): Promise<void> {
+  return new Promise((resolve) => {
+    const request = indexedDB.deleteDatabase('ims-outbox');
+    request.onsuccess = request.onerror = request.onblocked = () => resolve();
+  });
+}
+
+describe('OutboxService', () => {
+  let service: OutboxService;
+  let apiService: ApiService;
+  let httpMock: HttpTestingController;
+
+  /**
+   * Espera a que la cola realice la petición indicada (las operaciones sobre IndexedDB son asíncronas)
+   */
+  async function nextRequest(url: string): Promise<TestRequest> {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const [request] = httpMock.match(url);
+      if (request) return request;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error(`No se realizó la petición a ${url}`);
+  }
+
+  function failWithoutConnection(request: TestRequest): void {
+    request.error(new ProgressEvent('error'), { status: 0, statusText: 'Unknown Error' });
+  }
+
+  beforeEach(async () => {
+    await deleteOutboxDatabase();
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(withInterceptors([authInterceptor])), provideHttpClientTesting(), provideRouter([])]
+    });
+    spyOn(TestBed.inject(ConfigService), 'isFeatureEnabled').and.callFake((flag) => flag === 'offlineQueue');
+    service = TestBed.inject(OutboxService);
+    apiService = TestBed.inject(ApiService);
+    httpMock = TestBed.inject(HttpTestingController);
+    await apiService.startSession(fakeToken({ sub: 'caja@ims.com', role: 'CASHIER' }));
+  });
+
+  afterEach(() => {
+    apiService.logout();
+  });
+
+  it('should queue a sale when the server is unreachable', async () => {
+    const result = firstValueFrom(service.sell({ productId: '1', quantity: 2 }));
+    const request = await nextRequest(SELL_URL);
+    const key = request.request.headers.get('Idempotency-Key');
+    failWithoutConnection(request);
+
+    const outcome = await result;
+    expect(outcome?.queued).toBeTrue();
+    expect(key).toBeTruthy();
+    expect(service.pending().map((entry) => entry.id)).toEqual([key!]);
+  });
+
+  it('should not queue sales rejected by the server', async () => {
+    let message = '';
+    service.sell({ productId: '1', quantity: 99 }).subscribe({ error: (error) => message = error.message });
+    (await nextRequest(SELL_URL)).flush({ status: 400, message: 'Stock insuficiente' }, { status: 400, statusText: 'Bad Request' });
+
+    expect(message).toBe('Stock insuficiente');
+    expect(service.pending().length).toBe(0);
+  });
+
+  it('should replay queued sales in order with the same idempotency key', async () => {
+    const first = firstValueFrom(service.sell({ productId: '1', quantity: 1 }));
+    failWithoutConnection(await nextRequest(SELL_URL));
+    await first;
+    const second = firstValueFrom(service.sell({ productId: '2', quantity: 1 }));
+    failWithoutConnection(await nextRequest(SELL_URL));
+    await second;
+    const [firstKey, secondKey] = service.pending().map((entry) => entry.id);
+
+    const replay = service.replay();
+    const firstReplay = await nextRequest(SELL_URL);
+    expect(firstReplay.request.headers.get('Idempotency-Key')).toBe(firstKey);
+    expect(firstReplay.request.body.productId).toBe('1');
+    firstReplay.flush({ status: 200, message: 'Venta registrada' });
+    const secondReplay = await nextRequest(SELL_URL);
+    expect(secondReplay.request.headers.get('Idempotency-Key')).toBe(secondKey);
+    secondReplay.flush({ status: 200, message: 'Venta registrada' });
+    await replay;
+
+    expect(service.pending().length).toBe(0);
+  });
+
+  it('should report queued sales rejected on replay as conflicts', async () => {
+    const queued = firstValueFrom(service.sell({ productId: '1', quantity: 5 }));
+    failWithoutConnection(await nextRequest(SELL_URL));
+    await queued;
+
+    const replay = service.replay();
+    (await nextRequest(SELL_URL)).flush({ status: 400, message: 'Stock insuficiente' }, { status: 400, statusText: 'Bad Request' });
+    await replay;
+
+    expect(service.pending().length).toBe(0);
+    expect(service.conflicts().map((entry) => entry.error)).toEqual(['Stock insuficiente']);
+  });
+
+  it('should keep queued sales pending when the session is rejected on replay', async () => {
+    for (const productId of ['1', '2']) {
+      const queued = firstValueFrom(service.sell({ productId, quantity: 1 }));
+      failWithoutConnection(await nextRequest(SELL_URL));
+      await queued;
+    }
+
+    const replay = service.replay();
+    (await nextRequest(SELL_URL)).flush({ status: 401, message: 'Token inválido' }, { status: 401, statusText: 'Unauthorized' });
+    await replay;
+
+    httpMock.expectNone(SELL_URL);
+    expect(service.pending().length).toBe(2);
+    expect(service.conflicts().length).toBe(0);
+  });
+
+  it('should only replay the sales of the logged in user', async () => {
+    const queued = firstValueFrom(service.sell({ productId: '1', quantity: 1 }));
+    failWithoutConnection(await nextRequest(SELL_URL));
+    await queued;
+
+    await apiService.startSession(fakeToken({ sub: 'otro@ims.com', role: 'CASHIER' }));
+    await service.replay();
+
+    httpMock.expectNone(SELL_URL);
+    expect(service.pending().length).toBe(1);
+  });
+
+  it('should retry the replay later while the server is unavailable', async () => {
+    const queued = firstValueFrom(service.sell({ productId: '1', quantity: 1 }));
+    failWithoutConnection(await nextRequest(SELL_URL));
+    await queued;
+
+    const replay = service.replay();
+    failWithoutConnection(await nextRequest(SELL_URL));
+    jasmine.clock().install();
+    try {
+      await replay;
+      jasmine.clock().tick(5000);
+    } finally {
+      jasmine.clock().uninstall();
+    }
+    (await nextRequest(SELL_URL)).flush({ status: 200, message: 'Venta registrada' });
+    await service.replay();
+
+    expect(service.pending().length).toBe(0);
+  });
+
+  it('should identify the owner by the verified user when the token has no subject', async () => {
+    await apiService.startSession(fakeToken({ sub: null, role: 'CASHIER' }));
+    const queued = firstValueFrom(service.sell({ productId: '1', quantity: 1 }));
+    failWithoutConnection(await nextRequest(SELL_URL));
+    (await nextRequest(USER_URL)).flush({ name: 'Caja', email: 'caja@ims.com', role: 'CASHIER' });
+    const outcome = await queued;
+
+    expect(outcome.queued && outcome.entry.owner).toBe('caja@ims.com');
+
+    const replay = service.replay();
+    (await nextRequest(SELL_URL)).flush({ status: 200, message: 'Venta registrada' });
+    await replay;
+
+    expect(service.pending().length).toBe(0);
+  });
+});
@@ -0,0 +1,330 @@
+import { EventEmitter, Injectable, NgZone, OnDestroy } from '@angular/core';
+import { Observable, Subscription, catchError, firstValueFrom, from, map, throwError } from 'rxjs';
+import { ApiService } from './api.service';
+import { ConfigService } from './config.service';
+import { getErrorMessage, isApiError } from './api-error';
+import { openDatabase, withStore } from './indexed-db';
+import { ApiResponse } from '../models/api-response.model';
+import { PurchaseRequest, SellRequest } from '../models/transaction.model';
+
+/**
+ * Transacción guardada en la cola de salida
+ */
+export type OutboxEntry = {
+  id: string; // Clave de idempotencia generada en el cliente
+  owner: string | null; // Usuario (claim "sub" o email verificado) que registró la transacción
+  createdAt: number; // Momento (ms) en que se intentó registrar
+  status: 'pending' | 'conflict';
+  error?: string; // Motivo del rechazo cuando status es 'conflict'
+} & (
+  | { kind: 'sell'; body: SellRequest }
+  | { kind: 'purchase'; body: PurchaseRequest }
+);
+
+/**
+ * Resultado de enviar una transacción a través de la cola
+ *
+ * - queued false: el servidor la registró y devolvió su respuesta
+ * - queued true: no hubo conexión; se registrará al volver la conectividad
+ */
+export type OutboxResult =
+  | { queued: false; response: ApiResponse }
+  | { queued: true; entry: OutboxEntry };
+
+/**
+ * Cola de Salida (OutboxService)
+ *
+ * Evita perder ventas y compras registradas sin conexión con el backend.
+ * Cuando el servidor no responde, la transacción se guarda en IndexedDB con
+ * una clave de idempotencia generada en el cliente y se reenvía, en el orden
+ * en que se registró, al volver la conectividad (evento "online" o inicio de
+ * sesión). Mientras el servidor siga sin responder se reintenta con esperas
+ * crecientes, ya que el evento "online" no se dispara si hay red pero el
+ * servidor está caído. El servidor usa la misma clave (encabezado Idempotency-Key) para
+ * no duplicar una transacción cuyo primer intento sí llegó.
+ *
+ * Las transacciones que el servidor rechaza al reenviarlas (ej: stock
+ * insuficiente) quedan como conflictos para que el usuario las revise.
+ *
+ * Se habilita con la funcionalidad "offlineQueue" de config.json.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OutboxService implements OnDestroy {
+
+  /**
+   * Emite cada vez que cambia el contenido de la cola
+   */
+  changed = new EventEmitter<void>();
+
+  private static DB_NAME = 'ims-outbox';
+  private static STORE_NAME = 'transactions';
+
+  // Estados HTTP que indican que el servidor no está disponible (se reintenta más tarde)
+  private static UNAVAILABLE_STATUSES = [0, 502, 503, 504];
+
+  // Espera (ms) antes del primer reintento automático; se duplica en cada intento fallido hasta MAX_RETRY_DELAY
+  private static RETRY_DELAY = 5000;
+  private static MAX_RETRY_DELAY = 300000;
+
+  // Copia en memoria de la cola, para mostrarla sin consultar IndexedDB
+  private entries: OutboxEntry[] = [];
+
+  private watching = false;
+  private replaying: Promise<void> | null = null;
+  private authSubscription?: Subscription;
+  private retryDelay = OutboxService.RETRY_DELAY;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Constructor del servicio
+   * @param apiService - Servicio que registra las transacciones en el backend
+   * @param config - Configuración de ejecución (funcionalidad "offlineQueue")
+   * @param zone - Zona de Angular, para escuchar la conectividad fuera de ella
+   */
+  constructor(
+    private apiService: ApiService,
+    private config: ConfigService,
+    private zone: NgZone
+  ) { }
+
+  /**
+   * Indica si la cola está habilitada en este despliegue
+   */
+  isEnabled(): boolean {
+    return this.config.isFeatureEnabled('offlineQueue');
+  }
+
+  /**
+   * Carga la cola guardada y reenvía lo pendiente cuando vuelve la conexión
+   * (una única vez, desde AppComponent)
+   */
+  watch(): void {
+    if (this.watching || !this.isEnabled()) return;
+    this.watching = true;
+
+    this.zone.runOutsideAngular(() => window.addEventListener('online', this.onOnline));
+    // Con un inicio de sesión (o cambio de usuario) pueden quedar habilitadas otras transacciones
+    this.authSubscription = this.apiService.authStatuschanged.subscribe(() => this.replayInBackground());
+
+    this.refresh().then(() => this.replay()).catch(() => this.scheduleRetry());
+  }
+
+  /**
+   * Deja de escuchar la conectividad al destruir el servicio
+   */
+  ngOnDestroy(): void {
+    window.removeEventListener('online', this.onOnline);
+    this.authSubscription?.unsubscribe();
+    this.cancelRetry();
+  }
+
+  /**
+   * Transacciones que esperan ser enviadas
+   */
+  pending(): OutboxEntry[] {
+    return this.entries.filter((entry) => entry.status === 'pending');
+  }
+
+  /**
+   * Transacciones que el servidor rechazó al reenviarlas
+   */
+  conflicts(): OutboxEntry[] {
+    return this.entries.filter((entry) => entry.status === 'conflict');
+  }
+
+  /**
+   * Registra una venta, encolándola si el servidor no está disponible
+   * @param body - Datos de la venta
+   */
+  sell(body: SellRequest): Observable<OutboxResult> {
+    return this.submit({ kind: 'sell', body, ...this.newEntry() });
+  }
+
+  /**
+   * Registra una compra, encolándola si el servidor no está disponible
+   * @param body - Datos de la compra
+   */
+  purchase(body: PurchaseRequest): Observable<OutboxResult> {
+    return this.submit({ kind: 'purchase', body, ...this.newEntry() });
+  }
+
+  /**
+   * Reenvía en orden las transacciones pendientes del usuario actual
+   *
+   * Se detiene en la primera que vuelve a fallar por falta de conexión o
+   * porque la sesión dejó de ser válida, para no alterar el orden de registro.
+   */
+  replay(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.replayPending().finally(() => this.replaying = null);
+    }
+    return this.replaying;
+  }
+
+  /**
+   * Descarta un conflicto ya revisado por el usuario
+   * @param id - Clave de la transacción
+   */
+  async dismiss(id: string): Promise<void> {
+    await this.useDb((db) => withStore(db, OutboxService.STORE_NAME, 'readwrite', (store) => store.delete(id)));
+    await this.refresh();
+  }
+
+  /**
+   * Envía la transacción; si el servidor no está disponible la guarda en la cola
+   */
+  private submit(entry: OutboxEntry): Observable<OutboxResult> {
+    if (!this.isEnabled()) {
+      return this.send(entry).pipe(map((response): OutboxResult => ({ queued: false, response })));
+    }
+    if (!navigator.onLine) {
+      return from(this.enqueue(entry));
+    }
+    return this.send(entry).pipe(
+      map((response): OutboxResult => ({ queued: false, response })),
+      catchError((error) => this.isUnavailable(error) ? from(this.enqueue(entry)) : throwError(() => error))
+    );
+  }
+
+  /**
+   * Envía una transacción al backend con su clave de idempotencia
+   */
+  private send(entry: OutboxEntry): Observable<ApiResponse> {
+    return entry.kind === 'sell'
+      ? this.apiService.sellProduct(entry.body, entry.id)
+      : this.apiService.purchaseProduct(entry.body, entry.id);
+  }
+
+  /**
+   * Guarda la transacción en la cola
+   */
+  private async enqueue(entry: OutboxEntry): Promise<OutboxResult> {
+    const queued: OutboxEntry = { ...entry, owner: await this.currentOwner() };
+    await this.useDb((db) => withStore(db, OutboxService.STORE_NAME, 'readwrite', (store) => store.put(queued)));
+    await this.refresh();
+    return { queued: true, entry: queued };
+  }
+
+  private async replayPending(): Promise<void> {
+    const owner = this.isEnabled() ? await this.currentOwner() : null;
+    if (!owner) return;
+
+    await this.refresh();
+    for (const entry of this.pending().filter((pending) => pending.owner === owner)) {
+      try {
+        const response = await firstValueFrom(this.send(entry));
+        // El servidor respondió: el próximo reintento vuelve a la espera inicial
+        this.retryDelay = OutboxService.RETRY_DELAY;
+        if (response.status === 200) {
+          await this.useDb((db) => withStore(db, OutboxService.STORE_NAME, 'readwrite', (store) => store.delete(entry.id)));
+        } else {
+          await this.markConflict(entry, response.message || '');
+        }
+      } catch (error) {
+        // Sin servidor o sin sesión el backend no rechazó la transacción: queda para el próximo intento
+        if (this.isUnavailable(error)) {
+          this.scheduleRetry();
+          break;
+        }
+        if (this.isAuthFailure(error)) break;
+        // Sin mensaje del backend se muestra el texto "outbox.rejected"
+        await this.markConflict(entry, getErrorMessage(error, ''));
+      }
+    }
+    await this.refresh();
+  }
+
+  /**
+   * Reenvía lo pendiente sin esperar el resultado; si el reenvío falla
+   * (ej: IndexedDB no disponible) se reintenta más tarde
+   */
+  private replayInBackground(): void {
+    this.replay().catch(() => this.scheduleRetry());
+  }
+
+  /**
+   * Programa el próximo reenvío, duplicando la espera respecto del anterior
+   */
+  private scheduleRetry(): void {
+    this.cancelRetry();
+    const delay = this.retryDelay;
+    this.retryDelay = Math.min(delay * 2, OutboxService.MAX_RETRY_DELAY);
+    this.zone.runOutsideAngular(() => {
+      this.retryTimer = setTimeout(() => this.zone.run(() => this.replayInBackground()), delay);
+    });
+  }
+
+  private cancelRetry(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  /**
+   * Usuario dueño de las transacciones: el claim "sub" del token o, si el
+   * token no lo incluye, el email del usuario verificado por el servidor
+   * @returns null si no hay sesión o no se pudo identificar al usuario
+   */
+  private async currentOwner(): Promise<string | null> {
+    if (!this.apiService.isAuthenticated()) return null;
+    const subject = this.apiService.getTokenSubject();
+    if (subject) return subject;
+    const user = await firstValueFrom(this.apiService.loadCurrentUser()).catch(() => null);
+    return user?.email ?? null;
+  }
+
+  private markConflict(entry: OutboxEntry, error: string): Promise<IDBValidKey> {
+    const conflict: OutboxEntry = { ...entry, status: 'conflict', error };
+    return this.useDb((db) => withStore(db, OutboxService.STORE_NAME, 'readwrite', (store) => store.put(conflict)));
+  }
+
+  /**
+   * Vuelve a leer la cola desde IndexedDB y avisa del cambio
+   */
+  private async refresh(): Promise<void> {
+    try {
+      const entries = await this.useDb((db) =>
+        withStore<OutboxEntry[]>(db, OutboxService.STORE_NAME, 'readonly', (store) => store.getAll()));
+      this.entries = entries.sort((a, b) => a.createdAt - b.createdAt);
+    } catch (error) {
+      this.entries = [];
+    }
+    this.zone.run(() => this.changed.emit());
+  }
+
+  private newEntry(): Pick<OutboxEntry, 'id' | 'owner' | 'createdAt' | 'status'> {
+    return {
+      id: crypto.randomUUID(),
+      owner: null, // Se asigna al encolarla (ver currentOwner)
+      createdAt: Date.now(),
+      status: 'pending',
+    };
+  }
+
+  private isUnavailable(error: unknown): boolean {
+    return isApiError(error) && OutboxService.UNAVAILABLE_STATUSES.includes(error.status);
+  }
+
+  private isAuthFailure(error: unknown): boolean {
+    return isApiError(error) && (error.status === 401 || error.code === 'sessionExpired');
+  }
+
+  /**
+   * Abre la base de datos, ejecuta la operación y cierra la conexión
+   */
+  private async useDb<T>(operation: (db: IDBDatabase) => Promise<T>): Promise<T> {
+    const db = await openDatabase(OutboxService.DB_NAME, 1, (db) => {
+      db.createObjectStore(OutboxService.STORE_NAME, { keyPath: 'id' });
+    });
+    try {
+      return await operation(db);
+    } finally {
+      db.close();
+    }
+  }
+
+  private onOnline = (): void => {
+    this.zone.run(() => this.replayInBackground());
+  };
+}
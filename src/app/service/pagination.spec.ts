@@ -0,0 +1,68 @@
+import { of } from 'rxjs';
+import { loadAllPages, pageParams, toPage } from './pagination';
+import { PageRequest } from '../models/page.model';
+
+interface Item {
+  id: number;
+  name: string;
+}
+
+const ITEMS: Item[] = [
+  { id: 1, name: 'Tornillo' },
+  { id: 2, name: 'Arandela' },
+  { id: 3, name: 'Tuerca' },
+  { id: 4, name: 'Clavo' },
+  { id: 5, name: 'Taco' },
+];
+
+describe('pagination', () => {
+
+  it('should send zero-based pages with sort and search', () => {
+    expect(pageParams({ page: 2, size: 25, sort: 'name,desc', filter: 'tor' }))
+      .toEqual({ page: 1, size: 25, sort: 'name,desc', searchText: 'tor' });
+    expect(pageParams({ page: 1, size: 10 })).toEqual({ page: 0, size: 10 });
+  });
+
+  it('should use the page returned by the backend as is', () => {
+    const page = toPage({ status: 200, message: '', totalElements: 42, totalPages: 5 }, ITEMS.slice(0, 2), { page: 3, size: 2 });
+
+    expect(page.items.length).toBe(2);
+    expect(page.totalItems).toBe(42);
+    expect(page.totalPages).toBe(5);
+  });
+
+  it('should slice an unpaged list on the client', () => {
+    const page = toPage({ status: 200, message: '' }, ITEMS, { page: 2, size: 2 });
+
+    expect(page.items.map((item) => item.id)).toEqual([3, 4]);
+    expect(page.totalItems).toBe(5);
+    expect(page.totalPages).toBe(3);
+  });
+
+  it('should filter and sort an unpaged list before slicing it', () => {
+    const page = toPage({ status: 200, message: '' }, ITEMS, { page: 1, size: 10, sort: 'name,desc', filter: 't' },
+      (item, filter) => item.name.toLowerCase().startsWith(filter));
+
+    expect(page.items.map((item) => item.name)).toEqual(['Tuerca', 'Tornillo', 'Taco']);
+    expect(page.totalPages).toBe(1);
+  });
+
+  it('should turn an unsuccessful envelope into an error', () => {
+    expect(() => toPage({ status: 500, message: 'Error interno' }, [], { page: 1, size: 10 }))
+      .toThrow(jasmine.objectContaining({ status: 500, message: 'Error interno' }));
+  });
+
+  it('should load every page of a list', (done) => {
+    const requests: PageRequest[] = [];
+    const load = (request: PageRequest) => {
+      requests.push(request);
+      return of(toPage({ status: 200, message: '' }, ITEMS, request));
+    };
+
+    loadAllPages(load, { sort: 'name,asc' }, 2).subscribe((items) => {
+      expect(items.map((item) => item.name)).toEqual(['Arandela', 'Clavo', 'Taco', 'Tornillo', 'Tuerca']);
+      expect(requests.map((request) => request.page)).toEqual([1, 2, 3]);
+      done();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { EMPTY, Observable, expand, reduce } from 'rxjs';
+import { ApiError } from './api-error';
+import { ApiResponse, PageInfo } from '../models/api-response.model';
+import { Page, PageRequest } from '../models/page.model';
+
+/**
+ * Parámetros de consulta de una página, con la convención del backend:
+ * página desde 0, "size", "sort=campo,dirección" y el texto de búsqueda
+ * en "searchText"
+ *
+ * @param request - Página solicitada
+ * @returns Parámetros para HttpClient
+ */
+export function pageParams(request: PageRequest): Record<string, string | number> {
+  const params: Record<string, string | number> = {
+    page: request.page - 1,
+    size: request.size,
+  };
+  if (request.sort) params['sort'] = request.sort;
+  if (request.filter) params['searchText'] = request.filter;
+  return params;
+}
+
+/**
+ * Convierte una respuesta de lista en una página de resultados
+ *
+ * Si el backend paginó la lista (informa totalElements) se usa tal cual.
+ * Si devolvió la lista completa, se filtra, ordena y recorta aquí para
+ * que las vistas funcionen igual con ambos backends.
+ *
+ * @param response - Sobre de la respuesta, con los datos de paginación si los hay
+ * @param items - Elementos recibidos
+ * @param request - Página solicitada
+ * @param matches - Criterio para filtrar la lista completa; recibe el texto de búsqueda ('' si no hay) y se aplica aunque no haya búsqueda, para admitir filtros adicionales (opcional)
+ * @returns Página de resultados
+ * @throws ApiError si el sobre no informa éxito
+ */
+export function toPage<T>(
+  response: ApiResponse & PageInfo,
+  items: T[],
+  request: PageRequest,
+  matches?: (item: T, filter: string) => boolean
+): Page<T> {
+  if (response.status !== 200) {
+    const error: ApiError = { status: response.status, message: response.message || '', url: null };
+    throw error;
+  }
+
+  if (response.totalElements !== undefined) {
+    return {
+      items,
+      page: request.page,
+      size: request.size,
+      totalItems: response.totalElements,
+      totalPages: response.totalPages ?? Math.ceil(response.totalElements / request.size),
+    };
+  }
+
+  // Lista completa: paginación del lado del cliente
+  let all = items;
+  if (matches) {
+    all = all.filter((item) => matches(item, request.filter ?? ''));
+  }
+  if (request.sort) {
+    all = [...all].sort(compareBy(request.sort));
+  }
+  return {
+    items: all.slice((request.page - 1) * request.size, request.page * request.size),
+    page: request.page,
+    size: request.size,
+    totalItems: all.length,
+    totalPages: Math.ceil(all.length / request.size),
+  };
+}
+
+/**
+ * Comparador para un orden "campo,asc" o "campo,desc"; los valores
+ * faltantes quedan al final
+ */
+function compareBy<T>(sort: string): (a: T, b: T) => number {
+  const [field, direction] = sort.split(',');
+  const factor = direction?.toLowerCase() === 'desc' ? -1 : 1;
+  return (a, b) => {
+    const x = (a as Record<string, unknown>)[field];
+    const y = (b as Record<string, unknown>)[field];
+    if (x === undefined || x === null) return y === undefined || y === null ? 0 : 1;
+    if (y === undefined || y === null) return -1;
+    if (typeof x === 'number' && typeof y === 'number') return (x - y) * factor;
+    return String(x).localeCompare(String(y), undefined, { numeric: true }) * factor;
+  };
+}
+
+/**
+ * Carga todos los elementos de una lista paginada, página por página
+ *
+ * Se usa para exportar una vista completa (con su búsqueda, orden y
+ * filtros) sin depender de que el backend devuelva la lista entera.
+ *
+ * @param load - Función que obtiene una página (ej: ApiService.getProductsPage)
+ * @param request - Orden y texto de búsqueda, sin página ni tamaño
+ * @param size - Elementos por página pedidos en cada llamada
+ * @returns Observable con todos los elementos, en orden
+ */
+export function loadAllPages<T>(
+  load: (request: PageRequest) => Observable<Page<T>>,
+  request: Omit<PageRequest, 'page' | 'size'> = {},
+  size: number = 500
+): Observable<T[]> {
+  return load({ ...request, page: 1, size }).pipe(
+    expand((page) => page.page < page.totalPages ? load({ ...request, page: page.page + 1, size }) : EMPTY),
+    reduce((items: T[], page) => [...items, ...page.items], [])
+  );
+}
@@ -0,0 +1,26 @@
+import { Permission, normalizeRole, roleHasPermissions } from './permissions';
+
+describe('permissions', () => {
+
+  it('should grant every permission to ADMIN', () => {
+    expect(roleHasPermissions('ADMIN', Object.values(Permission))).toBeTrue();
+  });
+
+  it('should let cashiers sell but not purchase or delete products', () => {
+    expect(roleHasPermissions('CASHIER', [Permission.SELL])).toBeTrue();
+    expect(roleHasPermissions('CASHIER', [Permission.PURCHASE])).toBeFalse();
+    expect(roleHasPermissions('CASHIER', [Permission.DELETE_PRODUCT])).toBeFalse();
+  });
+
+  it('should not let managers delete products', () => {
+    expect(roleHasPermissions('MANAGER', [Permission.MANAGE_PRODUCTS])).toBeTrue();
+    expect(roleHasPermissions('MANAGER', [Permission.DELETE_PRODUCT])).toBeFalse();
+  });
+
+  it('should map unknown roles to VIEWER and missing roles to null', () => {
+    expect(normalizeRole('admin')).toBe('ADMIN');
+    expect(normalizeRole('SUPERVISOR')).toBe('VIEWER');
+    expect(normalizeRole(null)).toBeNull();
+    expect(roleHasPermissions(null, [])).toBeFalse();
+  });
+});
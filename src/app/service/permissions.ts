@@ -0,0 +1,89 @@
+/**
+ * Modelo de roles y permisos del Sistema de Gestión de Inventario (IMS)
+ * 
+ * Cada rol concede un conjunto de permisos. Las rutas declaran los permisos
+ * que requieren (data.permissions en app.routes.ts), GuardService los verifica
+ * y la directiva *appHasPermission oculta enlaces y acciones no permitidas.
+ */
+
+/**
+ * Roles de usuario reconocidos por el frontend
+ */
+export type Role = 'ADMIN' | 'MANAGER' | 'CASHIER' | 'VIEWER';
+
+/**
+ * Permisos disponibles en la aplicación
+ */
+export const Permission = {
+  VIEW_DASHBOARD: 'dashboard:view',
+  VIEW_TRANSACTIONS: 'transactions:view',
+  UPDATE_TRANSACTION_STATUS: 'transactions:update-status',
+  SELL: 'transactions:sell',
+  PURCHASE: 'transactions:purchase',
+  MANAGE_CATEGORIES: 'categories:manage',
+  MANAGE_SUPPLIERS: 'suppliers:manage',
+  MANAGE_PRODUCTS: 'products:manage',
+  DELETE_PRODUCT: 'products:delete',
+  VIEW_PROFILE: 'profile:view',
+} as const;
+
+export type Permission = typeof Permission[keyof typeof Permission];
+
+/**
+ * Permisos concedidos a cada rol
+ * - ADMIN: acceso total
+ * - MANAGER: gestión del inventario y transacciones, sin eliminar productos
+ * - CASHIER: ventas y consulta de transacciones
+ * - VIEWER: solo consulta
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  ADMIN: Object.values(Permission),
+  MANAGER: [
+    Permission.VIEW_DASHBOARD,
+    Permission.VIEW_TRANSACTIONS,
+    Permission.UPDATE_TRANSACTION_STATUS,
+    Permission.SELL,
+    Permission.PURCHASE,
+    Permission.MANAGE_CATEGORIES,
+    Permission.MANAGE_SUPPLIERS,
+    Permission.MANAGE_PRODUCTS,
+    Permission.VIEW_PROFILE,
+  ],
+  CASHIER: [
+    Permission.VIEW_TRANSACTIONS,
+    Permission.SELL,
+    Permission.VIEW_PROFILE,
+  ],
+  VIEWER: [
+    Permission.VIEW_DASHBOARD,
+    Permission.VIEW_TRANSACTIONS,
+    Permission.VIEW_PROFILE,
+  ],
+};
+
+/**
+ * Normaliza el rol recibido del backend
+ * 
+ * Un rol desconocido recibe los permisos mínimos (VIEWER) en lugar de
+ * conceder acceso por omisión.
+ * 
+ * @param role - Rol tal como lo devuelve el backend
+ * @returns Rol reconocido por el frontend o null si no hay rol
+ */
+export function normalizeRole(role: string | null | undefined): Role | null {
+  if (!role) return null;
+  const upper = role.toUpperCase();
+  return upper in ROLE_PERMISSIONS ? upper as Role : 'VIEWER';
+}
+
+/**
+ * Verifica si un rol concede todos los permisos indicados
+ * @param role - Rol del usuario
+ * @param permissions - Permisos requeridos
+ * @returns true si el rol los concede todos
+ */
+export function roleHasPermissions(role: Role | null, permissions: readonly Permission[]): boolean {
+  if (!role) return false;
+  const granted = ROLE_PERMISSIONS[role];
+  return permissions.every((permission) => granted.includes(permission));
+}
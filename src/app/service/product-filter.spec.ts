@@ -0,0 +1,65 @@
+import { convertToParamMap } from '@angular/router';
+
+import {
+  EMPTY_PRODUCT_FILTER, hasProductFilter, matchesProductFilter, productFilterParams, readProductFilter, stockLevel
+} from './product-filter';
+import { Product } from '../models/product.model';
+
+const product = (overrides: Partial<Product>): Product => ({
+  id: '1',
+  name: 'Yerba mate 1 kg',
+  sku: 'ALM-0001',
+  price: 4200,
+  stockQuantity: 80,
+  categoryId: '1',
+  description: 'Con palo',
+  ...overrides,
+});
+
+describe('product-filter', () => {
+
+  it('should classify the stock level', () => {
+    expect(stockLevel(product({ stockQuantity: 0 }))).toBe('out');
+    expect(stockLevel(product({ stockQuantity: 10 }))).toBe('low');
+    expect(stockLevel(product({ stockQuantity: 11 }))).toBe('in');
+  });
+
+  it('should search name, SKU and description ignoring case', () => {
+    expect(matchesProductFilter(product({}), 'YERBA')).toBeTrue();
+    expect(matchesProductFilter(product({}), 'alm-0001')).toBeTrue();
+    expect(matchesProductFilter(product({}), 'palo')).toBeTrue();
+    expect(matchesProductFilter(product({}), 'arroz')).toBeFalse();
+    expect(matchesProductFilter(product({ description: undefined }), 'palo')).toBeFalse();
+  });
+
+  it('should filter by category, price range and stock', () => {
+    expect(matchesProductFilter(product({}), '', { categoryId: '2' })).toBeFalse();
+    expect(matchesProductFilter(product({}), '', { minPrice: 4200, maxPrice: 4200 })).toBeTrue();
+    expect(matchesProductFilter(product({}), '', { maxPrice: 4000 })).toBeFalse();
+    expect(matchesProductFilter(product({}), '', { minPrice: 0 })).toBeTrue();
+    expect(matchesProductFilter(product({ stockQuantity: 3 }), '', { stock: 'low' })).toBeTrue();
+    expect(matchesProductFilter(product({}), '', { stock: 'out' })).toBeFalse();
+  });
+
+  it('should round-trip the filter through query params', () => {
+    const filter = { search: 'yerba', categoryId: '1', minPrice: 0, maxPrice: 5000, stock: 'low' as const, sort: 'price,desc' };
+    const params = productFilterParams(filter);
+
+    expect(params).toEqual({ search: 'yerba', categoryId: '1', minPrice: '0', maxPrice: '5000', stock: 'low', sort: 'price,desc' });
+    expect(readProductFilter(convertToParamMap(params))).toEqual(filter);
+    expect(productFilterParams(EMPTY_PRODUCT_FILTER)).toEqual({});
+  });
+
+  it('should ignore invalid query params', () => {
+    const filter = readProductFilter(convertToParamMap({ minPrice: 'barato', stock: 'mucho', sort: 'password,asc' }));
+
+    expect(filter).toEqual(EMPTY_PRODUCT_FILTER);
+    expect(readProductFilter(convertToParamMap({ sort: 'name,up' })).sort).toBe('');
+  });
+
+  it('should tell whether the list is filtered regardless of the sort', () => {
+    expect(hasProductFilter({ ...EMPTY_PRODUCT_FILTER, sort: 'name,asc' })).toBeFalse();
+    expect(hasProductFilter({ ...EMPTY_PRODUCT_FILTER, search: '  ' })).toBeFalse();
+    expect(hasProductFilter({ ...EMPTY_PRODUCT_FILTER, stock: 'out' })).toBeTrue();
+  });
+});
@@ -0,0 +1,169 @@
+import { Product } from '../models/product.model';
+import { sameId } from './ids';
+
+/**
+ * Nivel de stock de un producto
+ *
+ * - out: sin stock
+ * - low: stock bajo (hasta el punto de reposición del producto)
+ * - in: stock suficiente
+ */
+export type StockLevel = 'out' | 'low' | 'in';
+
+/**
+ * Punto de reposición de los productos que no tienen uno propio: con esta
+ * cantidad de unidades o menos el stock se considera bajo
+ */
+export const LOW_STOCK_THRESHOLD = 10;
+
+/**
+ * Campos por los que se puede ordenar la lista de productos
+ */
+export const PRODUCT_SORT_FIELDS = ['name', 'sku', 'price', 'stockQuantity'] as const;
+
+/**
+ * Campo de orden de la lista de productos
+ */
+export type ProductSortField = typeof PRODUCT_SORT_FIELDS[number];
+
+/**
+ * Búsqueda, filtros y orden de la lista de productos
+ *
+ * Se reflejan en los parámetros de consulta de la URL (ver
+ * productFilterParams) para que una vista filtrada se pueda guardar en
+ * favoritos o compartir.
+ */
+export interface ProductFilter {
+  search: string; // Texto buscado en nombre, SKU y descripción
+  categoryId: string; // '' para todas las categorías
+  minPrice: number | null;
+  maxPrice: number | null;
+  stock: StockLevel | ''; // '' para cualquier nivel de stock
+  sort: string; // Orden "campo,asc" o "campo,desc"; '' para el orden del backend
+}
+
+/**
+ * Filtros de productos que se envían al backend además de la búsqueda y el orden
+ */
+export type ProductCriteria = Partial<Pick<ProductFilter, 'categoryId' | 'minPrice' | 'maxPrice' | 'stock'>>;
+
+/**
+ * Lista sin búsqueda, filtros ni orden
+ */
+export const EMPTY_PRODUCT_FILTER: ProductFilter = {
+  search: '',
+  categoryId: '',
+  minPrice: null,
+  maxPrice: null,
+  stock: '',
+  sort: '',
+};
+
+/**
+ * Punto de reposición de un producto: el propio o, si no tiene, LOW_STOCK_THRESHOLD
+ * @param product - Producto a evaluar
+ */
+export function reorderPoint(product: Product): number {
+  return product.reorderPoint ?? LOW_STOCK_THRESHOLD;
+}
+
+/**
+ * Nivel de stock de un producto
+ * @param product - Producto a evaluar
+ */
+export function stockLevel(product: Product): StockLevel {
+  if (product.stockQuantity <= 0) return 'out';
+  return product.stockQuantity <= reorderPoint(product) ? 'low' : 'in';
+}
+
+/**
+ * Indica si hay que reponer un producto (sin stock o con stock bajo)
+ * @param product - Producto a evaluar
+ */
+export function needsReorder(product: Product): boolean {
+  return stockLevel(product) !== 'in';
+}
+
+/**
+ * Indica si un producto cumple la búsqueda y los filtros
+ *
+ * Se usa para filtrar del lado del cliente cuando el backend devuelve la
+ * lista completa, y en el backend simulado.
+ *
+ * @param product - Producto a evaluar
+ * @param search - Texto buscado (sin distinguir mayúsculas)
+ * @param criteria - Filtros por categoría, precio y stock
+ */
+export function matchesProductFilter(product: Product, search: string = '', criteria: ProductCriteria = {}): boolean {
+  const text = search.trim().toLowerCase();
+  if (text && ![product.name, product.sku, product.description].some((value) => value?.toLowerCase().includes(text))) {
+    return false;
+  }
+  if (criteria.categoryId && !sameId(product.categoryId, criteria.categoryId)) return false;
+  if (criteria.minPrice !== null && criteria.minPrice !== undefined && product.price < criteria.minPrice) return false;
+  if (criteria.maxPrice !== null && criteria.maxPrice !== undefined && product.price > criteria.maxPrice) return false;
+  if (criteria.stock && stockLevel(product) !== criteria.stock) return false;
+  return true;
+}
+
+/**
+ * Lee la búsqueda, los filtros y el orden de parámetros de consulta
+ *
+ * Acepta tanto el ParamMap de la ruta como los HttpParams de una petición.
+ * Los valores inválidos (ej: un precio no numérico o un campo de orden
+ * desconocido) se ignoran.
+ *
+ * @param params - Parámetros de consulta
+ * @returns Filtro completo
+ */
+export function readProductFilter(params: { get(name: string): string | null }): ProductFilter {
+  const price = (name: string): number | null => {
+    const value = params.get(name);
+    return value !== null && value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : null;
+  };
+  const stock = params.get('stock');
+  const sort = params.get('sort') ?? '';
+  const [field, direction] = sort.split(',');
+  const validSort = (PRODUCT_SORT_FIELDS as readonly string[]).includes(field) && ['asc', 'desc'].includes(direction);
+
+  return {
+    search: params.get('search') ?? '',
+    categoryId: params.get('categoryId') ?? '',
+    minPrice: price('minPrice'),
+    maxPrice: price('maxPrice'),
+    stock: stock === 'out' || stock === 'low' || stock === 'in' ? stock : '',
+    sort: validSort ? sort : '',
+  };
+}
+
+/**
+ * Parámetros de consulta de los filtros, omitiendo los que no se usan
+ * @param criteria - Filtros por categoría, precio y stock
+ */
+export function productCriteriaParams(criteria: ProductCriteria): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (criteria.categoryId) params['categoryId'] = criteria.categoryId;
+  if (criteria.minPrice !== null && criteria.minPrice !== undefined) params['minPrice'] = String(criteria.minPrice);
+  if (criteria.maxPrice !== null && criteria.maxPrice !== undefined) params['maxPrice'] = String(criteria.maxPrice);
+  if (criteria.stock) params['stock'] = criteria.stock;
+  return params;
+}
+
+/**
+ * Parámetros de consulta de la URL para un filtro, omitiendo los que no se usan
+ * @param filter - Búsqueda, filtros y orden
+ */
+export function productFilterParams(filter: ProductFilter): Record<string, string> {
+  const params = productCriteriaParams(filter);
+  if (filter.search.trim()) params['search'] = filter.search.trim();
+  if (filter.sort) params['sort'] = filter.sort;
+  return params;
+}
+
+/**
+ * Indica si hay alguna búsqueda o filtro activo (el orden no cuenta)
+ * @param filter - Filtro a evaluar
+ */
+export function hasProductFilter(filter: ProductFilter): boolean {
+  return Object.keys(productFilterParams({ ...filter, sort: '' })).length > 0;
+}
@@ -0,0 +1,105 @@
+import {
+  buildImportRows, guessColumnMapping, isAmbiguousDecimal, missingCategoryNames, parseDecimal, productFormData, resolveCategoryId, rowIssues,
+} from './product-import';
+import { Category } from '../models/category.model';
+
+const CATEGORIES: Category[] = [{ id: '1', name: 'Almacén' }, { id: '2', name: 'Bebidas' }];
+
+describe('product-import', () => {
+  const headers = ['Nombre', 'SKU', 'Precio', 'Stock', 'Categoría', 'Descripción'];
+  const mapping = guessColumnMapping(headers);
+
+  it('should map columns from Spanish and English headers', () => {
+    expect(mapping).toEqual({
+      name: 0, sku: 1, price: 2, stockQuantity: 3, category: 4, description: 5, reorderPoint: null, reorderQuantity: null,
+    });
+    expect(guessColumnMapping(['sku', 'Product Name', 'Reorder point']).reorderPoint).toBe(2);
+  });
+
+  it('should parse prices written with either decimal separator', () => {
+    expect(parseDecimal('1.850,50', ',')).toBe(1850.5);
+    expect(parseDecimal('1,850.50', ',')).toBe(1850.5);
+    expect(parseDecimal('$ 1850,5', ',')).toBe(1850.5);
+    expect(parseDecimal('1850.5', ',')).toBe(1850.5);
+    expect(parseDecimal('42', ',')).toBe(42);
+    expect(parseDecimal('', ',')).toBeNull();
+    expect(parseDecimal('doce', ',')).toBeNull();
+  });
+
+  it('should read thousands separators with the separators of the active language', () => {
+    expect(parseDecimal('1.850', ',')).toBe(1850);
+    expect(parseDecimal('1.234.567', ',')).toBe(1234567);
+    expect(parseDecimal('1.234,56', ',')).toBe(1234.56);
+    expect(parseDecimal('1,234.56', ',')).toBe(1234.56);
+    expect(parseDecimal('1,850', '.')).toBe(1850);
+    expect(parseDecimal('0,500', ',')).toBe(0.5);
+    expect(parseDecimal('1.23.4', ',')).toBeNull();
+  });
+
+  it('should reject numbers whose separator could be thousands or decimal', () => {
+    expect(parseDecimal('1,850', ',')).toBeNull();
+    expect(isAmbiguousDecimal('1,850', ',')).toBeTrue();
+    expect(isAmbiguousDecimal('1.850', '.')).toBeTrue();
+    expect(isAmbiguousDecimal('1.850', ',')).toBeFalse();
+    expect(isAmbiguousDecimal('doce', ',')).toBeFalse();
+
+    const [row] = buildImportRows([['Yerba 1kg', 'YER-1', '1,850', '40', 'Almacén', '']], mapping, CATEGORIES, [], ',');
+    expect(row.price).toBeNull();
+    expect(row.issues).toEqual([{ key: 'importProducts.errorAmbiguousNumber', params: { value: '1,850' } }]);
+  });
+
+  it('should take numeric spreadsheet cells as they are, whatever the language', () => {
+    const cells = [['Yerba 1kg', 'YER-1', 1850.5, 40, 'Almacén', ''], ['Arroz', 'ARR-1', 1.234, 2.5, 'Almacén', '']];
+    const [yerba, rice] = buildImportRows(cells, mapping, CATEGORIES, [], ',');
+    const [english] = buildImportRows(cells, mapping, CATEGORIES, [], '.');
+
+    expect(yerba.price).toBe(1850.5);
+    expect(yerba.stockQuantity).toBe(40);
+    expect(yerba.issues).toEqual([]);
+    expect(english.price).toBe(1850.5);
+    expect(rice.price).toBe(1.234);
+    expect(rice.issues).toEqual([{ key: 'importProducts.errorStock', params: { value: '2.5' } }]);
+  });
+
+  it('should validate each row and resolve categories by name', () => {
+    const rows = buildImportRows([
+      ['Yerba 1kg', 'YER-1', '1850,50', '40', 'almacen', ''],
+      ['Agua 2L', 'YER-1', '0', '3.5', 'Bebidas', ''],
+      ['', 'EXIST', '100', '1', '', ''],
+      ['Fernet', 'FER-1', '9000', '12', 'Licores', 'Botella 750ml'],
+    ], mapping, CATEGORIES, ['exist'], ',');
+
+    expect(rows[0]).toEqual(jasmine.objectContaining({ line: 2, price: 1850.5, stockQuantity: 40, categoryId: '1', issues: [] }));
+    expect(rows[1].issues.map((issue) => issue.key)).toEqual([
+      'importProducts.errorDuplicateSku', 'importProducts.errorPrice', 'importProducts.errorStock',
+    ]);
+    expect(rows[1].issues[0].params).toEqual({ line: 2 });
+    expect(rows[2].issues.map((issue) => issue.key)).toEqual([
+      'importProducts.errorName', 'importProducts.errorExistingSku', 'importProducts.errorCategory',
+    ]);
+    expect(rows[3].categoryId).toBeNull();
+    expect(rows[3].issues).toEqual([]);
+  });
+
+  it('should only accept missing categories when they will be created', () => {
+    const rows = buildImportRows([
+      ['Fernet', 'FER-1', '9000', '12', 'Licores', ''],
+      ['Gin', 'GIN-1', '12000', '5', 'licores', ''],
+    ], mapping, CATEGORIES, [], ',');
+
+    expect(missingCategoryNames(rows)).toEqual(['Licores']);
+    expect(rowIssues(rows[0], true)).toEqual([]);
+    expect(rowIssues(rows[0], false).map((issue) => issue.key)).toEqual(['importProducts.errorMissingCategory']);
+    expect(resolveCategoryId(rows[1], [...CATEGORIES, { id: '3', name: 'Licores' }])).toBe('3');
+  });
+
+  it('should build the same form data as the product form', () => {
+    const [row] = buildImportRows([['Yerba 1kg', 'YER-1', '1850,50', '40', 'Almacén', 'Con palo']], mapping, CATEGORIES, [], ',');
+    const formData = productFormData(row, '1');
+
+    expect(formData.get('price')).toBe('1850.5');
+    expect(formData.get('categoryId')).toBe('1');
+    expect(formData.get('reorderPoint')).toBe('');
+    expect(formData.get('description')).toBe('Con palo');
+  });
+});
@@ -0,0 +1,295 @@
+import { TranslationKey } from '../i18n/catalog';
+import { TranslationParams } from './i18n.service';
+import { Category } from '../models/category.model';
+import { XlsxValue } from './xlsx';
+
+/**
+ * Campos de producto que se pueden importar desde una planilla
+ */
+export const IMPORT_FIELDS = [
+  'name', 'sku', 'price', 'stockQuantity', 'category', 'description', 'reorderPoint', 'reorderQuantity',
+] as const;
+
+/**
+ * Campo de producto de la importación
+ */
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+/**
+ * Campos que deben estar asociados a una columna para poder importar
+ */
+export const REQUIRED_IMPORT_FIELDS: readonly ImportField[] = ['name', 'sku', 'price', 'stockQuantity', 'category'];
+
+/**
+ * Columna de la planilla (índice desde 0) asociada a cada campo; null si no se importa
+ */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+/**
+ * Problema de una fila, como clave de texto del catálogo para mostrarlo en el idioma activo
+ */
+export interface ImportIssue {
+  key: TranslationKey;
+  params?: TranslationParams;
+}
+
+/**
+ * Fila de la planilla interpretada y validada
+ */
+export interface ImportRow {
+  line: number; // Línea en el archivo (la 1 es el encabezado)
+  name: string;
+  sku: string;
+  price: number | null;
+  stockQuantity: number | null;
+  categoryName: string;
+  categoryId: string | null; // null si la categoría no existe (se puede crear al importar)
+  description: string;
+  reorderPoint: number | null;
+  reorderQuantity: number | null;
+  issues: ImportIssue[];
+}
+
+// Encabezados reconocidos para cada campo, normalizados (sin acentos, espacios ni mayúsculas)
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ['name', 'nombre', 'producto', 'product', 'productname', 'nombredelproducto'],
+  sku: ['sku', 'codigo', 'code', 'codigosku'],
+  price: ['price', 'precio', 'preciounitario', 'unitprice'],
+  stockQuantity: ['stockquantity', 'stock', 'cantidad', 'cantidadenstock', 'quantity', 'existencias'],
+  category: ['category', 'categoria', 'categoryname', 'rubro'],
+  description: ['description', 'descripcion', 'detalle'],
+  reorderPoint: ['reorderpoint', 'puntodereposicion', 'puntoreposicion', 'stockminimo'],
+  reorderQuantity: ['reorderquantity', 'cantidadareponer', 'cantidadreposicion'],
+};
+
+/**
+ * Normaliza un texto para compararlo sin acentos, espacios ni mayúsculas
+ */
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Asocia cada campo a la columna cuyo encabezado lo nombra (en español o inglés)
+ * @param headers - Encabezados de la planilla
+ * @returns Columna de cada campo; null si ningún encabezado lo nombra
+ */
+export function guessColumnMapping(headers: readonly string[]): ColumnMapping {
+  const normalized = headers.map(normalize);
+  const mapping = {} as ColumnMapping;
+  IMPORT_FIELDS.forEach((field) => {
+    const index = normalized.findIndex((header) => HEADER_ALIASES[field].includes(header));
+    mapping[field] = index >= 0 ? index : null;
+  });
+  return mapping;
+}
+
+/**
+ * Interpreta un número escrito con coma o punto decimal (ej: "1.850,50", "1850.5" o "$ 1850")
+ *
+ * Si el texto tiene coma y punto, el último es el separador decimal y el
+ * otro separa los miles; un mismo separador repetido ("1.234.567") solo
+ * puede separar miles. Un único separador seguido de exactamente tres
+ * dígitos ("1.850") separa los miles cuando no es el separador decimal del
+ * idioma; si lo es, el número es ambiguo y se rechaza (ver isAmbiguousDecimal).
+ *
+ * @param value - Texto de la celda
+ * @param decimalSeparator - Separador decimal del idioma activo ("," o ".")
+ * @returns Número, o null si la celda está vacía, no es un número o es ambigua
+ */
+export function parseDecimal(value: string, decimalSeparator: string): number | null {
+  const number = readDecimal(value, decimalSeparator);
+  return number === 'ambiguous' ? null : number;
+}
+
+/**
+ * Indica si no se puede saber si el separador de un número separa los miles
+ * o los decimales (ej: "1,850" con coma decimal: ¿1,85 o 1850?)
+ * @param value - Texto de la celda
+ * @param decimalSeparator - Separador decimal del idioma activo ("," o ".")
+ */
+export function isAmbiguousDecimal(value: string, decimalSeparator: string): boolean {
+  return readDecimal(value, decimalSeparator) === 'ambiguous';
+}
+
+// Interpreta el texto de un número según las reglas de parseDecimal
+function readDecimal(value: string, decimalSeparator: string): number | null | 'ambiguous' {
+  const match = /^(-?)([\d.,]+)$/.exec(value.replace(/[\s$]/g, ''));
+  if (!match) return null;
+  const [, sign, digits] = match;
+  const separators = digits.replace(/\d/g, '');
+  let integer = digits;
+  let fraction = '';
+
+  if (new Set(separators).size === 2) {
+    const decimal = separators[separators.length - 1];
+    const thousands = decimal === ',' ? '.' : ',';
+    if (separators.indexOf(decimal) !== separators.length - 1) return null;
+    [integer, fraction] = digits.split(decimal);
+    if (!isGrouped(integer, thousands)) return null;
+    integer = integer.split(thousands).join('');
+  } else if (separators.length > 1) {
+    if (!isGrouped(digits, separators[0])) return null;
+    integer = digits.split(separators[0]).join('');
+  } else if (separators.length === 1) {
+    [integer, fraction] = digits.split(separators);
+    if (fraction.length === 3 && /^[1-9]\d{0,2}$/.test(integer)) {
+      if (separators === decimalSeparator) return 'ambiguous';
+      integer += fraction;
+      fraction = '';
+    }
+  }
+
+  if (!/^\d+$/.test(integer) || (fraction !== '' && !/^\d+$/.test(fraction))) return null;
+  return Number(`${sign}${integer}${fraction ? '.' + fraction : ''}`);
+}
+
+// Indica si el texto son grupos de tres dígitos unidos por el separador de miles (ej: "1.234.567")
+function isGrouped(text: string, separator: string): boolean {
+  return new RegExp(`^\\d{1,3}(\\${separator}\\d{3})+$`).test(text);
+}
+
+/**
+ * Interpreta y valida las filas de la planilla
+ *
+ * Verifica los campos obligatorios, que precio y cantidades sean números
+ * válidos, y que el SKU no se repita en el archivo ni exista en el
+ * inventario. Las categorías se buscan por nombre (sin distinguir
+ * mayúsculas ni acentos); las que no existen no son un error porque se
+ * pueden crear al importar (ver rowIssues).
+ *
+ * @param rows - Filas de datos, sin el encabezado; las celdas numéricas de un XLSX se toman tal
+ *   cual y solo los textos se interpretan con el separador decimal del idioma
+ * @param mapping - Columna de cada campo
+ * @param categories - Categorías existentes
+ * @param existingSkus - SKU de los productos ya registrados
+ * @param decimalSeparator - Separador decimal del idioma activo, para interpretar los números
+ * @returns Filas interpretadas con sus problemas
+ */
+export function buildImportRows(
+  rows: readonly (readonly XlsxValue[])[],
+  mapping: ColumnMapping,
+  categories: readonly Category[],
+  existingSkus: readonly string[],
+  decimalSeparator: string
+): ImportRow[] {
+  const categoryIds = new Map(categories.map((category) => [normalize(category.name), category.id]));
+  const inventory = new Set(existingSkus.map((sku) => sku.trim().toLowerCase()));
+  const firstLineBySku = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const raw = (field: ImportField): XlsxValue => {
+      const column = mapping[field];
+      return column === null ? '' : cells[column] ?? '';
+    };
+    const cell = (field: ImportField): string => String(raw(field)).trim();
+    const number = (field: ImportField): number | null => {
+      const value = raw(field);
+      return typeof value === 'number' ? value : parseDecimal(value.trim(), decimalSeparator);
+    };
+    // Un número ambiguo se informa como tal en lugar del error propio del campo
+    const invalid = (field: ImportField, key: TranslationKey): ImportIssue => {
+      const value = cell(field);
+      return typeof raw(field) === 'string' && isAmbiguousDecimal(value, decimalSeparator)
+        ? { key: 'importProducts.errorAmbiguousNumber', params: { value } }
+        : { key, params: { value } };
+    };
+
+    const row: ImportRow = {
+      line: index + 2,
+      name: cell('name'),
+      sku: cell('sku'),
+      price: number('price'),
+      stockQuantity: number('stockQuantity'),
+      categoryName: cell('category'),
+      categoryId: categoryIds.get(normalize(cell('category'))) ?? null,
+      description: cell('description'),
+      reorderPoint: number('reorderPoint'),
+      reorderQuantity: number('reorderQuantity'),
+      issues: [],
+    };
+
+    if (!row.name) row.issues.push({ key: 'importProducts.errorName' });
+    if (!row.sku) {
+      row.issues.push({ key: 'importProducts.errorSku' });
+    } else {
+      const sku = row.sku.toLowerCase();
+      const firstLine = firstLineBySku.get(sku);
+      if (firstLine !== undefined) {
+        row.issues.push({ key: 'importProducts.errorDuplicateSku', params: { line: firstLine } });
+      } else {
+        firstLineBySku.set(sku, row.line);
+      }
+      if (inventory.has(sku)) row.issues.push({ key: 'importProducts.errorExistingSku' });
+    }
+    if (row.price === null || row.price <= 0) {
+      row.issues.push(invalid('price', 'importProducts.errorPrice'));
+    }
+    if (row.stockQuantity === null || !Number.isInteger(row.stockQuantity) || row.stockQuantity < 0) {
+      row.issues.push(invalid('stockQuantity', 'importProducts.errorStock'));
+    }
+    if (!row.categoryName) row.issues.push({ key: 'importProducts.errorCategory' });
+    if (cell('reorderPoint') && (row.reorderPoint === null || !Number.isInteger(row.reorderPoint) || row.reorderPoint < 0)) {
+      row.issues.push(invalid('reorderPoint', 'importProducts.errorReorderPoint'));
+    }
+    if (cell('reorderQuantity') && (row.reorderQuantity === null || !Number.isInteger(row.reorderQuantity) || row.reorderQuantity <= 0)) {
+      row.issues.push(invalid('reorderQuantity', 'importProducts.errorReorderQuantity'));
+    }
+    return row;
+  });
+}
+
+/**
+ * Problemas de una fila, incluida la categoría inexistente si no se van a crear las faltantes
+ * @param row - Fila interpretada
+ * @param createMissingCategories - true si las categorías que no existen se crean al importar
+ */
+export function rowIssues(row: ImportRow, createMissingCategories: boolean): ImportIssue[] {
+  if (row.categoryName && row.categoryId === null && !createMissingCategories) {
+    return [...row.issues, { key: 'importProducts.errorMissingCategory', params: { name: row.categoryName } }];
+  }
+  return row.issues;
+}
+
+/**
+ * Nombres de las categorías que usan las filas y no existen, sin repetir
+ * @param rows - Filas interpretadas
+ */
+export function missingCategoryNames(rows: readonly ImportRow[]): string[] {
+  const names = new Map<string, string>();
+  rows
+    .filter((row) => row.categoryName && row.categoryId === null)
+    .forEach((row) => {
+      if (!names.has(normalize(row.categoryName))) names.set(normalize(row.categoryName), row.categoryName);
+    });
+  return [...names.values()];
+}
+
+/**
+ * Busca la categoría de una fila por nombre
+ * @param row - Fila interpretada
+ * @param categories - Categorías existentes (incluidas las recién creadas)
+ * @returns ID de la categoría, o null si no existe
+ */
+export function resolveCategoryId(row: ImportRow, categories: readonly Category[]): string | null {
+  const category = categories.find((item) => normalize(item.name) === normalize(row.categoryName));
+  return category ? category.id : null;
+}
+
+/**
+ * Datos de alta de un producto importado, con los mismos campos que envía AddEditProductComponent
+ * @param row - Fila válida
+ * @param categoryId - ID de la categoría del producto
+ */
+export function productFormData(row: ImportRow, categoryId: string): FormData {
+  const formData = new FormData();
+  formData.append('name', row.name);
+  formData.append('sku', row.sku);
+  formData.append('price', String(row.price));
+  formData.append('stockQuantity', String(row.stockQuantity));
+  formData.append('categoryId', categoryId);
+  formData.append('description', row.description);
+  formData.append('reorderPoint', row.reorderPoint === null ? '' : String(row.reorderPoint));
+  formData.append('reorderQuantity', row.reorderQuantity === null ? '' : String(row.reorderQuantity));
+  return formData;
+}
@@ -0,0 +1,79 @@
+import {
+  Schema,
+  arrayOf,
+  envelope,
+  identifier,
+  numberField,
+  objectOf,
+  oneOf,
+  optional,
+  stringField,
+} from './response-validation';
+
+/**
+ * Esquemas de las respuestas del backend, según los modelos de src/app/models
+ *
+ * Solo se verifican los campos que la aplicación utiliza; los campos
+ * adicionales que envíe el backend se ignoran.
+ */
+
+export const categorySchema: Schema = objectOf({
+  id: identifier,
+  name: stringField,
+});
+
+export const supplierSchema: Schema = objectOf({
+  id: identifier,
+  name: stringField,
+  address: optional(stringField),
+});
+
+export const productSchema: Schema = objectOf({
+  id: identifier,
+  name: stringField,
+  sku: stringField,
+  price: numberField,
+  stockQuantity: numberField,
+  reorderPoint: optional(numberField),
+  reorderQuantity: optional(numberField),
+  categoryId: optional(identifier),
+  description: optional(stringField),
+  imageUrl: optional(stringField),
+});
+
+export const userSchema: Schema = objectOf({
+  name: stringField,
+  email: stringField,
+  phoneNumber: optional(stringField),
+  role: stringField,
+});
+
+export const transactionSchema: Schema = objectOf({
+  id: identifier,
+  transactionType: oneOf('PURCHASE', 'SALE', 'RETURN_TO_SUPPLIER'),
+  status: oneOf('PENDING', 'PROCESSING', 'COMPLETED', 'CANCELED'),
+  totalProducts: numberField,
+  totalPrice: numberField,
+  createdAt: stringField,
+  product: optional(productSchema),
+  user: optional(userSchema),
+  supplier: optional(supplierSchema),
+});
+
+// Datos de paginación, presentes solo cuando el backend devuelve una página
+const pageInfo: Record<string, Schema> = {
+  totalElements: optional(numberField),
+  totalPages: optional(numberField),
+};
+
+// Respuestas con sobre { status, message, ... }
+export const apiResponseSchema: Schema = envelope();
+export const loginResponseSchema: Schema = envelope({ token: stringField, refreshToken: optional(stringField) });
+export const categoryListResponseSchema: Schema = envelope({ categories: arrayOf(categorySchema) });
+export const categoryResponseSchema: Schema = envelope({ category: categorySchema });
+export const supplierListResponseSchema: Schema = envelope({ suppliers: arrayOf(supplierSchema) });
+export const supplierResponseSchema: Schema = envelope({ supplier: supplierSchema });
+export const productListResponseSchema: Schema = envelope({ products: arrayOf(productSchema), ...pageInfo });
+export const productResponseSchema: Schema = envelope({ product: productSchema });
+export const transactionListResponseSchema: Schema = envelope({ transactions: arrayOf(transactionSchema), ...pageInfo });
+export const transactionResponseSchema: Schema = envelope({ transaction: transactionSchema });
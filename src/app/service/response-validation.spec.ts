@@ -0,0 +1,73 @@
+import { firstValueFrom, of } from 'rxjs';
+
+import { validateResponse } from './response-validation';
+import { productListResponseSchema, transactionResponseSchema } from './response-schemas';
+import { ApiError } from './api-error';
+import { Product } from '../models/product.model';
+
+describe('Response validation', () => {
+  const product = { id: 1, name: 'Yerba', sku: 'YER-1', price: 10.5, stockQuantity: 3, categoryId: 2, imageUrl: null };
+
+  beforeEach(() => {
+    spyOn(console, 'group');
+    spyOn(console, 'warn');
+    spyOn(console, 'log');
+    spyOn(console, 'groupEnd');
+  });
+
+  it('should accept responses matching the model, including extra fields', () => {
+    expect(productListResponseSchema({ status: 200, message: 'ok', products: [product], extra: true }, '$')).toEqual([]);
+    expect(productListResponseSchema({ status: 200, products: [] }, '$')).toEqual([]);
+  });
+
+  it('should only require the data when the envelope reports success', () => {
+    expect(productListResponseSchema({ status: 404, message: 'No encontrado' }, '$')).toEqual([]);
+  });
+
+  it('should report the path of every mismatch', () => {
+    const issues = productListResponseSchema({
+      status: 200,
+      products: [product, { ...product, price: '10', sku: undefined }]
+    }, '$');
+
+    expect(issues).toEqual([
+      '$.products[1].sku: se esperaba string y se recibió undefined',
+      '$.products[1].price: se esperaba number y se recibió string',
+    ]);
+  });
+
+  it('should validate enumerated values', () => {
+    const issues = transactionResponseSchema({
+      status: 200,
+      transaction: { id: 1, transactionType: 'GIFT', status: 'PENDING', totalProducts: 1, totalPrice: 5, createdAt: '2024-01-01' }
+    }, '$');
+
+    expect(issues.length).toBe(1);
+    expect(issues[0]).toContain('$.transaction.transactionType');
+  });
+
+  it('should convert numeric identifiers to text', async () => {
+    const body = await firstValueFrom(of({ status: 200, products: [{ ...product }] }).pipe(
+      validateResponse<{ products: Product[] }>(productListResponseSchema, 'http://localhost:5050/api/products/all')
+    ));
+
+    expect(body.products[0].id).toBe('1');
+    expect(body.products[0].categoryId).toBe('2');
+  });
+
+  it('should map mismatches to a friendly ApiError and log a console group', async () => {
+    const url = 'http://localhost:5050/api/products/all';
+    let error: ApiError | undefined;
+    try {
+      await firstValueFrom(of({ status: 200, products: null }).pipe(validateResponse(productListResponseSchema, url)));
+    } catch (caught) {
+      error = caught as ApiError;
+    }
+
+    expect(error?.code).toBe('invalidResponse');
+    expect(error?.message).toBe('');
+    expect(error?.url).toBe(url);
+    expect(error?.issues).toEqual(['$.products: se esperaba array y se recibió null']);
+    expect(console.group).toHaveBeenCalledWith(`[IMS] Respuesta inesperada de ${url}`);
+  });
+});
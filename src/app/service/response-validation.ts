@@ -0,0 +1,149 @@
+import { OperatorFunction, map } from 'rxjs';
+import { ApiError } from './api-error';
+
+/**
+ * Esquema de validación de una respuesta del backend
+ *
+ * Recibe el valor a verificar y la ruta del campo dentro de la respuesta
+ * (ej: "$.products[0].price") y devuelve la lista de diferencias
+ * encontradas; una lista vacía indica que el valor es válido.
+ *
+ * Los esquemas que normalizan el valor (ej: los identificadores) lo
+ * reemplazan dentro de la respuesta mediante replace, que proveen los
+ * esquemas de objetos y listas.
+ */
+export type Schema = (value: unknown, path: string, replace?: (normalized: unknown) => void) => string[];
+
+// Describe el tipo recibido en los mensajes de diagnóstico
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// Crea un esquema para un tipo primitivo
+function primitive(type: 'string' | 'number'): Schema {
+  return (value, path) => typeof value === type && !(type === 'number' && Number.isNaN(value))
+    ? []
+    : [`${path}: se esperaba ${type} y se recibió ${describe(value)}`];
+}
+
+export const stringField: Schema = primitive('string');
+export const numberField: Schema = primitive('number');
+
+/**
+ * Identificadores: el backend puede enviarlos como número o como texto;
+ * los numéricos se convierten en texto, como los declaran los modelos
+ */
+export const identifier: Schema = (value, path, replace) => {
+  if (typeof value === 'number') {
+    replace?.(String(value));
+    return [];
+  }
+  return typeof value === 'string' ? [] : [`${path}: se esperaba un identificador y se recibió ${describe(value)}`];
+};
+
+/**
+ * Acepta únicamente los valores indicados (ej: estados de una transacción)
+ * @param values - Valores permitidos
+ */
+export function oneOf(...values: readonly string[]): Schema {
+  return (value, path) => values.includes(value as string)
+    ? []
+    : [`${path}: se esperaba uno de ${values.join(', ')} y se recibió ${JSON.stringify(value)}`];
+}
+
+/**
+ * Campo que puede faltar o ser null
+ * @param schema - Esquema a aplicar cuando el campo tiene valor
+ */
+export function optional(schema: Schema): Schema {
+  return (value, path, replace) => value === undefined || value === null ? [] : schema(value, path, replace);
+}
+
+/**
+ * Lista cuyos elementos cumplen el esquema indicado
+ * @param schema - Esquema de cada elemento
+ */
+export function arrayOf(schema: Schema): Schema {
+  return (value, path) => Array.isArray(value)
+    ? value.flatMap((item, index) => schema(item, `${path}[${index}]`, (normalized) => value[index] = normalized))
+    : [`${path}: se esperaba array y se recibió ${describe(value)}`];
+}
+
+/**
+ * Objeto con los campos indicados; los campos adicionales se ignoran
+ * @param fields - Esquema de cada campo
+ */
+export function objectOf(fields: Record<string, Schema>): Schema {
+  return (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return [`${path}: se esperaba object y se recibió ${describe(value)}`];
+    }
+    const record = value as Record<string, unknown>;
+    return Object.entries(fields).flatMap(([field, schema]) =>
+      schema(record[field], `${path}.${field}`, (normalized) => record[field] = normalized)
+    );
+  };
+}
+
+/**
+ * Sobre { status, message, ... } de las respuestas del backend
+ *
+ * Los datos (products, categories, etc.) solo se exigen cuando el sobre
+ * informa éxito (status 200); en otro caso basta con el mensaje.
+ *
+ * @param data - Esquema de los campos de datos del sobre
+ */
+export function envelope(data: Record<string, Schema> = {}): Schema {
+  const header = objectOf({ status: numberField, message: optional(stringField) });
+  const payload = objectOf(data);
+  return (value, path) => {
+    const issues = header(value, path);
+    if (issues.length) return issues;
+    return (value as { status: number }).status === 200 ? payload(value, path) : [];
+  };
+}
+
+/**
+ * Muestra en la consola del navegador las diferencias encontradas en una respuesta
+ * @param url - URL de la petición
+ * @param issues - Diferencias encontradas
+ * @param body - Respuesta recibida
+ */
+function reportIssues(url: string, issues: string[], body: unknown): void {
+  console.group(`[IMS] Respuesta inesperada de ${url}`);
+  issues.forEach((issue) => console.warn(issue));
+  console.log('Respuesta recibida:', body);
+  console.groupEnd();
+}
+
+/**
+ * Operador RxJS que valida la respuesta contra un esquema
+ *
+ * Si la respuesta no coincide con el modelo esperado, informa las
+ * diferencias en la consola y emite un ApiError con el código
+ * "invalidResponse" (se muestra con un mensaje amigable) en lugar de dejar que la vista falle al leer campos inexistentes.
+ *
+ * @param schema - Esquema de la respuesta
+ * @param url - URL de la petición, para el diagnóstico
+ * @returns Operador que emite la respuesta ya tipada, con los identificadores como texto
+ */
+export function validateResponse<T>(schema: Schema, url: string): OperatorFunction<unknown, T> {
+  return map((body) => {
+    const issues = schema(body, '$');
+    if (issues.length) {
+      reportIssues(url, issues, body);
+      const error: ApiError = {
+        status: 200,
+        message: '',
+        code: 'invalidResponse',
+        url,
+        details: body,
+        issues,
+      };
+      throw error;
+    }
+    return body as T;
+  });
+}
@@ -0,0 +1,57 @@
+import { TestBed } from '@angular/core/testing';
+
+import { SecureStorageService, TamperedValueError } from './secure-storage.service';
+
+describe('SecureStorageService', () => {
+  let service: SecureStorageService;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    sessionStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(SecureStorageService);
+  });
+
+  afterEach(async () => {
+    await service.clear(['token', 'role']);
+  });
+
+  it('should encrypt values and read them back', async () => {
+    await service.setItem('token', 'abc.def.ghi');
+
+    expect(localStorage.getItem('token')).not.toContain('abc');
+    expect(await service.getItem('token')).toBe('abc.def.ghi');
+  });
+
+  it('should store each value in the chosen area', async () => {
+    await service.setItem('token', 'abc.def.ghi', 'session');
+
+    expect(sessionStorage.getItem('token')).not.toBeNull();
+    expect(localStorage.getItem('token')).toBeNull();
+    expect(await service.getItem('token')).toBe('abc.def.ghi');
+  });
+
+  it('should detect tampered values', async () => {
+    await service.setItem('role', 'CASHIER');
+    const stored = localStorage.getItem('role')!;
+    localStorage.setItem('role', stored.slice(0, -4) + (stored.endsWith('AAAA') ? 'BBBB' : 'AAAA'));
+
+    await expectAsync(service.getItem('role')).toBeRejectedWithError(TamperedValueError);
+  });
+
+  it('should reject a value copied from another key', async () => {
+    await service.setItem('role', 'CASHIER');
+    localStorage.setItem('token', localStorage.getItem('role')!);
+
+    await expectAsync(service.getItem('token')).toBeRejectedWithError(TamperedValueError);
+  });
+
+  it('should not decrypt values after the session key is discarded', async () => {
+    await service.setItem('role', 'ADMIN');
+    const stored = localStorage.getItem('role')!;
+    await service.clear(['role']);
+    localStorage.setItem('role', stored);
+
+    await expectAsync(service.getItem('role')).toBeRejectedWithError(TamperedValueError);
+  });
+});
@@ -0,0 +1,230 @@
+// Importaciones necesarias de Angular y utilidades
+import { Injectable } from '@angular/core';
+import { openDatabase, withStore } from './indexed-db';
+
+/**
+ * Área de almacenamiento del navegador donde se guarda cada valor
+ * - local: persiste entre pestañas y reinicios del navegador (localStorage)
+ * - session: se descarta al cerrar la pestaña (sessionStorage)
+ */
+export type StorageArea = 'local' | 'session';
+
+/**
+ * Error lanzado cuando un valor almacenado no supera la verificación de
+ * autenticidad (fue modificado, pertenece a otra clave o a otra sesión)
+ */
+export class TamperedValueError extends Error {
+  constructor(key: string) {
+    super(`El valor almacenado para "${key}" fue alterado o no pertenece a la sesión actual`);
+    this.name = 'TamperedValueError';
+  }
+}
+
+/**
+ * Servicio de Almacenamiento Seguro
+ * 
+ * Encripta los valores sensibles con AES-GCM usando una clave WebCrypto
+ * no extraíble, generada para cada sesión y guardada en IndexedDB (el
+ * navegador permite usarla pero nunca exportar su material). AES-GCM
+ * autentica cada valor y su nombre de clave, por lo que cualquier
+ * modificación del contenido en localStorage/sessionStorage se detecta
+ * al desencriptar.
+ */
+@Injectable({
+  providedIn: 'root' // Singleton a nivel de aplicación
+})
+export class SecureStorageService {
+
+  // Base de datos y object store donde se conserva la clave de sesión
+  private static DB_NAME = 'ims-secure-storage';
+  private static STORE_NAME = 'keys';
+  private static KEY_ID = 'session-key';
+
+  // Longitud del vector de inicialización de AES-GCM (en bytes)
+  private static IV_LENGTH = 12;
+
+  // Clave de la sesión actual ya cargada desde IndexedDB
+  private keyPromise: Promise<CryptoKey | null> | null = null;
+
+  // Codificador de texto para convertir strings a bytes
+  private encoder = new TextEncoder();
+
+  /**
+   * Encripta y guarda un valor
+   * 
+   * Si todavía no existe una clave de sesión se genera una nueva. El valor
+   * se elimina del área opuesta para que nunca quede duplicado.
+   * 
+   * @param key - Nombre del valor
+   * @param value - Valor en texto plano
+   * @param area - Área de almacenamiento elegida para el valor
+   */
+  async setItem(key: string, value: string, area: StorageArea = 'local'): Promise<void> {
+    const cryptoKey = await this.getOrCreateKey();
+    const iv = crypto.getRandomValues(new Uint8Array(SecureStorageService.IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: this.encoder.encode(key) },
+      cryptoKey,
+      this.encoder.encode(value)
+    );
+
+    const payload = new Uint8Array(iv.length + ciphertext.byteLength);
+    payload.set(iv);
+    payload.set(new Uint8Array(ciphertext), iv.length);
+
+    this.storageFor(area).setItem(key, toBase64(payload));
+    this.storageFor(area === 'local' ? 'session' : 'local').removeItem(key);
+  }
+
+  /**
+   * Recupera y desencripta un valor
+   * 
+   * @param key - Nombre del valor
+   * @returns Valor en texto plano o null si no existe
+   * @throws TamperedValueError si el valor fue alterado o no hay clave para desencriptarlo
+   */
+  async getItem(key: string): Promise<string | null> {
+    const stored = sessionStorage.getItem(key) ?? localStorage.getItem(key);
+    if (stored === null) return null;
+
+    const cryptoKey = await this.loadKey();
+    if (!cryptoKey) throw new TamperedValueError(key);
+
+    try {
+      const payload = fromBase64(stored);
+      const iv = payload.slice(0, SecureStorageService.IV_LENGTH);
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData: this.encoder.encode(key) },
+        cryptoKey,
+        payload.slice(SecureStorageService.IV_LENGTH)
+      );
+      return new TextDecoder().decode(plaintext);
+    } catch (error) {
+      throw new TamperedValueError(key);
+    }
+  }
+
+  /**
+   * Elimina un valor de ambas áreas de almacenamiento
+   * @param key - Nombre del valor
+   */
+  removeItem(key: string): void {
+    localStorage.removeItem(key);
+    sessionStorage.removeItem(key);
+  }
+
+  /**
+   * Finaliza la sesión de almacenamiento
+   * 
+   * Elimina los valores indicados y descarta la clave de sesión, de modo que
+   * la próxima sesión utilice una clave nueva.
+   * 
+   * @param keys - Nombres de los valores a eliminar
+   */
+  async clear(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.removeItem(key));
+
+    const deleted = this.openDb()
+      .then(async (db) => {
+        await withStore(db, SecureStorageService.STORE_NAME, 'readwrite',
+          (store) => store.delete(SecureStorageService.KEY_ID));
+        db.close();
+      })
+      .catch(() => undefined);
+
+    // Una sesión nueva debe esperar a que se borre la clave anterior antes de generar la suya
+    this.keyPromise = deleted.then(() => null);
+    await deleted;
+  }
+
+  /**
+   * Descarta la clave cacheada para volver a leerla de IndexedDB
+   * 
+   * Necesario cuando otra pestaña pudo haber iniciado una sesión nueva
+   * con una clave distinta.
+   */
+  reloadKey(): void {
+    this.keyPromise = null;
+  }
+
+  /**
+   * Obtiene la clave de sesión, generándola si no existe
+   * 
+   * La Promesa se cachea de inmediato para que escrituras simultáneas
+   * compartan la misma clave en lugar de generar una cada una.
+   * 
+   * @returns Clave AES-GCM no extraíble
+   */
+  private getOrCreateKey(): Promise<CryptoKey> {
+    const keyPromise = this.loadKey().then((existing) => existing ?? this.generateKey());
+    this.keyPromise = keyPromise;
+    return keyPromise;
+  }
+
+  /**
+   * Genera una clave de sesión nueva y la guarda en IndexedDB
+   * @returns Clave AES-GCM no extraíble
+   */
+  private async generateKey(): Promise<CryptoKey> {
+    const cryptoKey = await crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false, // No extraíble: el material de la clave nunca sale de WebCrypto
+      ['encrypt', 'decrypt']
+    );
+    const db = await this.openDb();
+    await withStore(db, SecureStorageService.STORE_NAME, 'readwrite',
+      (store) => store.put(cryptoKey, SecureStorageService.KEY_ID));
+    db.close();
+    return cryptoKey;
+  }
+
+  /**
+   * Carga la clave de sesión desde IndexedDB (una sola vez)
+   * @returns Clave de sesión o null si no hay sesión
+   */
+  private loadKey(): Promise<CryptoKey | null> {
+    if (!this.keyPromise) {
+      this.keyPromise = this.openDb()
+        .then(async (db) => {
+          const key = await withStore<CryptoKey | undefined>(db, SecureStorageService.STORE_NAME, 'readonly',
+            (store) => store.get(SecureStorageService.KEY_ID));
+          db.close();
+          return key ?? null;
+        })
+        .catch(() => null);
+    }
+    return this.keyPromise;
+  }
+
+  /**
+   * Abre la base de datos de claves
+   */
+  private openDb(): Promise<IDBDatabase> {
+    return openDatabase(SecureStorageService.DB_NAME, 1, (db) => {
+      db.createObjectStore(SecureStorageService.STORE_NAME);
+    });
+  }
+
+  /**
+   * Devuelve el objeto Storage correspondiente a un área
+   */
+  private storageFor(area: StorageArea): Storage {
+    return area === 'session' ? sessionStorage : localStorage;
+  }
+}
+
+/**
+ * Codifica bytes en base64
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => binary += String.fromCharCode(byte));
+  return btoa(binary);
+}
+
+/**
+ * Decodifica un string base64 a bytes
+ */
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,98 @@
+import { XlsxReadError, readXlsx, writeXlsx } from './xlsx';
+
+/**
+ * Arma un ZIP sin compresión con los archivos indicados (el CRC no se verifica al leer)
+ */
+function storedZip(files: Record<string, string>): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([path, content]) => {
+    const name = encoder.encode(path);
+    const data = encoder.encode(content);
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  });
+
+  const directorySize = centrals.reduce((size, central) => size + central.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, centrals.length, true);
+  endView.setUint16(10, centrals.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, end];
+  const zip = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let position = 0;
+  parts.forEach((part) => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip.buffer;
+}
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+describe('readXlsx', () => {
+  it('should read the first sheet with shared, inline and numeric cells', async () => {
+    const zip = storedZip({
+      'xl/workbook.xml': `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets><sheet name="Productos" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+      'xl/_rels/workbook.xml.rels': '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/sharedStrings.xml': `<sst xmlns="${MAIN_NS}"><si><t>name</t></si><si><t>price</t></si><si><r><t>Yerba </t></r><r><t>1kg</t></r></si></sst>`,
+      'xl/worksheets/sheet1.xml': `<worksheet xmlns="${MAIN_NS}"><sheetData>`
+        + '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>'
+        + '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2"><v>1850.5</v></c></row>'
+        + '<row r="3"><c r="B3" t="inlineStr"><is><t>suelto</t></is></c></row>'
+        + '<row r="4"><c r="A4" t="s"></c></row>'
+        + '</sheetData></worksheet>',
+    });
+
+    expect(await readXlsx(zip)).toEqual([
+      ['name', '', 'price'],
+      ['Yerba 1kg', '', 1850.5],
+      ['', 'suelto'],
+    ]);
+  });
+
+  it('should reject files that are not a spreadsheet with a translatable code', async () => {
+    const read = readXlsx(new TextEncoder().encode('name,sku\nYerba,Y-1').buffer);
+
+    await expectAsync(read).toBeRejectedWithError(XlsxReadError);
+    await expectAsync(read).toBeRejectedWith(jasmine.objectContaining({ code: 'invalid' }));
+  });
+
+  it('should write sheets that read back, escaping text and naming columns past Z', async () => {
+    const row = Array.from({ length: 28 }, (_, index) => index === 27 ? '<Yerba & "Mate">' : index);
+    const rows = await readXlsx(writeXlsx([['Nombre'], row], 'Productos: 1/2').slice().buffer);
+
+    expect(rows[0]).toEqual(['Nombre']);
+    expect(rows[1][26]).toBe(26);
+    expect(rows[1][27]).toBe('<Yerba & "Mate">');
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Lectura y escritura de planillas XLSX (Office Open XML)
+ *
+ * Un archivo XLSX es un ZIP con archivos XML. Este lector mínimo obtiene
+ * las celdas de la primera hoja, sin dependencias externas: lee
+ * el directorio del ZIP, descomprime con DecompressionStream y recorre el
+ * XML con DOMParser. No evalúa fórmulas (usa el último valor calculado que
+ * guardó la planilla) ni interpreta formatos de fecha.
+ *
+ * La escritura genera un libro de una sola hoja, guardado en un ZIP sin
+ * compresión.
+ */
+
+// Espacio de nombres de las relaciones (atributo r:id de las hojas)
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Espacio de nombres de las hojas de cálculo
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+
+/**
+ * Valor de una celda a escribir: los números y fechas se guardan como tales
+ * para que la planilla pueda operar con ellos
+ */
+export type XlsxCell = string | number | Date | null | undefined;
+
+/**
+ * Valor leído de una celda: los números se conservan como tales, ya que la
+ * planilla los guarda sin el formato del idioma (ej: 1850.5)
+ */
+export type XlsxValue = string | number;
+
+/**
+ * Motivo por el que no se pudo leer una planilla
+ * - invalid: el archivo no es un XLSX
+ * - missingSheet: el libro no tiene hojas o falta la primera
+ * - unsupportedCompression: el ZIP usa un método distinto de deflate
+ */
+export type XlsxErrorCode = 'invalid' | 'missingSheet' | 'unsupportedCompression';
+
+/**
+ * Error lanzado cuando no se puede leer una planilla; el código permite
+ * mostrar el motivo en el idioma activo
+ */
+export class XlsxReadError extends Error {
+  constructor(readonly code: XlsxErrorCode, message: string) {
+    super(message);
+    this.name = 'XlsxReadError';
+  }
+}
+
+/**
+ * Entrada del directorio central de un ZIP
+ */
+interface ZipEntry {
+  method: number; // 0 = sin comprimir, 8 = deflate
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Lee las celdas de la primera hoja de un archivo XLSX
+ * @param data - Contenido del archivo
+ * @returns Filas con sus celdas como texto o número; las filas vacías se omiten
+ * @throws XlsxReadError si el archivo no es un XLSX válido
+ */
+export async function readXlsx(data: ArrayBuffer): Promise<XlsxValue[][]> {
+  const entries = readZipDirectory(data);
+  const read = async (path: string): Promise<Document | null> => {
+    const entry = entries.get(path);
+    return entry ? new DOMParser().parseFromString(await extract(data, entry), 'application/xml') : null;
+  };
+
+  const workbook = await read('xl/workbook.xml');
+  const relationships = await read('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook ? elements(workbook, 'sheet')[0] : undefined;
+  if (!firstSheet || !relationships) {
+    throw new XlsxReadError('invalid', 'El archivo no es una planilla XLSX válida');
+  }
+
+  // Ubicación de la hoja según su relación (ej: "worksheets/sheet1.xml", relativa a xl/)
+  const relationshipId = firstSheet.getAttributeNS(RELATIONSHIPS_NS, 'id') ?? firstSheet.getAttribute('r:id');
+  const target = elements(relationships, 'Relationship')
+    .find((relationship) => relationship.getAttribute('Id') === relationshipId)
+    ?.getAttribute('Target');
+  const sheet = target ? await read(target.startsWith('/') ? target.slice(1) : `xl/${target}`) : null;
+  if (!sheet) {
+    throw new XlsxReadError('missingSheet', 'No se encontró la primera hoja de la planilla');
+  }
+
+  const sharedStringsDoc = await read('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsDoc ? elements(sharedStringsDoc, 'si').map(textOf) : [];
+
+  return elements(sheet, 'row')
+    .map((row) => {
+      const cells: XlsxValue[] = [];
+      elements(row, 'c').forEach((cell, index) => {
+        const reference = cell.getAttribute('r');
+        const column = reference ? columnIndex(reference) : index;
+        cells[column] = cellValue(cell, sharedStrings);
+      });
+      return Array.from(cells, (value) => value ?? '');
+    })
+    .filter((row) => row.some((value) => String(value).trim() !== ''));
+}
+
+/**
+ * Valor de una celda según su tipo (atributo t)
+ */
+function cellValue(cell: Element, sharedStrings: string[]): XlsxValue {
+  const value = elements(cell, 'v')[0]?.textContent ?? '';
+  switch (cell.getAttribute('t')) {
+    case 's': return value ? sharedStrings[Number(value)] ?? '' : '';
+    case 'inlineStr': return textOf(elements(cell, 'is')[0]);
+    case 'b': return value === '1' ? 'TRUE' : 'FALSE';
+    case 'str':
+    case 'e': return value; // Textos de fórmulas y errores
+    default: return value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : value; // Números (t="n" o sin tipo)
+  }
+}
+
+/**
+ * Índice (desde 0) de la columna de una referencia de celda (ej: "C12" es 2)
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Texto de un elemento de texto enriquecido, uniendo sus fragmentos <t>
+ */
+function textOf(element: Element | undefined): string {
+  return element ? elements(element, 't').map((text) => text.textContent ?? '').join('') : '';
+}
+
+/**
+ * Elementos descendientes con el nombre local indicado, con o sin prefijo de espacio de nombres
+ */
+function elements(parent: Document | Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+/**
+ * Lee el directorio central del ZIP
+ * @returns Entradas por ruta del archivo
+ */
+function readZipDirectory(data: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(data);
+  // El registro de fin del directorio está al final, seguido de un comentario opcional de hasta 64 KB
+  let end = -1;
+  for (let offset = data.byteLength - 22; offset >= Math.max(0, data.byteLength - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new XlsxReadError('invalid', 'El archivo no es una planilla XLSX válida');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const decoder = new TextDecoder();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(data, offset + 46, nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Extrae y descomprime un archivo del ZIP como texto
+ */
+async function extract(data: ArrayBuffer, entry: ZipEntry): Promise<string> {
+  const view = new DataView(data);
+  const header = entry.localHeaderOffset;
+  const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const bytes = new Uint8Array(data, start, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(bytes);
+  }
+  if (entry.method !== 8) {
+    throw new XlsxReadError('unsupportedCompression', 'La planilla usa un formato de compresión no soportado');
+  }
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+/**
+ * Genera un archivo XLSX de una hoja
+ *
+ * La primera fila se escribe en negrita como encabezado. Las fechas se
+ * guardan con el formato de fecha y hora corto de la planilla, que Excel
+ * muestra según la configuración regional de quien abre el archivo.
+ *
+ * @param rows - Filas de la hoja, empezando por el encabezado
+ * @param sheetName - Nombre de la hoja
+ * @returns Contenido del archivo
+ */
+export function writeXlsx(rows: readonly (readonly XlsxCell[])[], sheetName: string): Uint8Array {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, column) => xlsxCell(value, `${columnName(column)}${rowIndex + 1}`, rowIndex === 0)).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  });
+  // Excel no admite nombres de hoja de más de 31 caracteres ni con []:*?/\
+  const name = escapeXml(sheetName.replace(/[[\]:*?\/\\]/g, ' ').slice(0, 31) || 'Hoja1');
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+  return writeZip({
+    '[Content_Types].xml': `${xml}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+      + '</Types>',
+    '_rels/.rels': `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+      + '</Relationships>',
+    'xl/workbook.xml': `${xml}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIPS_NS}">`
+      + `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+      + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+      + '</Relationships>',
+    // Estilos: 0 = normal, 1 = fecha y hora (formato 22), 2 = negrita para el encabezado
+    'xl/styles.xml': `${xml}<styleSheet xmlns="${SPREADSHEET_NS}">`
+      + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+      + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+      + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+      + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+      + '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+      + '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>'
+      + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+      + '</styleSheet>',
+    'xl/worksheets/sheet1.xml': `${xml}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`,
+  });
+}
+
+/**
+ * XML de una celda según el tipo de su valor
+ */
+function xlsxCell(value: XlsxCell, reference: string, header: boolean): string {
+  const style = header ? ' s="2"' : '';
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${reference}"${style}><v>${value}</v></c>` : '';
+  }
+  if (value instanceof Date) {
+    // Días desde el 30/12/1899 en la hora local, como los guarda Excel
+    const serial = (value.getTime() - value.getTimezoneOffset() * 60000) / 86400000 + 25569;
+    return `<c r="${reference}" s="${header ? 2 : 1}"><v>${serial}</v></c>`;
+  }
+  return `<c r="${reference}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+/**
+ * Letras de una columna (desde 0) en una referencia de celda (ej: 2 es "C", 27 es "AB")
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let column = index + 1; column > 0; column = Math.floor((column - 1) / 26)) {
+    name = String.fromCharCode(65 + (column - 1) % 26) + name;
+  }
+  return name;
+}
+
+/**
+ * Escapa un texto para XML, descartando los caracteres de control que XML no admite
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Arma un ZIP sin compresión con los archivos indicados
+ * @param files - Contenido de cada archivo por ruta
+ */
+function writeZip(files: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([path, content]) => {
+    const name = encoder.encode(path);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    // Registro local: firma, versión 2.0, sin flags ni compresión, fecha 01/01/1980
+    const local = new Uint8Array(30 + name.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(12, 0x21, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    // Entrada del directorio central, que apunta al registro local
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true);
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(14, 0x21, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, data.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  });
+
+  // Registro de fin del directorio central
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, centrals.length, true);
+  endView.setUint16(10, centrals.length, true);
+  endView.setUint32(12, centrals.reduce((size, central) => size + central.length, 0), true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, end];
+  const zip = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let position = 0;
+  parts.forEach((part) => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+}
+
+// Tabla del CRC-32 (polinomio 0xEDB88320), calculada una vez al primer uso
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 de un contenido, como lo exige el formato ZIP
+ */
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,85 @@
+// Importaciones necesarias para las pruebas unitarias de Angular
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
+import { throwError } from 'rxjs';
+
+// Importación del componente que vamos a probar
+import { SessionWarningComponent } from './session-warning.component';
+import { ApiService } from '../service/api.service';
+
+/**
+ * Suite de pruebas para el SessionWarningComponent
+ * Contiene las pruebas unitarias para verificar el correcto funcionamiento
+ * del aviso de expiración de sesión
+ */
+describe('SessionWarningComponent', () => {
+  // Variables para manejar la instancia del componente y el fixture de prueba
+  let component: SessionWarningComponent;
+  let fixture: ComponentFixture<SessionWarningComponent>;
+
+  /**
+   * Configuración que se ejecuta antes de cada prueba
+   * Prepara el entorno de testing y crea una instancia del componente
+   */
+  beforeEach(async () => {
+    // Configuración del módulo de testing
+    await TestBed.configureTestingModule({
+      imports: [SessionWarningComponent], // Importar el componente standalone
+      providers: [provideHttpClient(), provideHttpClientTesting(), provideRouter([])]
+    })
+      .compileComponents(); // Compilar los componentes
+
+    // Crear una instancia del componente para testing
+    fixture = TestBed.createComponent(SessionWarningComponent);
+    component = fixture.componentInstance;
+    // Detectar cambios para inicializar el componente
+    fixture.detectChanges();
+  });
+
+  /**
+   * Prueba básica: verificar que el componente se crea correctamente
+   * Esta es una prueba fundamental que asegura que el componente
+   * puede ser instanciado sin errores
+   */
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  /**
+   * El aviso se muestra cuando ApiService anuncia la expiración próxima
+   * y se oculta al descartarlo
+   */
+  it('should show and dismiss the expiry warning', () => {
+    const expiresAt = Date.now() + 60000;
+    TestBed.inject(ApiService).sessionExpiring.emit(expiresAt);
+    expect(component.expiresAt).toBe(expiresAt);
+
+    component.dismiss();
+    expect(component.expiresAt).toBeNull();
+  });
+
+  /**
+   * Como en la pantalla de bloqueo, solo el usuario de la sesión puede renovarla
+   */
+  it('should renew the session with the email of the current user', async () => {
+    const apiService = TestBed.inject(ApiService);
+    spyOn(apiService, 'getCurrentUser').and.returnValue({
+      id: '1', name: 'Caja', email: 'caja@ims.com', phoneNumber: '', role: 'CASHIER'
+    });
+    const login = spyOn(apiService, 'loginUser').and.returnValue(
+      throwError(() => ({ status: 401, message: 'Credenciales inválidas', url: null }))
+    );
+    apiService.sessionExpiring.emit(Date.now() + 60000);
+    fixture.detectChanges();
+
+    expect((fixture.nativeElement as HTMLElement).querySelector('input[type="email"]')).toBeNull();
+
+    component.formData = { email: 'otro@ims.com', password: 'secreto' };
+    await component.handleSubmit();
+
+    expect(login).toHaveBeenCalledWith({ email: 'caja@ims.com', password: 'secreto' });
+    expect(component.message).toBe('Credenciales inválidas');
+  });
+});
@@ -0,0 +1,144 @@
+// Importaciones necesarias para el funcionamiento del componente
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, OnInit } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Subscription, firstValueFrom } from 'rxjs';
+import { ApiService } from '../service/api.service';
+import { LoginRequest } from '../models/user.model';
+import { I18nService } from '../service/i18n.service';
+import { TranslatePipe } from '../pipe/translate.pipe';
+
+/**
+ * Componente de Aviso de Expiración de Sesión
+ * Se muestra sobre el contenido cuando el token está por vencer y permite
+ * volver a autenticarse sin abandonar la pantalla actual, de modo que los
+ * formularios en curso (ventas, compras) conservan sus datos.
+ * También advierte cuando otra pestaña cambió el usuario de la sesión
+ */
+@Component({
+  selector: 'app-session-warning',
+  standalone: true,
+  imports: [CommonModule, FormsModule, TranslatePipe], // Módulos para directivas comunes y manejo de formularios
+  templateUrl: './session-warning.component.html',
+  styleUrl: './session-warning.component.css'
+})
+export class SessionWarningComponent implements OnInit, OnDestroy {
+
+  /**
+   * Constructor del componente
+   * @param apiService - Servicio que emite el aviso de expiración y renueva la sesión
+   * @param i18n - Servicio de traducciones del idioma activo
+   */
+  constructor(private apiService: ApiService, private i18n: I18nService) { }
+
+  /**
+   * Fecha de expiración (ms) de la sesión a punto de vencer; null si no hay aviso activo
+   */
+  expiresAt: number | null = null;
+
+  /**
+   * Email del usuario que inició sesión en otra pestaña; null si no hay aviso de cambio de usuario
+   */
+  switchedUser: string | null = null;
+
+  /**
+   * Email del usuario de la sesión a punto de vencer; solo ese usuario puede renovarla
+   */
+  sessionEmail: string = '';
+
+  /**
+   * Credenciales ingresadas para renovar la sesión; el email solo se pide si no se conoce el de la sesión
+   */
+  formData: LoginRequest = {
+    email: '',
+    password: '',
+  };
+
+  /**
+   * Variable para mostrar mensajes de error al usuario
+   */
+  message: string = '';
+
+  // Suscripciones a los eventos de sesión del ApiService
+  private subscriptions: Subscription[] = [];
+
+  /**
+   * Hook de ciclo de vida: escucha el aviso de expiración y los cambios de autenticación
+   */
+  ngOnInit(): void {
+    this.subscriptions.push(
+      this.apiService.sessionExpiring.subscribe((expiresAt) => {
+        this.expiresAt = expiresAt;
+        this.sessionEmail = this.apiService.getCurrentUser()?.email || '';
+      }),
+      // Otra pestaña inició sesión con otro usuario: los formularios abiertos se guardarían a su nombre
+      this.apiService.userChanged.subscribe(() => {
+        this.switchedUser = '';
+        this.apiService.loadCurrentUser().subscribe({
+          next: (user) => this.switchedUser = user?.email || '',
+          error: () => { }
+        });
+      }),
+      // Si la sesión se cierra o se renueva por otra vía, el aviso deja de tener sentido
+      this.apiService.authStatuschanged.subscribe(() => {
+        if (!this.apiService.isAuthenticated()) {
+          this.switchedUser = null;
+        }
+        if (!this.apiService.isAuthenticated() || this.apiService.getTokenExpiration() !== this.expiresAt) {
+          this.dismiss();
+        }
+      })
+    );
+  }
+
+  /**
+   * Hook de ciclo de vida: libera las suscripciones
+   */
+  ngOnDestroy(): void {
+    this.subscriptions.forEach((subscription) => subscription.unsubscribe());
+  }
+
+  /**
+   * Renueva la sesión con las credenciales ingresadas
+   * Inicia una sesión nueva sin navegar, por lo que la pantalla actual no se pierde
+   * @returns Promise<void>
+   */
+  async handleSubmit() {
+    const email = this.sessionEmail || this.formData.email;
+    if (!email || !this.formData.password) {
+      this.message = this.i18n.translate('common.requiredFields');
+      return;
+    }
+
+    try {
+      const response = await firstValueFrom(
+        this.apiService.loginUser({ email, password: this.formData.password })
+      );
+
+      if (response.status === 200) {
+        await this.apiService.startSession(response.token, response.refreshToken);
+        await firstValueFrom(this.apiService.loadCurrentUser(true));
+        this.dismiss();
+      }
+    } catch (error: unknown) {
+      this.message = this.i18n.errorMessage(error, 'sessionWarning.failed');
+    }
+  }
+
+  /**
+   * Oculta el aviso de cambio de usuario
+   */
+  dismissUserChange(): void {
+    this.switchedUser = null;
+  }
+
+  /**
+   * Oculta el aviso y limpia el formulario
+   */
+  dismiss(): void {
+    this.expiresAt = null;
+    this.sessionEmail = '';
+    this.message = '';
+    this.formData = { email: '', password: '' };
+  }
+}
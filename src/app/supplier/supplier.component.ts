@@ -2,7 +2,17 @@
 import { CommonModule } from '@angular/common';
 import { Component, OnInit } from '@angular/core';
 import { ApiService } from '../service/api.service';
+import { EntityStoreService } from '../service/entity-store.service';
+import { NotificationService } from '../service/notification.service';
+import { AsyncState, LOADING, errorState, loadedState } from '../service/async-state';
+import { AsyncStateComponent } from '../async-state/async-state.component';
+import { Supplier } from '../models/supplier.model';
 import { Router } from '@angular/router';
+import { I18nService } from '../service/i18n.service';
+import { TranslatePipe } from '../pipe/translate.pipe';
+import { ExportDialogComponent } from '../export-dialog/export-dialog.component';
+import { ExportService } from '../service/export.service';
+import { ExportColumn, ExportRequest } from '../service/export';
 
 /**
  * Componente de Gestión de Proveedores
@@ -12,7 +22,7 @@ import { Router } from '@angular/router';
 @Component({
   selector: 'app-supplier',
   standalone: true,
-  imports: [CommonModule], // Módulo necesario para directivas comunes de Angular
+  imports: [CommonModule, AsyncStateComponent, ExportDialogComponent, TranslatePipe], // Módulos para directivas comunes, estado de carga y exportación
   templateUrl: './supplier.component.html',
   styleUrl: './supplier.component.css',
 })
@@ -21,19 +31,48 @@ export class SupplierComponent implements OnInit {
   /**
    * Constructor del componente
    * @param apiService - Servicio para realizar operaciones con la API
+   * @param entityStore - Caché compartida de la lista de proveedores
    * @param router - Servicio de navegación entre rutas
+   * @param notifications - Servicio para mostrar mensajes al usuario
+   * @param i18n - Servicio de traducciones del idioma activo
+   * @param exportService - Servicio para descargar la lista en CSV o Excel
    */
-  constructor(private apiService: ApiService, private router: Router) { }
+  constructor(
+    private apiService: ApiService,
+    private entityStore: EntityStoreService,
+    private router: Router,
+    private notifications: NotificationService,
+    private i18n: I18nService,
+    private exportService: ExportService
+  ) { }
 
   /**
    * Array que almacena todos los proveedores obtenidos desde la API
    */
-  suppliers: any[] = [];
+  suppliers: Supplier[] = [];
 
   /**
-   * Variable para mostrar mensajes de éxito o error al usuario
+   * Estado de la carga de la lista (cargando, vacía, con error)
    */
-  message: string = '';
+  state: AsyncState = LOADING;
+
+  /**
+   * Columnas que se pueden exportar
+   */
+  exportColumns: ExportColumn<Supplier>[] = [
+    { key: 'name', label: 'common.name', value: (supplier) => supplier.name },
+    { key: 'address', label: 'supplierForm.address', value: (supplier) => supplier.address },
+  ];
+
+  /**
+   * true mientras el diálogo de exportación está abierto
+   */
+  exportOpen: boolean = false;
+
+  /**
+   * true mientras se cargan los proveedores a exportar
+   */
+  exporting: boolean = false;
 
   /**
    * Hook de ciclo de vida que se ejecuta después de la inicialización del componente
@@ -49,24 +88,16 @@ export class SupplierComponent implements OnInit {
    * @returns void
    */
   getSuppliers(): void {
-    this.apiService.getAllSuppliers().subscribe({
-      // Manejo de respuesta exitosa
-      next: (res: any) => {
-        if (res.status === 200) {
-          // Asignar los proveedores obtenidos al array local
-          this.suppliers = res.suppliers;
-        } else {
-          // Mostrar mensaje si la respuesta no es exitosa
-          this.showMessage(res.message);
-        }
+    this.state = LOADING;
+    this.entityStore.getSuppliers().subscribe({
+      // Asignar los proveedores obtenidos al array local
+      next: (suppliers) => {
+        this.suppliers = suppliers;
+        this.state = loadedState(suppliers);
       },
-      // Manejo de errores en la obtención de proveedores
+      // Manejo de errores (incluye respuestas sin éxito, con el mensaje del servidor)
       error: (error) => {
-        this.showMessage(
-          error?.error?.message ||
-          error?.message ||
-          'No se pudo obtener la lista de proveedores' + error
-        );
+        this.state = errorState(this.i18n.errorMessage(error, 'supplier.loadFailed'));
       },
     });
   }
@@ -76,6 +107,28 @@ export class SupplierComponent implements OnInit {
    * Utiliza el router para redireccionar a la ruta de creación
    * @returns void
    */
+  /**
+   * Descarga los proveedores con las opciones del diálogo de exportación
+   * (la lista no tiene filtros, así que siempre se exportan todos)
+   * @param request - Formato y columnas elegidos
+   * @returns void
+   */
+  handleExport(request: ExportRequest): void {
+    this.exporting = true;
+    this.entityStore.getSuppliers().subscribe({
+      next: (suppliers) => {
+        this.exporting = false;
+        this.exportOpen = false;
+        const title = this.i18n.translate('supplier.title');
+        this.exportService.download(title.toLowerCase(), title, suppliers, this.exportColumns, request);
+      },
+      error: (error) => {
+        this.exporting = false;
+        this.notifications.error(this.i18n.errorMessage(error, 'export.failed'));
+      },
+    });
+  }
+
   //Navigate to ass supplier Page
   navigateToAddSupplierPage(): void {
     this.router.navigate([`/add-supplier`]);
@@ -101,36 +154,22 @@ export class SupplierComponent implements OnInit {
   //Delete a caetgory
   handleDeleteSupplier(supplierId: string): void {
     // Mostrar diálogo de confirmación antes de eliminar
-    if (window.confirm("¿Estás seguro de que deseas eliminar este proveedor?")) {
+    if (window.confirm(this.i18n.translate('supplier.confirmDelete'))) {
       // Proceder con la eliminación si el usuario confirma
       this.apiService.deleteSupplier(supplierId).subscribe({
         // Manejo de respuesta exitosa
-        next: (res: any) => {
+        next: (res) => {
           if (res.status === 200) {
-            this.showMessage("Proveedor eliminado con éxito");
+            this.notifications.success(this.i18n.translate('supplier.deleted'));
             // Recargar la lista de proveedores para reflejar los cambios
             this.getSuppliers(); //reload the category
           }
         },
         // Manejo de errores en la eliminación
         error: (error) => {
-          this.showMessage(error?.error?.message || error?.message || "No se pudo eliminar el proveedor" + error)
+          this.notifications.error(this.i18n.errorMessage(error, 'supplier.deleteFailed'))
         }
       })
     }
   }
-
-  /**
-   * Método utilitario para mostrar mensajes temporales al usuario
-   * Los mensajes se ocultan automáticamente después de 4 segundos
-   * @param message - El mensaje a mostrar al usuario
-   */
-  showMessage(message: string) {
-    // Asignar el mensaje a la variable para mostrarlo en el template
-    this.message = message;
-    // Configurar timeout para limpiar el mensaje después de 4 segundos
-    setTimeout(() => {
-      this.message = '';
-    }, 4000);
-  }
 }
@@ -0,0 +1,73 @@
+// Importaciones necesarias para las pruebas unitarias de Angular
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+
+// Importación del componente que vamos a probar
+import { ToastComponent } from './toast.component';
+import { NotificationService } from '../service/notification.service';
+
+/**
+ * Suite de pruebas para el ToastComponent
+ * Contiene las pruebas unitarias para verificar la pila de notificaciones
+ */
+describe('ToastComponent', () => {
+  // Variables para manejar la instancia del componente y el fixture de prueba
+  let component: ToastComponent;
+  let fixture: ComponentFixture<ToastComponent>;
+  let notifications: NotificationService;
+
+  /**
+   * Configuración que se ejecuta antes de cada prueba
+   * Prepara el entorno de testing y crea una instancia del componente
+   */
+  beforeEach(async () => {
+    // Configuración del módulo de testing
+    await TestBed.configureTestingModule({
+      imports: [ToastComponent], // Importar el componente standalone
+      providers: [provideHttpClient()]
+    })
+      .compileComponents(); // Compilar los componentes
+
+    notifications = TestBed.inject(NotificationService);
+
+    // Crear una instancia del componente para testing
+    fixture = TestBed.createComponent(ToastComponent);
+    component = fixture.componentInstance;
+    // Detectar cambios para inicializar el componente
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    notifications.clear();
+  });
+
+  /**
+   * Prueba básica: verificar que el componente se crea correctamente
+   */
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  /**
+   * Las notificaciones se muestran con sus acciones y se pueden cerrar
+   */
+  it('should render notifications, run actions and dismiss them', () => {
+    const run = jasmine.createSpy('run');
+    notifications.success('Venta registrada', { actions: [{ label: 'Ver transacciones', run }] });
+    notifications.error('No se pudo guardar');
+    fixture.detectChanges();
+
+    const toasts: HTMLElement[] = Array.from(fixture.nativeElement.querySelectorAll('.toast'));
+    expect(toasts.length).toBe(2);
+    expect(toasts[0].classList).toContain('success');
+    expect(toasts[1].getAttribute('role')).toBe('alert');
+
+    toasts[0].querySelector<HTMLButtonElement>('.toast-action')!.click();
+    fixture.detectChanges();
+    expect(run).toHaveBeenCalled();
+
+    fixture.nativeElement.querySelector('.toast-close').click();
+    fixture.detectChanges();
+    expect(fixture.nativeElement.querySelectorAll('.toast').length).toBe(0);
+  });
+});
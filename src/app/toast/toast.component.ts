@@ -0,0 +1,53 @@
+// Importaciones necesarias para el funcionamiento del componente
+import { CommonModule } from '@angular/common';
+import { Component } from '@angular/core';
+import { Notification, NotificationAction, NotificationService } from '../service/notification.service';
+import { TranslatePipe } from '../pipe/translate.pipe';
+
+/**
+ * Componente de Notificaciones (toasts)
+ * Muestra apiladas las notificaciones de NotificationService. Está incluido
+ * una única vez en AppComponent, por lo que las notificaciones permanecen
+ * visibles al navegar entre rutas
+ */
+@Component({
+  selector: 'app-toast',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe], // Módulo para directivas comunes
+  templateUrl: './toast.component.html',
+  styleUrl: './toast.component.css'
+})
+export class ToastComponent {
+
+  /**
+   * Constructor del componente
+   * @param notificationService - Servicio que mantiene las notificaciones visibles
+   */
+  constructor(private notificationService: NotificationService) { }
+
+  /**
+   * Notificaciones a mostrar
+   */
+  get notifications(): readonly Notification[] {
+    return this.notificationService.list();
+  }
+
+  /**
+   * Ejecuta una acción de la notificación (ej: "Deshacer") y la cierra
+   * @param notification - Notificación que contiene la acción
+   * @param action - Acción elegida
+   * @returns void
+   */
+  runAction(notification: Notification, action: NotificationAction): void {
+    this.notificationService.runAction(notification.id, action);
+  }
+
+  /**
+   * Cierra una notificación
+   * @param notification - Notificación a cerrar
+   * @returns void
+   */
+  dismiss(notification: Notification): void {
+    this.notificationService.dismiss(notification.id);
+  }
+}
@@ -3,7 +3,15 @@ import { CommonModule } from '@angular/common'; // Directivas comunes como *ngIf
 import { Component, OnInit } from '@angular/core'; // Decorador Component e interfaz OnInit
 import { FormsModule } from '@angular/forms'; // Para formularios y two-way binding
 import { ApiService } from '../service/api.service'; // Servicio para comunicación con la API
+import { NotificationService } from '../service/notification.service';
+import { AsyncState, LOADING, errorState, loadedState } from '../service/async-state';
+import { AsyncStateComponent } from '../async-state/async-state.component';
+import { Transaction, TransactionStatus } from '../models/transaction.model';
 import { ActivatedRoute, Router } from '@angular/router'; // Para navegación y parámetros de ruta
+import { HasPermissionDirective } from '../directive/has-permission.directive'; // Para ocultar acciones sin permiso
+import { I18nService } from '../service/i18n.service';
+import { TranslatePipe } from '../pipe/translate.pipe';
+import { MoneyPipe } from '../pipe/money.pipe';
 
 /**
  * Componente TransactionDetailsComponent
@@ -21,7 +29,7 @@ import { ActivatedRoute, Router } from '@angular/router'; // Para navegación y
 @Component({
   selector: 'app-transaction-details', // Selector para usar el componente en templates
   standalone: true, // Componente independiente, no requiere módulo padre
-  imports: [CommonModule, FormsModule], // Módulos necesarios para funcionalidad
+  imports: [CommonModule, FormsModule, AsyncStateComponent, HasPermissionDirective, TranslatePipe, MoneyPipe], // Módulos necesarios para funcionalidad
   templateUrl: './transaction-details.component.html', // Template HTML del componente
   styleUrl: './transaction-details.component.css', // Estilos CSS del componente
 })
@@ -34,24 +42,28 @@ export class TransactionDetailsComponent implements OnInit {
    * - ApiService: Para realizar llamadas HTTP a la API del backend
    * - ActivatedRoute: Para acceder a los parámetros de la ruta actual
    * - Router: Para navegación programática entre componentes
+   * - NotificationService: Para mostrar mensajes al usuario
+   * - I18nService: Para mostrar los mensajes en el idioma activo
    */
   constructor(
     private apiService: ApiService,
     private route: ActivatedRoute,
-    private router: Router
+    private router: Router,
+    private notifications: NotificationService,
+    private i18n: I18nService
   ) { }
 
   // ID de la transacción obtenido desde los parámetros de la URL
   transactionId: string | null = '';
 
   // Objeto que contiene todos los detalles de la transacción
-  transaction: any = null;
+  transaction: Transaction | null = null;
 
-  // Estado actual de la transacción (pending, completed, cancelled, etc.)
-  status: string = '';
+  // Estado de la carga de los detalles (cargando o con error)
+  state: AsyncState = LOADING;
 
-  // Mensaje para mostrar información o errores al usuario
-  message: string = ''
+  // Estado actual de la transacción (pending, completed, cancelled, etc.)
+  status: TransactionStatus | '' = '';
 
   /**
    * Método del ciclo de vida OnInit
@@ -80,33 +92,35 @@ export class TransactionDetailsComponent implements OnInit {
    * - Valida que existe un ID de transacción válido
    * - Realiza llamada HTTP para obtener datos
    * - Actualiza el estado del componente con los datos recibidos
-   * - Maneja errores de comunicación con el servidor
+   * - Muestra los errores de comunicación con opción de reintentar
    */
   getTransactionDetails(): void {
     // Verifica que existe un ID de transacción antes de hacer la llamada
     if (this.transactionId) {
+      this.state = LOADING;
       // Llamada al servicio API para obtener detalles de la transacción
       this.apiService.getTransactionById(this.transactionId).subscribe({
         // Manejo de respuesta exitosa
-        next: (transactionData: any) => {
+        next: (transactionData) => {
           // Verifica que la respuesta del servidor sea exitosa (status 200)
           if (transactionData.status === 200) {
             // Asigna los datos de la transacción al objeto local
             this.transaction = transactionData.transaction;
             // Actualiza el estado actual de la transacción
             this.status = this.transaction.status;
+            this.state = loadedState(this.transaction);
+          } else {
+            this.state = errorState(this.i18n.errorMessage(transactionData, 'transactionDetails.loadFailed'));
           }
         },
         // Manejo de errores en la comunicación con el servidor
         error: (error) => {
-          // Muestra mensaje de error con información detallada
-          this.showMessage(
-            error?.error?.message ||
-            error?.message ||
-            'No se pudo obtener la transacción' + error
-          );
+          // Muestra el error con información detallada y opción de reintentar
+          this.state = errorState(this.i18n.errorMessage(error, 'transactionDetails.loadFailed'));
         }
       })
+    } else {
+      this.state = { status: 'error', message: this.i18n.translate('transactionDetails.notFound') };
     }
   }
 
@@ -135,35 +149,18 @@ export class TransactionDetailsComponent implements OnInit {
         // Manejo de errores durante la actualización
         error: (error) => {
           // Muestra mensaje de error detallado al usuario
-          this.showMessage(
-            error?.error?.message ||
-            error?.message ||
-            'No se pudo actualizar la transacción' + error
-          );
+          this.notifications.error(this.i18n.errorMessage(error, 'transactionDetails.updateFailed'));
         }
       })
     }
   }
 
   /**
-   * Muestra un mensaje temporal al usuario
-   * 
-   * Utilidad para mostrar mensajes informativos o de error que se ocultan
-   * automáticamente después de un período de tiempo determinado.
-   * 
-   * @param message - El mensaje de texto a mostrar al usuario
-   * 
-   * Características:
-   * - Muestra el mensaje inmediatamente
-   * - Se oculta automáticamente después de 4 segundos
-   * - Útil para feedback de operaciones y manejo de errores
+   * Nombre del rol en el idioma activo
+   * @param role - Rol tal como lo envía el backend
+   * @returns Nombre del rol a mostrar
    */
-  showMessage(message: string) {
-    // Asigna el mensaje para mostrarlo en el template
-    this.message = message;
-    // Programa la limpieza del mensaje después de 4 segundos
-    setTimeout(() => {
-      this.message = '';
-    }, 4000);
+  roleLabel(role: string): string {
+    return this.i18n.roleLabel(role);
   }
-}
+}
\ No newline at end of file
@@ -4,7 +4,18 @@ import { PaginationComponent } from '../pagination/pagination.component';
 import { FormsModule } from '@angular/forms';
 import { CommonModule } from '@angular/common';
 import { ApiService } from '../service/api.service';
+import { AsyncState, LOADING, errorState, loadedState } from '../service/async-state';
+import { AsyncStateComponent } from '../async-state/async-state.component';
+import { Transaction } from '../models/transaction.model';
 import { Router } from '@angular/router';
+import { I18nService } from '../service/i18n.service';
+import { TranslatePipe } from '../pipe/translate.pipe';
+import { MoneyPipe } from '../pipe/money.pipe';
+import { ExportDialogComponent } from '../export-dialog/export-dialog.component';
+import { ExportService } from '../service/export.service';
+import { ExportColumn, ExportRequest, exportDate } from '../service/export';
+import { NotificationService } from '../service/notification.service';
+import { loadAllPages } from '../service/pagination';
 
 /**
  * Componente de Gestión de Transacciones
@@ -14,7 +25,7 @@ import { Router } from '@angular/router';
 @Component({
   selector: 'app-transaction',
   standalone: true,
-  imports: [PaginationComponent, FormsModule, CommonModule], // Módulos para paginación, formularios y directivas comunes
+  imports: [PaginationComponent, AsyncStateComponent, ExportDialogComponent, FormsModule, CommonModule, TranslatePipe, MoneyPipe], // Módulos para paginación, estado de carga, exportación, formularios y directivas comunes
   templateUrl: './transaction.component.html',
   styleUrl: './transaction.component.css'
 })
@@ -24,18 +35,27 @@ export class TransactionComponent implements OnInit {
    * Constructor del componente
    * @param apiService - Servicio para realizar operaciones con la API
    * @param router - Servicio de navegación entre rutas
+   * @param i18n - Servicio de traducciones del idioma activo
+   * @param exportService - Servicio para descargar la lista en CSV o Excel
+   * @param notifications - Servicio para mostrar mensajes al usuario
    */
-  constructor(private apiService: ApiService, private router: Router) { }
+  constructor(
+    private apiService: ApiService,
+    private router: Router,
+    private i18n: I18nService,
+    private exportService: ExportService,
+    private notifications: NotificationService
+  ) { }
 
   /**
    * Array que almacena las transacciones para la página actual
    */
-  transactions: any[] = [];
+  transactions: Transaction[] = [];
 
   /**
-   * Variable para mostrar mensajes de éxito o error al usuario
+   * Estado de la carga de la lista (cargando, vacía, con error)
    */
-  message: string = '';
+  state: AsyncState = LOADING;
 
   /**
    * Valor del campo de entrada para búsqueda (binding con el input)
@@ -62,6 +82,32 @@ export class TransactionComponent implements OnInit {
    */
   itemsPerPage: number = 10;
 
+  /**
+   * Columnas que se pueden exportar
+   */
+  exportColumns: ExportColumn<Transaction>[] = [
+    { key: 'createdAt', label: 'transaction.date', value: (transaction) => exportDate(transaction.createdAt) },
+    { key: 'type', label: 'transaction.type', value: (transaction) => this.i18n.valueLabel('transactionType', transaction.transactionType) },
+    { key: 'status', label: 'transaction.status', value: (transaction) => this.i18n.valueLabel('transactionStatus', transaction.status) },
+    { key: 'totalProducts', label: 'transaction.totalProducts', value: (transaction) => transaction.totalProducts },
+    { key: 'totalPrice', label: 'transaction.totalPrice', value: (transaction) => transaction.totalPrice },
+    { key: 'product', label: 'export.product', value: (transaction) => transaction.product?.name },
+    { key: 'sku', label: 'productForm.sku', value: (transaction) => transaction.product?.sku },
+    { key: 'supplier', label: 'export.supplier', value: (transaction) => transaction.supplier?.name },
+    { key: 'user', label: 'export.user', value: (transaction) => transaction.user?.name },
+    { key: 'description', label: 'common.description', value: (transaction) => transaction.description },
+  ];
+
+  /**
+   * true mientras el diálogo de exportación está abierto
+   */
+  exportOpen: boolean = false;
+
+  /**
+   * true mientras se cargan las transacciones a exportar
+   */
+  exporting: boolean = false;
+
   /**
    * Hook de ciclo de vida que se ejecuta después de la inicialización del componente
    * Carga automáticamente la lista de transacciones
@@ -71,34 +117,27 @@ export class TransactionComponent implements OnInit {
   }
 
   /**
-   * Método para cargar y paginar las transacciones desde la API
-   * Aplica filtros de búsqueda y calcula la paginación del lado del cliente
+   * Método para cargar la página actual de transacciones desde la API
+   * Envía el filtro de búsqueda y la página al backend; si este devuelve
+   * la lista completa, ApiService la recorta del lado del cliente
    * @returns void
    */
   loadTransactions(): void {
-    this.apiService.getAllTransactions(this.valueToSearch).subscribe({
+    this.state = LOADING;
+    this.apiService.getTransactionsPage({
+      page: this.currentPage,
+      size: this.itemsPerPage,
+      filter: this.valueToSearch,
+    }).subscribe({
       // Manejo de respuesta exitosa
-      next: (res: any) => {
-        // Obtener array de transacciones o array vacío si no existen
-        const transactions = res.transactions || [];
-
-        // Calcular total de páginas basado en transacciones totales e items por página
-        this.totalPages = Math.ceil(transactions.length / this.itemsPerPage);
-
-        // Aplicar paginación: obtener transacciones para la página actual
-        this.transactions = transactions.slice(
-          (this.currentPage - 1) * this.itemsPerPage,
-          this.currentPage * this.itemsPerPage
-        );
-
+      next: (page) => {
+        this.transactions = page.items;
+        this.totalPages = page.totalPages;
+        this.state = loadedState(page.items);
       },
-      // Manejo de errores en la obtención de transacciones
+      // Manejo de errores en la obtención de transacciones (se muestra con opción de reintentar)
       error: (error) => {
-        this.showMessage(
-          error?.error?.message ||
-          error?.message ||
-          'No se pudo obtener la lista de transacciones' + error
-        );
+        this.state = errorState(this.i18n.errorMessage(error, 'transaction.loadFailed'));
       },
     });
   }
@@ -117,6 +156,29 @@ export class TransactionComponent implements OnInit {
     this.loadTransactions()
   }
 
+  /**
+   * Descarga las transacciones con las opciones del diálogo de exportación
+   * La vista actual conserva la búsqueda aplicada (todas sus páginas)
+   * @param request - Formato, alcance y columnas elegidos
+   * @returns void
+   */
+  handleExport(request: ExportRequest): void {
+    const filter = request.scope === 'view' ? this.valueToSearch || undefined : undefined;
+    this.exporting = true;
+    loadAllPages((page) => this.apiService.getTransactionsPage(page), { filter }).subscribe({
+      next: (transactions) => {
+        this.exporting = false;
+        this.exportOpen = false;
+        const title = this.i18n.translate('transaction.title');
+        this.exportService.download(title.toLowerCase(), title, transactions, this.exportColumns, request);
+      },
+      error: (error) => {
+        this.exporting = false;
+        this.notifications.error(this.i18n.errorMessage(error, 'export.failed'));
+      },
+    });
+  }
+
   /**
    * Método para navegar a la página de detalles de una transacción específica
    * Utiliza el router para redireccionar con el ID de la transacción
@@ -139,16 +201,14 @@ export class TransactionComponent implements OnInit {
   }
 
   /**
-   * Método utilitario para mostrar mensajes temporales al usuario
-   * Los mensajes se ocultan automáticamente después de 4 segundos
-   * @param message - El mensaje a mostrar al usuario
+   * Método para manejar el cambio de cantidad de transacciones por página
+   * Vuelve a la primera página con el nuevo tamaño
+   * @param size - Cantidad de transacciones por página
+   * @returns void
    */
-  showMessage(message: string) {
-    // Asignar el mensaje a la variable para mostrarlo en el template
-    this.message = message;
-    // Configurar timeout para limpiar el mensaje después de 4 segundos
-    setTimeout(() => {
-      this.message = '';
-    }, 4000);
+  onPageSizeChange(size: number): void {
+    this.itemsPerPage = size;
+    this.currentPage = 1;
+    this.loadTransactions();
   }
 }
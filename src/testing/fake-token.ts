@@ -0,0 +1,22 @@
+/**
+ * Claims del JWT de prueba
+ * - sub: usuario (por defecto "test@ims.com"; null genera un token sin este claim)
+ * - role: rol declarado en los claims (se omite si no se indica)
+ * - exp: expiración en segundos (por defecto, dentro de una hora)
+ */
+export interface FakeTokenClaims {
+  sub?: string | null;
+  role?: string;
+  exp?: number;
+}
+
+/**
+ * Genera un JWT sin firma válida con los claims indicados, para las pruebas
+ * que inician una sesión
+ * @param claims - Claims del token
+ */
+export function fakeToken(claims: FakeTokenClaims = {}): string {
+  const encode = (value: object) => btoa(JSON.stringify(value)).replace(/=+$/, '');
+  const { sub = 'test@ims.com', role, exp = Math.floor(Date.now() / 1000) + 3600 } = claims;
+  return `${encode({ alg: 'HS256' })}.${encode({ sub: sub ?? undefined, exp, role })}.signature`;
+}